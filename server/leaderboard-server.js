@@ -0,0 +1,157 @@
+// ============================================================================
+// LEADERBOARD SERVER
+// Small reference implementation of the service src/utils/leaderboardClient.ts
+// talks to, for running a shared office leaderboard or testing locally.
+// Scores are kept in memory; restart it and the board starts over.
+//
+//   node server/leaderboard-server.js            (PORT defaults to 8787)
+//
+//   POST /scores                         -> 201 { entry, rank }, 200 for a
+//                                           submissionId already accepted,
+//                                           400 when the submission is invalid
+//   GET  /scores/:gameId?mode=&limit=    -> 200 { gameId, mode, entries }
+// ============================================================================
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+export const DEFAULT_PORT = 8787;
+const MAX_LIMIT = 100;
+const MAX_BODY_BYTES = 16 * 1024;
+const INITIALS_PATTERN = /^[A-Z0-9 ]{1,3}$/;
+const REPLAY_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+const isNonEmptyString = value => typeof value === 'string' && value.length > 0 && value.length <= 100;
+
+// Returns a list of problems, empty when the submission can be stored
+export const validateSubmission = body => {
+  if (typeof body !== 'object' || body === null) return ['expected a JSON object'];
+
+  const problems = [];
+  if (!isNonEmptyString(body.submissionId)) problems.push('submissionId is required');
+  if (!isNonEmptyString(body.gameId)) problems.push('gameId is required');
+  if (!isNonEmptyString(body.mode)) problems.push('mode is required');
+  if (!Number.isSafeInteger(body.score) || body.score < 0) problems.push('score must be a whole number of at least 0');
+  if (typeof body.initials !== 'string' || !INITIALS_PATTERN.test(body.initials)) problems.push('initials must be 1-3 of A-Z, 0-9 or space');
+  if (typeof body.replayHash !== 'string' || !REPLAY_HASH_PATTERN.test(body.replayHash)) problems.push('replayHash must be a SHA-256 hex digest');
+  if (body.seed !== undefined && !isNonEmptyString(body.seed)) problems.push('seed must be a string');
+  return problems;
+};
+
+// Best first; equal scores keep the order they were submitted in
+const byRank = (a, b) => b.score - a.score || a.submittedAt - b.submittedAt;
+
+export const createLeaderboardStore = ({ now = Date.now } = {}) => {
+  const tables = new Map();        // `${gameId}|${mode}` -> entries, best first
+  const accepted = new Map();      // submissionId -> { entry, key }
+
+  const rankOf = (key, entry) => tables.get(key).indexOf(entry) + 1;
+
+  return {
+    submit(body) {
+      const previous = accepted.get(body.submissionId);
+      if (previous) return { entry: previous.entry, rank: rankOf(previous.key, previous.entry), duplicate: true };
+
+      const entry = {
+        id: randomUUID(),
+        gameId: body.gameId,
+        mode: body.mode,
+        score: body.score,
+        initials: body.initials,
+        replayHash: body.replayHash,
+        ...(body.seed !== undefined ? { seed: body.seed } : {}),
+        submittedAt: now()
+      };
+      const key = `${entry.gameId}|${entry.mode}`;
+      tables.set(key, [...(tables.get(key) ?? []), entry].sort(byRank));
+      accepted.set(body.submissionId, { entry, key });
+      return { entry, rank: rankOf(key, entry), duplicate: false };
+    },
+
+    top(gameId, mode, limit) {
+      return (tables.get(`${gameId}|${mode}`) ?? []).slice(0, limit);
+    }
+  };
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readJson = request => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  request.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('body too large'));
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new Error('body is not valid JSON'));
+    }
+  });
+  request.on('error', reject);
+});
+
+export const createLeaderboardServer = (store = createLeaderboardStore()) =>
+  createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method === 'OPTIONS') {
+      send(response, 204);
+      return;
+    }
+
+    if (request.method === 'POST' && url.pathname === '/scores') {
+      let body;
+      try {
+        body = await readJson(request);
+      } catch (error) {
+        send(response, 400, { error: error.message });
+        return;
+      }
+
+      const problems = validateSubmission(body);
+      if (problems.length > 0) {
+        send(response, 400, { error: 'invalid submission', problems });
+        return;
+      }
+
+      const { entry, rank, duplicate } = store.submit(body);
+      send(response, duplicate ? 200 : 201, { entry, rank });
+      return;
+    }
+
+    const match = url.pathname.match(/^\/scores\/([^/]+)$/);
+    if (request.method === 'GET' && match) {
+      const gameId = decodeURIComponent(match[1]);
+      const mode = url.searchParams.get('mode') || 'standard';
+      const limit = Math.min(MAX_LIMIT, Math.max(1, Number.parseInt(url.searchParams.get('limit') ?? '10', 10) || 10));
+      send(response, 200, { gameId, mode, entries: store.top(gameId, mode, limit) });
+      return;
+    }
+
+    send(response, 404, { error: 'not found' });
+  });
+
+// Started directly rather than imported by a test
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  createLeaderboardServer().listen(port, () => {
+    console.log(`Leaderboard server listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createLeaderboardServer } from './leaderboard-server.js';
+import {
+  createLeaderboardClient,
+  hashReplay,
+  type LeaderboardStorage,
+  type QueuedSubmission
+} from '../src/utils/leaderboardClient';
+
+const memoryStorage = (): LeaderboardStorage => {
+  const values: { leaderboardQueue?: QueuedSubmission[] } = {};
+  return {
+    get: key => values[key] ?? null,
+    set: (key, value) => {
+      values[key] = value;
+    }
+  };
+};
+
+const listen = (server: Server, port = 0) => new Promise<number>(resolve => {
+  server.listen(port, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+});
+
+const close = (server: Server) => new Promise<void>(resolve => server.close(() => resolve()));
+
+describe('leaderboard server', () => {
+  let server: Server;
+  let port: number;
+
+  beforeEach(async () => {
+    server = createLeaderboardServer();
+    port = await listen(server);
+  });
+
+  afterEach(async () => {
+    if (server.listening) await close(server);
+  });
+
+  const client = (storage = memoryStorage()) =>
+    createLeaderboardClient({ baseUrl: `http://127.0.0.1:${port}/`, storage });
+
+  it('ranks submitted scores and returns the board per game and mode', async () => {
+    const leaderboard = client();
+    const replayHash = await hashReplay({ score: 700 });
+
+    await leaderboard.submit({ gameId: 'metris', mode: 'standard', score: 400, initials: 'NEO', replayHash });
+    const result = await leaderboard.submit({ gameId: 'metris', mode: 'standard', score: 700, initials: 'TRN', replayHash });
+    await leaderboard.submit({
+      gameId: 'metris', mode: 'challenge', score: 90, initials: 'MOR', seed: 'daily-2026-10-19:metris_combo', replayHash
+    });
+
+    expect(result).toMatchObject({ status: 'submitted', rank: 1, entry: { initials: 'TRN', score: 700 } });
+    expect((await leaderboard.fetch('metris')).map(entry => entry.score)).toEqual([700, 400]);
+    expect(await leaderboard.fetch('metris', 'challenge')).toEqual([
+      expect.objectContaining({ seed: 'daily-2026-10-19:metris_combo' })
+    ]);
+    expect(await leaderboard.fetch('snakeClassic')).toEqual([]);
+  });
+
+  it('accepts a resent submission only once', async () => {
+    const submission = {
+      submissionId: 'sub-1', gameId: 'snakeClassic', mode: 'standard', score: 50, initials: 'AB ',
+      replayHash: await hashReplay({ score: 50 }), queuedAt: 1
+    };
+    const post = () => fetch(`http://127.0.0.1:${port}/scores`, { method: 'POST', body: JSON.stringify(submission) });
+
+    expect((await post()).status).toBe(201);
+    expect((await post()).status).toBe(200);
+    expect(await client().fetch('snakeClassic')).toHaveLength(1);
+  });
+
+  it('queues scores while the service is down and sends them when it is back', async () => {
+    const storage = memoryStorage();
+    const leaderboard = client(storage);
+    const replayHash = await hashReplay({ score: 10 });
+    await close(server);
+
+    const queued = await leaderboard.submit({ gameId: 'vortexPong', mode: 'standard', score: 10, initials: 'ZIO', replayHash });
+    await leaderboard.submit({ gameId: 'vortexPong', mode: 'standard', score: 20, initials: 'ZIO', replayHash });
+    expect(queued.status).toBe('queued');
+    expect(leaderboard.getQueue()).toHaveLength(2);
+
+    server = createLeaderboardServer();
+    await listen(server, port);
+
+    expect(await leaderboard.flush()).toEqual({ sent: 2, dropped: 0 });
+    expect(leaderboard.getQueue()).toEqual([]);
+    expect((await leaderboard.fetch('vortexPong')).map(entry => entry.score)).toEqual([20, 10]);
+  });
+
+  it('rejects invalid scores instead of queueing them', async () => {
+    const leaderboard = client();
+
+    await expect(leaderboard.submit({
+      gameId: 'metris', mode: 'standard', score: -5, initials: 'NEO', replayHash: 'not-a-hash'
+    })).rejects.toThrow('HTTP 400');
+    expect(leaderboard.getQueue()).toEqual([]);
+  });
+
+  it('drops a queued score the service rejects so the rest still send', async () => {
+    const storage = memoryStorage();
+    const replayHash = await hashReplay({ score: 30 });
+    storage.set('leaderboardQueue', [
+      { submissionId: 'bad', gameId: 'metris', mode: 'standard', score: 1.5, initials: 'NEO', replayHash, queuedAt: 1, attempts: 0 },
+      { submissionId: 'good', gameId: 'metris', mode: 'standard', score: 30, initials: 'NEO', replayHash, queuedAt: 2, attempts: 0 }
+    ]);
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await client(storage).flush()).toEqual({ sent: 1, dropped: 1 });
+    expect((await client().fetch('metris')).map(entry => entry.score)).toEqual([30]);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import App from './App';
 
 // Create mock objects
@@ -16,10 +16,15 @@ const mockSoundSystem = {
 const mockAchievementManager = {
   toggleDisplay: vi.fn(),
   notificationQueue: [],
+  queuedNotifications: 0,
   dismissNotification: vi.fn(),
   isDisplayOpen: false,
   closeDisplay: vi.fn(),
   achievements: [],
+  stats: { total: 0, unlocked: 0, percentage: 0, byGame: {}, gamerscore: 0, maxGamerscore: 0 },
+  openDisplay: vi.fn(),
+  emit: vi.fn(),
+  armChallenge: vi.fn(),
 };
 
 const mockMobileDetection = {
@@ -49,6 +54,7 @@ describe('App Component', () => {
     mockAchievementManager.notificationQueue = [];
     mockMobileDetection.isMobile = false;
     mockMobileDetection.isTablet = false;
+    window.history.replaceState(null, '', '/');
   });
 
   it('renders header with game title', () => {
@@ -119,7 +125,7 @@ describe('App Component', () => {
     expect(screen.getByText('CTRL-S | The World')).toBeInTheDocument();
   });
 
-  it('handles ESC key to exit game', () => {
+  it('handles ESC key to pause and quit game', () => {
     render(<App />);
     
     // Start a game
@@ -128,11 +134,28 @@ describe('App Component', () => {
     
     // Press ESC
     fireEvent.keyDown(window, { key: 'Escape' });
+    fireEvent.keyUp(window, { key: 'Escape' });
+    expect(screen.getByRole('dialog', { name: 'Paused' })).toBeInTheDocument();
     
     // Should return to game selection
+    fireEvent.click(screen.getByText('QUIT TO MENU'));
     expect(screen.getByText('PLAY')).toBeInTheDocument();
   });
 
+  it('pauses when the window loses focus and resumes from the pause menu', () => {
+    render(<App />);
+    fireEvent.click(screen.getByText('PLAY'));
+
+    act(() => {
+      window.dispatchEvent(new Event('blur'));
+    });
+    expect(screen.getByRole('dialog', { name: 'Paused' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('RESUME'));
+    expect(screen.queryByRole('dialog', { name: 'Paused' })).not.toBeInTheDocument();
+    expect(screen.queryByText('PLAY')).not.toBeInTheDocument();
+  });
+
   it('handles Enter key to start game', () => {
     render(<App />);
     
@@ -143,6 +166,42 @@ describe('App Component', () => {
     expect(screen.queryByText('PLAY')).not.toBeInTheDocument();
   });
 
+  it('opens straight into the game a link names and leaves it on Back', () => {
+    window.history.replaceState(null, '', '/play/snake-classic');
+    render(<App />);
+
+    expect(screen.queryByText('PLAY')).not.toBeInTheDocument();
+
+    act(() => {
+      window.history.pushState(null, '', '/games/snake-classic');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+
+    expect(screen.getByText('PLAY')).toBeInTheDocument();
+    expect(screen.getByText('Snake Classic', { selector: 'h2' })).toBeInTheDocument();
+  });
+
+  it('adds a history entry for entering a game', () => {
+    render(<App />);
+
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(window.location.pathname).toBe('/games/snake-classic');
+    fireEvent.keyDown(window, { key: 'Enter' });
+    expect(window.location.pathname).toBe('/play/snake-classic');
+  });
+
+  it('lets phones play with on-screen controls', () => {
+    mockMobileDetection.isMobile = true;
+    render(<App />);
+
+    // Snake Classic, which is steered with a D-pad
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    fireEvent.click(screen.getByText('PLAY'));
+
+    expect(screen.getByTestId('touch-controls')).toBeInTheDocument();
+    expect(screen.getByLabelText('Up')).toBeInTheDocument();
+  });
+
   it('toggles mute state', () => {
     render(<App />);
     const muteButton = screen.getByTitle('Mute Sound');
@@ -161,7 +220,7 @@ describe('App Component', () => {
   it('shows correct keyboard hints', () => {
     render(<App />);
     
-    expect(screen.getByText('← → Navigate Games • Enter to Play • ESC to Exit')).toBeInTheDocument();
+    expect(screen.getByText('← → Navigate Games • Enter to Play • ESC to Pause')).toBeInTheDocument();
     expect(screen.getByText('A for Achievements • V to Toggle Mute')).toBeInTheDocument();
   });
 
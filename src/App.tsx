@@ -11,48 +11,76 @@ import './styles/theme.css';
 import './styles/animations.css';
 import {
   Monitor,
-  Gamepad2,
   ChevronLeft,
   ChevronRight,
   Play,
-  Disc3,
-  Keyboard,
   LucideClipboardSignature,
   Settings,
   Save,
-  Crosshair,
-  X,
+  Pause,
   Volume2,
   VolumeX,
-  Blocks,
+  User,
+  Award,
+  Trophy,
+  BarChart3,
 } from 'lucide-react';
-import SimpleSnake from './components/games/SimpleSnake';
-import VortexPong from './components/games/VortexPong';
-import CtrlSWorld from './components/games/CtrlSWorld';
-import MatrixCloud from './components/games/MatrixCloud';
-import MatrixInvaders from './components/games/MatrixInvaders';
-import Metris from './components/games/Metris';
+import { GAME_REGISTRY } from './data/gameRegistry';
+import { ARCADE_CONTEXT } from './data/inputBindings';
+import { inputManager } from './utils/inputManager';
+import {
+  STANDARD_LAUNCH,
+  challengeForRoute,
+  gameIndexFor,
+  launchOptionsFor,
+  parseRoute,
+  routeFor,
+  type ArcadeRoute
+} from './utils/arcadeRoute';
+import { getLeaderboardClient } from './utils/leaderboardClient';
 import AudioSettings from './components/ui/AudioSettings';
 import SaveLoadManager from './components/ui/SaveLoadManager';
+import ProfileManager from './components/ui/ProfileManager';
+import StatsDashboard from './components/ui/StatsDashboard';
 import { AchievementQueue } from './components/ui/AchievementNotification';
 import { AchievementDisplay } from './components/ui/AchievementDisplay';
 import { PWAInstallPrompt } from './components/ui/PWAInstallPrompt';
 import { PWAUpdatePrompt } from './components/ui/PWAUpdatePrompt';
-import { MobileWarning } from './components/ui/MobileWarning';
+import { TouchControls } from './components/ui/TouchControls';
+import { PauseMenu } from './components/ui/PauseMenu';
+import { ChallengePanel } from './components/ui/ChallengePanel';
+import { HallOfFame } from './components/ui/HallOfFame';
 import { useSoundSystem } from './hooks/useSoundSystem';
 import { useAchievementManager } from './hooks/useAchievementManager';
 import { useMobileDetection } from './hooks/useMobileDetection';
-import { useSaveSystem } from './hooks/useSaveSystem';
+import { useGameInput } from './hooks/useGameInput';
+import { useArcadeRoute } from './hooks/useArcadeRoute';
 import { GameStateProvider } from './contexts/GameStateContext';
-import matrixInvadersPreview from './images/matrixinvaders.webp';
-import metrisPreview from './images/metris.webp';
-
-function App() {
-  const [selectedGame, setSelectedGame] = useState<number>(0);
-  const [isPlaying, setIsPlaying] = useState(false);
+import { ProfileProvider } from './contexts/ProfileContext';
+import { useProfiles } from './hooks/useProfiles';
+import type { ActiveChallenge } from './types/challenge';
+import type { GameLaunchOptions } from './types/game';
+
+// How long the carousel sits untouched before the Hall of Fame takes over
+const ATTRACT_DELAY_MS = 30000;
+
+function Arcade() {
+  // A deep link picks the game, and whether it's being played, on load
+  const [initialRoute] = useState(() => parseRoute(window.location));
+  const [selectedGame, setSelectedGame] = useState<number>(() => gameIndexFor(initialRoute));
+  const [isPlaying, setIsPlaying] = useState(initialRoute.play);
+  const [isPaused, setIsPaused] = useState(false);
+  const [runId, setRunId] = useState(0); // Bumped to restart the game by remounting it
+  const [initialChallenge] = useState(() => challengeForRoute(initialRoute));
+  const [activeChallenge, setActiveChallenge] = useState<ActiveChallenge | null>(initialChallenge);
+  const [launchOptions, setLaunchOptions] = useState<GameLaunchOptions>(() => launchOptionsFor(initialRoute));
+  const [unknownMode, setUnknownMode] = useState(initialRoute.unknownMode); // From a link asking for a mode the game lacks
   const [showNav, setShowNav] = useState(false);
   const [showAudioSettings, setShowAudioSettings] = useState(false);
   const [showSaveManager, setShowSaveManager] = useState(false);
+  const [showProfileManager, setShowProfileManager] = useState(false);
+  const [showHallOfFame, setShowHallOfFame] = useState(false);
+  const [showStats, setShowStats] = useState(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [transitionDirection, setTransitionDirection] = useState<
     'left' | 'right'
@@ -64,153 +92,93 @@ function App() {
   // Initialize sound system and achievement manager
   const { playSFX, playMusic, stopMusic, playBackgroundMP3, stopBackgroundMP3, toggleMute, isMuted, config: soundConfig, updateConfig } = useSoundSystem();
   const achievementManager = useAchievementManager();
-  const { saveData } = useSaveSystem();
+  const { emit, armChallenge } = achievementManager;
+  const { activeProfile } = useProfiles();
 
-  // Mobile detection
+  // Phones and tablets play with on-screen controls instead of the keyboard
   const { isMobile, isTablet } = useMobileDetection();
-  const showMobileWarning = isMobile || isTablet;
+  const controlScheme = isMobile || isTablet ? 'touch' : 'keyboard';
+  const gameSurfaceRef = useRef<HTMLDivElement>(null);
 
   // Track global achievements
-  const gamesPlayed = useRef(new Set<string>());
-  const playStartTime = useRef<number | null>(null);
-  const totalPlayTime = useRef(0);
   const appStartTime = useRef(Date.now());
 
   /**
-   * @listens achievementManager.stats.unlocked, achievementManager
-   * Tracks achievement milestones for 10, 25, and 50 unlocked achievements
+   * @listens isPlaying, selectedGame
+   * Reports games being opened and the minutes spent in them to the achievement engine,
+   * however the game was started or exited
    */
   useEffect(() => {
-    const totalUnlocked = achievementManager.stats.unlocked;
-    const currentGlobalAchievements = achievementManager.getSaveData()?.globalStats.globalAchievements || [];
-    
-    if (totalUnlocked >= 10 && !currentGlobalAchievements.includes('global_10_achievements')) {
-      achievementManager.updateGlobalStats({
-        globalAchievements: [...currentGlobalAchievements, 'global_10_achievements']
-      });
-    }
-    
-    if (totalUnlocked >= 25 && !currentGlobalAchievements.includes('global_25_achievements')) {
-      achievementManager.updateGlobalStats({
-        globalAchievements: [...currentGlobalAchievements, 'global_25_achievements']
-      });
-    }
-    
-    if (totalUnlocked >= 50 && !currentGlobalAchievements.includes('global_50_achievements')) {
-      achievementManager.updateGlobalStats({
-        globalAchievements: [...currentGlobalAchievements, 'global_50_achievements']
-      });
-    }
-  }, [achievementManager.stats.unlocked, achievementManager]);
+    if (!isPlaying) return;
+
+    const gameId = GAME_REGISTRY[selectedGame].saveKey;
+    const startedAt = Date.now();
+    emit({ type: 'game_started', gameId });
+
+    return () => {
+      emit({ type: 'play_time', gameId, minutes: (Date.now() - startedAt) / 1000 / 60 });
+    };
+  }, [isPlaying, selectedGame, emit]);
 
   /**
-   * Track when a game is played and check for "play all games" achievement
+   * @listens isPlaying, isPaused, selectedGame
+   * Reports the pause menu opening and closing, so time spent paused is not played time
    */
   useEffect(() => {
-    if (selectedGame !== null) {
-      const gameNames = ['CTRL-S | The World', 'Snake Classic', 'Vortex Pong', 'Matrix Cloud', 'Matrix Invaders', 'Metris'];
-      const gameName = gameNames[selectedGame] || '';
-
-      if (!gamesPlayed.current.has(gameName)) {
-        gamesPlayed.current.add(gameName);
-
-        // Check if all games have been played
-        const currentGlobalAchievements = achievementManager.getSaveData()?.globalStats.globalAchievements || [];
-        if (gamesPlayed.current.size === 6 && !currentGlobalAchievements.includes('global_all_games')) {
-          achievementManager.updateGlobalStats({
-            globalAchievements: [...currentGlobalAchievements, 'global_all_games']
-          });
-        }
-      }
-    }
-  }, [selectedGame, achievementManager]);
+    if (!isPlaying || !isPaused) return;
+
+    const gameId = GAME_REGISTRY[selectedGame].saveKey;
+    emit({ type: 'game_paused', gameId });
+    return () => emit({ type: 'game_resumed', gameId });
+  }, [isPlaying, isPaused, selectedGame, emit]);
 
   /**
-   * Track cross-game statistics and achievements
+   * Sends leaderboard scores still queued from an earlier visit, or from this
+   * profile's last session (the arcade remounts on a profile switch)
    */
   useEffect(() => {
-    const currentGlobalAchievements = achievementManager.getSaveData()?.globalStats.globalAchievements || [];
+    getLeaderboardClient()?.flush().catch(error => console.error('Leaderboard flush failed:', error));
+  }, []);
 
-    // Calculate total score across all games
-    const totalScore = Object.values(saveData.games || {}).reduce((sum, game: any) => sum + (game.highScore || 0), 0);
+  /**
+   * @listens isPlaying
+   * An accepted challenge, or a link's mode and seed, like the pause menu, only lasts until the player leaves the game
+   */
+  useEffect(() => {
+    if (isPlaying) return;
+    setIsPaused(false);
+    setActiveChallenge(null);
+    setLaunchOptions(STANDARD_LAUNCH);
+    armChallenge(null);
+  }, [isPlaying, armChallenge]);
 
-    // Total Score achievements
-    if (totalScore >= 10000 && !currentGlobalAchievements.includes('global_score_10k')) {
-      achievementManager.updateGlobalStats({
-        globalAchievements: [...currentGlobalAchievements, 'global_score_10k']
-      });
-    }
+  /**
+   * @listens isPlaying
+   * Pauses the game when the player switches to another tab or window
+   */
+  useEffect(() => {
+    if (!isPlaying) return;
 
-    if (totalScore >= 50000 && !currentGlobalAchievements.includes('global_score_50k')) {
-      achievementManager.updateGlobalStats({
-        globalAchievements: [...currentGlobalAchievements, 'global_score_50k']
-      });
-    }
+    const pause = () => setIsPaused(true);
+    const handleVisibilityChange = () => {
+      if (document.hidden) pause();
+    };
 
-    if (totalScore >= 100000 && !currentGlobalAchievements.includes('global_score_100k')) {
-      achievementManager.updateGlobalStats({
-        globalAchievements: [...currentGlobalAchievements, 'global_score_100k']
-      });
-    }
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pause);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pause);
+    };
+  }, [isPlaying]);
 
-    // Total games played achievement
-    const totalGamesPlayed = Object.values(saveData.games || {}).reduce((sum, game: any) => sum + (game.stats?.gamesPlayed || 0), 0);
+  /**
+   * @constructs - Arms the challenge a deep link opened the arcade into
+   */
+  useEffect(() => {
+    if (initialChallenge) armChallenge(initialChallenge);
+  }, [initialChallenge, armChallenge]);
 
-    if (totalGamesPlayed >= 100 && !currentGlobalAchievements.includes('global_100_plays')) {
-      achievementManager.updateGlobalStats({
-        globalAchievements: [...currentGlobalAchievements, 'global_100_plays']
-      });
-    }
-  }, [saveData, achievementManager]);
-
-  const games = [
-    {
-      title: 'CTRL-S | The World',
-      icon: <Keyboard className="w-8 h-8" />,
-      description: 'A hilarious text adventure about saving the digital world',
-      preview:
-        'https://res.cloudinary.com/depqttzlt/image/upload/v1737071600/ctrlsthegame_m1tg5l.png',
-      component: CtrlSWorld,
-    },
-    {
-      title: 'Snake Classic',
-      icon: <Gamepad2 className="w-8 h-8" />,
-      description: 'Navigate through the matrix collecting data fragments',
-      preview:
-        'https://res.cloudinary.com/depqttzlt/image/upload/v1737071599/matrixsnake2_jw29w1.png',
-      component: SimpleSnake,
-    },
-    {
-      title: 'Vortex Pong',
-      icon: <Disc3 className="w-8 h-8" />,
-      description: 'Battle the AI in a hypnotic 3D arena',
-      preview:
-        'https://res.cloudinary.com/depqttzlt/image/upload/v1737071596/vortexpong2_hkjn4k.png',
-      component: VortexPong,
-    },
-    {
-      title: 'Matrix Cloud',
-      icon: <Gamepad2 className="w-8 h-8" />,
-      description: 'Navigate through the digital storm',
-      preview:
-        'https://res.cloudinary.com/depqttzlt/image/upload/v1737071594/matrixcloud_rw8hsa.png',
-      component: MatrixCloud,
-    },
-    {
-      title: 'Matrix Invaders',
-      icon: <Crosshair className="w-8 h-8" />,
-      description: 'Defend against the code invasion',
-      preview: matrixInvadersPreview,
-      component: MatrixInvaders,
-    },
-    {
-      title: 'Metris',
-      icon: <Blocks className="w-8 h-8" />,
-      description: 'Stack the code blocks and break the Matrix',
-      preview: metrisPreview,
-      component: Metris,
-    },
-  ];
 
   /**
    * @constructs - Initialises Matrix rain effect using RequestAnimationFrame
@@ -291,14 +259,15 @@ function App() {
   }, []);
 
   /**
-   * @listens isPlaying - Prevents page scrolling during active gameplay
-   *                       whilst allowing input in text fields
+   * @listens isPlaying, isPaused - Prevents page scrolling during active gameplay
+   *                                whilst allowing input in text fields and the pause menu
    */
   useEffect(() => {
     const preventDefault = (e: Event) => {
       const target = e.target as HTMLElement;
       if (
         isPlaying &&
+        !isPaused &&
         target.tagName !== 'INPUT' &&
         target.tagName !== 'TEXTAREA'
       ) {
@@ -315,7 +284,35 @@ function App() {
       window.removeEventListener('wheel', preventDefault);
       window.removeEventListener('touchmove', preventDefault);
     };
-  }, [isPlaying]);
+  }, [isPlaying, isPaused]);
+
+  const closeHallOfFame = useCallback(() => setShowHallOfFame(false), []);
+
+  /**
+   * @listens isPlaying, showAudioSettings, showSaveManager, showProfileManager, showStats, showHallOfFame
+   * Attract mode: the Hall of Fame cycles on screen once the carousel has been idle for a while
+   */
+  useEffect(() => {
+    const busy = isPlaying || showAudioSettings || showSaveManager || showProfileManager ||
+      showStats || showHallOfFame || achievementManager.isDisplayOpen;
+    if (busy) return;
+
+    let timer = setTimeout(() => setShowHallOfFame(true), ATTRACT_DELAY_MS);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => setShowHallOfFame(true), ATTRACT_DELAY_MS);
+    };
+
+    const events = ['keydown', 'pointerdown', 'pointermove', 'touchstart', 'wheel'] as const;
+    events.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    // Gamepads send no DOM events, but their menu presses still count
+    const unsubscribe = inputManager.subscribe(ARCADE_CONTEXT, resetTimer);
+    return () => {
+      clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, resetTimer));
+      unsubscribe();
+    };
+  }, [isPlaying, showAudioSettings, showSaveManager, showProfileManager, showStats, showHallOfFame, achievementManager.isDisplayOpen]);
 
   /**
    * Handles game selection with transition animation
@@ -327,81 +324,131 @@ function App() {
     setIsTransitioning(true);
     setTimeout(() => setIsTransitioning(false), 600);
     setShowNav(false);
+    setUnknownMode(undefined);
     setSelectedGame(index);
     setIsPlaying(false);
     playSFX('menu');
   }, [selectedGame, playSFX]);
 
+  /**
+   * Starts the challenge's game with the challenge armed
+   * @param {ActiveChallenge} challenge - Challenge the player accepted
+   */
+  const acceptChallenge = useCallback((challenge: ActiveChallenge) => {
+    const index = GAME_REGISTRY.findIndex(game => game.saveKey === challenge.gameId);
+    if (index === -1) return;
+
+    armChallenge(challenge);
+    setActiveChallenge(challenge);
+    setLaunchOptions(launchOptionsFor(routeFor(challenge.gameId, true, challenge)));
+    setSelectedGame(index);
+    setIsPlaying(true);
+    playSFX('score');
+    setTimeout(() => playBackgroundMP3('/matrixarcaderetrobeat.mp3'), 500);
+  }, [armChallenge, playSFX, playBackgroundMP3]);
+
   const handlePrevious = useCallback(() => {
-    selectGame(selectedGame === 0 ? games.length - 1 : selectedGame - 1);
+    selectGame(selectedGame === 0 ? GAME_REGISTRY.length - 1 : selectedGame - 1);
   }, [selectedGame, selectGame]);
 
   const handleNext = useCallback(() => {
-    selectGame(selectedGame === games.length - 1 ? 0 : selectedGame + 1);
+    selectGame(selectedGame === GAME_REGISTRY.length - 1 ? 0 : selectedGame + 1);
   }, [selectedGame, selectGame]);
 
   /**
-   * @listens isPlaying, achievementManager, stopMusic, playSFX, showMobileWarning, playBackgroundMP3, handlePrevious, handleNext, toggleMute
-   * Global keyboard shortcuts: ESC (exit), Arrow keys (navigate), Enter (play), A (achievements), V (mute)
+   * Follows the browser's back and forward buttons into and out of games
+   * @param {ArcadeRoute} route - Where the history entry says the arcade was
    */
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      // Achievement display shortcut (A key)
-      if (e.key.toLowerCase() === 'a' && !isPlaying && 
-          e.target instanceof HTMLElement &&
-          e.target.tagName !== 'INPUT' && 
-          e.target.tagName !== 'TEXTAREA') {
-        e.preventDefault();
-        achievementManager.toggleDisplay();
-      }
-      
-      // ESC key to exit games
-      if (e.key === 'Escape' && isPlaying) {
-        e.preventDefault();
-        setIsPlaying(false);
-        stopMusic();
-        playSFX('menu');
-      }
-      
-      // Arrow keys for game navigation (when not playing)
-      if (!isPlaying && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
-        e.preventDefault();
-        if (e.key === 'ArrowLeft') {
-          handlePrevious();
-        } else {
-          handleNext();
-        }
-      }
-      
-      // Enter key to start game
-      if (!isPlaying && e.key === 'Enter' && !showMobileWarning) {
-        e.preventDefault();
+  const followRoute = useCallback((route: ArcadeRoute) => {
+    const challenge = challengeForRoute(route);
+    armChallenge(challenge);
+    setActiveChallenge(challenge);
+    setLaunchOptions(launchOptionsFor(route));
+    setUnknownMode(route.unknownMode);
+    setSelectedGame(gameIndexFor(route));
+    setIsPlaying(route.play);
+
+    if (route.play && !isPlaying) {
+      playSFX('score');
+      setTimeout(() => playBackgroundMP3('/matrixarcaderetrobeat.mp3'), 500);
+    } else if (!route.play && isPlaying) {
+      stopMusic();
+      playSFX('menu');
+    }
+  }, [isPlaying, armChallenge, playSFX, playBackgroundMP3, stopMusic]);
+
+  useArcadeRoute(routeFor(GAME_REGISTRY[selectedGame].saveKey, isPlaying, activeChallenge, launchOptions), followRoute);
+
+  // The pause protocol every game follows: see GamePauseProps
+  const pauseGame = useCallback(() => setIsPaused(true), []);
+
+  const resumeGame = useCallback(() => {
+    setShowAudioSettings(false);
+    setIsPaused(false);
+  }, []);
+
+  const restartGame = useCallback(() => {
+    setRunId(id => id + 1);
+    setIsPaused(false);
+    playSFX('score');
+  }, [playSFX]);
+
+  const quitGame = useCallback(() => {
+    setIsPlaying(false);
+    stopMusic();
+    playSFX('menu');
+  }, [stopMusic, playSFX]);
+
+  /**
+   * Arcade shortcuts, bound in the input manager's 'arcade' context. While
+   * playing only exit (ESC, or Back on a gamepad) is live, opening and
+   * closing the pause menu; in the menu Arrow keys or the D-pad navigate,
+   * Enter or A plays, A/Y shows achievements and V mutes.
+   */
+  useGameInput(ARCADE_CONTEXT, ({ action, pressed, repeat }) => {
+    if (!pressed || repeat || action !== 'exit') return;
+    if (showAudioSettings) {
+      setShowAudioSettings(false);
+    } else {
+      setIsPaused(paused => !paused);
+    }
+  }, isPlaying);
+
+  useGameInput(ARCADE_CONTEXT, ({ action, pressed }) => {
+    if (!pressed) return;
+
+    // The Hall of Fame takes the menu controls itself; the arcade's other controls close it here
+    if (showHallOfFame) {
+      closeHallOfFame();
+      return;
+    }
+
+    switch (action) {
+      case 'left':
+        handlePrevious();
+        break;
+      case 'right':
+        handleNext();
+        break;
+      case 'confirm':
         setIsPlaying(true);
         playSFX('score');
         setTimeout(() => playBackgroundMP3('/matrixarcaderetrobeat.mp3'), 500);
-      }
-      
-      // V key to toggle mute
-      if (e.key.toLowerCase() === 'v' && !isPlaying &&
-          e.target instanceof HTMLElement &&
-          e.target.tagName !== 'INPUT' && 
-          e.target.tagName !== 'TEXTAREA') {
-        e.preventDefault();
+        break;
+      case 'achievements':
+        achievementManager.toggleDisplay();
+        break;
+      case 'mute':
         toggleMute();
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [isPlaying, achievementManager, stopMusic, playSFX, showMobileWarning, playBackgroundMP3, handlePrevious, handleNext, toggleMute]);
+        break;
+    }
+  }, !isPlaying);
 
-  const GameComponent = games[selectedGame].component;
+  const GameComponent = GAME_REGISTRY[selectedGame].component;
+  const GameIcon = GAME_REGISTRY[selectedGame].icon;
 
   return (
     <GameStateProvider>
-      {/* Mobile Warning */}
-      {showMobileWarning && <MobileWarning />}
-      
       <div className="h-screen flex flex-col bg-black text-green-500 overflow-hidden">
       {/* Header */}
       <header
@@ -435,6 +482,40 @@ function App() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              onClick={achievementManager.openDisplay}
+              className="flex items-center gap-2 p-2 bg-green-900/50 rounded hover:bg-green-800 transition-colors border border-green-500/30 backdrop-blur-sm"
+              title="Gamerscore (A for achievements)"
+            >
+              <Award className="w-5 h-5" />
+              <span className="text-sm font-mono">{achievementManager.stats.gamerscore.toLocaleString()} G</span>
+            </button>
+
+            <button
+              onClick={() => setShowHallOfFame(true)}
+              className="p-2 bg-green-900/50 rounded hover:bg-green-800 transition-colors border border-green-500/30 backdrop-blur-sm"
+              title="Hall of Fame"
+            >
+              <Trophy className="w-5 h-5" />
+            </button>
+
+            <button
+              onClick={() => setShowStats(!showStats)}
+              className="p-2 bg-green-900/50 rounded hover:bg-green-800 transition-colors border border-green-500/30 backdrop-blur-sm"
+              title="Player Stats"
+            >
+              <BarChart3 className="w-5 h-5" />
+            </button>
+
+            <button
+              onClick={() => setShowProfileManager(!showProfileManager)}
+              className="flex items-center gap-2 p-2 bg-green-900/50 rounded hover:bg-green-800 transition-colors border border-green-500/30 backdrop-blur-sm"
+              title="Player Profiles"
+            >
+              <User className="w-5 h-5" />
+              <span className="text-sm font-mono hidden sm:inline max-w-[8rem] truncate">{activeProfile.name}</span>
+            </button>
+
             <button
               onClick={() => setShowSaveManager(!showSaveManager)}
               className="p-2 bg-green-900/50 rounded hover:bg-green-800 transition-colors border border-green-500/30 backdrop-blur-sm"
@@ -471,13 +552,13 @@ function App() {
           style={{ paddingTop: '5rem' }} // offset from header
         >
           <div className="flex flex-col gap-2 p-4">
-            {games.map((game, index) => (
+            {GAME_REGISTRY.map((game, index) => (
               <button
-                key={index}
+                key={game.id}
                 onClick={() => selectGame(index)}
                 className="w-full flex items-center gap-2 p-3 hover:bg-green-900/50 transition-colors text-left"
               >
-                {game.icon}
+                <game.icon className="w-8 h-8" />
                 <span>{game.title}</span>
               </button>
             ))}
@@ -489,8 +570,23 @@ function App() {
       <main className="flex-1 overflow-hidden flex items-center justify-center p-2 lg:p-4">
         {/* Fullscreen Game View */}
         {isPlaying && GameComponent ? (
-          <div className="relative w-full h-full">
-            <GameComponent achievementManager={achievementManager} isMuted={isMuted} />
+          <div ref={gameSurfaceRef} className="relative w-full h-full">
+            <GameComponent
+              key={runId}
+              achievementManager={achievementManager}
+              isMuted={isMuted}
+              challenge={activeChallenge ?? undefined}
+              options={launchOptions}
+              paused={isPaused}
+              onPause={pauseGame}
+              onRestart={restartGame}
+              onQuit={quitGame}
+            />
+
+            {/* On-screen controls for the game on touch screens */}
+            {controlScheme === 'touch' && !isPaused && (
+              <TouchControls gameId={GAME_REGISTRY[selectedGame].saveKey} surfaceRef={gameSurfaceRef} />
+            )}
 
             {/* Floating Mute Indicator - More Visible */}
             {isMuted && (
@@ -500,35 +596,28 @@ function App() {
               </div>
             )}
 
-            {/* Floating Exit Button */}
-            <button
-              onClick={() => {
-                setIsPlaying(false);
-                stopMusic();
-                playSFX('menu');
-                
-                // Track play time
-                if (playStartTime.current) {
-                  totalPlayTime.current += (Date.now() - playStartTime.current) / 1000 / 60; // in minutes
-                  playStartTime.current = null;
-                  
-                  // Marathon gamer achievement (60 minutes total)
-                  if (totalPlayTime.current >= 60) {
-                    const currentGlobalAchievements = achievementManager.getSaveData()?.globalStats.globalAchievements || [];
-                    if (!currentGlobalAchievements.includes('global_marathon_gamer')) {
-                      achievementManager.updateGlobalStats({
-                        globalAchievements: [...currentGlobalAchievements, 'global_marathon_gamer']
-                      });
-                    }
-                  }
-                }
-              }}
-              className="absolute top-4 right-4 z-50 p-3 bg-red-900/90 hover:bg-red-700 rounded-lg border-2 border-red-500/80 backdrop-blur-sm transition-all group shadow-lg hover:shadow-red-500/50 hover:scale-110"
-              title="Exit Game (ESC)"
-            >
-              <X className="w-6 h-6 group-hover:rotate-90 transition-transform" />
-              <span className="absolute -bottom-6 right-0 text-xs text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">ESC</span>
-            </button>
+            {/* Floating Pause Button */}
+            {!isPaused && (
+              <button
+                onClick={pauseGame}
+                className="absolute top-4 right-4 z-50 p-3 bg-green-900/90 hover:bg-green-700 rounded-lg border-2 border-green-500/80 backdrop-blur-sm transition-all group shadow-lg hover:shadow-green-500/50 hover:scale-110"
+                title="Pause (ESC)"
+              >
+                <Pause className="w-6 h-6" />
+                <span className="absolute -bottom-6 right-0 text-xs text-green-400 opacity-0 group-hover:opacity-100 transition-opacity">ESC</span>
+              </button>
+            )}
+
+            {isPaused && (
+              <PauseMenu
+                gameId={GAME_REGISTRY[selectedGame].saveKey}
+                title={GAME_REGISTRY[selectedGame].title}
+                onResume={resumeGame}
+                onRestart={restartGame}
+                onSettings={() => setShowAudioSettings(true)}
+                onQuit={quitGame}
+              />
+            )}
           </div>
         ) : (
           <div className="relative w-full max-w-2xl mx-auto flex flex-col justify-center h-full game-portal-container px-4">
@@ -570,8 +659,8 @@ function App() {
                         <GameComponent achievementManager={achievementManager} />
                       ) : (
                         <img
-                          src={games[selectedGame].preview}
-                          alt={games[selectedGame].title}
+                          src={GAME_REGISTRY[selectedGame].preview}
+                          alt={GAME_REGISTRY[selectedGame].title}
                           className="w-full h-full object-cover"
                         />
                       )}
@@ -592,70 +681,26 @@ function App() {
                   <div className="flex-1 text-center">
                     <div className="flex items-center justify-center gap-3 mb-2">
                       <div className="lg:scale-110">
-                        {games[selectedGame].icon}
+                        <GameIcon className="w-8 h-8" />
                       </div>
                       <h2 className="text-lg lg:text-xl xl:text-2xl font-mono">
-                        {games[selectedGame].title}
+                        {GAME_REGISTRY[selectedGame].title}
                       </h2>
                     </div>
                     <p className="text-green-400 font-mono text-xs lg:text-sm mb-3 lg:mb-4">
-                      {games[selectedGame].description}
+                      {GAME_REGISTRY[selectedGame].description}
                     </p>
                     {typeof GameComponent !== 'undefined' && (
                       <button
                         onClick={() => {
-                          // Don't allow playing on mobile
-                          if (showMobileWarning) return;
-                          
                           setIsPlaying(!isPlaying);
                           playSFX(isPlaying ? 'menu' : 'score');
                           if (!isPlaying) {
                             // Start ambient music when game starts
                             setTimeout(() => playBackgroundMP3('/matrixarcaderetrobeat.mp3'), 500);
 
-                            // Track game played
-                            const gameName = games[selectedGame].title;
-                            gamesPlayed.current.add(gameName);
-                            playStartTime.current = Date.now();
-                            
-                            // Check global achievements
-                            if (gamesPlayed.current.size === 1) {
-                              // First game achievement
-                              const currentGlobalAchievements = achievementManager.getSaveData()?.globalStats.globalAchievements || [];
-                              if (!currentGlobalAchievements.includes('global_first_game')) {
-                                achievementManager.updateGlobalStats({
-                                  globalAchievements: [...currentGlobalAchievements, 'global_first_game']
-                                });
-                              }
-                            }
-                            
-                            if (gamesPlayed.current.size === games.length) {
-                              // All games played achievement
-                              const currentGlobalAchievements = achievementManager.getSaveData()?.globalStats.globalAchievements || [];
-                              if (!currentGlobalAchievements.includes('global_all_games')) {
-                                achievementManager.updateGlobalStats({
-                                  globalAchievements: [...currentGlobalAchievements, 'global_all_games']
-                                });
-                              }
-                            }
                           } else {
                             stopMusic();
-                            
-                            // Track play time
-                            if (playStartTime.current) {
-                              totalPlayTime.current += (Date.now() - playStartTime.current) / 1000 / 60; // in minutes
-                              playStartTime.current = null;
-                              
-                              // Marathon gamer achievement (60 minutes total)
-                              if (totalPlayTime.current >= 60) {
-                                const currentGlobalAchievements = achievementManager.getSaveData()?.globalStats.globalAchievements || [];
-                                if (!currentGlobalAchievements.includes('global_marathon_gamer')) {
-                                  achievementManager.updateGlobalStats({
-                                    globalAchievements: [...currentGlobalAchievements, 'global_marathon_gamer']
-                                  });
-                                }
-                              }
-                            }
                           }
                         }}
                         className="px-4 py-2 lg:px-6 lg:py-2.5 bg-green-500 text-black font-mono rounded-full hover:bg-green-400 transition-colors flex items-center gap-2 mx-auto transform hover:scale-105 text-sm lg:text-base font-bold"
@@ -675,11 +720,19 @@ function App() {
                   </button>
                 </div>
                 
+                {unknownMode && (
+                  <p role="alert" className="mt-3 text-xs lg:text-sm text-red-400 font-mono text-center">
+                    {GAME_REGISTRY[selectedGame].title} has no "{unknownMode}" mode, so PLAY starts a standard game
+                  </p>
+                )}
+
                 {/* Keyboard Hints */}
                 <div className="mt-4 text-xs lg:text-sm text-green-400/70 text-center space-y-1">
-                  <p>← → Navigate Games • Enter to Play • ESC to Exit</p>
+                  <p>← → Navigate Games • Enter to Play • ESC to Pause</p>
                   <p>A for Achievements • V to Toggle Mute</p>
                 </div>
+
+                <ChallengePanel gameId={GAME_REGISTRY[selectedGame].saveKey} onAccept={acceptChallenge} />
               </div>
           </div>
         </div>
@@ -738,9 +791,25 @@ function App() {
         onClose={() => setShowSaveManager(false)} 
       />
       
+      {/* Profile Manager Modal */}
+      <ProfileManager
+        isOpen={showProfileManager}
+        onClose={() => setShowProfileManager(false)}
+      />
+      
+      {/* Stats Dashboard Modal */}
+      <StatsDashboard
+        isOpen={showStats}
+        onClose={() => setShowStats(false)}
+      />
+
+      {/* Attract Mode */}
+      {showHallOfFame && <HallOfFame onClose={closeHallOfFame} />}
+
       {/* Achievement System */}
       <AchievementQueue 
-        achievements={achievementManager.notificationQueue}
+        notifications={achievementManager.notificationQueue}
+        queuedCount={achievementManager.queuedNotifications}
         onDismiss={achievementManager.dismissNotification}
       />
       
@@ -748,6 +817,7 @@ function App() {
         isOpen={achievementManager.isDisplayOpen}
         onClose={achievementManager.closeDisplay}
         achievements={achievementManager.achievements}
+        currentSessionId={achievementManager.sessionId}
       />
       
       {/* PWA Install Prompt */}
@@ -777,4 +847,12 @@ function App() {
   );
 }
 
+function App() {
+  return (
+    <ProfileProvider>
+      <Arcade />
+    </ProfileProvider>
+  );
+}
+
 export default App;
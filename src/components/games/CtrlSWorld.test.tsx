@@ -26,11 +26,6 @@ vi.mock('../ui/StatsHUD', () => ({
   StatsHUD: () => <div data-testid="stats-hud">Stats HUD</div>
 }));
 
-vi.mock('../ui/AchievementToast', () => ({
-  AchievementToastContainer: () => <div data-testid="achievement-toast">Achievement Toast</div>,
-  Achievement: () => <div>Achievement</div>
-}));
-
 vi.mock('../ui/InventoryPanel', () => ({
   InventoryPanel: () => <div data-testid="inventory-panel">Inventory Panel</div>
 }));
@@ -45,16 +40,12 @@ vi.mock('../ui/SaveLoadManager', () => ({
 
 // Mock hooks
 vi.mock('../../hooks/useSaveSystem', () => ({
-  useSaveSystem: () => ({
-    saveData: {
-      games: {
-        ctrlSWorld: {
-          chapter: 1,
-          section: 0,
-          unlockedChapters: [1],
-          stats: {}
-        }
-      }
+  useGameSave: () => ({
+    gameSave: {
+      chapter: 1,
+      section: 0,
+      unlockedChapters: [1],
+      stats: {}
     },
     updateGameSave: vi.fn(),
     unlockAchievement: vi.fn()
@@ -120,7 +111,8 @@ describe('CtrlSWorld', () => {
 
     it('accepts achievement manager prop', () => {
       const mockAchievementManager = {
-        unlockAchievement: vi.fn()
+        unlockAchievement: vi.fn(),
+        emit: vi.fn()
       };
 
       const { container } = renderWithProvider(
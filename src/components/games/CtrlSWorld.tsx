@@ -3,20 +3,18 @@ import { Terminal as TerminalIcon, Info, Play, Pause, Maximize, Minimize, Type,
 import { PuzzleModal } from '../ui/PuzzleModal';
 import { getPuzzleById } from '../../data/puzzles';
 import { useGameState } from '../../contexts/GameStateContext';
-import { useSaveSystem } from '../../hooks/useSaveSystem';
+import { useGameSave } from '../../hooks/useSaveSystem';
+import { useGameInput } from '../../hooks/useGameInput';
 import { StatsHUD } from '../ui/StatsHUD';
-import { AchievementToastContainer, Achievement } from '../ui/AchievementToast';
 import { InventoryPanel } from '../ui/InventoryPanel';
 import { getItemRewardsForPuzzle, getItemById } from '../../data/items';
 import { AudioSettings } from '../ui/AudioSettings';
 import { SaveLoadManager } from '../ui/SaveLoadManager';
+import type { GameAchievementManager, GamePauseProps } from '../../types/game';
 
-interface AchievementManager {
-  unlockAchievement(gameId: string, achievementId: string): void;
-}
-
-interface CtrlSWorldProps {
-  achievementManager?: AchievementManager;
+// Its own pause key only stops the story auto-advancing; the arcade's pause holds everything
+interface CtrlSWorldProps extends GamePauseProps {
+  achievementManager?: GameAchievementManager;
 }
 
 type PuzzleTrigger = {
@@ -400,7 +398,7 @@ const INFO_CONTENT = [
   "A portfolio piece demonstrating TypeScript, React, and creative storytelling."
 ];
 
-export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
+export default function CtrlSWorld({ achievementManager, paused = false }: CtrlSWorldProps) {
   const [currentNode, setCurrentNode] = useState(0);
   const [displayedTexts, setDisplayedTexts] = useState<string[]>([]);
   const [displayedTextIndices, setDisplayedTextIndices] = useState<number[]>([]); // Track paragraph indices for inline ASCII
@@ -429,13 +427,13 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
 
   // UI state
   const [showInventory, setShowInventory] = useState(false);
-  const [unlockedAchievements, setUnlockedAchievements] = useState<Achievement[]>([]);
   const [showAudioSettings, setShowAudioSettings] = useState(false);
   const [showSaveManager, setShowSaveManager] = useState(false);
 
   // Game state context
   const gameState = useGameState();
-  const { saveData, updateGameSave, unlockAchievement: unlockSaveAchievement } = useSaveSystem();
+  const { updateGameSave } = useGameSave('ctrlSWorld');
+  const emit = achievementManager?.emit;
 
   const terminalRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -445,14 +443,7 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
   const sessionStartTimeRef = useRef<number>(Date.now());
   const chaptersCompletedThisSession = useRef(new Set<number>());
   const puzzlesSolvedThisSession = useRef(new Set<string>());
-
-  // Achievement unlock function
-  const unlockAchievement = useCallback((achievementId: string) => {
-    if (achievementManager?.unlockAchievement) {
-      achievementManager.unlockAchievement('ctrlSWorld', achievementId);
-    }
-    unlockSaveAchievement('ctrlSWorld', achievementId);
-  }, [achievementManager, unlockSaveAchievement]);
+  const storyFinished = useRef(false);
 
   // Placeholder sound function for puzzle modal
   const playSFX = useCallback((sound: string) => {
@@ -802,29 +793,15 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
         }
       });
 
-      // Unlock achievement for first puzzle
-      const completedCount = gameState.state.completedPuzzles.length;
-      if (completedCount === 1) {
-        unlockAchievement('first_puzzle');
-        setUnlockedAchievements(prev => [...prev, {
-          id: 'first_puzzle',
-          title: 'First Steps',
-          description: 'Solved your first puzzle',
-          category: 'skill',
-          unlockedAt: new Date().toISOString()
-        }]);
-      }
-
-      // Perfect score achievement (no hints AND no lifelines used)
-      if (hintsUsed === 0 && lifelinesUsed === 0 && !gameState.state.unlockedAchievements.includes('no_hints')) {
-        unlockAchievement('no_hints');
-        setUnlockedAchievements(prev => [...prev, {
-          id: 'no_hints',
-          title: 'Quick Thinker',
-          description: 'Solved a puzzle without hints or lifelines',
-          category: 'skill',
-          unlockedAt: new Date().toISOString()
-        }]);
+      const assisted = hintsUsed > 0 || lifelinesUsed > 0;
+      emit?.({
+        type: 'puzzle_solved',
+        gameId: 'ctrlSWorld',
+        puzzle: currentPuzzleId,
+        solved: new Set([...gameState.state.completedPuzzles, currentPuzzleId]).size,
+        assisted
+      });
+      if (!assisted) {
         gameState.unlockAchievement('no_hints');
       }
     }
@@ -857,7 +834,7 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
         setUserHasScrolled(false);
       }
     }, 500);
-  }, [currentPuzzleId, currentNode, currentTextIndex, gameState, unlockAchievement]);
+  }, [currentPuzzleId, currentNode, currentTextIndex, gameState, emit]);
 
   // Track chapter completion and save game stats
   useEffect(() => {
@@ -866,47 +843,33 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
     // Track chapter completion
     if (!chaptersCompletedThisSession.current.has(currentNode)) {
       chaptersCompletedThisSession.current.add(currentNode);
-
-      // Chapter-specific achievements
-      if (currentNode === 1) {
-        unlockAchievement('chapter_1');
-      } else if (currentNode === 3) {
-        unlockAchievement('chapter_3');
-      } else if (currentNode === 5) {
-        unlockAchievement('story_complete');
-      }
+      emit?.({ type: 'level_reached', gameId: 'ctrlSWorld', level: currentNode });
     }
 
     // Check if game is complete (reached last chapter, last paragraph)
-    if (currentNode === STORY.length - 1 && currentTextIndex === STORY[currentNode].content.length - 1 && !isTyping) {
+    if (currentNode === STORY.length - 1 && currentTextIndex === STORY[currentNode].content.length - 1 && !isTyping && !storyFinished.current) {
+      storyFinished.current = true;
       const sessionTime = Math.floor((Date.now() - sessionStartTimeRef.current) / 1000);
       const completedPuzzles = gameState.state.completedPuzzles || [];
+      const solvedThisSession = puzzlesSolvedThisSession.current.size;
       const totalChapters = STORY.length;
 
-      const previousBestTime = saveData.games.ctrlSWorld?.stats?.fastestCompletion || Infinity;
-      const previousGamesPlayed = saveData.games.ctrlSWorld?.stats?.gamesPlayed || 0;
-      const previousChaptersCompleted = saveData.games.ctrlSWorld?.stats?.chaptersCompleted || 0;
-      const previousPuzzlesSolved = saveData.games.ctrlSWorld?.stats?.puzzlesSolved || 0;
-
       setTimeout(() => {
-        updateGameSave('ctrlSWorld', {
+        updateGameSave('ctrlSWorld', game => ({
           highScore: completedPuzzles.length,
           level: totalChapters,
           stats: {
-            gamesPlayed: previousGamesPlayed + 1,
-            chaptersCompleted: Math.max(previousChaptersCompleted, currentNode + 1),
-            puzzlesSolved: previousPuzzlesSolved + puzzlesSolvedThisSession.current.size,
-            fastestCompletion: Math.min(previousBestTime, sessionTime)
+            gamesPlayed: (game.stats?.gamesPlayed || 0) + 1,
+            totalScore: (game.stats?.totalScore || 0) + solvedThisSession,
+            chaptersCompleted: Math.max(game.stats?.chaptersCompleted || 0, currentNode + 1),
+            puzzlesSolved: (game.stats?.puzzlesSolved || 0) + solvedThisSession,
+            fastestCompletion: Math.min(game.stats?.fastestCompletion || Infinity, sessionTime)
           }
-        });
+        }));
       }, 100);
-
-      // Speed run achievement: Complete in under 30 minutes
-      if (sessionTime < 1800) {
-        unlockAchievement('speed_reader');
-      }
+      emit?.({ type: 'game_over', gameId: 'ctrlSWorld', score: completedPuzzles.length, durationSeconds: sessionTime });
     }
-  }, [currentNode, currentTextIndex, isTyping, isStarted, gameState.state.completedPuzzles, saveData, updateGameSave, unlockAchievement]);
+  }, [currentNode, currentTextIndex, isTyping, isStarted, gameState.state.completedPuzzles, updateGameSave, emit]);
 
   // Track puzzle completion
   useEffect(() => {
@@ -916,12 +879,7 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
         puzzlesSolvedThisSession.current.add(puzzleId);
       }
     });
-
-    // All puzzles achievement
-    if (completedPuzzles.length >= 10) {
-      unlockAchievement('puzzle_master');
-    }
-  }, [gameState.state.completedPuzzles, unlockAchievement]);
+  }, [gameState.state.completedPuzzles]);
 
   useEffect(() => {
     if (!isStarted && inputRef.current) {
@@ -936,47 +894,30 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
     }
   }, [isStarted]);
 
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      // Toggle inventory panel with 'I' key
-      if (e.key === 'i' || e.key === 'I') {
-        if (e.target instanceof HTMLElement &&
-            e.target.tagName !== 'INPUT' &&
-            e.target.tagName !== 'TEXTAREA') {
-          e.preventDefault();
-          setShowInventory(prev => !prev);
-        }
-        return;
-      }
+  useGameInput('ctrlSWorld', ({ action, pressed }) => {
+    if (!pressed) return;
 
-      // Toggle info with '?' key
-      if (e.key === '?') {
-        setShowInfo(prev => !prev);
-        return;
-      }
+    // Inventory and info are available before the story starts
+    if (action === 'inventory') {
+      setShowInventory(prev => !prev);
+      return;
+    }
+    if (action === 'help') {
+      setShowInfo(prev => !prev);
+      return;
+    }
 
-      if (!isStarted) return;
-
-      // Keyboard shortcuts
-      if (e.key === 'p' || e.key === 'P') {
-        togglePause();
-      } else if (e.key === 'f' || e.key === 'F') {
-        toggleFullscreen();
-      } else if (e.key === 'Enter' || e.key === ' ' || e.key === 'ArrowRight') {
-        // Advance story manually with Enter, Space, or Right Arrow
-        if (e.target instanceof HTMLElement &&
-            e.target.tagName !== 'INPUT' &&
-            e.target.tagName !== 'TEXTAREA' &&
-            e.target.tagName !== 'SELECT') {
-          e.preventDefault();
-          handleNext();
-        }
-      }
-    };
+    if (!isStarted) return;
 
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [isStarted, handleNext, togglePause, toggleFullscreen]);
+    if (action === 'pause') {
+      togglePause();
+    } else if (action === 'fullscreen') {
+      toggleFullscreen();
+    } else if (action === 'confirm' || action === 'right') {
+      // Advance story manually
+      handleNext();
+    }
+  }, !paused);
 
   // Set initial scroll position to top
   useEffect(() => {
@@ -1004,11 +945,11 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
   }, []);
 
   useEffect(() => {
-    if (isStarted && !isPaused && isTyping) {
+    if (isStarted && !isPaused && !paused && isTyping) {
       const timer = setTimeout(typeNextCharacter, textSpeed); // Use textSpeed setting
       return () => clearTimeout(timer);
     }
-  }, [isStarted, isPaused, isTyping, typeNextCharacter, textSpeed]);
+  }, [isStarted, isPaused, paused, isTyping, typeNextCharacter, textSpeed]);
 
   // Determine which ASCII art to display in the left panel
   const displayAsciiData = React.useMemo(() => {
@@ -1353,12 +1294,6 @@ export default function CtrlSWorld({ achievementManager }: CtrlSWorldProps) {
       {/* Stats HUD - Only show when game is started */}
       {isStarted && <StatsHUD />}
 
-      {/* Achievement Toast Notifications */}
-      <AchievementToastContainer
-        achievements={unlockedAchievements}
-        playSFX={playSFX}
-      />
-
       {/* Inventory Panel */}
       <InventoryPanel
         isOpen={showInventory}
@@ -1,7 +1,16 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Play, Pause, RotateCw, Trophy, Shield, Wifi, Battery, Zap, Sparkles, Clock, Heart } from 'lucide-react';
 import { useSoundSystem } from '../../hooks/useSoundSystem';
-import { useSaveSystem } from '../../hooks/useSaveSystem';
+import { useGameSave } from '../../hooks/useSaveSystem';
+import { useGameInput } from '../../hooks/useGameInput';
+import { useGamePause } from '../../hooks/useGamePause';
+import { useRunReport } from '../../hooks/useRunReport';
+import { boundKeysLabel } from '../../utils/inputManager';
+import { useNotificationDeferral } from '../../hooks/useNotificationDeferral';
+import { GameOverScreen } from '../ui/GameOverScreen';
+import type { GameEvent } from '../../types/events';
+import type { ActiveChallenge } from '../../types/challenge';
+import type { GamePauseProps } from '../../types/game';
 
 // Game constants - Adjusted for higher difficulty
 const GRAVITY = 0.25;           // Increased from 0.2
@@ -180,17 +189,21 @@ const initialGameState: GameState = {
 
 interface AchievementManager {
   unlockAchievement(gameId: string, achievementId: string): void;
+  emit(event: GameEvent): void;
 }
 
-interface MatrixCloudProps {
+interface MatrixCloudProps extends GamePauseProps {
   achievementManager?: AchievementManager;
+  challenge?: ActiveChallenge;
 }
 
-export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
+export default function MatrixCloud({ achievementManager, challenge, ...pause }: MatrixCloudProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const runStartedAtRef = useRef<number>(Date.now());
   const animationFrameRef = useRef<number>();
   const lastUpdateRef = useRef<number>(0);
   const [paused, setPaused] = useState(false);
+  const togglePause = useGamePause(pause, paused, setPaused);
   const [showTutorial, setShowTutorial] = useState(true);
   const [screenShake, setScreenShake] = useState({ x: 0, y: 0 });
   
@@ -201,26 +214,17 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
   const { playSFX, playMusic, stopMusic } = useSoundSystem();
   
   // Save system integration
-  const { saveData, updateGameSave, unlockAchievement: unlockSaveAchievement } = useSaveSystem();
-
-  // Track achievements
-  const powerUpsCollected = useRef(0);
-  const bossesDefeated = useRef(new Set<string>());
-  const maxAltitude = useRef(0);
+  const { gameSave, updateGameSave } = useGameSave('matrixCloud');
+  const emit = achievementManager?.emit;
 
   // Initialize state with saved high score
   const [state, setState] = useState<GameState>(() => ({
     ...initialGameState,
-    highScore: saveData?.games?.matrixCloud?.highScore || 0
+    highScore: gameSave?.highScore || 0
   }));
 
-  // Achievement function
-  const unlockAchievement = useCallback((gameId: string, achievementId: string) => {
-    if (achievementManager?.unlockAchievement) {
-      achievementManager.unlockAchievement(gameId, achievementId);
-    }
-    unlockSaveAchievement(gameId, achievementId);
-  }, [achievementManager, unlockSaveAchievement]);
+  // Unlock notifications wait until the boss fight is over
+  useNotificationDeferral('matrixCloud', !!state.boss?.active);
 
   // Start background music when game starts
   useEffect(() => {
@@ -424,22 +428,24 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
 
   const jump = useCallback(() => {
     if (!state.gameOver && !paused) {
-      setState(prev => {
-        // First flight achievement
-        if (!prev.started) {
-          setTimeout(() => unlockAchievement('matrixCloud', 'first_flight'), 100);
-        }
-        
-        return {
-          ...prev,
-          playerVelocity: JUMP_FORCE * (prev.activeEffects.timeSlow ? 0.7 : 1),
-          started: true
-        };
-      });
+      // The first jump starts the flight
+      if (!state.started) {
+        runStartedAtRef.current = Date.now();
+        emit?.({ type: 'run_started', gameId: 'matrixCloud' });
+      }
+
+      setState(prev => ({
+        ...prev,
+        playerVelocity: JUMP_FORCE * (prev.activeEffects.timeSlow ? 0.7 : 1),
+        started: true
+      }));
       playSFX('jump');
       addScreenShake(3);
     }
-  }, [state.gameOver, paused, playSFX, addScreenShake, unlockAchievement]);
+  }, [state.gameOver, state.started, paused, playSFX, addScreenShake, emit]);
+
+  // A run cut short by the arcade's restart or quit is reported as quit
+  useRunReport('matrixCloud', emit, { active: state.started && !state.gameOver, score: state.score, startedAt: runStartedAtRef });
 
   const reset = useCallback(() => {
     if (animationFrameRef.current) {
@@ -487,17 +493,23 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
       
       // Save game statistics when game ends
       setTimeout(() => {
-        updateGameSave('matrixCloud', {
+        updateGameSave('matrixCloud', game => ({
           highScore: newHighScore,
           level: state.level,
           stats: {
-            gamesPlayed: (saveData?.games?.matrixCloud?.stats?.gamesPlayed || 0) + 1,
-            totalScore: (saveData?.games?.matrixCloud?.stats?.totalScore || 0) + state.score,
-            longestSurvival: Math.max(saveData?.games?.matrixCloud?.stats?.longestSurvival || 0, state.score),
-            bossesDefeated: saveData?.games?.matrixCloud?.stats?.bossesDefeated || 0
+            gamesPlayed: (game.stats?.gamesPlayed || 0) + 1,
+            totalScore: (game.stats?.totalScore || 0) + state.score,
+            longestSurvival: Math.max(game.stats?.longestSurvival || 0, state.score),
+            bossesDefeated: game.stats?.bossesDefeated || 0
           }
-        });
+        }));
       }, 100);
+      emit?.({
+        type: 'game_over',
+        gameId: 'matrixCloud',
+        score: state.score,
+        durationSeconds: Math.floor((Date.now() - runStartedAtRef.current) / 1000)
+      });
       
       return {
         ...state,
@@ -515,7 +527,7 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
       invulnerable: true,
       shakeIntensity: 8
     };
-  }, [playSFX, addScreenShake, updateGameSave, saveData]);
+  }, [playSFX, addScreenShake, updateGameSave, emit]);
 
   const updateGame = useCallback((timestamp: number) => {
     if (paused) return;
@@ -607,10 +619,7 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
           activatePowerUp(powerUp.type);
           
           // Track power-ups for achievement
-          powerUpsCollected.current += 1;
-          if (powerUpsCollected.current >= 20) {
-            unlockAchievement('matrixCloud', 'cloud_power_collector');
-          }
+          emit?.({ type: 'power_up_collected', gameId: 'matrixCloud', powerUp: powerUp.type });
           
           return { ...powerUp, collected: true };
         }
@@ -650,10 +659,8 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
             playSFX('levelUp');
             addScreenShake(7);
             
-            // Unlock level achievements
-            if (newLevel === 5) {
-              unlockAchievement('matrixCloud', 'level_5');
-            }
+            // Level achievements
+            emit?.({ type: 'level_reached', gameId: 'matrixCloud', level: newLevel });
             
             // Check for boss spawns
             if (BOSS_SPAWN_LEVELS.includes(newLevel) && !newState.inBossBattle) {
@@ -673,10 +680,7 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
           };
           
           // Track altitude for achievement (score represents altitude)
-          maxAltitude.current = Math.max(maxAltitude.current, newScore);
-          if (maxAltitude.current >= 1000) {
-            unlockAchievement('matrixCloud', 'cloud_high_flyer');
-          }
+          emit?.({ type: 'score', gameId: 'matrixCloud', score: newScore });
         }
       }
 
@@ -761,25 +765,15 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
             addScreenShake(15);
             
             // Update boss defeat count
-            updateGameSave('matrixCloud', {
+            updateGameSave('matrixCloud', game => ({
               stats: {
-                ...saveData?.games?.matrixCloud?.stats,
-                bossesDefeated: (saveData?.games?.matrixCloud?.stats?.bossesDefeated || 0) + 1
+                ...game.stats,
+                bossesDefeated: (game.stats?.bossesDefeated || 0) + 1
               }
-            });
-            
-            // Unlock boss achievements
-            if (updatedBoss.type === 'agent_smith') {
-              unlockAchievement('matrixCloud', 'boss_slayer');
-            } else if (updatedBoss.type === 'architect') {
-              unlockAchievement('matrixCloud', 'architect_defeat');
-            }
+            }));
             
-            // Track all bosses defeated
-            bossesDefeated.current.add(updatedBoss.type);
-            if (bossesDefeated.current.size >= 3) {
-              unlockAchievement('matrixCloud', 'cloud_all_bosses');
-            }
+            // Boss achievements
+            emit?.({ type: 'boss_defeated', gameId: 'matrixCloud', boss: updatedBoss.type });
             
             // End boss battle
             newState.inBossBattle = false;
@@ -820,26 +814,22 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
         bossTimer: newBossTimer
       };
     });
-  }, [paused, spawnPowerUp, activatePowerUp, handleCollision, playSFX, addScreenShake, spawnBoss, updateBoss, createBossAttack, unlockAchievement]);
+  }, [paused, spawnPowerUp, activatePowerUp, handleCollision, playSFX, addScreenShake, spawnBoss, updateBoss, createBossAttack, emit, updateGameSave]);
 
-  // Keyboard controls
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.code === 'Space') {
-        e.preventDefault();
-        if (state.gameOver) {
-          reset();
-        } else {
-          jump();
-        }
-      } else if (e.code === 'KeyP') {
-        setPaused(p => !p);
-      }
-    };
+  // Keyboard controls, as bound in the input manager
+  useGameInput('matrixCloud', ({ action, pressed }) => {
+    if (!pressed) return;
 
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [state.gameOver, jump, reset]);
+    if (action === 'jump') {
+      if (state.gameOver) {
+        reset();
+      } else {
+        jump();
+      }
+    } else if (action === 'pause') {
+      togglePause();
+    }
+  }, !pause.paused);
 
   // Render game with enhanced visuals
   const render = useCallback(() => {
@@ -1107,15 +1097,14 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
 
   return (
     <div className="w-full h-full flex flex-col items-center justify-center bg-black">
-      <div className="relative w-full max-w-4xl mx-auto">
+      <div className="relative max-w-full mx-auto">
         <canvas
           ref={canvasRef}
           width={800}
           height={400}
           role="img"
           aria-label="Matrix Cloud game canvas"
-          className="w-full h-auto border-2 border-green-500 rounded-lg shadow-[0_0_20px_rgba(0,255,0,0.3)]"
-          style={{ maxHeight: '70vh' }}
+          className="max-w-full max-h-[70vh] w-auto h-auto border-2 border-green-500 rounded-lg shadow-[0_0_20px_rgba(0,255,0,0.3)]"
           onClick={jump}
         />
         
@@ -1175,7 +1164,7 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
         {/* Controls */}
         <div className="absolute bottom-4 right-4 flex gap-2">
           <button
-            onClick={() => setPaused(p => !p)}
+            onClick={togglePause}
             className="p-2 bg-green-900 rounded hover:bg-green-800 transition-colors"
             type="button"
             aria-label={paused ? "Resume game" : "Pause game"}
@@ -1194,23 +1183,18 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
 
         {/* Game Over Screen */}
         {state.gameOver && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-90">
-            <div className="text-center font-mono">
-              <h2 className="text-3xl mb-4 text-red-500 animate-pulse">SYSTEM FAILURE</h2>
-              <div className="space-y-2 mb-6">
-                <p className="text-green-400">Final Score: {state.score}</p>
-                <p className="text-green-400">High Score: {state.highScore}</p>
-                <p className="text-green-400">Level Reached: {state.level}</p>
-              </div>
-              <button
-                onClick={reset}
-                className="px-6 py-3 bg-green-500 text-black rounded-lg hover:bg-green-400 transition-all transform hover:scale-105"
-                type="button"
-              >
-                REBOOT SYSTEM
-              </button>
-            </div>
-          </div>
+          <GameOverScreen
+            gameId="matrixCloud"
+            paused={pause.paused}
+            score={state.score}
+            level={state.level}
+            startedAt={runStartedAtRef.current}
+            challenge={challenge}
+            title="SYSTEM FAILURE"
+            restartLabel="REBOOT SYSTEM"
+            onRestart={reset}
+            onQuit={pause.onQuit}
+          />
         )}
 
         {/* Tutorial */}
@@ -1220,7 +1204,7 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
               <h2 className="text-3xl mb-6 font-bold">MATRIX PROTOCOL</h2>
               <div className="space-y-4 mb-8">
                 <div className="flex items-center justify-center gap-2">
-                  <kbd className="px-2 py-1 bg-green-900 rounded">SPACE</kbd>
+                  <kbd className="px-2 py-1 bg-green-900 rounded">{boundKeysLabel('matrixCloud', 'jump')}</kbd>
                   <span>to navigate the system</span>
                 </div>
                 <div className="flex items-center justify-center gap-2">
@@ -1249,7 +1233,7 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
                   </div>
                 </div>
               </div>
-              <p className="animate-pulse">Click or press SPACE to initialize</p>
+              <p className="animate-pulse">Click or press {boundKeysLabel('matrixCloud', 'jump')} to initialize</p>
             </div>
           </div>
         )}
@@ -1264,7 +1248,7 @@ export default function MatrixCloud({ achievementManager }: MatrixCloudProps) {
                 <p>Level: {state.level}</p>
                 <p>Lives: {state.lives}</p>
               </div>
-              <p className="animate-pulse">Press P to resume</p>
+              <p className="animate-pulse">Press {boundKeysLabel('matrixCloud', 'pause')} to resume</p>
             </div>
           </div>
         )}
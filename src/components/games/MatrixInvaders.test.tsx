@@ -96,19 +96,15 @@ vi.mock('../../hooks/usePerformanceMonitor', () => ({
 }));
 
 vi.mock('../../hooks/useSaveSystem', () => ({
-  useSaveSystem: () => ({
-    saveData: {
-      games: {
-        matrixInvaders: {
-          highScore: 0,
-          stats: {
-            gamesPlayed: 0,
-            totalScore: 0,
-            bestWave: 0,
-            totalKills: 0,
-            bestCombo: 0
-          }
-        }
+  useGameSave: () => ({
+    gameSave: {
+      highScore: 0,
+      stats: {
+        gamesPlayed: 0,
+        totalScore: 0,
+        bestWave: 0,
+        totalKills: 0,
+        bestCombo: 0
       }
     },
     updateGameSave: vi.fn(),
@@ -6,12 +6,20 @@
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { RotateCw } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useSoundSynthesis } from '../../hooks/useSoundSynthesis';
 import { useObjectPool, createProjectile, createEnemy, createParticle } from '../../hooks/useObjectPool';
 import { usePerformanceMonitor } from '../../hooks/usePerformanceMonitor';
-import { useSaveSystem } from '../../hooks/useSaveSystem';
+import { useGameSave } from '../../hooks/useSaveSystem';
+import { useNotificationDeferral } from '../../hooks/useNotificationDeferral';
+import { useGameInput } from '../../hooks/useGameInput';
+import { useGamePause } from '../../hooks/useGamePause';
+import { useRunReport } from '../../hooks/useRunReport';
+import { boundKeysLabel } from '../../utils/inputManager';
+import { GameOverScreen } from '../ui/GameOverScreen';
+import type { GameEvent } from '../../types/events';
+import type { GamePauseProps } from '../../types/game';
+import type { ActiveChallenge } from '../../types/challenge';
 const CANVAS_WIDTH = 800;
 const CANVAS_HEIGHT = 600;
 const PLAYER_SPEED = 5;
@@ -71,16 +79,17 @@ interface GameState {
 
 interface AchievementManager {
   unlockAchievement(gameId: string, achievementId: string): void;
+  emit(event: GameEvent): void;
 }
 
-interface MatrixInvadersProps {
+interface MatrixInvadersProps extends GamePauseProps {
   achievementManager?: AchievementManager;
+  challenge?: ActiveChallenge;
 }
 
-export default function MatrixInvaders({ achievementManager }: MatrixInvadersProps) {
+export default function MatrixInvaders({ achievementManager, challenge, ...pause }: MatrixInvadersProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>();
-  const keysRef = useRef<Set<string>>(new Set());
   const lastFireRef = useRef<number>(0);
   const matrixRainRef = useRef<{ x: number; y: number; char: string; speed: number }[]>([]);
   
@@ -100,10 +109,13 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
     gameOver: false,
     paused: false,
     combo: 0,
-    highScore: parseInt(localStorage.getItem('matrixInvaders_highScore') || '0'),
+    highScore: 0,
     bulletTimeActive: false,
     timeScale: 1
   });
+
+  // Unlock notifications wait until bullet time is over
+  useNotificationDeferral('matrixInvaders', state.bulletTimeActive);
   
   // Hooks
   const { synthLaser, synthExplosion, synthDrum } = useSoundSynthesis();
@@ -111,10 +123,18 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
   const enemyPool = useObjectPool({ create: createEnemy, maxSize: 100 });
   const particlePool = useObjectPool({ create: createParticle, maxSize: 500 });
   const { trackDrawCall, trackActiveObjects, PerformanceOverlay } = usePerformanceMonitor({ showOverlay: false });
-  const { saveData, updateGameSave, unlockAchievement: unlockSaveAchievement } = useSaveSystem();
+  const { gameSave, updateGameSave } = useGameSave('matrixInvaders');
+  const emit = achievementManager?.emit;
+
+  // The save loads after mount, so pick up its high score once it arrives
+  const savedHighScore = gameSave?.highScore || 0;
+  useEffect(() => {
+    setState(prev => (savedHighScore > prev.highScore ? { ...prev, highScore: savedHighScore } : prev));
+  }, [savedHighScore]);
 
   // Session tracking
   const sessionStartTimeRef = useRef<number>(Date.now());
+  const runRecordedRef = useRef(false);
   const maxWaveRef = useRef(0);
   const maxComboRef = useRef(0);
   const enemiesKilledRef = useRef(0);
@@ -230,19 +250,7 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
               createExplosion(enemy.x + enemy.width / 2, enemy.y + enemy.height / 2);
 
               // Achievements
-              if (achievementManager) {
-                // First kill achievement
-                if (enemiesKilledRef.current === 1) {
-                  achievementManager.unlockAchievement('matrixInvaders', 'invaders_first_kill');
-                  unlockSaveAchievement('matrixInvaders', 'invaders_first_kill');
-                }
-
-                // 100 enemies achievement
-                if (enemiesKilledRef.current >= 100) {
-                  achievementManager.unlockAchievement('matrixInvaders', 'invaders_100_enemies');
-                  unlockSaveAchievement('matrixInvaders', 'invaders_100_enemies');
-                }
-              }
+              emit?.({ type: 'enemy_destroyed', gameId: 'matrixInvaders' });
 
               // Split virus enemies
               if (enemy.type === 'virus' && ENEMY_TYPES.virus.splits) {
@@ -335,22 +343,9 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
       });
 
       // Achievement checks
-      if (achievementManager) {
-        if (state.wave === 5) {
-          achievementManager.unlockAchievement('matrixInvaders', 'invaders_wave_5');
-          unlockSaveAchievement('matrixInvaders', 'invaders_wave_5');
-        }
-        if (state.wave === 10) {
-          achievementManager.unlockAchievement('matrixInvaders', 'invaders_wave_10');
-          unlockSaveAchievement('matrixInvaders', 'invaders_wave_10');
-        }
-        if (state.wave === 20) {
-          achievementManager.unlockAchievement('matrixInvaders', 'invaders_endless');
-          unlockSaveAchievement('matrixInvaders', 'invaders_endless');
-        }
-      }
+      emit?.({ type: 'wave_completed', gameId: 'matrixInvaders', wave: state.wave });
     }
-  }, [projectilePool, enemyPool, state.wave, state.player, achievementManager, unlockSaveAchievement, createExplosion, synthDrum, synthExplosion, spawnWave]);
+  }, [projectilePool, enemyPool, state.wave, state.player, emit, createExplosion, synthDrum, synthExplosion, spawnWave]);
   
   // Update game state
   const updateGame = useCallback((deltaTime: number) => {
@@ -597,54 +592,44 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
     };
   }, [updateGame, render, state.gameOver, state.paused]);
   
-  // Handle keyboard input
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      keysRef.current.add(e.key);
-      
-      if (e.key === ' ' && !state.gameOver && !state.paused) {
-        const now = Date.now();
-        const fireRate = state.player.powerUps?.rapidFire ? 100 : 250;
-        
-        if (now - lastFireRef.current > fireRate) {
-          fireBullet(state.player.x + PLAYER_WIDTH / 2, state.player.y);
-          lastFireRef.current = now;
-        }
+  const setPaused = useCallback((paused: boolean) => setState(prev => ({ ...prev, paused })), []);
+  const togglePause = useGamePause(pause, state.paused, setPaused);
+
+  // Controls, as bound in the input manager; movement is read while held
+  const isActionHeld = useGameInput('matrixInvaders', ({ action, pressed, repeat }) => {
+    if (!pressed) return;
+
+    if (action === 'fire' && !state.gameOver && !state.paused) {
+      const now = Date.now();
+      const fireRate = state.player.powerUps?.rapidFire ? 100 : 250;
+
+      if (now - lastFireRef.current > fireRate) {
+        fireBullet(state.player.x + PLAYER_WIDTH / 2, state.player.y);
+        lastFireRef.current = now;
       }
-      
-      if (e.key === 'b' && !state.bulletTimeActive) {
-        setState(prev => ({ 
-          ...prev, 
-          bulletTimeActive: true,
-          timeScale: 0.3
+    }
+
+    if (action === 'special' && !repeat && !state.bulletTimeActive) {
+      emit?.({ type: 'bullet_time_used', gameId: 'matrixInvaders' });
+      setState(prev => ({
+        ...prev,
+        bulletTimeActive: true,
+        timeScale: 0.3
+      }));
+
+      setTimeout(() => {
+        setState(prev => ({
+          ...prev,
+          bulletTimeActive: false,
+          timeScale: 1
         }));
-        
-        setTimeout(() => {
-          setState(prev => ({ 
-            ...prev, 
-            bulletTimeActive: false,
-            timeScale: 1
-          }));
-        }, BULLET_TIME_DURATION);
-      }
-      
-      if (e.key === 'p') {
-        setState(prev => ({ ...prev, paused: !prev.paused }));
-      }
-    };
-    
-    const handleKeyUp = (e: KeyboardEvent) => {
-      keysRef.current.delete(e.key);
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [state, fireBullet]);
+      }, BULLET_TIME_DURATION);
+    }
+
+    if (action === 'pause' && !repeat) {
+      togglePause();
+    }
+  }, !pause.paused);
   
   // Update player position
   useEffect(() => {
@@ -654,10 +639,10 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
       setState(prev => {
         let newX = prev.player.x;
         
-        if (keysRef.current.has('ArrowLeft') || keysRef.current.has('a')) {
+        if (isActionHeld('left')) {
           newX = Math.max(0, newX - PLAYER_SPEED);
         }
-        if (keysRef.current.has('ArrowRight') || keysRef.current.has('d')) {
+        if (isActionHeld('right')) {
           newX = Math.min(CANVAS_WIDTH - PLAYER_WIDTH, newX + PLAYER_SPEED);
         }
         
@@ -670,7 +655,7 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
     
     const interval = setInterval(updatePlayer, 16);
     return () => clearInterval(interval);
-  }, [state.gameOver, state.paused]);
+  }, [state.gameOver, state.paused, isActionHeld]);
   
   // Start game and handle restart
   useEffect(() => {
@@ -691,42 +676,41 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
   
   // Save game stats on game over
   useEffect(() => {
-    if (state.gameOver) {
+    // Recording the run writes to the save, so only the first pass over a game over records it
+    if (state.gameOver && !runRecordedRef.current) {
+      runRecordedRef.current = true;
       const sessionTime = Math.floor((Date.now() - sessionStartTimeRef.current) / 1000);
-      const currentHighScore = saveData.games.matrixInvaders?.highScore || 0;
-      const newHighScore = Math.max(currentHighScore, state.score);
-      const previousGamesPlayed = saveData.games.matrixInvaders?.stats?.gamesPlayed || 0;
-      const previousTotalScore = saveData.games.matrixInvaders?.stats?.totalScore || 0;
-      const previousBestWave = saveData.games.matrixInvaders?.stats?.bestWave || 0;
-      const previousTotalKills = saveData.games.matrixInvaders?.stats?.totalKills || 0;
-      const previousBestCombo = saveData.games.matrixInvaders?.stats?.bestCombo || 0;
+      const score = state.score;
+      const wave = state.wave;
 
       setTimeout(() => {
-        updateGameSave('matrixInvaders', {
-          highScore: newHighScore,
-          level: state.wave,
+        updateGameSave('matrixInvaders', game => ({
+          highScore: Math.max(game.highScore || 0, score),
+          level: wave,
           stats: {
-            gamesPlayed: previousGamesPlayed + 1,
-            totalScore: previousTotalScore + state.score,
-            bestWave: Math.max(previousBestWave, maxWaveRef.current),
-            totalKills: previousTotalKills + enemiesKilledRef.current,
-            bestCombo: Math.max(previousBestCombo, maxComboRef.current)
+            gamesPlayed: (game.stats?.gamesPlayed || 0) + 1,
+            totalScore: (game.stats?.totalScore || 0) + score,
+            bestWave: Math.max(game.stats?.bestWave || 0, maxWaveRef.current),
+            totalKills: (game.stats?.totalKills || 0) + enemiesKilledRef.current,
+            bestCombo: Math.max(game.stats?.bestCombo || 0, maxComboRef.current)
           }
-        });
-
-        // Also update localStorage for backward compatibility
-        if (state.score > state.highScore) {
-          localStorage.setItem('matrixInvaders_highScore', state.score.toString());
-        }
+        }));
       }, 100);
 
-      // Combo achievement: Get 10x combo
-      if (maxComboRef.current >= 10 && achievementManager) {
-        achievementManager.unlockAchievement('matrixInvaders', 'invaders_combo_10');
-        unlockSaveAchievement('matrixInvaders', 'invaders_combo_10');
-      }
+      // Achievements
+      emit?.({ type: 'combo', gameId: 'matrixInvaders', multiplier: maxComboRef.current });
+      emit?.({ type: 'score', gameId: 'matrixInvaders', score });
+      emit?.({ type: 'game_over', gameId: 'matrixInvaders', score, durationSeconds: sessionTime });
     }
-  }, [state.gameOver, state.score, state.wave, state.highScore, saveData, updateGameSave, achievementManager, unlockSaveAchievement]);
+  }, [state.gameOver, state.score, state.wave, updateGameSave, emit]);
+
+  // The first run starts as the game opens; later ones from resetGame
+  useEffect(() => {
+    emit?.({ type: 'run_started', gameId: 'matrixInvaders' });
+  }, [emit]);
+
+  // A run cut short by the arcade's restart or quit is reported as quit
+  useRunReport('matrixInvaders', emit, { active: !state.gameOver, score: state.score, startedAt: sessionStartTimeRef });
   
   // Reset game
   const resetGame = useCallback(() => {
@@ -734,7 +718,7 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
     enemyPool.releaseAll();
     particlePool.releaseAll();
 
-    setState({
+    setState(prev => ({
       player: {
         x: CANVAS_WIDTH / 2 - PLAYER_WIDTH / 2,
         y: CANVAS_HEIGHT - PLAYER_HEIGHT - 20,
@@ -749,52 +733,48 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
       gameOver: false,
       paused: false,
       combo: 0,
-      highScore: parseInt(localStorage.getItem('matrixInvaders_highScore') || '0'),
+      highScore: Math.max(prev.highScore, prev.score),
       bulletTimeActive: false,
       timeScale: 1
-    });
+    }));
 
     // Reset session tracking
     sessionStartTimeRef.current = Date.now();
     maxWaveRef.current = 0;
     maxComboRef.current = 0;
     enemiesKilledRef.current = 0;
+    runRecordedRef.current = false;
+    emit?.({ type: 'run_started', gameId: 'matrixInvaders' });
 
     spawnWave(1);
-  }, [projectilePool, enemyPool, particlePool, spawnWave, gameLoop]);
+  }, [projectilePool, enemyPool, particlePool, spawnWave, gameLoop, emit]);
   
   return (
     <div className="relative w-full h-full flex items-center justify-center bg-black">
-      <div className="relative">
+      <div className="relative max-w-full">
         <canvas
           ref={canvasRef}
           width={CANVAS_WIDTH}
           height={CANVAS_HEIGHT}
-          className="border-2 border-green-500 shadow-[0_0_20px_rgba(0,255,0,0.5)]"
+          className="max-w-full max-h-[80vh] w-auto h-auto border-2 border-green-500 shadow-[0_0_20px_rgba(0,255,0,0.5)]"
         />
         
         {/* Game Over Overlay */}
         <AnimatePresence>
           {state.gameOver && (
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              className="absolute inset-0 flex items-center justify-center bg-black/80"
-            >
-              <div className="text-center">
-                <h2 className="text-4xl font-mono text-green-500 mb-4">GAME OVER</h2>
-                <p className="text-2xl font-mono text-green-400 mb-2">Score: {state.score}</p>
-                <p className="text-xl font-mono text-green-400 mb-6">Wave: {state.wave}</p>
-                <button
-                  onClick={resetGame}
-                  className="px-6 py-3 bg-green-500 text-black font-mono rounded hover:bg-green-400 transition-colors flex items-center gap-2 mx-auto"
-                >
-                  <RotateCw className="w-5 h-5" />
-                  RESTART
-                </button>
-              </div>
-            </motion.div>
+            <GameOverScreen
+              gameId="matrixInvaders"
+              paused={pause.paused}
+              score={state.score}
+              level={state.wave}
+              levelLabel="WAVE"
+              startedAt={sessionStartTimeRef.current}
+              challenge={challenge}
+              titleClassName="text-green-500"
+              restartLabel="RESTART"
+              onRestart={resetGame}
+              onQuit={pause.onQuit}
+            />
           )}
         </AnimatePresence>
         
@@ -809,7 +789,7 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
             >
               <div className="text-center">
                 <h2 className="text-4xl font-mono text-green-500 mb-4">PAUSED</h2>
-                <p className="text-xl font-mono text-green-400">Press P to Resume</p>
+                <p className="text-xl font-mono text-green-400">Press {boundKeysLabel('matrixInvaders', 'pause')} to Resume</p>
               </div>
             </motion.div>
           )}
@@ -818,7 +798,9 @@ export default function MatrixInvaders({ achievementManager }: MatrixInvadersPro
         {/* Controls */}
         <div className="mt-4 text-center">
           <p className="text-green-400 font-mono text-sm">
-            MOVE: ← → or A/D | FIRE: SPACE | BULLET TIME: B | PAUSE: P
+            MOVE: {boundKeysLabel('matrixInvaders', 'left')} {boundKeysLabel('matrixInvaders', 'right')} |{' '}
+            FIRE: {boundKeysLabel('matrixInvaders', 'fire')} | BULLET TIME: {boundKeysLabel('matrixInvaders', 'special')} |{' '}
+            PAUSE: {boundKeysLabel('matrixInvaders', 'pause')}
           </p>
         </div>
       </div>
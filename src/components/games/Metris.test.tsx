@@ -12,19 +12,17 @@ vi.mock('../../hooks/useSoundSynthesis', () => ({
   })
 }));
 
+const mockSaveState = { highScore: 0 };
+
 vi.mock('../../hooks/useSaveSystem', () => ({
-  useSaveSystem: () => ({
-    saveData: {
-      games: {
-        metris: {
-          highScore: 0,
-          level: 1,
-          stats: {
-            gamesPlayed: 0,
-            totalScore: 0,
-            totalLines: 0
-          }
-        }
+  useGameSave: () => ({
+    gameSave: {
+      highScore: mockSaveState.highScore,
+      level: 1,
+      stats: {
+        gamesPlayed: 0,
+        totalScore: 0,
+        totalLines: 0
       }
     },
     updateGameSave: vi.fn(),
@@ -34,13 +32,15 @@ vi.mock('../../hooks/useSaveSystem', () => ({
 
 // Mock achievement manager
 const mockAchievementManager = {
-  unlockAchievement: vi.fn()
+  unlockAchievement: vi.fn(),
+  emit: vi.fn()
 };
 
 describe('Metris', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     localStorage.clear();
+    mockSaveState.highScore = 0;
   });
 
   describe('Rendering', () => {
@@ -157,8 +157,8 @@ describe('Metris', () => {
   });
 
   describe('High Score', () => {
-    it('loads high score from localStorage', () => {
-      localStorage.setItem('metris_highScore', '5000');
+    it('loads high score from the save system', () => {
+      mockSaveState.highScore = 5000;
       render(<Metris />);
 
       expect(screen.getByText(/5,000/i)).toBeTruthy();
@@ -197,6 +197,24 @@ describe('Metris', () => {
     });
   });
 
+  describe('Launch Options', () => {
+    it('counts lines toward the target in sprint mode', () => {
+      render(<Metris options={{ mode: 'sprint' }} />);
+      expect(screen.getByText(/LINES:/i).parentElement?.textContent).toContain('0/40');
+    });
+
+    it('deals the same pieces for the same seed', () => {
+      const nextPieces = () => {
+        const { unmount } = render(<Metris options={{ mode: 'standard', seed: '123' }} />);
+        const next = screen.getByText('NEXT').parentElement?.innerHTML;
+        unmount();
+        return next;
+      };
+
+      expect(nextPieces()).toBe(nextPieces());
+    });
+  });
+
   describe('Bullet Time', () => {
     it('displays bullet time meter', () => {
       render(<Metris />);
@@ -6,9 +6,19 @@
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Play, Pause, RotateCw, Square, Clock, Trophy, Zap } from 'lucide-react';
+import { Play, Pause, Square, Clock, Trophy, Zap } from 'lucide-react';
 import { useSoundSynthesis } from '../../hooks/useSoundSynthesis';
-import { useSaveSystem } from '../../hooks/useSaveSystem';
+import { useGameSave } from '../../hooks/useSaveSystem';
+import { useNotificationDeferral } from '../../hooks/useNotificationDeferral';
+import { useGameInput } from '../../hooks/useGameInput';
+import { useGamePause } from '../../hooks/useGamePause';
+import { useRunReport } from '../../hooks/useRunReport';
+import { boundKeysLabel } from '../../utils/inputManager';
+import { seededRandom } from '../../utils/challengeEngine';
+import { GameOverScreen } from '../ui/GameOverScreen';
+import type { GameEvent } from '../../types/events';
+import type { ActiveChallenge } from '../../types/challenge';
+import type { GameLaunchOptions, GamePauseProps } from '../../types/game';
 const COLS = 10;
 const ROWS = 20;
 const BLOCK_SIZE = 30;
@@ -25,6 +35,7 @@ const DAS_DELAY = 170; // ms - Delayed Auto Shift initial delay
 const DAS_REPEAT = 50; // ms - DAS repeat rate
 const LOCK_DELAY = 500; // ms - time before piece locks when grounded
 const MAX_LOCK_RESETS = 15; // maximum lock delay resets per piece
+const SPRINT_LINES = 40; // lines that finish a sprint run
 
 // Matrix characters for blocks
 const MATRIX_CHARS = '01アイウエオカキクケコ';
@@ -72,6 +83,12 @@ const TETROMINOES = {
 type TetrominoType = keyof typeof TETROMINOES;
 const TETROMINO_KEYS = Object.keys(TETROMINOES) as TetrominoType[];
 
+// Score for a lock: line clears scale with level and combo
+const calculateScore = (linesCleared: number, level: number, combo: number): number => {
+  const baseScores = [0, 100, 300, 500, 800]; // 0, 1, 2, 3, 4 lines
+  return baseScores[linesCleared] * level * Math.max(1, combo);
+};
+
 // Particle interface
 interface Particle {
   x: number;
@@ -127,21 +144,27 @@ interface GameState {
 
 interface AchievementManager {
   unlockAchievement(gameId: string, achievementId: string): void;
+  emit(event: GameEvent): void;
 }
 
-interface MetrisProps {
+interface MetrisProps extends GamePauseProps {
   achievementManager?: AchievementManager;
   isMuted?: boolean;
+  challenge?: ActiveChallenge;
+  options?: GameLaunchOptions;
 }
 
-export default function Metris({ achievementManager, isMuted }: MetrisProps) {
+// A seeded run deals the same pieces every time it's played
+const piecesFor = (seed?: string) => (seed ? seededRandom(seed) : Math.random);
+
+export default function Metris({ achievementManager, isMuted, challenge, options, ...pause }: MetrisProps) {
+  const sprint = options?.mode === 'sprint';
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>();
   const lastDropTimeRef = useRef<number>(0);
   const lastRenderTimeRef = useRef<number>(0);
   const bulletTimeEndRef = useRef<number>(0);
   const dropIntervalRef = useRef<number>(INITIAL_DROP_SPEED);
-  const keysRef = useRef<Set<string>>(new Set());
   const moveDelayRef = useRef<{ left: number; right: number; down: number }>({
     left: 0,
     right: 0,
@@ -152,6 +175,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
 
   // 7-Bag randomizer refs
   const pieceBagRef = useRef<TetrominoType[]>([]);
+  const pieceRandomRef = useRef(piecesFor(options?.seed));
   const sessionStartTimeRef = useRef<number>(Date.now());
   const totalLinesRef = useRef<number>(0);
   const tSpinsRef = useRef<number>(0);
@@ -162,7 +186,8 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
 
   // Hooks
   const { synthLaser, synthExplosion, synthPowerUp, synthDrum } = useSoundSynthesis();
-  const { saveData, updateGameSave, unlockAchievement: unlockAchievementSave } = useSaveSystem();
+  const { gameSave, updateGameSave } = useGameSave('metris');
+  const emit = achievementManager?.emit;
 
   // Initialize empty grid
   const createEmptyGrid = (): Block[][] => {
@@ -188,7 +213,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
         pieceBagRef.current = [...TETROMINO_KEYS];
         // Fisher-Yates shuffle
         for (let i = pieceBagRef.current.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
+          const j = Math.floor(pieceRandomRef.current() * (i + 1));
           [pieceBagRef.current[i], pieceBagRef.current[j]] = [pieceBagRef.current[j], pieceBagRef.current[i]];
         }
       }
@@ -209,7 +234,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
 
   // Initial state
   const [state, setState] = useState<GameState>(() => {
-    const highScore = parseInt(localStorage.getItem('metris_highScore') || '0');
+    const highScore = gameSave.highScore;
     return {
       grid: createEmptyGrid(),
       currentPiece: createPiece(),
@@ -232,6 +257,15 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
     };
   });
 
+  // Unlock notifications wait until bullet time is over
+  useNotificationDeferral('metris', state.bulletTimeActive);
+
+  // The save loads after mount, so pick up its high score once it arrives
+  const savedHighScore = gameSave.highScore;
+  useEffect(() => {
+    setState(prev => (savedHighScore > prev.highScore ? { ...prev, highScore: savedHighScore } : prev));
+  }, [savedHighScore]);
+
   // Rotate matrix 90 degrees clockwise
   const rotateMatrix = (matrix: number[][]): number[][] => {
     const n = matrix.length;
@@ -377,12 +411,6 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
     return { newGrid, linesCleared: linesToClear.length };
   }, []);
 
-  // Calculate score
-  const calculateScore = (linesCleared: number, level: number, combo: number): number => {
-    const baseScores = [0, 100, 300, 500, 800]; // 0, 1, 2, 3, 4 lines
-    return baseScores[linesCleared] * level * Math.max(1, combo);
-  };
-
   // Move piece
   const movePiece = useCallback((dx: number, dy: number) => {
     setState(prev => {
@@ -460,21 +488,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
         bulletTimeEndRef.current = Date.now() + BULLET_TIME_DURATION;
 
         // Achievement
-        if (achievementManager) {
-          const currentCount = (saveData.games.metris.preferences?.bulletTimeCount as number) || 0;
-          const newBulletTimeCount = currentCount + 1;
-
-          updateGameSave('metris', {
-            preferences: {
-              ...saveData.games.metris.preferences,
-              bulletTimeCount: newBulletTimeCount
-            }
-          });
-
-          if (newBulletTimeCount >= 10) {
-            achievementManager.unlockAchievement('metris', 'neos_apprentice');
-          }
-        }
+        emit?.({ type: 'bullet_time_used', gameId: 'metris' });
 
         return {
           ...prev,
@@ -486,7 +500,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
 
       return prev;
     });
-  }, [achievementManager, saveData, updateGameSave, synthDrum, synthPowerUp, isMuted]);
+  }, [emit, synthDrum, synthPowerUp, isMuted]);
 
   // Hard drop - instantly drop piece and lock
   const hardDrop = useCallback(() => {
@@ -524,7 +538,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
       }
 
       const nextPiece = prev.nextPiece || createPiece();
-      const gameOver = checkCollision(nextPiece, clearedGrid);
+      const gameOver = (sprint && newLines >= SPRINT_LINES) || checkCollision(nextPiece, clearedGrid);
 
       return {
         ...prev,
@@ -539,7 +553,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
         gameOver
       };
     });
-  }, [checkCollision, lockPiece, clearLines, calculateScore, createPiece, synthExplosion, synthPowerUp, isMuted]);
+  }, [checkCollision, lockPiece, clearLines, createPiece, synthExplosion, synthPowerUp, isMuted, sprint]);
 
   // Drop piece - called by setInterval at drop speed
   const dropPiece = useCallback(() => {
@@ -586,28 +600,11 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
         }
 
         // Achievements
-        if (achievementManager) {
-          if (linesCleared === 1 && currentState.lines === 0) {
-            achievementManager.unlockAchievement('metris', 'first_line');
-          }
-          if (linesCleared === 4) {
-            achievementManager.unlockAchievement('metris', 'tetris');
-          }
-          if (newLevel >= 10) {
-            achievementManager.unlockAchievement('metris', 'level_10');
-          }
-          if (newScore >= 10000) {
-            achievementManager.unlockAchievement('metris', 'high_roller');
-          }
-          if (newLines >= 100) {
-            achievementManager.unlockAchievement('metris', 'line_clearer');
-          }
-          if (newCombo >= 5) {
-            achievementManager.unlockAchievement('metris', 'combo_king');
-          }
-          if (newLevel >= 20) {
-            achievementManager.unlockAchievement('metris', 'immortal');
-          }
+        if (emit && linesCleared > 0) {
+          emit({ type: 'line_cleared', gameId: 'metris', lines: linesCleared });
+          emit({ type: 'combo', gameId: 'metris', multiplier: newCombo });
+          emit({ type: 'level_reached', gameId: 'metris', level: newLevel });
+          emit({ type: 'score', gameId: 'metris', score: newScore });
         }
 
         // Sound
@@ -621,7 +618,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
         }
 
         const nextPiece = currentState.nextPiece || createPiece();
-        const gameOver = checkCollision(nextPiece, clearedGrid);
+        const gameOver = (sprint && newLines >= SPRINT_LINES) || checkCollision(nextPiece, clearedGrid);
 
         if (gameOver && !isMuted) {
           synthExplosion(2, 0.3);
@@ -632,28 +629,21 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
         // Save game stats on game over
         if (gameOver) {
           const sessionTime = Math.floor((Date.now() - sessionStartTimeRef.current) / 1000);
-          const previousGamesPlayed = saveData.games.metris.stats.gamesPlayed || 0;
-          const previousTotalScore = saveData.games.metris.stats.totalScore || 0;
-          const previousBestCombo = saveData.games.metris.stats.bestCombo || 0;
-          const previousLongestSurvival = saveData.games.metris.stats.longestSurvival || 0;
 
           setTimeout(() => {
-            updateGameSave('metris', {
+            updateGameSave('metris', game => ({
               highScore: newHighScore,
               level: newLevel,
               stats: {
-                gamesPlayed: previousGamesPlayed + 1,
-                totalScore: previousTotalScore + newScore,
-                bestCombo: Math.max(previousBestCombo, newCombo),
-                longestSurvival: Math.max(previousLongestSurvival, sessionTime)
+                gamesPlayed: (game.stats.gamesPlayed || 0) + 1,
+                totalScore: (game.stats.totalScore || 0) + newScore,
+                bestCombo: Math.max(game.stats.bestCombo || 0, newCombo),
+                longestSurvival: Math.max(game.stats.longestSurvival || 0, sessionTime)
               }
-            });
+            }));
           }, 100);
 
-          // Marathon achievement: Survive 10 minutes
-          if (achievementManager && sessionTime >= 600) {
-            achievementManager.unlockAchievement('metris', 'marathon_runner');
-          }
+          emit?.({ type: 'game_over', gameId: 'metris', score: newScore, durationSeconds: sessionTime });
         }
 
         return {
@@ -674,7 +664,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
         };
       }
     });
-  }, [checkCollision, lockPiece, clearLines, createPiece, achievementManager, synthExplosion, synthPowerUp, synthDrum, isMuted]);
+  }, [checkCollision, lockPiece, clearLines, createPiece, emit, updateGameSave, synthExplosion, synthPowerUp, synthDrum, isMuted, sprint]);
 
   // Bullet time countdown timer (updates every 100ms instead of 60fps)
   useEffect(() => {
@@ -729,117 +719,74 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
     };
   }, [state.gameOver, state.paused, state.waiting, state.level, state.softDropActive, state.bulletTimeActive, dropPiece]);
 
-  // Keyboard controls
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (state.gameOver) return;
-
-      keysRef.current.add(e.key);
-
-      // Start game with Enter when waiting
-      if (state.waiting && e.key === 'Enter') {
-        e.preventDefault();
-        setState(prev => ({ ...prev, waiting: false }));
-        lastDropTimeRef.current = performance.now();
-        sessionStartTimeRef.current = Date.now();
-        if (!isMuted) synthPowerUp('activate');
-        return;
-      }
-
-      // Pause
-      if (e.key === 'Escape' || e.key === 'p' || e.key === 'P') {
-        e.preventDefault();
-        // Reset timer when unpausing to prevent instant drop
-        if (state.paused) {
-          lastDropTimeRef.current = performance.now();
-        }
-        setState(prev => ({ ...prev, paused: !prev.paused }));
-        return;
-      }
-
-      if (state.paused || state.waiting) return;
-
-      // Prevent default for game keys
-      if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', ' ', 'c', 'C', 'x', 'X', 'z', 'Z', 'Shift'].includes(e.key)) {
-        e.preventDefault();
-      }
+  const setPaused = useCallback((paused: boolean) => {
+    // Reset timer when unpausing to prevent instant drop
+    if (!paused) {
+      lastDropTimeRef.current = performance.now();
+    }
+    setState(prev => ({ ...prev, paused }));
+  }, []);
+  const togglePause = useGamePause(pause, state.paused, setPaused);
 
-      // Hard drop with spacebar
-      if (e.key === ' ' && !keysRef.current.has('hardDropped')) {
-        keysRef.current.add('hardDropped');
-        hardDrop();
-        return;
-      }
+  // A run cut short by the arcade's restart or quit is reported as quit
+  useRunReport('metris', emit, { active: !state.waiting && !state.gameOver, score: state.score, startedAt: sessionStartTimeRef });
 
-      // Soft drop - activate fast drop
-      if (e.key === 'ArrowDown') {
-        setState(prev => ({ ...prev, softDropActive: true }));
+  // Controls, as bound in the input manager
+  useGameInput('metris', ({ action, pressed, repeat }) => {
+    // Soft drop lasts as long as its key is held
+    if (action === 'down') {
+      if (!pressed || (!state.paused && !state.waiting && !state.gameOver)) {
+        setState(prev => ({ ...prev, softDropActive: pressed }));
       }
+      return;
+    }
+    if (!pressed || state.gameOver) return;
+
+    // Start game when waiting, from Enter or a gamepad's Start
+    if (state.waiting && (action === 'confirm' || action === 'pause')) {
+      setState(prev => ({ ...prev, waiting: false }));
+      lastDropTimeRef.current = performance.now();
+      sessionStartTimeRef.current = Date.now();
+      emit?.({ type: 'run_started', gameId: 'metris' });
+      if (!isMuted) synthPowerUp('activate');
+      return;
+    }
 
-      const now = Date.now();
-
-      // Movement with DAS
-      if (e.key === 'ArrowLeft') {
-        if (!keysRef.current.has('leftHeld')) {
-          keysRef.current.add('leftHeld');
-          moveDelayRef.current.left = now;
-          movePiece(-1, 0);
-        } else if (now - moveDelayRef.current.left > DAS_REPEAT) {
-          moveDelayRef.current.left = now;
-          movePiece(-1, 0);
-        }
-      }
-      if (e.key === 'ArrowRight') {
-        if (!keysRef.current.has('rightHeld')) {
-          keysRef.current.add('rightHeld');
-          moveDelayRef.current.right = now;
-          movePiece(1, 0);
-        } else if (now - moveDelayRef.current.right > DAS_REPEAT) {
-          moveDelayRef.current.right = now;
-          movePiece(1, 0);
-        }
-      }
+    if (action === 'pause') {
+      if (!repeat) togglePause();
+      return;
+    }
 
-      // Rotate
-      if ((e.key === 'ArrowUp' || e.key === 'x' || e.key === 'X') && !keysRef.current.has('rotated')) {
-        keysRef.current.add('rotated');
-        handleRotate(1);
-      }
-      if ((e.key === 'z' || e.key === 'Z' || e.key === 'Shift') && !keysRef.current.has('rotatedCCW')) {
-        keysRef.current.add('rotatedCCW');
-        handleRotate(-1);
-      }
+    if (state.paused || state.waiting) return;
 
-      // Hold
-      if ((e.key === 'c' || e.key === 'C') && !keysRef.current.has('held')) {
-        keysRef.current.add('held');
-        holdPiece();
-      }
-    };
+    const now = Date.now();
 
-    const handleKeyUp = (e: KeyboardEvent) => {
-      keysRef.current.delete(e.key);
-      keysRef.current.delete('rotated');
-      keysRef.current.delete('rotatedCCW');
-      keysRef.current.delete('held');
-      keysRef.current.delete('hardDropped');
-      keysRef.current.delete('leftHeld');
-      keysRef.current.delete('rightHeld');
-
-      // Deactivate soft drop when down arrow released
-      if (e.key === 'ArrowDown') {
-        setState(prev => ({ ...prev, softDropActive: false }));
+    switch (action) {
+      // Movement with DAS: the first press moves at once, held keys repeat at DAS_REPEAT
+      case 'left':
+      case 'right': {
+        const side = action;
+        if (!repeat || now - moveDelayRef.current[side] > DAS_REPEAT) {
+          moveDelayRef.current[side] = now;
+          movePiece(side === 'left' ? -1 : 1, 0);
+        }
+        break;
       }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [state.gameOver, state.paused, state.waiting, movePiece, handleRotate, holdPiece, hardDrop, synthPowerUp, isMuted]);
+      // Everything else happens once per press, not on key repeat
+      case 'drop':
+        if (!repeat) hardDrop();
+        break;
+      case 'rotate':
+        if (!repeat) handleRotate(1);
+        break;
+      case 'rotateBack':
+        if (!repeat) handleRotate(-1);
+        break;
+      case 'hold':
+        if (!repeat) holdPiece();
+        break;
+    }
+  }, !pause.paused);
 
   // Render game
   useEffect(() => {
@@ -1008,7 +955,6 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
   // Restart game
   const restart = () => {
     const highScore = Math.max(state.highScore, state.score);
-    localStorage.setItem('metris_highScore', highScore.toString());
 
     // Reset timing refs
     lastDropTimeRef.current = 0;
@@ -1016,6 +962,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
 
     // Reset session tracking refs
     pieceBagRef.current = [];
+    pieceRandomRef.current = piecesFor(options?.seed);
     sessionStartTimeRef.current = Date.now();
     totalLinesRef.current = 0;
     tSpinsRef.current = 0;
@@ -1092,6 +1039,8 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
     );
   };
 
+  const sprintCleared = sprint && state.lines >= SPRINT_LINES;
+
   return (
     <div className="w-full h-full flex items-center justify-center bg-black p-4">
       {/* Matrix rain background */}
@@ -1112,7 +1061,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
         ))}
       </div>
 
-      <div className="relative flex gap-6 items-start">
+      <div className="relative flex gap-2 md:gap-6 items-start max-w-full">
         {/* Left panel - Stats */}
         <div className="flex flex-col gap-4">
           {/* Hold piece */}
@@ -1139,7 +1088,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
               </div>
               <div className="flex justify-between">
                 <span>LINES:</span>
-                <span className="text-green-300">{state.lines}</span>
+                <span className="text-green-300">{sprint ? `${state.lines}/${SPRINT_LINES}` : state.lines}</span>
               </div>
               {state.combo > 0 && (
                 <div className="flex justify-between text-yellow-400 animate-pulse">
@@ -1192,7 +1141,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
             ref={canvasRef}
             width={COLS * BLOCK_SIZE}
             height={ROWS * BLOCK_SIZE}
-            className="border-4 border-green-500 rounded-lg shadow-[0_0_30px_rgba(0,255,0,0.5)]"
+            className="max-w-full max-h-[75vh] w-auto h-auto border-4 border-green-500 rounded-lg shadow-[0_0_30px_rgba(0,255,0,0.5)]"
             style={{
               imageRendering: 'crisp-edges',
               filter: state.bulletTimeActive ? 'hue-rotate(30deg) brightness(1.2)' : 'none'
@@ -1205,8 +1154,11 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
               <div className="text-center">
                 <Play className="w-16 h-16 text-green-500 mx-auto mb-4 animate-pulse" />
                 <div className="text-2xl font-mono text-green-500 mb-4">METRIS</div>
-                <div className="text-lg text-green-400 animate-pulse">Press ENTER to start</div>
-                <div className="text-sm text-green-500/70 mt-4">SPACE = Hard Drop | ↓ = Soft Drop | ← → = Move | ↑ = Rotate</div>
+                <div className="text-lg text-green-400 animate-pulse">Press {boundKeysLabel('metris', 'confirm')} to start</div>
+                <div className="text-sm text-green-500/70 mt-4">
+                  {boundKeysLabel('metris', 'drop')} = Hard Drop | {boundKeysLabel('metris', 'down')} = Soft Drop |{' '}
+                  {boundKeysLabel('metris', 'left')} {boundKeysLabel('metris', 'right')} = Move | {boundKeysLabel('metris', 'rotate')} = Rotate
+                </div>
               </div>
             </div>
           )}
@@ -1217,33 +1169,29 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
               <div className="text-center">
                 <Pause className="w-16 h-16 text-green-500 mx-auto mb-4" />
                 <div className="text-2xl font-mono text-green-500">PAUSED</div>
-                <div className="text-sm text-green-400 mt-2">Press P or ESC to resume</div>
+                <div className="text-sm text-green-400 mt-2">Press {boundKeysLabel('metris', 'pause')} to resume</div>
               </div>
             </div>
           )}
 
           {/* Game over overlay */}
           {state.gameOver && (
-            <div className="absolute inset-0 bg-black/90 flex items-center justify-center backdrop-blur-sm border-4 border-red-500 rounded-lg">
-              <div className="text-center p-6">
-                <div className="text-3xl font-mono text-red-500 mb-4 animate-pulse">GAME OVER</div>
-                <div className="text-xl text-green-400 mb-2">Score: {state.score.toLocaleString()}</div>
-                <div className="text-sm text-green-500 mb-4">Level: {state.level} | Lines: {state.lines}</div>
-                {state.score === state.highScore && state.score > 0 && (
-                  <div className="text-yellow-400 mb-4 flex items-center gap-2 justify-center">
-                    <Trophy className="w-5 h-5" />
-                    NEW HIGH SCORE!
-                  </div>
-                )}
-                <button
-                  onClick={restart}
-                  className="px-6 py-3 bg-green-600 hover:bg-green-500 text-black font-mono rounded-lg flex items-center gap-2 mx-auto transition-colors"
-                >
-                  <RotateCw className="w-5 h-5" />
-                  RESTART
-                </button>
-              </div>
-            </div>
+            <GameOverScreen
+              gameId="metris"
+              paused={pause.paused}
+              score={state.score}
+              level={state.level}
+              startedAt={sessionStartTimeRef.current}
+              challenge={challenge}
+              mode={options?.mode}
+              title={sprintCleared ? 'SPRINT CLEAR' : undefined}
+              titleClassName={sprintCleared ? 'text-green-400' : undefined}
+              details={<div className="text-sm text-green-500">LINES {state.lines}</div>}
+              restartLabel="RESTART"
+              onRestart={restart}
+              onQuit={pause.onQuit}
+              className="absolute inset-0 rounded-lg"
+            />
           )}
         </div>
 
@@ -1260,11 +1208,11 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
           <div className="bg-gray-900 border-2 border-green-500 rounded-lg p-3">
             <div className="text-green-400 text-xs font-mono space-y-1">
               <div className="font-bold mb-2">CONTROLS</div>
-              <div>← → Move</div>
-              <div>↑ X Rotate</div>
-              <div>Z Rotate CCW</div>
-              <div>C Hold</div>
-              <div>P Pause</div>
+              <div>{boundKeysLabel('metris', 'left')} {boundKeysLabel('metris', 'right')} Move</div>
+              <div>{boundKeysLabel('metris', 'rotate')} Rotate</div>
+              <div>{boundKeysLabel('metris', 'rotateBack')} Rotate CCW</div>
+              <div>{boundKeysLabel('metris', 'hold')} Hold</div>
+              <div>{boundKeysLabel('metris', 'pause')} Pause</div>
               <div className="text-green-300 text-[10px] mt-2">* Blocks fall automatically</div>
               <div className="text-yellow-300 text-[10px]">* Bullet Time: Auto</div>
             </div>
@@ -1272,13 +1220,7 @@ export default function Metris({ achievementManager, isMuted }: MetrisProps) {
 
           {/* Pause button */}
           <button
-            onClick={() => {
-              // Reset timer when unpausing to prevent instant drop
-              if (state.paused) {
-                lastDropTimeRef.current = performance.now();
-              }
-              setState(prev => ({ ...prev, paused: !prev.paused }));
-            }}
+            onClick={togglePause}
             className="px-4 py-2 bg-green-600 hover:bg-green-500 text-black font-mono rounded-lg flex items-center gap-2 transition-colors"
           >
             {state.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
@@ -6,11 +6,15 @@
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import SimpleSnake from './SimpleSnake';
-import {
-  createMockAchievementManager
-} from '../../test/matrix-test-utils';
+import { useSimpleSnakeGame } from '../../hooks/useSimpleSnakeGame';
+import { useGameSave } from '../../hooks/useSaveSystem';
+
+const createMockAchievementManager = () => ({
+  unlockAchievement: vi.fn(),
+  emit: vi.fn()
+});
 
 // Mock the custom hooks
 vi.mock('../../hooks/useSimpleSnakeGame', () => ({
@@ -37,18 +41,14 @@ vi.mock('../../hooks/useSimpleSnakeGame', () => ({
 }));
 
 vi.mock('../../hooks/useSaveSystem', () => ({
-  useSaveSystem: vi.fn(() => ({
-    saveData: {
-      games: {
-        snakeClassic: {
-          highScore: 0,
-          stats: {
-            gamesPlayed: 0,
-            totalScore: 0,
-            longestSurvival: 0,
-            bestLength: 0
-          }
-        }
+  useGameSave: vi.fn(() => ({
+    gameSave: {
+      highScore: 0,
+      stats: {
+        gamesPlayed: 0,
+        totalScore: 0,
+        longestSurvival: 0,
+        bestLength: 0
       }
     },
     updateGameSave: vi.fn(),
@@ -56,6 +56,10 @@ vi.mock('../../hooks/useSaveSystem', () => ({
   }))
 }));
 
+vi.mock('../ui/GameOverScreen', () => ({
+  GameOverScreen: () => <div>GAME OVER</div>
+}));
+
 // Mock framer-motion
 vi.mock('framer-motion', () => ({
   motion: {
@@ -277,7 +281,10 @@ describe('SimpleSnake', () => {
       expect(() => unmount()).not.toThrow();
     });
 
-    it('cleans up event listeners on unmount', () => {
+    it('cleans up event listeners on unmount', async () => {
+      // Keys reach the game through the input manager its game hook subscribes to
+      const actual = await vi.importActual<typeof import('../../hooks/useSimpleSnakeGame')>('../../hooks/useSimpleSnakeGame');
+      vi.mocked(useSimpleSnakeGame).mockImplementation(actual.useSimpleSnakeGame);
       const removeEventListenerSpy = vi.spyOn(window, 'removeEventListener');
       const { unmount } = render(<SimpleSnake />);
 
@@ -287,6 +294,76 @@ describe('SimpleSnake', () => {
         'keydown',
         expect.any(Function)
       );
+      vi.mocked(useSimpleSnakeGame).mockReset();
+    });
+  });
+
+  describe('Run Recording', () => {
+    const save = {
+      highScore: 50,
+      level: 1,
+      achievements: [],
+      stats: { gamesPlayed: 4, totalScore: 120, longestSurvival: 30, bestLength: 6 }
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(useSimpleSnakeGame).mockReturnValue({
+        ...vi.mocked(useSimpleSnakeGame)(0),
+        gameState: {
+          ...vi.mocked(useSimpleSnakeGame)(0).gameState,
+          snake: [{ x: 3, y: 3 }, { x: 2, y: 3 }],
+          score: 70,
+          gameState: 'gameOver'
+        }
+      });
+    });
+
+    afterEach(() => {
+      vi.mocked(useSimpleSnakeGame).mockReset();
+      vi.mocked(useGameSave).mockReset();
+      vi.useRealTimers();
+    });
+
+    it('records a game over once however often the game re-renders', () => {
+      const updateGameSave = vi.fn();
+      const manager = createMockAchievementManager();
+      const withSave = (gameSave: typeof save) => ({ gameSave, updateGameSave }) as unknown as ReturnType<typeof useGameSave>;
+
+      vi.mocked(useGameSave).mockReturnValue(withSave(save));
+      const { rerender } = render(<SimpleSnake achievementManager={manager} />);
+
+      // Recording the run changes the save, and the arcade hands over a new manager object each render
+      for (let i = 0; i < 3; i++) {
+        vi.mocked(useGameSave).mockReturnValue(withSave({ ...save, stats: { ...save.stats } }));
+        rerender(<SimpleSnake achievementManager={{ ...manager }} />);
+      }
+      act(() => {
+        vi.advanceTimersByTime(200);
+      });
+
+      const gameOvers = manager.emit.mock.calls.filter(([event]) => event.type === 'game_over');
+      expect(gameOvers).toEqual([[expect.objectContaining({ gameId: 'snakeClassic', score: 70 })]]);
+      expect(updateGameSave).toHaveBeenCalledTimes(1);
+
+      const [, update] = updateGameSave.mock.calls[0];
+      expect(update(save)).toMatchObject({
+        highScore: 70,
+        stats: { gamesPlayed: 5, totalScore: 190, bestLength: 6 }
+      });
+    });
+
+    it('reports a run as the game starts it, not as it resumes from pause', () => {
+      const manager = createMockAchievementManager();
+      const resumed = vi.mocked(useSimpleSnakeGame)(0);
+      vi.mocked(useSimpleSnakeGame).mockReturnValue({ ...resumed, gameState: { ...resumed.gameState, score: 0, gameState: 'playing' } });
+
+      render(<SimpleSnake achievementManager={manager} />);
+      expect(manager.emit).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'run_started' }));
+
+      const onRunStart = vi.mocked(useSimpleSnakeGame).mock.calls.at(-1)?.[3];
+      act(() => onRunStart?.());
+      expect(manager.emit).toHaveBeenCalledWith({ type: 'run_started', gameId: 'snakeClassic' });
     });
   });
 
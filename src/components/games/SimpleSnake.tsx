@@ -1,15 +1,22 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useCallback, useEffect, useRef, useMemo } from 'react';
 import { useSimpleSnakeGame } from '../../hooks/useSimpleSnakeGame';
-import { useSaveSystem } from '../../hooks/useSaveSystem';
-import { Trophy, Zap, Play, RotateCcw } from 'lucide-react';
+import { useGameSave } from '../../hooks/useSaveSystem';
+import { useRunReport } from '../../hooks/useRunReport';
+import { GameOverScreen } from '../ui/GameOverScreen';
+import type { GameEvent } from '../../types/events';
+import type { ActiveChallenge } from '../../types/challenge';
+import type { GamePauseProps } from '../../types/game';
+import { Trophy, Zap, Play } from 'lucide-react';
 
 interface AchievementManager {
   unlockAchievement(gameId: string, achievementId: string): void;
+  emit(event: GameEvent): void;
 }
 
-interface SimpleSnakeProps {
+interface SimpleSnakeProps extends GamePauseProps {
   achievementManager?: AchievementManager;
   isMuted?: boolean;
+  challenge?: ActiveChallenge;
 }
 
 interface Position {
@@ -277,7 +284,7 @@ const SnakeCanvas: React.FC<SnakeCanvasProps> = ({
       ref={canvasRef}
       width={600}
       height={600}
-      className="w-full h-full border border-green-500 bg-black"
+      className="max-w-full max-h-[70vh] w-auto h-auto border border-green-500 bg-black"
       style={{ imageRendering: 'crisp-edges' }}
     />
   );
@@ -285,14 +292,11 @@ const SnakeCanvas: React.FC<SnakeCanvasProps> = ({
 
 interface SnakeMenuProps {
   gameState: string;
-  score: number;
-  highScore: number;
   onStart: () => void;
-  onReset: () => void;
 }
 
-const SnakeMenu: React.FC<SnakeMenuProps> = ({ gameState, score, highScore, onStart, onReset }) => {
-  if (gameState === 'playing') return null;
+const SnakeMenu: React.FC<SnakeMenuProps> = ({ gameState, onStart }) => {
+  if (gameState === 'playing' || gameState === 'gameOver') return null;
 
   return (
     <div className="absolute inset-0 bg-black/90 flex items-center justify-center">
@@ -311,21 +315,6 @@ const SnakeMenu: React.FC<SnakeMenuProps> = ({ gameState, score, highScore, onSt
           </>
         )}
 
-        {gameState === 'gameOver' && (
-          <>
-            <h2 className="text-3xl font-bold text-red-500 mb-4">GAME OVER</h2>
-            <div className="text-green-400 mb-2">Score: {score}</div>
-            <div className="text-yellow-400 mb-6">High Score: {highScore}</div>
-            <button
-              onClick={onReset}
-              className="px-6 py-3 bg-green-500 text-black font-bold hover:bg-green-400 transition-colors flex items-center gap-2 mx-auto"
-            >
-              <RotateCcw className="w-5 h-5" />
-              PLAY AGAIN
-            </button>
-          </>
-        )}
-
         {gameState === 'paused' && (
           <>
             <h2 className="text-3xl font-bold text-yellow-400 mb-4">PAUSED</h2>
@@ -337,129 +326,75 @@ const SnakeMenu: React.FC<SnakeMenuProps> = ({ gameState, score, highScore, onSt
   );
 };
 
-export default function SimpleSnake({ achievementManager, isMuted }: SimpleSnakeProps) {
-  const { gameState, startGame, togglePause, resetGame, changeDirection, gridSize } = useSimpleSnakeGame();
-  const { saveData, updateGameSave, unlockAchievement } = useSaveSystem();
-  const scoreRef = useRef(0);
+export default function SimpleSnake({ achievementManager, isMuted, challenge, ...pause }: SimpleSnakeProps) {
+  const { gameSave, updateGameSave } = useGameSave('snakeClassic');
   const playTimeRef = useRef<number>(Date.now());
   const prevScoreRef = useRef(0);
   const sessionStartTimeRef = useRef<number>(Date.now());
-  const foodEatenRef = useRef(0);
-
-  // Handle keyboard input
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (gameState.gameState === 'playing') {
-        switch (e.key) {
-          case 'ArrowUp':
-          case 'w':
-          case 'W':
-            changeDirection('up');
-            break;
-          case 'ArrowDown':
-          case 's':
-          case 'S':
-            changeDirection('down');
-            break;
-          case 'ArrowLeft':
-          case 'a':
-          case 'A':
-            changeDirection('left');
-            break;
-          case 'ArrowRight':
-          case 'd':
-          case 'D':
-            changeDirection('right');
-            break;
-          case ' ':
-            togglePause();
-            break;
-        }
-      } else if (gameState.gameState === 'menu' && e.key === ' ') {
-        startGame();
-      } else if (gameState.gameState === 'paused' && e.key === ' ') {
-        togglePause();
-      } else if (gameState.gameState === 'gameOver' && e.key === ' ') {
-        resetGame();
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [gameState.gameState, changeDirection, startGame, togglePause, resetGame]);
+  const runStartedAtRef = useRef<number>(Date.now());
+  const runRecordedRef = useRef(false);
+  const emit = achievementManager?.emit;
+
+  // A new run's clocks start, and the run is reported, as the game starts it
+  const startRun = useCallback(() => {
+    playTimeRef.current = Date.now();
+    sessionStartTimeRef.current = Date.now();
+    runStartedAtRef.current = Date.now();
+    runRecordedRef.current = false;
+    emit?.({ type: 'run_started', gameId: 'snakeClassic' });
+  }, [emit]);
+
+  const { gameState, startGame, resetGame, gridSize } = useSimpleSnakeGame(
+    gameSave?.highScore || 0,
+    challenge?.modifiers?.disabledPowerUps,
+    pause,
+    startRun
+  );
 
   // Track achievements
   useEffect(() => {
-    if (achievementManager) {
-      // First Apple: First food collected
-      if (gameState.score > 0 && foodEatenRef.current === 0) {
-        unlockAchievement('snakeClassic', 'first_apple');
-        foodEatenRef.current = 1;
-      }
-
-      // Score achievements
-      if (gameState.score >= 100 && scoreRef.current < 100) {
-        unlockAchievement('snakeClassic', 'score_100');
-        achievementManager.unlockAchievement('snake', 'snake_score_100');
-      }
-      if (gameState.score >= 500 && scoreRef.current < 500) {
-        unlockAchievement('snakeClassic', 'score_500');
-        achievementManager.unlockAchievement('snake', 'snake_score_500');
-      }
-      if (gameState.score >= 1000 && scoreRef.current < 1000) {
-        unlockAchievement('snakeClassic', 'snake_master');
-        achievementManager.unlockAchievement('snake', 'snake_master');
-      }
-
-      scoreRef.current = gameState.score;
+    if (gameState.score > 0) {
+      emit?.({ type: 'score', gameId: 'snakeClassic', score: gameState.score });
     }
-  }, [gameState.score, achievementManager, unlockAchievement]);
+  }, [gameState.score, emit]);
 
-  // Track play time and save on game over
+  // Save on game over
   useEffect(() => {
-    if (gameState.gameState === 'playing') {
-      playTimeRef.current = Date.now();
-      sessionStartTimeRef.current = Date.now();
-    } else if (gameState.gameState === 'gameOver') {
+    if (gameState.gameState === 'gameOver' && !runRecordedRef.current) {
+      // Recording the run writes to the save, so only the first pass over a game over records it
+      runRecordedRef.current = true;
       const playTime = (Date.now() - playTimeRef.current) / 1000; // in seconds
       const sessionTime = Math.floor((Date.now() - sessionStartTimeRef.current) / 1000);
+      const score = gameState.score;
+      const level = gameState.level || 1;
+      const length = gameState.snake.length;
 
       // Save game stats
-      const currentHighScore = saveData.games.snakeClassic?.highScore || 0;
-      const newHighScore = Math.max(currentHighScore, gameState.score);
-      const previousGamesPlayed = saveData.games.snakeClassic?.stats?.gamesPlayed || 0;
-      const previousTotalScore = saveData.games.snakeClassic?.stats?.totalScore || 0;
-      const previousLongestSurvival = saveData.games.snakeClassic?.stats?.longestSurvival || 0;
-      const previousBestLength = saveData.games.snakeClassic?.stats?.bestLength || 0;
-
       setTimeout(() => {
-        updateGameSave('snakeClassic', {
-          highScore: newHighScore,
-          level: gameState.level || 1,
+        updateGameSave('snakeClassic', game => ({
+          highScore: Math.max(game.highScore || 0, score),
+          level,
           stats: {
-            gamesPlayed: previousGamesPlayed + 1,
-            totalScore: previousTotalScore + gameState.score,
-            longestSurvival: Math.max(previousLongestSurvival, sessionTime),
-            bestLength: Math.max(previousBestLength, gameState.snake.length)
+            gamesPlayed: (game.stats?.gamesPlayed || 0) + 1,
+            totalScore: (game.stats?.totalScore || 0) + score,
+            longestSurvival: Math.max(game.stats?.longestSurvival || 0, sessionTime),
+            bestLength: Math.max(game.stats?.bestLength || 0, length)
           }
-        });
+        }));
       }, 100);
 
       // Achievements
-      if (achievementManager) {
-        // Survivor: Play for 5 minutes
-        if (playTime >= 300) {
-          unlockAchievement('snakeClassic', 'survivor');
-          achievementManager.unlockAchievement('snake', 'snake_survivor');
-        }
-
-        // Speed Demon: Score 100+ at max speed
-        if (gameState.score >= 100 && (gameState.level || 1) >= 10) {
-          unlockAchievement('snakeClassic', 'speed_demon');
-        }
-      }
+      emit?.({ type: 'level_reached', gameId: 'snakeClassic', level });
+      emit?.({ type: 'game_over', gameId: 'snakeClassic', score, durationSeconds: Math.floor(playTime) });
     }
-  }, [gameState.gameState, gameState.score, gameState.level, gameState.snake, achievementManager, saveData, updateGameSave, unlockAchievement]);
+  }, [gameState.gameState, gameState.score, gameState.level, gameState.snake.length, emit, updateGameSave]);
+
+  // A run cut short by the arcade's restart or quit is reported as quit
+  useRunReport('snakeClassic', emit, {
+    active: gameState.gameState === 'playing' || gameState.gameState === 'paused',
+    score: gameState.score,
+    startedAt: runStartedAtRef
+  });
 
   // Simple sound effects (only if not muted)
   useEffect(() => {
@@ -600,7 +535,7 @@ export default function SimpleSnake({ achievementManager, isMuted }: SimpleSnake
 
       {/* Game Canvas Container */}
       <div className="flex-1 flex items-center justify-center p-4 overflow-hidden">
-        <div className="w-full h-full max-w-[600px] max-h-[600px] relative">
+        <div className="relative max-w-full">
           <SnakeCanvas
             snake={gameState.snake}
             food={gameState.food}
@@ -615,11 +550,20 @@ export default function SimpleSnake({ achievementManager, isMuted }: SimpleSnake
           {/* Menu Overlay */}
           <SnakeMenu
             gameState={gameState.gameState}
-            score={gameState.score}
-            highScore={gameState.highScore}
             onStart={startGame}
-            onReset={resetGame}
           />
+
+          {gameState.gameState === 'gameOver' && (
+            <GameOverScreen
+              gameId="snakeClassic"
+              paused={pause.paused}
+              score={gameState.score}
+              startedAt={runStartedAtRef.current}
+              challenge={challenge}
+              onRestart={resetGame}
+              onQuit={pause.onQuit}
+            />
+          )}
         </div>
       </div>
 
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import TerminalQuest from './TerminalQuest';
 
 // Mock lucide-react icons
@@ -23,6 +23,7 @@ vi.mock('lucide-react', () => ({
 vi.mock('../../hooks/useSoundSystem', () => ({
   useSoundSystem: () => ({
     playSound: vi.fn(),
+    playSFX: vi.fn(),
     playMusic: vi.fn(),
     stopMusic: vi.fn(),
     isMuted: false,
@@ -30,10 +31,31 @@ vi.mock('../../hooks/useSoundSystem', () => ({
   })
 }));
 
+const mockUpdateGameSave = vi.fn();
+const mockUnlockSaveAchievement = vi.fn();
+const mockQuestSave = {
+  highScore: 0,
+  level: 1,
+  achievements: [],
+  stats: {
+    gamesPlayed: 0,
+    totalScore: 0
+  },
+  endingsSeen: ['ending_escape', 'ending_transcendent']
+};
+
+vi.mock('../../hooks/useSaveSystem', () => ({
+  useGameSave: () => ({
+    gameSave: mockQuestSave,
+    updateGameSave: mockUpdateGameSave,
+    unlockAchievement: mockUnlockSaveAchievement
+  })
+}));
+
 // Mock TerminalQuestCombat component
 vi.mock('./TerminalQuestCombat', () => ({
-  default: ({ onComplete, onDefeat }: { onComplete: () => void; onDefeat: () => void }) => (
-    <div data-testid="combat-component">
+  default: ({ onComplete, onDefeat, paused }: { onComplete: () => void; onDefeat: () => void; paused?: boolean }) => (
+    <div data-testid="combat-component" data-paused={paused}>
       <button onClick={onComplete}>Win Combat</button>
       <button onClick={onDefeat}>Lose Combat</button>
     </div>
@@ -99,7 +121,8 @@ describe('TerminalQuest', () => {
 
     it('accepts achievement manager prop', () => {
       const mockAchievementManager = {
-        unlockAchievement: vi.fn()
+        unlockAchievement: vi.fn(),
+        emit: vi.fn()
       };
 
       const { container } = render(
@@ -307,4 +330,95 @@ describe('TerminalQuest', () => {
       expect(container.querySelectorAll('div').length).toBeGreaterThan(0);
     });
   });
+
+  describe('Arcade Save Integration', () => {
+    const emit = vi.fn();
+    const emitted = (type: string) => emit.mock.calls.map(([event]) => event).filter(event => event.type === type);
+
+    const loadRunAt = (node: string, props: { paused?: boolean } = {}) => {
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({
+        gameState: {
+          currentNode: node,
+          inventory: [],
+          health: 100,
+          maxHealth: 100,
+          securityLevel: 50,
+          discovered: ['start', node],
+          experience: 250,
+          achievements: [],
+          choiceCount: 12
+        }
+      }));
+
+      render(<TerminalQuest achievementManager={{ unlockAchievement: vi.fn(), emit }} {...props} />);
+      fireEvent.click(screen.getByTitle('Load Game'));
+      // Let the typing effect finish so choices are shown
+      act(() => {
+        vi.advanceTimersByTime(20000);
+      });
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      emit.mockClear();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('records the run and reports the ending reached', () => {
+      loadRunAt('virus_dialogue');
+      fireEvent.click(screen.getByText(/Consider the Offer/));
+
+      expect(emitted('ending_reached')).toEqual([{
+        type: 'ending_reached',
+        gameId: 'terminalQuest',
+        ending: 'ending_corrupted',
+        choices: 13,
+        combats: 0,
+        damageTaken: 0
+      }]);
+      expect(emitted('game_over')).toEqual([expect.objectContaining({ gameId: 'terminalQuest', score: 250 })]);
+      expect(mockUnlockSaveAchievement).not.toHaveBeenCalled();
+
+      act(() => {
+        vi.advanceTimersByTime(200);
+      });
+      expect(mockUpdateGameSave).toHaveBeenCalledWith('terminalQuest', expect.any(Function));
+      const [, update] = mockUpdateGameSave.mock.calls[0];
+      expect(update(mockQuestSave)).toEqual(expect.objectContaining({
+        highScore: 250,
+        stats: expect.objectContaining({
+          gamesPlayed: 1,
+          totalScore: 250
+        }),
+        endingsSeen: ['ending_escape', 'ending_transcendent', 'ending_corrupted']
+      }));
+    });
+
+    it('does not record a run for ordinary choices', () => {
+      loadRunAt('exit_search');
+      fireEvent.click(screen.getByText(/Investigate Northern Gateway/));
+
+      expect(emitted('ending_reached')).toEqual([]);
+      expect(emitted('choice_made')).toEqual([expect.objectContaining({ choices: 13, fullHealth: true, allItems: false })]);
+      expect(emitted('game_over')).toEqual([]);
+    });
+
+    it('starts a new run when carrying on after a game over', () => {
+      loadRunAt('game_over');
+      expect(emitted('run_started')).toHaveLength(1);
+
+      fireEvent.click(screen.getByText(/Restart from Checkpoint/));
+      expect(emitted('run_started')).toHaveLength(2);
+    });
+
+    it('passes the arcade pause on to a fight', () => {
+      loadRunAt('eastern_path', { paused: true });
+      fireEvent.click(screen.getByText(/Attempt to Disable Guardian/));
+
+      expect(screen.getByTestId('combat-component')).toHaveAttribute('data-paused', 'true');
+    });
+  });
 });
@@ -1,15 +1,21 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Terminal as TerminalIcon, Info, Shield, Wifi, Key, AlertTriangle, Cpu, Save, RotateCcw, Map as MapIcon } from 'lucide-react';
-import { EXPANDED_GAME_NODES, Choice } from './TerminalQuestContent';
+import {
+  EXPANDED_GAME_NODES,
+  Choice,
+  TERMINAL_QUEST_ENDINGS,
+  COLLECTIBLE_ITEMS
+} from './TerminalQuestContent';
 import { useSoundSystem } from '../../hooks/useSoundSystem';
+import { useGameSave } from '../../hooks/useSaveSystem';
+import { useRunReport } from '../../hooks/useRunReport';
+import { saveStorage } from '../../utils/saveStorage';
 import TerminalQuestCombat from './TerminalQuestCombat';
+import type { GameAchievementManager, GamePauseProps } from '../../types/game';
 
-interface AchievementManager {
-  unlockAchievement(gameId: string, achievementId: string): void;
-}
-
-interface TerminalQuestProps {
-  achievementManager?: AchievementManager;
+// Pausing holds a fight's turns; the story itself already waits for the player
+interface TerminalQuestProps extends GamePauseProps {
+  achievementManager?: GameAchievementManager;
 }
 
 type GameState = {
@@ -22,8 +28,26 @@ type GameState = {
   experience: number;
   achievements: string[];
   choiceCount: number;
+  combatsFought: number;
+  combatsWon: number;
+  damageTaken: number;
 };
 
+const createInitialState = (): GameState => ({
+  currentNode: 'start',
+  inventory: [],
+  health: 100,
+  maxHealth: 100,
+  securityLevel: 50,
+  discovered: ['start'],
+  experience: 0,
+  achievements: [],
+  choiceCount: 0,
+  combatsFought: 0,
+  combatsWon: 0,
+  damageTaken: 0
+});
+
 // Use expanded content from TerminalQuestContent.ts
 const GAME_NODES = EXPANDED_GAME_NODES;
 
@@ -62,18 +86,8 @@ const InventoryBadge = ({ item }: { item: string }) => {
   );
 };
 
-export default function TerminalQuest({ achievementManager }: TerminalQuestProps) {
-  const [gameState, setGameState] = useState<GameState>({
-    currentNode: 'start',
-    inventory: [],
-    health: 100,
-    maxHealth: 100,
-    securityLevel: 50,
-    discovered: ['start'],
-    experience: 0,
-    achievements: [],
-    choiceCount: 0
-  });
+export default function TerminalQuest({ achievementManager, paused = false }: TerminalQuestProps) {
+  const [gameState, setGameState] = useState<GameState>(createInitialState);
   const [inCombat, setInCombat] = useState(false);
   const [saveExists, setSaveExists] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
@@ -82,18 +96,60 @@ export default function TerminalQuest({ achievementManager }: TerminalQuestProps
 
   // Sound system integration
   const { playSFX, playMusic, stopMusic } = useSoundSystem();
-  
-  // Achievement unlock function
-  const unlockAchievement = useCallback((achievementId: string) => {
-    if (achievementManager?.unlockAchievement) {
-      achievementManager.unlockAchievement('terminalQuest', achievementId);
+  const { updateGameSave } = useGameSave('terminalQuest');
+  const emit = achievementManager?.emit;
+  const runStartedAt = useRef(Date.now());
+
+  // A run lasts until an ending or game over; carrying on from there, or loading a save, starts the next
+  const startRun = useCallback(() => {
+    runStartedAt.current = Date.now();
+    emit?.({ type: 'run_started', gameId: 'terminalQuest' });
+  }, [emit]);
+
+  // A run cut short by the arcade's restart or quit is reported as quit
+  const runOver = TERMINAL_QUEST_ENDINGS.includes(gameState.currentNode) || gameState.currentNode === 'game_over';
+  useRunReport('terminalQuest', emit, { active: !runOver && gameState.choiceCount > 0, score: gameState.experience, startedAt: runStartedAt });
+
+  // Record a finished run (ending reached or game over) in the arcade save
+  const recordRun = useCallback((finalState: GameState, ending?: string) => {
+    setTimeout(() => {
+      updateGameSave('terminalQuest', questSave => {
+        const previousEndings = questSave.endingsSeen || [];
+
+        return {
+          highScore: Math.max(questSave.highScore || 0, finalState.experience),
+          level: Math.max(questSave.level || 1, Math.floor(finalState.experience / 100) + 1),
+          stats: {
+            ...questSave.stats,
+            gamesPlayed: (questSave.stats?.gamesPlayed || 0) + 1,
+            totalScore: (questSave.stats?.totalScore || 0) + finalState.experience,
+            bossesDefeated: (questSave.stats?.bossesDefeated || 0) + (finalState.combatsWon || 0)
+          },
+          endingsSeen: ending && !previousEndings.includes(ending)
+            ? [...previousEndings, ending]
+            : previousEndings
+        };
+      });
+    }, 100);
+
+    emit?.({
+      type: 'game_over',
+      gameId: 'terminalQuest',
+      score: finalState.experience,
+      durationSeconds: Math.floor((Date.now() - runStartedAt.current) / 1000)
+    });
+    if (ending) {
+      emit?.({
+        type: 'ending_reached',
+        gameId: 'terminalQuest',
+        ending,
+        choices: finalState.choiceCount,
+        combats: finalState.combatsFought,
+        damageTaken: finalState.damageTaken
+      });
     }
-  }, [achievementManager]);
-  
-  // Track various achievement conditions
-  const hasFirstChoice = React.useRef(false);
-  const combatVictories = React.useRef(0);
-  
+  }, [updateGameSave, emit]);
+
   // Start background music when component mounts
   useEffect(() => {
     playMusic('menu');
@@ -111,7 +167,10 @@ export default function TerminalQuest({ achievementManager }: TerminalQuestProps
 
   // Handler for choice actions
   const handleChoice = (choice: Choice) => {
-    
+    if (TERMINAL_QUEST_ENDINGS.includes(gameState.currentNode) || gameState.currentNode === 'game_over') {
+      startRun();
+    }
+
     // Play sound effects based on choice type
     playSFX('terminalType');
     
@@ -134,6 +193,22 @@ export default function TerminalQuest({ achievementManager }: TerminalQuestProps
     // Core state update remains consistent
     const newState = applyChoiceEffects(gameState, choice);
     setGameState(newState);
+    emit?.({
+      type: 'choice_made',
+      gameId: 'terminalQuest',
+      choices: newState.choiceCount,
+      health: newState.health,
+      security: newState.securityLevel,
+      items: newState.inventory.length,
+      fullHealth: newState.health === newState.maxHealth,
+      allItems: COLLECTIBLE_ITEMS.every(item => newState.inventory.includes(item))
+    });
+
+    if (TERMINAL_QUEST_ENDINGS.includes(newState.currentNode)) {
+      recordRun(newState, newState.currentNode);
+    } else if (newState.currentNode === 'game_over') {
+      recordRun(newState);
+    }
   };
 
   // Function for calculating effects from a choice
@@ -173,39 +248,6 @@ export default function TerminalQuest({ achievementManager }: TerminalQuestProps
       newAchievements.push('collector');
     }
     
-    // Global achievement system checks
-    // First choice achievement
-    if (!hasFirstChoice.current && state.choiceCount === 0) {
-      hasFirstChoice.current = true;
-      unlockAchievement('quest_first_choice');
-    }
-    
-    // Tool collector achievement (5 different items)
-    if (updatedInventory.length >= 5) {
-      unlockAchievement('quest_tool_collector');
-    }
-    
-    // Survivor achievement - check health maintained
-    if (newHealth === state.maxHealth && state.choiceCount >= 10) {
-      unlockAchievement('quest_survivor');
-    }
-    
-    // Code quality achievement (assuming security level represents code quality)
-    if (newSecurity >= 90) {
-      unlockAchievement('quest_code_master');
-    }
-    
-    // Team morale achievement (assuming health represents team morale in context)
-    if (newHealth >= 80) {
-      unlockAchievement('quest_team_leader');
-    }
-    
-    // Check if reaching an ending
-    const endingNodes = ['ending_hero', 'ending_sacrifice', 'ending_neutral', 'ending_villain'];
-    if (endingNodes.includes(choice.nextNode)) {
-      unlockAchievement('quest_story_end');
-    }
-
     return {
       ...state,
       currentNode: choice.nextNode,
@@ -215,6 +257,7 @@ export default function TerminalQuest({ achievementManager }: TerminalQuestProps
       experience: newXP,
       achievements: newAchievements,
       choiceCount: state.choiceCount + 1,
+      damageTaken: (state.damageTaken || 0) + Math.max(0, state.health - newHealth),
       discovered: state.discovered.includes(choice.nextNode)
         ? state.discovered
         : [...state.discovered, choice.nextNode]
@@ -274,25 +317,38 @@ export default function TerminalQuest({ achievementManager }: TerminalQuestProps
     
     if (victory) {
       const xpGain = Math.floor(damageDealt / 2);
-      setGameState(prev => ({
-        ...prev,
-        experience: prev.experience + xpGain,
-        health: Math.max(0, prev.health - damageTaken),
-        currentNode: 'hub_main' // Return to hub after combat
-      }));
+      // Return to hub after combat unless the fight leads somewhere specific
+      const nextNode = GAME_NODES[gameState.currentNode]?.victoryNode || 'hub_main';
+      const newState: GameState = {
+        ...gameState,
+        experience: gameState.experience + xpGain,
+        health: Math.max(0, gameState.health - damageTaken),
+        combatsFought: (gameState.combatsFought || 0) + 1,
+        combatsWon: (gameState.combatsWon || 0) + 1,
+        damageTaken: (gameState.damageTaken || 0) + damageTaken,
+        currentNode: nextNode,
+        discovered: gameState.discovered.includes(nextNode)
+          ? gameState.discovered
+          : [...gameState.discovered, nextNode]
+      };
+      setGameState(newState);
       triggerShake();
       
-      // Track combat victories
-      combatVictories.current += 1;
-      if (combatVictories.current >= 10) {
-        unlockAchievement('quest_combat_victor');
+      emit?.({ type: 'combat_won', gameId: 'terminalQuest' });
+
+      if (TERMINAL_QUEST_ENDINGS.includes(nextNode)) {
+        recordRun(newState, nextNode);
       }
     } else {
-      setGameState(prev => ({
-        ...prev,
+      const finalState: GameState = {
+        ...gameState,
         health: 0,
+        combatsFought: (gameState.combatsFought || 0) + 1,
+        damageTaken: (gameState.damageTaken || 0) + gameState.health,
         currentNode: 'game_over'
-      }));
+      };
+      setGameState(finalState);
+      recordRun(finalState);
     }
   };
 
@@ -302,21 +358,21 @@ export default function TerminalQuest({ achievementManager }: TerminalQuestProps
       gameState,
       timestamp: Date.now()
     };
-    localStorage.setItem('terminalQuestSave', JSON.stringify(saveData));
+    saveStorage.set('terminalQuestSave', saveData);
     setSaveExists(true);
   };
 
   const loadGame = () => {
-    const savedData = localStorage.getItem('terminalQuestSave');
+    const savedData = saveStorage.get('terminalQuestSave');
     if (savedData) {
-      const { gameState: loadedState } = JSON.parse(savedData);
-      setGameState(loadedState);
+      setGameState({ ...createInitialState(), ...(savedData.gameState as Partial<GameState>) });
+      startRun();
     }
   };
 
   // Check for save on mount
   useEffect(() => {
-    setSaveExists(!!localStorage.getItem('terminalQuestSave'));
+    setSaveExists(!!saveStorage.get('terminalQuestSave'));
   }, []);
 
   const currentNode = GAME_NODES[gameState.currentNode];
@@ -376,6 +432,7 @@ export default function TerminalQuest({ achievementManager }: TerminalQuestProps
             playerHealth={gameState.health}
             playerInventory={gameState.inventory}
             onCombatEnd={handleCombatEnd}
+            paused={paused}
           />
         ) : (
           <>
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import TerminalQuestCombat from './TerminalQuestCombat';
+
+const ENEMY = { name: 'Guardian Alpha', health: 80, damage: 15 };
+
+describe('TerminalQuestCombat', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const renderCombat = (paused: boolean) => (
+    <TerminalQuestCombat
+      enemy={ENEMY}
+      playerHealth={100}
+      playerInventory={[]}
+      onCombatEnd={vi.fn()}
+      paused={paused}
+    />
+  );
+
+  it('holds the enemy turn while paused and plays it on resume', () => {
+    const { rerender } = render(renderCombat(false));
+    fireEvent.click(screen.getByText('Attack'));
+
+    rerender(renderCombat(true));
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+    expect(screen.queryByText(/Guardian Alpha attacks/)).not.toBeInTheDocument();
+
+    rerender(renderCombat(false));
+    act(() => {
+      vi.advanceTimersByTime(1500);
+    });
+    expect(screen.getByText(/Guardian Alpha attacks/)).toBeInTheDocument();
+  });
+
+  it('ignores actions while paused', () => {
+    render(renderCombat(true));
+    fireEvent.click(screen.getByText('Attack'));
+
+    expect(screen.queryByText(/You deal/)).not.toBeInTheDocument();
+  });
+});
@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Swords, Shield, Zap, Heart, AlertTriangle } from 'lucide-react';
 import { Enemy } from './TerminalQuestContent';
 
 interface CombatScreenProps {
+  paused?: boolean;
   enemy: Enemy;
   playerHealth: number;
   playerInventory: string[];
@@ -14,7 +15,8 @@ export default function TerminalQuestCombat({
   enemy,
   playerHealth,
   playerInventory,
-  onCombatEnd
+  onCombatEnd,
+  paused = false
 }: CombatScreenProps) {
   const [enemyHealth, setEnemyHealth] = useState(enemy.health);
   const [currentPlayerHealth, setCurrentPlayerHealth] = useState(playerHealth);
@@ -22,6 +24,19 @@ export default function TerminalQuestCombat({
   const [isPlayerTurn, setIsPlayerTurn] = useState(true);
   const [isAnimating, setIsAnimating] = useState(false);
   const [shakeScreen, setShakeScreen] = useState(false);
+  // The next step of the fight, held while the arcade is paused and run once it resumes
+  const [pendingTurn, setPendingTurn] = useState<{ run: () => void; delay: number } | null>(null);
+
+  useEffect(() => {
+    if (paused || !pendingTurn) return;
+    const timer = setTimeout(() => {
+      setPendingTurn(null);
+      pendingTurn.run();
+    }, pendingTurn.delay);
+    return () => clearTimeout(timer);
+  }, [paused, pendingTurn]);
+
+  const scheduleTurn = (run: () => void, delay: number) => setPendingTurn({ run, delay });
 
   // Calculate player damage based on inventory
   const getPlayerDamage = () => {
@@ -42,7 +57,7 @@ export default function TerminalQuestCombat({
   };
 
   const handleAttack = () => {
-    if (!isPlayerTurn || isAnimating) return;
+    if (!isPlayerTurn || isAnimating || paused) return;
     
     setIsAnimating(true);
     const damage = getPlayerDamage();
@@ -52,17 +67,17 @@ export default function TerminalQuestCombat({
     setEnemyHealth(newEnemyHealth);
     
     if (newEnemyHealth <= 0) {
-      setTimeout(() => {
+      scheduleTurn(() => {
         setCombatLog(prev => [...prev, `${enemy.name} defeated!`]);
         onCombatEnd(true, enemy.health, playerHealth - currentPlayerHealth);
       }, 1000);
     } else {
-      setTimeout(() => enemyTurn(), 1500);
+      scheduleTurn(() => enemyTurn(), 1500);
     }
   };
 
   const handleDefend = () => {
-    if (!isPlayerTurn || isAnimating) return;
+    if (!isPlayerTurn || isAnimating || paused) return;
     
     setIsAnimating(true);
     setCombatLog(prev => [...prev, 'You take a defensive stance...']);
@@ -71,11 +86,11 @@ export default function TerminalQuestCombat({
     const healAmount = 5 + getPlayerDefense();
     setCurrentPlayerHealth(prev => Math.min(playerHealth, prev + healAmount));
     
-    setTimeout(() => enemyTurn(), 1500);
+    scheduleTurn(() => enemyTurn(), 1500);
   };
 
   const handleItem = (item: string) => {
-    if (!isPlayerTurn || isAnimating) return;
+    if (!isPlayerTurn || isAnimating || paused) return;
     
     setIsAnimating(true);
     
@@ -100,7 +115,7 @@ export default function TerminalQuestCombat({
       }
     }
     
-    setTimeout(() => enemyTurn(), 1500);
+    scheduleTurn(() => enemyTurn(), 1500);
   };
 
   const enemyTurn = () => {
@@ -117,12 +132,12 @@ export default function TerminalQuestCombat({
     setCurrentPlayerHealth(newPlayerHealth);
     
     if (newPlayerHealth <= 0) {
-      setTimeout(() => {
+      scheduleTurn(() => {
         setCombatLog(prev => [...prev, 'You have been defeated...']);
         onCombatEnd(false, enemy.health - enemyHealth, playerHealth);
       }, 1000);
     } else {
-      setTimeout(() => {
+      scheduleTurn(() => {
         setIsPlayerTurn(true);
         setIsAnimating(false);
       }, 1000);
@@ -8,6 +8,7 @@ export type GameNode = {
   isHub?: boolean;
   isCombat?: boolean;
   enemy?: Enemy;
+  victoryNode?: string; // Where a won combat leads (defaults to the hub)
 };
 
 export type Choice = {
@@ -174,6 +175,7 @@ export const EXPANDED_GAME_NODES: Record<string, GameNode> = {
     choices: [
       { text: "Enter Data Repository", nextNode: "data_repository" },
       { text: "Investigate Unknown Presence", nextNode: "first_boss_encounter" },
+      { text: "Slip Through the Open Gateway", nextNode: "ending_escape", xp: 50 },
     ],
   },
 
@@ -588,7 +590,7 @@ export const EXPANDED_GAME_NODES: Record<string, GameNode> = {
     choices: [
       { text: "Never! I'll Stop You!", nextNode: "final_boss_battle" },
       { text: "What Do You Want?", nextNode: "virus_negotiation" },
-      { text: "Consider the Offer", nextNode: "corruption_path" },
+      { text: "Consider the Offer", nextNode: "ending_corrupted", security: 50 },
       { text: "Propose Alternative", nextNode: "virus_compromise" },
     ],
   },
@@ -596,6 +598,7 @@ export const EXPANDED_GAME_NODES: Record<string, GameNode> = {
   final_boss_battle: {
     id: 'final_boss_battle',
     isCombat: true,
+    victoryNode: 'ending_transcendent',
     enemy: {
       name: "System Virus - Final Form",
       health: 200,
@@ -667,13 +670,14 @@ export const ITEM_DESCRIPTIONS: Record<string, string> = {
 };
 
 // Achievement system
-export const ACHIEVEMENTS = {
-  first_combat: "Warrior's Path - Win your first combat",
-  pacifist_run: "Ghost in the Machine - Complete without combat",
-  all_items: "Collector - Find all items",
-  speed_run: "Lightning Fast - Complete in under 50 choices",
-  true_ending: "System Administrator - Achieve the best ending",
-  all_endings: "Multiverse Explorer - See all endings",
-  no_damage: "Untouchable - Complete without taking damage",
-  full_corruption: "Embrace the Darkness - Become fully corrupted",
-};
\ No newline at end of file
+// Ending nodes - reaching one completes a run
+export const TRUE_ENDING = 'ending_transcendent';
+export const CORRUPTED_ENDING = 'ending_corrupted';
+export const TERMINAL_QUEST_ENDINGS = ['ending_escape', CORRUPTED_ENDING, TRUE_ENDING];
+
+// Every item a choice can hand out
+export const COLLECTIBLE_ITEMS = Array.from(new Set(
+  Object.values(EXPANDED_GAME_NODES).flatMap(node =>
+    node.choices.flatMap(choice => choice.gives || [])
+  )
+));
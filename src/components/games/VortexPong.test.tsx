@@ -33,16 +33,12 @@ vi.mock('../../hooks/useSoundSystem', () => ({
 }));
 
 vi.mock('../../hooks/useSaveSystem', () => ({
-  useSaveSystem: () => ({
-    saveData: {
-      games: {
-        vortexPong: {
-          highScore: 0,
-          stats: {
-            gamesPlayed: 0,
-            totalWins: 0
-          }
-        }
+  useGameSave: () => ({
+    gameSave: {
+      highScore: 0,
+      stats: {
+        gamesPlayed: 0,
+        totalWins: 0
       }
     },
     updateGameSave: vi.fn(),
@@ -81,10 +77,10 @@ vi.mock('../ui/ScoreBoard', () => ({
   )
 }));
 
-vi.mock('../ui/GameOverModal', () => ({
-  GameOverModal: ({ score, onRestart }: { score: { player: number; ai: number }; onRestart: () => void }) => (
+vi.mock('../ui/GameOverScreen', () => ({
+  GameOverScreen: ({ score, details, onRestart }: { score: number; details?: React.ReactNode; onRestart: () => void }) => (
     <div data-testid="game-over-modal">
-      Final Score - Player: {score.player} | AI: {score.ai}
+      Final Score - {score} {details}
       <button onClick={onRestart}>Play Again</button>
     </div>
   )
@@ -201,7 +197,7 @@ describe('VortexPong', () => {
 
       const canvas = container.querySelector('canvas');
       if (canvas) {
-        fireEvent.mouseMove(canvas, { clientY: 200 });
+        fireEvent.pointerMove(canvas, { clientY: 200 });
       }
 
       expect(container).toBeTruthy();
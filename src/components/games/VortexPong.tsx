@@ -4,10 +4,16 @@ import { useGameLoop } from '../../hooks/useGameLoop';
 import { usePowerUps } from '../../hooks/usePowerUps';
 import { useParticleSystem } from '../../hooks/useParticleSystem';
 import { useSoundSystem } from '../../hooks/useSoundSystem';
-import { useSaveSystem } from '../../hooks/useSaveSystem';
+import { useGameSave } from '../../hooks/useSaveSystem';
+import { useGameInput } from '../../hooks/useGameInput';
+import { useGamePause } from '../../hooks/useGamePause';
+import { useRunReport } from '../../hooks/useRunReport';
+import { boundKeysLabel, inputManager } from '../../utils/inputManager';
 import { PowerUpIndicator } from '../ui/PowerUpIndicator';
 import { ScoreBoard } from '../ui/ScoreBoard';
-import { GameOverModal } from '../ui/GameOverModal';
+import { GameOverScreen } from '../ui/GameOverScreen';
+import type { ActiveChallenge } from '../../types/challenge';
+import type { GameAchievementManager, GamePauseProps } from '../../types/game';
 
 // Constants
 const PADDLE_HEIGHT = 80;
@@ -18,12 +24,9 @@ const INITIAL_BALL_SPEED = 7;
 const SPEED_INCREMENT = 0.1; // Speed increases over time
 const MAX_BALL_SPEED = 15;
 
-interface AchievementManager {
-  unlockAchievement(gameId: string, achievementId: string): void;
-}
-
-interface VortexPongProps {
-  achievementManager?: AchievementManager;
+interface VortexPongProps extends GamePauseProps {
+  achievementManager?: GameAchievementManager;
+  challenge?: ActiveChallenge;
 }
 
 type Particle = {
@@ -92,7 +95,7 @@ const getScreenShake = (intensity: number) => ({
   y: (Math.random() - 0.5) * intensity
 });
 
-export default function VortexPong({ achievementManager }: VortexPongProps) {
+export default function VortexPong({ achievementManager, challenge, ...pause }: VortexPongProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [paddleY, setPaddleY] = useState(150);
   const [paddleVelocity, setPaddleVelocity] = useState(0);
@@ -103,6 +106,8 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
   const [particles, setParticles] = useState<Particle[]>([]);
   const [score, setScore] = useState({ player: 0, ai: 0 });
   const [gameOver, setGameOver] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const togglePause = useGamePause(pause, isPaused, setIsPaused);
   const [screenShake, setScreenShake] = useState({ x: 0, y: 0 });
   const [impactEffects, setImpactEffects] = useState<Array<{ x: number; y: number; intensity: number; life: number }>>([]);
   const [aiDifficulty, setAiDifficulty] = useState(2.5); // Adaptive AI speed - reduced for easier gameplay
@@ -118,20 +123,11 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
   const { powerUps, setPowerUps, activePowerUps, spawnPowerUp, activatePowerUp } = usePowerUps();
   const { explode, createTrail, render: renderParticles } = useParticleSystem();
   const { playSFX, stopMusic } = useSoundSystem();
-  const { saveData, updateGameSave, unlockAchievement: unlockSaveAchievement } = useSaveSystem();
-
-  // Achievement unlock function
-  const unlockAchievement = useCallback((achievementId: string) => {
-    if (achievementManager?.unlockAchievement) {
-      achievementManager.unlockAchievement('vortexPong', achievementId);
-    }
-    unlockSaveAchievement('vortexPong', achievementId);
-  }, [achievementManager, unlockSaveAchievement]);
+  const { updateGameSave } = useGameSave('vortexPong');
+  const emit = achievementManager?.emit;
 
   // Track rally count and session stats
   const rallyCount = useRef(0);
-  const hasFirstPoint = useRef(false);
-  const powerUpsUsed = useRef(0);
   const sessionStartTimeRef = useRef<number>(Date.now());
   const maxComboRef = useRef(0);
   const maxRallyRef = useRef(0);
@@ -168,11 +164,18 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
     // Reset session tracking
     sessionStartTimeRef.current = Date.now();
     rallyCount.current = 0;
-    hasFirstPoint.current = false;
-    powerUpsUsed.current = 0;
     maxComboRef.current = 0;
     maxRallyRef.current = 0;
-  }, []);
+    emit?.({ type: 'run_started', gameId: 'vortexPong' });
+  }, [emit]);
+
+  // The first run starts as the game opens; later ones from resetGame
+  useEffect(() => {
+    emit?.({ type: 'run_started', gameId: 'vortexPong' });
+  }, [emit]);
+
+  // A run cut short by the arcade's restart or quit is reported as quit
+  useRunReport('vortexPong', emit, { active: !gameOver, score: score.player, startedAt: sessionStartTimeRef });
 
   // Screen shake effect
   const addScreenShake = useCallback((intensity: number) => {
@@ -188,9 +191,11 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
     addScreenShake(intensity * 2);
   }, [explode, addScreenShake]);
 
-  // Mouse control support
+  // Mouse and touch drag control support
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
+    if (isPaused) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
       const canvas = canvasRef.current;
       if (!canvas) return;
       
@@ -201,50 +206,30 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
 
     const canvas = canvasRef.current;
     if (canvas) {
-      canvas.addEventListener('mousemove', handleMouseMove);
-      return () => canvas.removeEventListener('mousemove', handleMouseMove);
+      canvas.addEventListener('pointermove', handlePointerMove);
+      return () => canvas.removeEventListener('pointermove', handlePointerMove);
     }
-  }, []);
-
-  // Keyboard control support
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowUp' || e.key === 'w' || e.key === 'W') {
-        e.preventDefault();
-        setKeyboardControls(prev => ({ ...prev, up: true }));
-      } else if (e.key === 'ArrowDown' || e.key === 's' || e.key === 'S') {
-        e.preventDefault();
-        setKeyboardControls(prev => ({ ...prev, down: true }));
-      } else if (e.key === 'Enter' && gameOver) {
-        resetGame();
-      } else if (e.key === 'Escape') {
-        // ESC to exit game (consistent with other games)
-        // This would typically be handled by parent component
-      }
-    };
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowUp' || e.key === 'w' || e.key === 'W') {
-        setKeyboardControls(prev => ({ ...prev, up: false }));
-      } else if (e.key === 'ArrowDown' || e.key === 's' || e.key === 'S') {
-        setKeyboardControls(prev => ({ ...prev, down: false }));
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [gameOver, activePowerUps.multi_ball, balls.length, resetGame, playSFX]); // Removed isPaused from deps
+  }, [isPaused]);
+
+  // Keyboard and D-pad control support, as bound in the input manager
+  useGameInput('vortexPong', ({ action, pressed }) => {
+    if (action === 'up' || action === 'down') {
+      setKeyboardControls(prev => ({ ...prev, [action]: pressed }));
+    } else if (action === 'confirm' && pressed && gameOver) {
+      resetGame();
+    } else if (action === 'pause' && pressed && !gameOver) {
+      togglePause();
+    }
+  }, !pause.paused);
 
-  // Update paddle position based on keyboard input - DIRECT control, no friction
+  // Update paddle position based on keyboard or gamepad input - DIRECT control, no friction
   useEffect(() => {
+    if (isPaused) return;
     const paddleSpeed = 8; // Pixels per frame for smooth, precise movement
 
     const updatePaddle = () => {
       const paddleHeight = activePowerUps.bigger_paddle ? PADDLE_HEIGHT * 1.5 : PADDLE_HEIGHT;
+      const stick = inputManager.getAxis('vertical');
 
       // Direct position update based on input - no velocity, no friction
       setPaddleY(prev => {
@@ -257,6 +242,10 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
         } else if (keyboardControls.down) {
           newY = prev + paddleSpeed;
           setPaddleVelocity(paddleSpeed); // Set velocity for ball physics
+        } else if (stick !== 0) {
+          // Analog stick: speed follows how far it's pushed
+          newY = prev + stick * paddleSpeed;
+          setPaddleVelocity(stick * paddleSpeed);
         } else {
           setPaddleVelocity(0); // No movement = no velocity
         }
@@ -276,18 +265,19 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
     animationId = requestAnimationFrame(animate);
 
     return () => cancelAnimationFrame(animationId);
-  }, [keyboardControls, activePowerUps.bigger_paddle]);
+  }, [keyboardControls, activePowerUps.bigger_paddle, isPaused]);
 
   // Power-up spawn effect with adaptive timing
   useEffect(() => {
+    if (isPaused) return;
     const baseInterval = Math.max(5000, 10000 - (score.player + score.ai) * 500);
     const interval = setInterval(spawnPowerUp, baseInterval);
     return () => clearInterval(interval);
-  }, [spawnPowerUp, score]);
+  }, [spawnPowerUp, score, isPaused]);
 
   // Enhanced main game loop with multi-ball support
   useGameLoop((deltaTime) => {
-    if (gameOver) return;
+    if (gameOver || isPaused) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -326,13 +316,7 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
           updatedPowerUps.splice(index, 1);
           setPowerUps(updatedPowerUps);
 
-          // Track power-up usage
-          powerUpsUsed.current += 1;
-
-          // Power Master achievement: Collect 5 power-ups in one game
-          if (powerUpsUsed.current >= 5) {
-            unlockAchievement('pong_power_master');
-          }
+          emit?.({ type: 'power_up_collected', gameId: 'vortexPong', powerUp: powerUp.type });
           
           // Special effects for multi-ball power-up
           if (powerUp.type === 'multi_ball' && balls.length < 3) {
@@ -398,13 +382,7 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
         if (lastPaddleHit === 'ai') {
           rallyCount.current += 1;
           maxRallyRef.current = Math.max(maxRallyRef.current, rallyCount.current);
-
-          // Rally achievements
-          if (rallyCount.current === 5) {
-            unlockAchievement('pong_combo_king');
-          } else if (rallyCount.current === 20) {
-            unlockAchievement('pong_rally_master');
-          }
+          emit?.({ type: 'rally', gameId: 'vortexPong', hits: rallyCount.current });
         }
         
         // Add slight velocity boost based on paddle movement
@@ -461,12 +439,7 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
         playSFX('score');
         if (comboBonus > 0) playSFX('combo');
         scoreChanged = true;
-        
-        // First point achievement
-        if (!hasFirstPoint.current) {
-          hasFirstPoint.current = true;
-          unlockAchievement('pong_first_point');
-        }
+        emit?.({ type: 'score', gameId: 'vortexPong', score: score.player + multiplier + comboBonus });
         
         // Rally count resets on score
         rallyCount.current = 0;
@@ -490,6 +463,7 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
     // Add new balls from multi-ball power-up (outside of map)
     if (newBallsToAdd.length > 0) {
       setBalls(prev => [...prev, ...newBallsToAdd]);
+      emit?.({ type: 'balls_in_play', gameId: 'vortexPong', balls: remainingBalls.length + newBallsToAdd.length });
     }
 
     // Increment frame counter for performance tracking
@@ -505,42 +479,25 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
       // Save game stats
       const sessionTime = Math.floor((Date.now() - sessionStartTimeRef.current) / 1000);
       const playerWon = score.player >= 10;
-      const currentHighScore = saveData.games.vortexPong?.highScore || 0;
-      const newHighScore = Math.max(currentHighScore, score.player);
-      const previousGamesPlayed = saveData.games.vortexPong?.stats?.gamesPlayed || 0;
-      const previousWins = saveData.games.vortexPong?.stats?.wins || 0;
-      const previousTotalScore = saveData.games.vortexPong?.stats?.totalScore || 0;
-      const previousBestCombo = saveData.games.vortexPong?.stats?.bestCombo || 0;
-      const previousLongestRally = saveData.games.vortexPong?.stats?.longestRally || 0;
+      const playerScore = score.player;
 
       setTimeout(() => {
-        updateGameSave('vortexPong', {
-          highScore: newHighScore,
+        updateGameSave('vortexPong', game => ({
+          highScore: Math.max(game.highScore || 0, playerScore),
           level: 1,
           stats: {
-            gamesPlayed: previousGamesPlayed + 1,
-            wins: playerWon ? previousWins + 1 : previousWins,
-            totalScore: previousTotalScore + score.player,
-            bestCombo: Math.max(previousBestCombo, maxComboRef.current),
-            longestRally: Math.max(previousLongestRally, maxRallyRef.current)
+            gamesPlayed: (game.stats?.gamesPlayed || 0) + 1,
+            wins: (game.stats?.wins || 0) + (playerWon ? 1 : 0),
+            totalScore: (game.stats?.totalScore || 0) + playerScore,
+            bestCombo: Math.max(game.stats?.bestCombo || 0, maxComboRef.current),
+            longestRally: Math.max(game.stats?.longestRally || 0, maxRallyRef.current)
           }
-        });
+        }));
       }, 100);
-
-      // Check achievements on game over
-      if (score.player >= 10) {
-        unlockAchievement('pong_beat_ai');
-
-        // Perfect game achievement
-        if (score.ai === 0) {
-          unlockAchievement('pong_perfect_game');
-        }
-      }
-
-      // Multi-ball achievement
-      if (balls.length >= 3) {
-        unlockAchievement('pong_multi_ball');
+      if (playerWon) {
+        emit?.({ type: 'match_won', gameId: 'vortexPong', pointsConceded: score.ai });
       }
+      emit?.({ type: 'game_over', gameId: 'vortexPong', score: score.player, durationSeconds: sessionTime });
 
       return;
     }
@@ -812,19 +769,20 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
           ref={canvasRef}
           width={800}
           height={400}
-          className="w-full h-auto border-2 border-green-500 rounded-lg shadow-lg cursor-crosshair"
+          className="max-w-full max-h-[70vh] w-auto h-auto border-2 border-green-500 rounded-lg shadow-lg cursor-crosshair"
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           transition={{ duration: 0.5 }}
           style={{
             transform: `translate(${screenShake.x}px, ${screenShake.y}px)`,
+            touchAction: 'none', // Dragging moves the paddle rather than the page
           }}
         />
 
         {/* Controls Help (always visible during gameplay) */}
         {!gameOver && (
           <div className="text-center text-xs text-green-400/60 mt-2">
-            <span>↑↓ or W/S to move</span>
+            <span>{boundKeysLabel('vortexPong', 'up')} / {boundKeysLabel('vortexPong', 'down')} to move • {boundKeysLabel('vortexPong', 'pause')} to pause</span>
           </div>
         )}
 
@@ -852,7 +810,7 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
         </div>
 
         <div className="text-green-500 text-sm opacity-70 font-mono text-center">
-          <div>Controls: ↑↓ / WASD / Mouse to move</div>
+          <div>Controls: {boundKeysLabel('vortexPong', 'up')} / {boundKeysLabel('vortexPong', 'down')} / Mouse to move</div>
           <div className="text-xs mt-1 opacity-50">
             {/* Removed since SPACE is now for pause */}
             Multi-ball, Screen shake, Adaptive AI
@@ -860,8 +818,32 @@ export default function VortexPong({ achievementManager }: VortexPongProps) {
         </div>
       </div>
 
+      {/* Pause overlay */}
+      {isPaused && !gameOver && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-none">
+          <div className="text-center font-mono">
+            <h2 className="text-4xl text-green-500 mb-4">PAUSED</h2>
+            <p className="text-green-400">Press {boundKeysLabel('vortexPong', 'pause')} to resume</p>
+          </div>
+        </div>
+      )}
+
       <AnimatePresence>
-        {gameOver && <GameOverModal score={score} onRestart={resetGame} />}
+        {gameOver && (
+          <GameOverScreen
+            gameId="vortexPong"
+            paused={pause.paused}
+            score={score.player}
+            startedAt={sessionStartTimeRef.current}
+            challenge={challenge}
+            title={score.player > score.ai ? 'YOU WIN!' : 'GAME OVER'}
+            titleClassName={score.player > score.ai ? 'text-green-500' : 'text-red-500'}
+            details={<div className="text-sm text-green-500">PLAYER {score.player} · AI {score.ai}</div>}
+            onRestart={resetGame}
+            onQuit={pause.onQuit}
+            className="fixed inset-0"
+          />
+        )}
       </AnimatePresence>
     </div>
   );
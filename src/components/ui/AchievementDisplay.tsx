@@ -2,12 +2,17 @@
  * @author Tom Butler
  * @date 2025-10-25
  * @description Achievement display modal showing unlocked and locked achievements
- *              with search, filtering, and statistics.
+ *              with search, filtering, statistics, progress towards locked ones,
+ *              tiers and gamerscore, and a timeline of when each was earned.
  */
 
 import React, { useState, useMemo } from 'react';
-import { Trophy, Lock, X, Search, Star, Target, Zap } from 'lucide-react';
+import { Trophy, Lock, X, Search, Star, Target, Zap, LayoutGrid, History, Award, EyeOff } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { AchievementTimeline } from './AchievementTimeline';
+import { achievementPoints, calculateGamerscore } from '../../data/achievements';
+import type { AchievementTier, AchievementVisibility } from '../../types/game';
+import type { AchievementUnlock } from '../../types/save';
 
 interface Achievement {
   id: string;
@@ -17,42 +22,97 @@ interface Achievement {
   unlockedAt?: number;
   icon?: string;
   game?: string;
+  progress?: number;
+  maxProgress?: number;
+  unlock?: AchievementUnlock;
+  points?: number;
+  visibility?: AchievementVisibility;
+  tier?: AchievementTier;
+  previousTier?: string;
 }
 
 interface AchievementDisplayProps {
   isOpen: boolean;
   onClose: () => void;
   achievements: Achievement[];
+  currentSessionId?: string;
 }
 
+type AchievementView = 'grid' | 'timeline';
+
+const TIER_STYLES: Record<AchievementTier, string> = {
+  bronze: 'text-amber-600 border-amber-600/60',
+  silver: 'text-gray-300 border-gray-300/60',
+  gold: 'text-yellow-400 border-yellow-400/60'
+};
+
+// Hidden achievements keep their name and description masked until unlocked
+const isRevealed = (achievement: Achievement) => achievement.unlocked || achievement.visibility !== 'hidden';
+
+// Progress towards a locked multi-step achievement
+const AchievementProgressBar: React.FC<{ progress: number; maxProgress: number }> = ({ progress, maxProgress }) => {
+  const percentage = Math.min(100, Math.round((progress / maxProgress) * 100));
+
+  return (
+    <div className="mb-2">
+      <div className="flex justify-between font-mono text-xs text-green-500/60 mb-1">
+        <span>PROGRESS</span>
+        <span>{progress.toLocaleString()} / {maxProgress.toLocaleString()}</span>
+      </div>
+      <div
+        className="h-1.5 bg-green-900/30 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuenow={progress}
+        aria-valuemin={0}
+        aria-valuemax={maxProgress}
+      >
+        <div
+          className="h-full bg-gradient-to-r from-green-700 to-green-500 transition-all duration-500"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
 export const AchievementDisplay: React.FC<AchievementDisplayProps> = ({
   isOpen,
   onClose,
-  achievements
+  achievements,
+  currentSessionId
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedGame, setSelectedGame] = useState<string | null>(null);
+  const [view, setView] = useState<AchievementView>('grid');
+
+  // Secret achievements, and tiers beyond the next one in a chain, stay off the list until earned
+  const listedAchievements = useMemo(() => {
+    const unlockedIds = new Set(achievements.filter(a => a.unlocked).map(a => a.id));
+    return achievements.filter(a =>
+      a.unlocked || (a.visibility !== 'secret' && (!a.previousTier || unlockedIds.has(a.previousTier)))
+    );
+  }, [achievements]);
 
   // Group achievements by game
   const achievementsByGame = useMemo(() => {
-    const grouped = achievements.reduce((acc, achievement) => {
+    const grouped = listedAchievements.reduce((acc, achievement) => {
       const game = achievement.game || 'General';
       if (!acc[game]) acc[game] = [];
       acc[game].push(achievement);
       return acc;
     }, {} as Record<string, Achievement[]>);
     return grouped;
-  }, [achievements]);
+  }, [listedAchievements]);
 
   // Filter achievements
   const filteredAchievements = useMemo(() => {
-    let filtered = achievements;
+    let filtered = listedAchievements;
     
     if (searchTerm) {
-      filtered = filtered.filter(a => 
+      filtered = filtered.filter(a => isRevealed(a) && (
         a.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         a.description.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+      ));
     }
     
     if (selectedGame) {
@@ -60,14 +120,17 @@ export const AchievementDisplay: React.FC<AchievementDisplayProps> = ({
     }
     
     return filtered;
-  }, [achievements, searchTerm, selectedGame]);
+  }, [listedAchievements, searchTerm, selectedGame]);
 
   // Calculate stats
   const stats = useMemo(() => {
     const total = achievements.length;
     const unlocked = achievements.filter(a => a.unlocked).length;
     const percentage = total > 0 ? Math.round((unlocked / total) * 100) : 0;
-    return { total, unlocked, percentage };
+    const gamerscore = calculateGamerscore(achievements);
+    const maxGamerscore = achievements.reduce((sum, a) => sum + achievementPoints(a), 0);
+    const secretsLeft = achievements.filter(a => !a.unlocked && a.visibility === 'secret').length;
+    return { total, unlocked, percentage, gamerscore, maxGamerscore, secretsLeft };
   }, [achievements]);
 
   if (!isOpen) return null;
@@ -112,7 +175,7 @@ export const AchievementDisplay: React.FC<AchievementDisplayProps> = ({
             </div>
 
             {/* Stats */}
-            <div className="flex items-center gap-8 text-green-300 font-mono">
+            <div className="flex flex-wrap items-center gap-x-8 gap-y-2 text-green-300 font-mono">
               <div className="flex items-center gap-2">
                 <Star className="w-5 h-5" />
                 <span>{stats.unlocked} / {stats.total} UNLOCKED</span>
@@ -121,6 +184,16 @@ export const AchievementDisplay: React.FC<AchievementDisplayProps> = ({
                 <Target className="w-5 h-5" />
                 <span>{stats.percentage}% COMPLETE</span>
               </div>
+              <div className="flex items-center gap-2" title="Gamerscore">
+                <Award className="w-5 h-5" />
+                <span>{stats.gamerscore.toLocaleString()} / {stats.maxGamerscore.toLocaleString()} G</span>
+              </div>
+              {stats.secretsLeft > 0 && (
+                <div className="flex items-center gap-2 text-green-500/60">
+                  <EyeOff className="w-5 h-5" />
+                  <span>{stats.secretsLeft} SECRET{stats.secretsLeft === 1 ? '' : 'S'} REMAINING</span>
+                </div>
+              )}
             </div>
 
             {/* Progress bar */}
@@ -177,82 +250,119 @@ export const AchievementDisplay: React.FC<AchievementDisplayProps> = ({
                   </button>
                 ))}
               </div>
+
+              {/* View toggle */}
+              <div className="flex items-center gap-1 ml-auto">
+                {([['grid', LayoutGrid, 'GRID'], ['timeline', History, 'TIMELINE']] as const).map(([mode, Icon, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setView(mode)}
+                    aria-pressed={view === mode}
+                    className={`px-3 py-2 rounded font-mono text-sm transition-colors flex items-center gap-2 ${
+                      view === mode
+                        ? 'bg-green-500/20 text-green-300 border border-green-500'
+                        : 'bg-black/50 text-green-500/50 border border-green-500/30 hover:border-green-500/50'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {label}
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
 
           {/* Achievements grid */}
           <div className="relative z-10 overflow-y-auto h-[calc(100%-280px)] p-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {filteredAchievements.map((achievement, index) => (
-                <motion.div
-                  key={achievement.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  className={`relative p-4 rounded-lg border-2 transition-all duration-300 ${
-                    achievement.unlocked
-                      ? 'bg-green-900/20 border-green-500 shadow-[0_0_20px_rgba(0,255,0,0.3)]'
-                      : 'bg-black/50 border-green-500/20 opacity-60'
-                  }`}
-                >
-                  {/* Icon */}
-                  <div className="flex items-start gap-4">
-                    <div className={`w-12 h-12 rounded-full flex items-center justify-center
-                                  ${achievement.unlocked 
-                                    ? 'bg-green-500/30 border-2 border-green-500' 
-                                    : 'bg-black/50 border-2 border-green-500/30'}`}>
-                      {achievement.unlocked ? (
-                        achievement.icon || <Trophy className="w-6 h-6 text-green-500" />
-                      ) : (
-                        <Lock className="w-6 h-6 text-green-500/50" />
-                      )}
-                    </div>
+            {view === 'timeline' ? (
+              <AchievementTimeline achievements={filteredAchievements} currentSessionId={currentSessionId} />
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {filteredAchievements.map((achievement, index) => (
+                    <motion.div
+                      key={achievement.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.05 }}
+                      className={`relative p-4 rounded-lg border-2 transition-all duration-300 ${
+                        achievement.unlocked
+                          ? 'bg-green-900/20 border-green-500 shadow-[0_0_20px_rgba(0,255,0,0.3)]'
+                          : 'bg-black/50 border-green-500/20 opacity-60'
+                      }`}
+                    >
+                      {/* Icon */}
+                      <div className="flex items-start gap-4">
+                        <div className={`w-12 h-12 rounded-full flex items-center justify-center
+                                      ${achievement.unlocked 
+                                        ? 'bg-green-500/30 border-2 border-green-500' 
+                                        : 'bg-black/50 border-2 border-green-500/30'}`}>
+                          {achievement.unlocked ? (
+                            achievement.icon || <Trophy className="w-6 h-6 text-green-500" />
+                          ) : (
+                            <Lock className="w-6 h-6 text-green-500/50" />
+                          )}
+                        </div>
 
-                    {/* Content */}
-                    <div className="flex-1">
-                      <h3 className={`font-mono text-lg mb-1 ${
-                        achievement.unlocked ? 'text-green-300' : 'text-green-500/50'
-                      }`}>
-                        {achievement.name}
-                      </h3>
-                      <p className={`font-mono text-sm mb-2 ${
-                        achievement.unlocked ? 'text-green-400/80' : 'text-green-500/30'
-                      }`}>
-                        {achievement.unlocked ? achievement.description : '???'}
-                      </p>
-                      <div className="flex items-center justify-between">
-                        <span className="font-mono text-xs text-green-500/50">
-                          {achievement.game || 'General'}
-                        </span>
-                        {achievement.unlocked && achievement.unlockedAt && (
-                          <span className="font-mono text-xs text-green-500/50">
-                            {new Date(achievement.unlockedAt).toLocaleDateString()}
-                          </span>
-                        )}
+                        {/* Content */}
+                        <div className="flex-1">
+                          <h3 className={`font-mono text-lg mb-1 ${
+                            achievement.unlocked ? 'text-green-300' : 'text-green-500/50'
+                          }`}>
+                            {isRevealed(achievement) ? achievement.name : 'Hidden Achievement'}
+                          </h3>
+                          <p className={`font-mono text-sm mb-2 ${
+                            achievement.unlocked ? 'text-green-400/80' : 'text-green-500/30'
+                          }`}>
+                            {isRevealed(achievement) ? achievement.description : 'Keep playing to reveal this achievement'}
+                          </p>
+                          {!achievement.unlocked && isRevealed(achievement) && (achievement.maxProgress ?? 1) > 1 && (
+                            <AchievementProgressBar
+                              progress={achievement.progress ?? 0}
+                              maxProgress={achievement.maxProgress ?? 1}
+                            />
+                          )}
+                          <div className="flex items-center justify-between">
+                            <span className="font-mono text-xs text-green-500/50 flex items-center gap-2">
+                              {achievement.game || 'General'}
+                              {achievement.tier && (
+                                <span className={`px-1.5 border rounded uppercase ${TIER_STYLES[achievement.tier]}`}>
+                                  {achievement.tier}
+                                </span>
+                              )}
+                              <span className="text-green-400/70">{achievementPoints(achievement)} G</span>
+                            </span>
+                            {achievement.unlocked && achievement.unlockedAt && (
+                              <span className="font-mono text-xs text-green-500/50">
+                                {new Date(achievement.unlockedAt).toLocaleDateString()}
+                              </span>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
 
-                  {/* Unlock animation */}
-                  {achievement.unlocked && (
-                    <motion.div
-                      className="absolute inset-0 pointer-events-none"
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: [0, 0.2, 0] }}
-                      transition={{ duration: 2, repeat: Infinity, repeatDelay: 3 }}
-                    >
-                      <div className="w-full h-full bg-gradient-to-r from-transparent via-green-500/20 to-transparent" />
+                      {/* Unlock animation */}
+                      {achievement.unlocked && (
+                        <motion.div
+                          className="absolute inset-0 pointer-events-none"
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: [0, 0.2, 0] }}
+                          transition={{ duration: 2, repeat: Infinity, repeatDelay: 3 }}
+                        >
+                          <div className="w-full h-full bg-gradient-to-r from-transparent via-green-500/20 to-transparent" />
+                        </motion.div>
+                      )}
                     </motion.div>
-                  )}
-                </motion.div>
-              ))}
-            </div>
+                  ))}
+                </div>
 
-            {filteredAchievements.length === 0 && (
-              <div className="text-center py-20">
-                <Zap className="w-16 h-16 mx-auto text-green-500/30 mb-4" />
-                <p className="text-green-500/50 font-mono">NO ACHIEVEMENTS FOUND</p>
-              </div>
+                {filteredAchievements.length === 0 && (
+                  <div className="text-center py-20">
+                    <Zap className="w-16 h-16 mx-auto text-green-500/30 mb-4" />
+                    <p className="text-green-500/50 font-mono">NO ACHIEVEMENTS FOUND</p>
+                  </div>
+                )}
+              </>
             )}
           </div>
         </motion.div>
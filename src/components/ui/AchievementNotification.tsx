@@ -1,38 +1,37 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Trophy, Unlock } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-
-interface Achievement {
-  id: string;
-  name: string;
-  description: string;
-  icon?: string;
-  game?: string;
-}
+import type { AchievementNotification as QueuedNotification } from '../../utils/achievementNotifications';
 
 interface AchievementNotificationProps {
-  achievement: Achievement | null;
+  notification: QueuedNotification | null;
   onDismiss: () => void;
 }
 
 export const AchievementNotification: React.FC<AchievementNotificationProps> = ({
-  achievement,
+  notification,
   onDismiss
 }) => {
   const [isVisible, setIsVisible] = useState(false);
+  // The queue re-renders as notifications come and go; that must not restart the timer
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
 
   useEffect(() => {
-    if (achievement) {
+    if (notification) {
       setIsVisible(true);
       const timer = setTimeout(() => {
         setIsVisible(false);
-        setTimeout(onDismiss, 300);
+        setTimeout(() => onDismissRef.current(), 300);
       }, 5000);
       return () => clearTimeout(timer);
     }
-  }, [achievement, onDismiss]);
+  }, [notification]);
 
-  if (!achievement) return null;
+  if (!notification) return null;
+
+  // Unlocks that arrived together share one notification, led by the most valuable
+  const [achievement, ...others] = notification.achievements;
 
   return (
     <AnimatePresence>
@@ -84,7 +83,9 @@ export const AchievementNotification: React.FC<AchievementNotificationProps> = (
                 >
                   <h3 className="text-green-500 font-mono text-sm mb-1 flex items-center gap-2">
                     <Unlock className="w-4 h-4" />
-                    ACHIEVEMENT UNLOCKED
+                    {others.length > 0
+                      ? `${notification.achievements.length} ACHIEVEMENTS UNLOCKED`
+                      : 'ACHIEVEMENT UNLOCKED'}
                   </h3>
                   <h2 className="text-white font-mono text-xl mb-2 tracking-wider">
                     {achievement.name}
@@ -97,6 +98,16 @@ export const AchievementNotification: React.FC<AchievementNotificationProps> = (
                       {achievement.game}
                     </p>
                   )}
+                  {others.length > 0 && (
+                    <ul className="mt-2 space-y-1 border-t border-green-500/30 pt-2">
+                      {others.map(other => (
+                        <li key={other.id} className="text-green-300 font-mono text-sm flex items-center gap-2">
+                          {other.icon ? <span>{other.icon}</span> : <Trophy className="w-3 h-3 text-green-500" />}
+                          {other.name}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </motion.div>
               </div>
             </div>
@@ -141,19 +152,21 @@ export const AchievementNotification: React.FC<AchievementNotificationProps> = (
 
 // Achievement notification queue component
 interface AchievementQueueProps {
-  achievements: Achievement[];
-  onDismiss: (index: number) => void;
+  notifications: QueuedNotification[];
+  queuedCount?: number;
+  onDismiss: (key: string) => void;
 }
 
 export const AchievementQueue: React.FC<AchievementQueueProps> = ({
-  achievements,
+  notifications,
+  queuedCount = 0,
   onDismiss
 }) => {
   return (
     <div className="fixed top-8 right-8 z-50 space-y-4">
-      {achievements.map((achievement, index) => (
+      {notifications.map((notification, index) => (
         <motion.div
-          key={`${achievement.id}-${index}`}
+          key={notification.key}
           initial={{ x: 400, opacity: 0 }}
           animate={{ 
             x: 0, 
@@ -169,11 +182,17 @@ export const AchievementQueue: React.FC<AchievementQueueProps> = ({
           }}
         >
           <AchievementNotification
-            achievement={achievement}
-            onDismiss={() => onDismiss(index)}
+            notification={notification}
+            onDismiss={() => onDismiss(notification.key)}
           />
         </motion.div>
       ))}
+
+      {queuedCount > 0 && (
+        <div className="text-center text-green-400/70 text-xs font-mono bg-black/80 border border-green-500/50 rounded-lg py-2 px-3">
+          +{queuedCount} more
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { AchievementTimeline } from './AchievementTimeline';
+
+// The registry pulls in every game; only titles are needed here
+vi.mock('../../data/gameRegistry', () => ({
+  getGameBySaveKey: (key: string) => (key === 'metris' ? { title: 'Metris' } : undefined)
+}));
+
+const at = (hour: number, minute = 0) => new Date(2025, 5, 1, hour, minute).getTime();
+
+describe('AchievementTimeline', () => {
+  it('lists recorded unlocks newest first with their run', () => {
+    render(
+      <AchievementTimeline
+        currentSessionId="visit-b"
+        achievements={[
+          {
+            id: 'first_line', name: 'First Steps', description: 'Clear your first line', game: 'Metris', unlocked: true,
+            unlock: { unlockedAt: at(9, 5), sessionId: 'visit-a', gameId: 'metris', runId: 'run-1', runStartedAt: at(9), score: 120 }
+          },
+          {
+            id: 'global_first_game', name: 'Welcome to the Matrix', description: 'Play your first game', unlocked: true,
+            unlock: { unlockedAt: at(10), sessionId: 'visit-b', gameId: 'metris' }
+          },
+          { id: 'tetris', name: 'Tetris Master', description: 'Clear 4 lines at once', game: 'Metris', unlocked: false }
+        ]}
+      />
+    );
+
+    const items = screen.getAllByRole('listitem');
+    expect(items).toHaveLength(2);
+    expect(within(items[0]).getByText('Welcome to the Matrix')).toBeInTheDocument();
+    expect(within(items[0]).getByText('THIS VISIT')).toBeInTheDocument();
+    expect(within(items[0]).getByText('Metris · outside a run')).toBeInTheDocument();
+    expect(within(items[1]).getByText(/Metris run from .* · score 120/)).toBeInTheDocument();
+    expect(screen.queryByText('Tetris Master')).not.toBeInTheDocument();
+  });
+
+  it('keeps unlocks without a record in an undated section', () => {
+    render(
+      <AchievementTimeline
+        achievements={[{ id: 'tetris', name: 'Tetris Master', description: 'Clear 4 lines at once', game: 'Metris', unlocked: true }]}
+      />
+    );
+
+    expect(screen.getByText('EARLIER')).toBeInTheDocument();
+    expect(screen.getByText('Tetris Master')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { Clock, History, Trophy } from 'lucide-react';
+import { getGameBySaveKey } from '../../data/gameRegistry';
+import type { AchievementUnlock } from '../../types/save';
+
+interface TimelineAchievement {
+  id: string;
+  name: string;
+  description: string;
+  unlocked: boolean;
+  icon?: string;
+  game?: string;
+  unlock?: AchievementUnlock;
+}
+
+interface AchievementTimelineProps {
+  achievements: TimelineAchievement[];
+  currentSessionId?: string;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Where an achievement was earned: which game's run, when it started and the score at the time
+const describeRun = (achievement: TimelineAchievement) => {
+  const unlock = achievement.unlock!;
+  const game = (unlock.gameId && getGameBySaveKey(unlock.gameId)?.title) || achievement.game;
+
+  if (unlock.runStartedAt === undefined) {
+    return game ? `${game} · outside a run` : 'Outside a run';
+  }
+  const score = unlock.score ? ` · score ${unlock.score.toLocaleString()}` : '';
+  return `${game ?? 'Run'} run from ${formatTime(unlock.runStartedAt)}${score}`;
+};
+
+/**
+ * Unlocked achievements in the order they were earned, grouped by day.
+ * Unlocks from before dates were recorded are listed at the end.
+ */
+export const AchievementTimeline: React.FC<AchievementTimelineProps> = ({ achievements, currentSessionId }) => {
+  const { days, undated } = useMemo(() => {
+    const unlocked = achievements.filter(a => a.unlocked);
+    const dated = unlocked
+      .filter(a => a.unlock)
+      .sort((a, b) => b.unlock!.unlockedAt - a.unlock!.unlockedAt);
+
+    const grouped: { day: string; entries: TimelineAchievement[] }[] = [];
+    dated.forEach(achievement => {
+      const day = new Date(achievement.unlock!.unlockedAt).toLocaleDateString();
+      const last = grouped[grouped.length - 1];
+      if (last?.day === day) {
+        last.entries.push(achievement);
+      } else {
+        grouped.push({ day, entries: [achievement] });
+      }
+    });
+
+    return { days: grouped, undated: unlocked.filter(a => !a.unlock) };
+  }, [achievements]);
+
+  if (days.length === 0 && undated.length === 0) {
+    return (
+      <div className="text-center py-20">
+        <History className="w-16 h-16 mx-auto text-green-500/30 mb-4" />
+        <p className="text-green-500/50 font-mono">NO UNLOCKS YET</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 font-mono">
+      {days.map(({ day, entries }) => (
+        <section key={day}>
+          <h3 className="text-sm text-green-500/70 mb-3 tracking-wider">{day}</h3>
+          <ol className="relative border-l-2 border-green-500/30 ml-2 space-y-4">
+            {entries.map(achievement => (
+              <li key={achievement.id} className="ml-6">
+                <span className="absolute -left-[9px] w-4 h-4 rounded-full bg-black border-2 border-green-500" />
+                <div className="flex flex-wrap items-baseline gap-x-3">
+                  <span className="text-xs text-green-500/60 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatTime(achievement.unlock!.unlockedAt)}
+                  </span>
+                  <span className="text-green-300 flex items-center gap-2">
+                    {achievement.icon || <Trophy className="w-4 h-4 text-green-500" />}
+                    {achievement.name}
+                  </span>
+                  {achievement.unlock!.sessionId === currentSessionId && (
+                    <span className="text-[10px] px-1.5 py-0.5 bg-green-500/20 border border-green-500/50 rounded text-green-400">
+                      THIS VISIT
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-green-400/70">{achievement.description}</p>
+                <p className="text-xs text-green-500/50">{describeRun(achievement)}</p>
+              </li>
+            ))}
+          </ol>
+        </section>
+      ))}
+
+      {undated.length > 0 && (
+        <section>
+          <h3 className="text-sm text-green-500/70 mb-1 tracking-wider">EARLIER</h3>
+          <p className="text-xs text-green-500/40 mb-3">Unlocked before unlock dates were recorded</p>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {undated.map(achievement => (
+              <li key={achievement.id} className="text-sm text-green-300/80 flex items-center gap-2">
+                {achievement.icon || <Trophy className="w-4 h-4 text-green-500/70" />}
+                {achievement.name}
+                <span className="text-xs text-green-500/40">{achievement.game || 'General'}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default AchievementTimeline;
@@ -9,9 +9,11 @@ import {
   X,
   Play,
   Save,
-  Check
+  Check,
+  Keyboard
 } from 'lucide-react';
 import { useSoundSystem, SoundConfig } from '../../hooks/useSoundSystem';
+import { KeyBindingsPanel } from './KeyBindingsPanel';
 
 interface AudioSettingsProps {
   isOpen: boolean;
@@ -31,6 +33,7 @@ export const AudioSettings: React.FC<AudioSettingsProps> = ({
   const { config, updateConfig, playSFX, playMusic, stopMusic, playBackgroundMP3, stopBackgroundMP3 } = useSoundSystem();
   const [testingSound, setTestingSound] = useState<string | null>(null);
   const [showSaved, setShowSaved] = useState(false);
+  const [tab, setTab] = useState<'audio' | 'controls'>('audio');
 
   const handleVolumeChange = (key: keyof SoundConfig, value: number) => {
     updateConfig({ [key]: value });
@@ -110,8 +113,8 @@ export const AudioSettings: React.FC<AudioSettingsProps> = ({
             {/* Header */}
             <div className="flex items-center justify-between mb-6">
               <div className="flex items-center gap-2">
-                <Settings className="w-5 h-5 text-green-400" />
-                <h2 className="text-lg font-bold text-green-400">AUDIO SETTINGS</h2>
+                {tab === 'audio' ? <Settings className="w-5 h-5 text-green-400" /> : <Keyboard className="w-5 h-5 text-green-400" />}
+                <h2 className="text-lg font-bold text-green-400">{tab === 'audio' ? 'AUDIO SETTINGS' : 'CONTROLS'}</h2>
               </div>
               <button
                 onClick={onClose}
@@ -121,196 +124,219 @@ export const AudioSettings: React.FC<AudioSettingsProps> = ({
               </button>
             </div>
 
-            {/* Master Mute Toggle - Prominent at Top */}
-            {toggleMute && (
-              <div className="mb-6">
+            {/* Tabs */}
+            <div className="flex gap-2 mb-6">
+              {(['audio', 'controls'] as const).map(name => (
                 <button
-                  onClick={toggleMute}
-                  className={`w-full py-3 px-4 rounded-lg transition-all border-2 flex items-center justify-center gap-3 font-mono font-bold text-lg ${
-                    isMuted
-                      ? 'bg-red-600 hover:bg-red-500 border-red-400 text-white animate-pulse-red'
-                      : 'bg-green-600 hover:bg-green-500 border-green-400 text-white'
+                  key={name}
+                  onClick={() => setTab(name)}
+                  className={`flex-1 py-1 rounded text-xs transition-colors ${
+                    tab === name
+                      ? 'bg-green-600 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
                   }`}
-                  title="Toggle Master Mute (V)"
                 >
-                  {isMuted ? <VolumeX className="w-6 h-6" /> : <Volume2 className="w-6 h-6" />}
-                  <span>{isMuted ? 'SOUND MUTED' : 'SOUND ON'}</span>
+                  {name.toUpperCase()}
                 </button>
-                <div className="text-center text-xs text-gray-400 mt-2">
-                  Press V to quickly toggle mute
+              ))}
+            </div>
+
+            {tab === 'controls' ? (
+              <KeyBindingsPanel />
+            ) : (
+              <>
+                {/* Master Mute Toggle - Prominent at Top */}
+                {toggleMute && (
+                  <div className="mb-6">
+                    <button
+                      onClick={toggleMute}
+                      className={`w-full py-3 px-4 rounded-lg transition-all border-2 flex items-center justify-center gap-3 font-mono font-bold text-lg ${
+                        isMuted
+                          ? 'bg-red-600 hover:bg-red-500 border-red-400 text-white animate-pulse-red'
+                          : 'bg-green-600 hover:bg-green-500 border-green-400 text-white'
+                      }`}
+                      title="Toggle Master Mute (V)"
+                    >
+                      {isMuted ? <VolumeX className="w-6 h-6" /> : <Volume2 className="w-6 h-6" />}
+                      <span>{isMuted ? 'SOUND MUTED' : 'SOUND ON'}</span>
+                    </button>
+                    <div className="text-center text-xs text-gray-400 mt-2">
+                      Press V to quickly toggle mute
+                    </div>
+                  </div>
+                )}
+
+                {/* Master Volume */}
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-green-400 flex items-center gap-2">
+                      <Volume1 className="w-4 h-4" />
+                      MASTER VOLUME
+                    </label>
+                    <span className="text-white">{Math.round(config.masterVolume * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={config.masterVolume}
+                    onChange={(e) => handleVolumeChange('masterVolume', Number(e.target.value))}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                  />
                 </div>
-              </div>
-            )}
 
-            {/* Master Volume */}
-            <div className="mb-6">
-              <div className="flex items-center justify-between mb-2">
-                <label className="text-green-400 flex items-center gap-2">
-                  <Volume1 className="w-4 h-4" />
-                  MASTER VOLUME
-                </label>
-                <span className="text-white">{Math.round(config.masterVolume * 100)}%</span>
-              </div>
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.05"
-                value={config.masterVolume}
-                onChange={(e) => handleVolumeChange('masterVolume', Number(e.target.value))}
-                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
+                {/* Music Settings */}
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-green-400 flex items-center gap-2">
+                      <Music className="w-4 h-4" />
+                      BACKGROUND MUSIC
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={testMusic}
+                        className="p-1 hover:bg-green-900 rounded transition-colors"
+                        title="Test Music"
+                      >
+                        <Play className="w-3 h-3 text-green-400" />
+                      </button>
+                      <button
+                        onClick={() => handleToggle('music')}
+                        className={`px-3 py-1 rounded text-xs transition-colors ${
+                          config.music 
+                            ? 'bg-green-600 text-white' 
+                            : 'bg-gray-600 text-gray-300'
+                        }`}
+                      >
+                        {config.music ? 'ON' : 'OFF'}
+                      </button>
+                    </div>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={config.musicVolume}
+                    onChange={(e) => handleVolumeChange('musicVolume', Number(e.target.value))}
+                    disabled={!config.music}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                  <div className="text-right text-xs text-gray-400 mt-1">
+                    {Math.round(config.musicVolume * 100)}%
+                  </div>
+                </div>
 
-            {/* Music Settings */}
-            <div className="mb-6">
-              <div className="flex items-center justify-between mb-2">
-                <label className="text-green-400 flex items-center gap-2">
-                  <Music className="w-4 h-4" />
-                  BACKGROUND MUSIC
-                </label>
-                <div className="flex items-center gap-2">
-                  <button
-                    onClick={testMusic}
-                    className="p-1 hover:bg-green-900 rounded transition-colors"
-                    title="Test Music"
-                  >
-                    <Play className="w-3 h-3 text-green-400" />
-                  </button>
-                  <button
-                    onClick={() => handleToggle('music')}
-                    className={`px-3 py-1 rounded text-xs transition-colors ${
-                      config.music 
-                        ? 'bg-green-600 text-white' 
-                        : 'bg-gray-600 text-gray-300'
-                    }`}
-                  >
-                    {config.music ? 'ON' : 'OFF'}
-                  </button>
+                {/* SFX Settings */}
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-green-400 flex items-center gap-2">
+                      <Volume2 className="w-4 h-4" />
+                      SOUND EFFECTS
+                    </label>
+                    <button
+                      onClick={() => handleToggle('sfx')}
+                      className={`px-3 py-1 rounded text-xs transition-colors ${
+                        config.sfx 
+                          ? 'bg-green-600 text-white' 
+                          : 'bg-gray-600 text-gray-300'
+                      }`}
+                    >
+                      {config.sfx ? 'ON' : 'OFF'}
+                    </button>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={config.sfxVolume}
+                    onChange={(e) => handleVolumeChange('sfxVolume', Number(e.target.value))}
+                    disabled={!config.sfx}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                  <div className="text-right text-xs text-gray-400 mt-1">
+                    {Math.round(config.sfxVolume * 100)}%
+                  </div>
                 </div>
-              </div>
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.05"
-                value={config.musicVolume}
-                onChange={(e) => handleVolumeChange('musicVolume', Number(e.target.value))}
-                disabled={!config.music}
-                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
-              />
-              <div className="text-right text-xs text-gray-400 mt-1">
-                {Math.round(config.musicVolume * 100)}%
-              </div>
-            </div>
 
-            {/* SFX Settings */}
-            <div className="mb-6">
-              <div className="flex items-center justify-between mb-2">
-                <label className="text-green-400 flex items-center gap-2">
-                  <Volume2 className="w-4 h-4" />
-                  SOUND EFFECTS
-                </label>
-                <button
-                  onClick={() => handleToggle('sfx')}
-                  className={`px-3 py-1 rounded text-xs transition-colors ${
-                    config.sfx 
-                      ? 'bg-green-600 text-white' 
-                      : 'bg-gray-600 text-gray-300'
-                  }`}
-                >
-                  {config.sfx ? 'ON' : 'OFF'}
-                </button>
-              </div>
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.05"
-                value={config.sfxVolume}
-                onChange={(e) => handleVolumeChange('sfxVolume', Number(e.target.value))}
-                disabled={!config.sfx}
-                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
-              />
-              <div className="text-right text-xs text-gray-400 mt-1">
-                {Math.round(config.sfxVolume * 100)}%
-              </div>
-            </div>
+                {/* Sound Test Grid */}
+                <div className="mb-6">
+                  <h3 className="text-green-400 text-sm mb-3">SOUND TEST</h3>
+                  <div className="grid grid-cols-2 gap-2">
+                    {['jump', 'hit', 'score', 'powerup', 'levelUp', 'combo'].map((sound) => (
+                      <button
+                        key={sound}
+                        onClick={() => testSound(sound)}
+                        disabled={!config.sfx || testingSound === sound}
+                        className={`p-2 text-xs rounded transition-all ${
+                          testingSound === sound
+                            ? 'bg-green-600 text-white scale-95'
+                            : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                        } disabled:opacity-50`}
+                      >
+                        {testingSound === sound ? 'PLAYING...' : sound.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+                </div>
 
-            {/* Sound Test Grid */}
-            <div className="mb-6">
-              <h3 className="text-green-400 text-sm mb-3">SOUND TEST</h3>
-              <div className="grid grid-cols-2 gap-2">
-                {['jump', 'hit', 'score', 'powerup', 'levelUp', 'combo'].map((sound) => (
+                {/* Save Settings Button */}
+                <div className="mb-6">
                   <button
-                    key={sound}
-                    onClick={() => testSound(sound)}
-                    disabled={!config.sfx || testingSound === sound}
-                    className={`p-2 text-xs rounded transition-all ${
-                      testingSound === sound
-                        ? 'bg-green-600 text-white scale-95'
-                        : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-                    } disabled:opacity-50`}
+                    onClick={handleSaveSettings}
+                    className={`w-full py-3 px-4 rounded-lg transition-all border-2 flex items-center justify-center gap-2 font-mono font-bold ${
+                      showSaved
+                        ? 'bg-green-600 border-green-400 text-white'
+                        : 'bg-gray-800 hover:bg-gray-700 border-green-500 text-green-400 hover:text-green-300'
+                    }`}
                   >
-                    {testingSound === sound ? 'PLAYING...' : sound.toUpperCase()}
+                    <AnimatePresence mode="wait">
+                      {showSaved ? (
+                        <motion.div
+                          key="saved"
+                          initial={{ scale: 0, rotate: -180 }}
+                          animate={{ scale: 1, rotate: 0 }}
+                          exit={{ scale: 0, rotate: 180 }}
+                          className="flex items-center gap-2"
+                        >
+                          <Check className="w-5 h-5" />
+                          <span>SETTINGS SAVED!</span>
+                        </motion.div>
+                      ) : (
+                        <motion.div
+                          key="save"
+                          initial={{ scale: 0 }}
+                          animate={{ scale: 1 }}
+                          exit={{ scale: 0 }}
+                          className="flex items-center gap-2"
+                        >
+                          <Save className="w-5 h-5" />
+                          <span>SAVE SETTINGS</span>
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
                   </button>
-                ))}
-              </div>
-            </div>
-
-            {/* Save Settings Button */}
-            <div className="mb-6">
-              <button
-                onClick={handleSaveSettings}
-                className={`w-full py-3 px-4 rounded-lg transition-all border-2 flex items-center justify-center gap-2 font-mono font-bold ${
-                  showSaved
-                    ? 'bg-green-600 border-green-400 text-white'
-                    : 'bg-gray-800 hover:bg-gray-700 border-green-500 text-green-400 hover:text-green-300'
-                }`}
-              >
-                <AnimatePresence mode="wait">
-                  {showSaved ? (
-                    <motion.div
-                      key="saved"
-                      initial={{ scale: 0, rotate: -180 }}
-                      animate={{ scale: 1, rotate: 0 }}
-                      exit={{ scale: 0, rotate: 180 }}
-                      className="flex items-center gap-2"
-                    >
-                      <Check className="w-5 h-5" />
-                      <span>SETTINGS SAVED!</span>
-                    </motion.div>
-                  ) : (
-                    <motion.div
-                      key="save"
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      exit={{ scale: 0 }}
-                      className="flex items-center gap-2"
-                    >
-                      <Save className="w-5 h-5" />
-                      <span>SAVE SETTINGS</span>
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </button>
-              <div className="text-center text-xs text-gray-400 mt-2">
-                Settings auto-save, but you can save manually for peace of mind
-              </div>
-            </div>
+                  <div className="text-center text-xs text-gray-400 mt-2">
+                    Settings auto-save, but you can save manually for peace of mind
+                  </div>
+                </div>
 
-            {/* Matrix-themed divider */}
-            <div className="flex items-center gap-2 mb-4">
-              <div className="flex-1 h-px bg-green-500/30"></div>
-              <span className="text-green-500 text-xs">MATRIX AUDIO v2.0</span>
-              <div className="flex-1 h-px bg-green-500/30"></div>
-            </div>
+                {/* Matrix-themed divider */}
+                <div className="flex items-center gap-2 mb-4">
+                  <div className="flex-1 h-px bg-green-500/30"></div>
+                  <span className="text-green-500 text-xs">MATRIX AUDIO v2.0</span>
+                  <div className="flex-1 h-px bg-green-500/30"></div>
+                </div>
 
-            {/* Info Text */}
-            <div className="text-xs text-gray-400 text-center">
-              Advanced Web Audio API synthesis<br />
-              No external audio files required
-            </div>
+                {/* Info Text */}
+                <div className="text-xs text-gray-400 text-center">
+                  Advanced Web Audio API synthesis<br />
+                  No external audio files required
+                </div>
+              </>
+            )}
           </motion.div>
         </motion.div>
       )}
@@ -0,0 +1,76 @@
+import { CheckCircle, Clock, Flame, Target } from 'lucide-react';
+import { useChallenges, type ChallengeStatus } from '../../hooks/useChallenges';
+import type { GameSaveKey } from '../../data/gameRegistry';
+import type { ActiveChallenge } from '../../types/challenge';
+
+// ============================================================================
+// CHALLENGE PANEL
+// Shown under the game carousel: today's challenge for the selected game,
+// this week's challenge and the player's daily streak
+// ============================================================================
+
+interface ChallengePanelProps {
+  gameId: GameSaveKey;
+  onAccept: (challenge: ActiveChallenge) => void;
+}
+
+const timeLeft = (endsAt: number) => {
+  const hours = Math.max(0, Math.floor((endsAt - Date.now()) / 3_600_000));
+  return hours >= 24 ? `${Math.floor(hours / 24)}d left` : `${hours}h left`;
+};
+
+const ChallengeRow = ({ challenge, onAccept }: { challenge: ChallengeStatus; onAccept: ChallengePanelProps['onAccept'] }) => (
+  <div className="flex items-center gap-2 text-left" data-testid={`challenge-${challenge.period}`}>
+    <Target className="w-4 h-4 shrink-0 text-green-400" />
+    <div className="flex-1 min-w-0">
+      <p className="font-mono text-xs text-green-300 truncate">
+        <span className="uppercase text-green-500/70 mr-1">{challenge.period}</span>
+        {challenge.title}
+      </p>
+      <p className="font-mono text-[10px] text-green-400/70 truncate">{challenge.description}</p>
+    </div>
+    {challenge.completed ? (
+      <span className="flex items-center gap-1 font-mono text-[10px] text-green-400">
+        <CheckCircle className="w-3 h-3" />
+        DONE
+      </span>
+    ) : (
+      <>
+        <span className="hidden sm:flex items-center gap-1 font-mono text-[10px] text-green-500/60">
+          <Clock className="w-3 h-3" />
+          {timeLeft(challenge.endsAt)}
+        </span>
+        <button
+          onClick={() => onAccept(challenge)}
+          className="px-2 py-0.5 border border-green-500 rounded font-mono text-[10px] hover:bg-green-900 transition-colors"
+        >
+          ACCEPT
+        </button>
+      </>
+    )}
+  </div>
+);
+
+export const ChallengePanel = ({ gameId, onAccept }: ChallengePanelProps) => {
+  const { challenges, streak } = useChallenges();
+  const daily = challenges.find(challenge => challenge.period === 'daily' && challenge.gameId === gameId);
+  const weekly = challenges.find(challenge => challenge.period === 'weekly');
+
+  if (!daily && !weekly) return null;
+
+  return (
+    <div className="mt-3 p-2 border border-green-500/40 rounded-lg bg-black/40 space-y-2">
+      <div className="flex items-center justify-between font-mono text-[10px] text-green-500/70">
+        <span>CHALLENGES</span>
+        <span className="flex items-center gap-1" title={`Best streak: ${streak.best} days`}>
+          <Flame className={`w-3 h-3 ${streak.current > 0 ? 'text-orange-400' : ''}`} />
+          {streak.current} DAY STREAK
+        </span>
+      </div>
+      {daily && <ChallengeRow challenge={daily} onAccept={onAccept} />}
+      {weekly && <ChallengeRow challenge={weekly} onAccept={onAccept} />}
+    </div>
+  );
+};
+
+export default ChallengePanel;
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { GameOverScreen } from './GameOverScreen';
+import { inputManager } from '../../utils/inputManager';
+import type { InputAction } from '../../types/input';
+import type { GlobalSaveData, HighScoreEntry } from '../../types/save';
+
+const submitHighScore = vi.fn();
+let table: HighScoreEntry[] = [];
+
+vi.mock('../../hooks/useSaveSystem', () => ({
+  useGameSave: () => ({ gameSave: { highScores: { standard: table } }, submitHighScore }),
+  useSaveSelector: (selector: (data: GlobalSaveData) => unknown) =>
+    selector({ settings: { autoSave: true, lastInitials: 'NEO' } } as GlobalSaveData)
+}));
+
+const row = (score: number): HighScoreEntry => ({ initials: 'AAA', score, durationSeconds: 30, date: 1 });
+
+// A press and release from a control that isn't the keyboard
+const tap = (action: InputAction) => act(() => {
+  inputManager.setVirtual(action, true);
+  inputManager.setVirtual(action, false);
+});
+
+describe('GameOverScreen', () => {
+  beforeEach(() => {
+    submitHighScore.mockClear();
+    table = [row(900), row(500)];
+  });
+
+  it('takes initials for a top-ten score without the game seeing the keys', () => {
+    const gameKeys = vi.fn();
+    const unsubscribe = inputManager.subscribe('metris', event => event.pressed && gameKeys(event));
+    const onRestart = vi.fn();
+    render(<GameOverScreen gameId="metris" score={700} level={4} startedAt={Date.now() - 90_000} onRestart={onRestart} />);
+
+    expect(screen.getByText('NEW HIGH SCORE! #2')).toBeInTheDocument();
+    expect(screen.getByTestId('initial-0')).toHaveTextContent('N');
+
+    fireEvent.keyDown(window, { key: 't' });
+    fireEvent.keyDown(window, { key: 'ArrowUp' });
+    fireEvent.keyDown(window, { key: 'Enter' });
+
+    expect(gameKeys).not.toHaveBeenCalled();
+    expect(submitHighScore).toHaveBeenCalledWith('metris', 'standard', expect.objectContaining({
+      initials: 'TFO', score: 700, level: 4, durationSeconds: 90
+    }));
+    expect(screen.getByRole('button', { name: /PLAY AGAIN/ })).toBeInTheDocument();
+    unsubscribe();
+  });
+
+  it('enters initials and plays again with the menu controls alone', () => {
+    const onRestart = vi.fn();
+    render(<GameOverScreen gameId="metris" score={700} startedAt={Date.now()} onRestart={onRestart} />);
+
+    tap('up');
+    tap('right');
+    tap('down');
+    tap('confirm');
+
+    expect(submitHighScore).toHaveBeenCalledWith('metris', 'standard', expect.objectContaining({ initials: 'ODO' }));
+    expect(onRestart).not.toHaveBeenCalled();
+
+    tap('confirm');
+    expect(onRestart).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves the controls to the pause menu while the arcade is paused', () => {
+    const onRestart = vi.fn();
+    render(<GameOverScreen gameId="metris" score={10} startedAt={Date.now()} onRestart={onRestart} paused />);
+
+    tap('confirm');
+    expect(onRestart).not.toHaveBeenCalled();
+  });
+
+  it('goes straight to the table when the score does not place', () => {
+    table = Array.from({ length: 10 }, () => row(1000));
+    const onRestart = vi.fn();
+    render(<GameOverScreen gameId="metris" score={10} startedAt={Date.now()} onRestart={onRestart} />);
+
+    expect(screen.queryByText(/NEW HIGH SCORE/)).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /PLAY AGAIN/ }));
+    expect(onRestart).toHaveBeenCalled();
+    expect(submitHighScore).not.toHaveBeenCalled();
+  });
+
+  it('files challenge runs under the challenge table with the challenge as the seed', () => {
+    table = [];
+    render(
+      <GameOverScreen
+        gameId="metris"
+        score={50}
+        startedAt={Date.now()}
+        challenge={{ key: 'daily-2026-10-19:metris_combo' } as never}
+        onRestart={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'ENTER' }));
+    expect(submitHighScore).toHaveBeenCalledWith('metris', 'challenge', expect.objectContaining({
+      initials: 'NEO', seed: 'daily-2026-10-19:metris_combo'
+    }));
+  });
+});
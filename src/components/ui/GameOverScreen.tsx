@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown, ChevronUp, LogOut, RotateCcw, Trophy } from 'lucide-react';
+import { HighScoreTable } from './HighScoreTable';
+import { useGameSave, useSaveSelector } from '../../hooks/useSaveSystem';
+import { useGameInput } from '../../hooks/useGameInput';
+import { MENU_CONTEXT } from '../../data/inputBindings';
+import {
+  INITIALS_ALPHABET,
+  INITIALS_LENGTH,
+  getHighScoreTable,
+  highScoreRank,
+  modeFor,
+  modeLabel,
+  normaliseInitials
+} from '../../utils/highScores';
+import type { GameSaveKey } from '../../data/gameRegistry';
+import type { ActiveChallenge } from '../../types/challenge';
+
+// ============================================================================
+// GAME OVER SCREEN
+// Shared end-of-run screen. A score that makes the top ten first gets an
+// arcade-style initials entry; then the table is shown with the new row
+// highlighted and the player can go again.
+// ============================================================================
+
+interface GameOverScreenProps {
+  gameId: GameSaveKey;
+  score: number;
+  level?: number;
+  levelLabel?: string;          // Column heading and summary label, e.g. "WAVE"
+  startedAt: number;            // When the run began, for its duration
+  challenge?: ActiveChallenge;  // Runs under a challenge go to the challenge table
+  mode?: string;                // Runs in one of the game's own modes, e.g. 'sprint', go to that mode's table
+  title?: string;
+  titleClassName?: string;
+  details?: React.ReactNode;    // Extra game-specific lines under the score
+  restartLabel?: string;
+  onRestart: () => void;
+  onQuit?: () => void;          // In the arcade, back to the carousel
+  className?: string;
+  paused?: boolean;             // The arcade's pause menu is open: leave the controls to it
+}
+
+const cycle = (char: string, step: number) => {
+  const index = INITIALS_ALPHABET.indexOf(char);
+  return INITIALS_ALPHABET[(index + step + INITIALS_ALPHABET.length) % INITIALS_ALPHABET.length];
+};
+
+export const GameOverScreen = ({
+  gameId,
+  score,
+  level,
+  levelLabel = 'LEVEL',
+  startedAt,
+  challenge,
+  mode: gameMode,
+  title = 'GAME OVER',
+  titleClassName = 'text-red-500',
+  details,
+  restartLabel = 'PLAY AGAIN',
+  onRestart,
+  onQuit,
+  className = 'absolute inset-0',
+  paused = false
+}: GameOverScreenProps) => {
+  const { gameSave, submitHighScore } = useGameSave(gameId);
+  const lastInitials = useSaveSelector(data => data.settings.lastInitials);
+  const mode = modeFor(challenge, gameMode);
+  const table = getHighScoreTable(gameSave, mode);
+
+  // Fixed when the run ends so the table updating underneath doesn't move the goalposts
+  const [finishedAt] = useState(() => Date.now());
+  const [rank] = useState(() => highScoreRank(table, score, finishedAt));
+  const [entering, setEntering] = useState(rank !== -1);
+  const [initials, setInitials] = useState(() => [...normaliseInitials(lastInitials ?? 'AAA')]);
+  const [cursor, setCursor] = useState(0);
+
+  const changeChar = useCallback((slot: number, step: number) => {
+    setInitials(prev => prev.map((char, index) => (index === slot ? cycle(char, step) : char)));
+  }, []);
+
+  const confirm = useCallback(() => {
+    submitHighScore(gameId, mode, {
+      initials: initials.join(''),
+      score,
+      level,
+      durationSeconds: Math.max(0, Math.floor((finishedAt - startedAt) / 1000)),
+      date: finishedAt,
+      seed: challenge?.key
+    });
+    setEntering(false);
+  }, [submitHighScore, gameId, mode, initials, score, level, startedAt, finishedAt, challenge]);
+
+  // Initials are picked with the menu controls, so a gamepad or the keyboard
+  // can enter them, and the game underneath doesn't see the presses
+  useGameInput(MENU_CONTEXT, ({ action, pressed, repeat }) => {
+    if (!pressed) return;
+
+    if (action === 'up') changeChar(cursor, 1);
+    else if (action === 'down') changeChar(cursor, -1);
+    else if (action === 'left') setCursor(Math.max(0, cursor - 1));
+    else if (action === 'right') setCursor(Math.min(INITIALS_LENGTH - 1, cursor + 1));
+    else if (action === 'confirm' && !repeat) confirm();
+  }, entering && !paused, true);
+
+  // Then the confirm control plays again
+  useGameInput(MENU_CONTEXT, ({ action, pressed, repeat }) => {
+    if (pressed && !repeat && action === 'confirm') onRestart();
+  }, !entering && !paused, true);
+
+  // Letters aren't actions, so typing one straight into a slot is read from
+  // the keyboard, ahead of the game's own handlers
+  useEffect(() => {
+    if (!entering || paused) return;
+
+    const handleKey = (e: KeyboardEvent) => {
+      const backspace = e.key === 'Backspace';
+      if (!backspace && !(e.key.length === 1 && INITIALS_ALPHABET.includes(e.key.toUpperCase()))) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (backspace) {
+        setCursor(Math.max(0, cursor - 1));
+        return;
+      }
+      setInitials(prev => prev.map((char, index) => (index === cursor ? e.key.toUpperCase() : char)));
+      setCursor(Math.min(INITIALS_LENGTH - 1, cursor + 1));
+    };
+
+    window.addEventListener('keydown', handleKey, true);
+    return () => window.removeEventListener('keydown', handleKey, true);
+  }, [entering, paused, cursor]);
+
+  return (
+    <motion.div
+      className={`${className} flex items-center justify-center bg-black/90 z-40`}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      data-testid="game-over-screen"
+    >
+      <div className="text-center font-mono p-4 sm:p-6 border-2 border-green-500 bg-black rounded-lg max-w-md w-full">
+        <h2 className={`text-3xl sm:text-4xl mb-3 animate-pulse ${titleClassName}`}>{title}</h2>
+        <div className="text-xl text-green-400 mb-1">SCORE {score.toLocaleString()}</div>
+        {level !== undefined && (
+          <div className="text-sm text-green-500 mb-1">{levelLabel} {level}</div>
+        )}
+        {details}
+
+        {entering ? (
+          <div className="mt-4">
+            <div className="flex items-center justify-center gap-2 text-yellow-400 mb-3">
+              <Trophy className="w-5 h-5" />
+              NEW HIGH SCORE! #{rank + 1}
+            </div>
+            <p className="text-xs text-green-500/70 mb-3">ENTER YOUR INITIALS</p>
+            <div className="flex justify-center gap-3 mb-4" role="group" aria-label="Initials">
+              {initials.map((char, slot) => (
+                <div key={slot} className="flex flex-col items-center">
+                  <button onClick={() => changeChar(slot, 1)} aria-label={`Next letter ${slot + 1}`} className="text-green-500 hover:text-green-300">
+                    <ChevronUp className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => setCursor(slot)}
+                    className={`w-10 h-12 text-3xl border-b-4 whitespace-pre ${slot === cursor ? 'border-yellow-400 text-yellow-300 animate-pulse' : 'border-green-700 text-green-400'}`}
+                    data-testid={`initial-${slot}`}
+                  >
+                    {char}
+                  </button>
+                  <button onClick={() => changeChar(slot, -1)} aria-label={`Previous letter ${slot + 1}`} className="text-green-500 hover:text-green-300">
+                    <ChevronDown className="w-5 h-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={confirm}
+              className="px-6 py-2 bg-yellow-500 text-black font-bold rounded hover:bg-yellow-400 transition-colors"
+            >
+              ENTER
+            </button>
+          </div>
+        ) : (
+          <div className="mt-4">
+            <p className="text-xs text-green-500/70 mb-2">TOP 10 · {modeLabel(mode)}</p>
+            <HighScoreTable entries={table} levelLabel={levelLabel.slice(0, 4)} highlightRank={rank} />
+            <div className="mt-4 flex items-center justify-center gap-3">
+              <button
+                onClick={onRestart}
+                className="px-6 py-3 bg-green-500 text-black font-bold rounded hover:bg-green-400 transition-colors flex items-center gap-2"
+              >
+                <RotateCcw className="w-5 h-5" />
+                {restartLabel}
+              </button>
+              {onQuit && (
+                <button
+                  onClick={onQuit}
+                  className="px-4 py-3 border border-green-500 text-green-400 font-bold rounded hover:bg-green-900 transition-colors flex items-center gap-2"
+                >
+                  <LogOut className="w-5 h-5" />
+                  QUIT
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default GameOverScreen;
@@ -0,0 +1,87 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trophy } from 'lucide-react';
+import { HighScoreTable } from './HighScoreTable';
+import { GAME_REGISTRY } from '../../data/gameRegistry';
+import { useSaveSelector } from '../../hooks/useSaveSystem';
+import { useGameInput } from '../../hooks/useGameInput';
+import { MENU_CONTEXT } from '../../data/inputBindings';
+import { DEFAULT_MODE, modeLabel } from '../../utils/highScores';
+
+// ============================================================================
+// HALL OF FAME
+// Attract screen that cycles through every game's high score tables.
+// A menu control, click or touch closes it; the arcade closes it on its own
+// controls too.
+// ============================================================================
+
+export const HALL_OF_FAME_CYCLE_MS = 5000;
+
+interface HallOfFameProps {
+  onClose: () => void;
+  cycleMs?: number;
+}
+
+export const HallOfFame = ({ onClose, cycleMs = HALL_OF_FAME_CYCLE_MS }: HallOfFameProps) => {
+  const games = useSaveSelector(data => data.games);
+  const [index, setIndex] = useState(0);
+
+  // Every table with at least one entry, standard mode first within each game
+  const tables = useMemo(() => GAME_REGISTRY
+    .filter(game => game.capabilities.highScore)
+    .flatMap(game => Object.entries(games[game.saveKey]?.highScores ?? {})
+      .filter(([, entries]) => entries.length > 0)
+      .sort(([a], [b]) => (a === DEFAULT_MODE ? -1 : b === DEFAULT_MODE ? 1 : a.localeCompare(b)))
+      .map(([mode, entries]) => ({ key: `${game.saveKey}:${mode}`, title: game.title, mode, entries }))),
+  [games]);
+
+  useEffect(() => {
+    if (tables.length < 2) return;
+    const timer = setInterval(() => setIndex(prev => (prev + 1) % tables.length), cycleMs);
+    return () => clearInterval(timer);
+  }, [tables.length, cycleMs]);
+
+  // Taken ahead of the carousel, so the press that wakes the arcade doesn't also start a game
+  useGameInput(MENU_CONTEXT, ({ pressed }) => {
+    if (pressed) onClose();
+  }, true, true);
+
+  const table = tables[index % Math.max(tables.length, 1)];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 font-mono cursor-pointer"
+      onClick={onClose}
+      onTouchStart={onClose}
+      data-testid="hall-of-fame"
+    >
+      <div className="w-full max-w-lg p-6 text-center">
+        <h2 className="flex items-center justify-center gap-3 text-3xl sm:text-4xl text-yellow-400 mb-6 animate-pulse">
+          <Trophy className="w-8 h-8" />
+          HALL OF FAME
+        </h2>
+
+        <AnimatePresence mode="wait">
+          {table ? (
+            <motion.div
+              key={table.key}
+              initial={{ opacity: 0, x: 40 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -40 }}
+            >
+              <h3 className="text-xl text-green-400 mb-1">{table.title}</h3>
+              <p className="text-xs text-green-500/70 mb-3">{modeLabel(table.mode)}</p>
+              <HighScoreTable entries={table.entries} />
+            </motion.div>
+          ) : (
+            <p className="text-green-400">NO SCORES YET. BE THE FIRST.</p>
+          )}
+        </AnimatePresence>
+
+        <p className="mt-8 text-sm text-green-500/70 animate-pulse">PRESS ANY KEY</p>
+      </div>
+    </div>
+  );
+};
+
+export default HallOfFame;
@@ -0,0 +1,52 @@
+import { HIGH_SCORE_TABLE_SIZE } from '../../utils/highScores';
+import type { HighScoreEntry } from '../../types/save';
+
+interface HighScoreTableProps {
+  entries: HighScoreEntry[];
+  levelLabel?: string;
+  highlightRank?: number;   // Row to flash, e.g. the run just entered
+}
+
+const formatDuration = (seconds: number) =>
+  seconds > 0 ? `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}` : '--:--';
+
+const formatDate = (date: number) =>
+  date > 0 ? new Date(date).toLocaleDateString(undefined, { day: '2-digit', month: 'short' }) : '---';
+
+// Arcade-style top-10 listing; empty slots are shown as dashes
+export const HighScoreTable = ({ entries, levelLabel = 'LVL', highlightRank = -1 }: HighScoreTableProps) => (
+  <table className="w-full font-mono text-xs sm:text-sm tabular-nums">
+    <thead>
+      <tr className="text-green-500/70">
+        <th className="px-2 text-right">#</th>
+        <th className="px-2 text-left">NAME</th>
+        <th className="px-2 text-right">SCORE</th>
+        <th className="px-2 text-right">{levelLabel}</th>
+        <th className="px-2 text-right hidden sm:table-cell">TIME</th>
+        <th className="px-2 text-right hidden sm:table-cell">DATE</th>
+      </tr>
+    </thead>
+    <tbody>
+      {Array.from({ length: HIGH_SCORE_TABLE_SIZE }, (_, rank) => {
+        const entry = entries[rank];
+        const highlighted = rank === highlightRank;
+        return (
+          <tr
+            key={rank}
+            className={highlighted ? 'text-yellow-300 animate-pulse' : entry ? 'text-green-400' : 'text-green-900'}
+            data-testid={highlighted ? 'high-score-new' : undefined}
+          >
+            <td className="px-2 text-right">{rank + 1}.</td>
+            <td className="px-2 text-left whitespace-pre">{entry ? entry.initials : '---'}</td>
+            <td className="px-2 text-right">{entry ? entry.score.toLocaleString() : '0'}</td>
+            <td className="px-2 text-right">{entry?.level ?? '-'}</td>
+            <td className="px-2 text-right hidden sm:table-cell">{entry ? formatDuration(entry.durationSeconds) : '--:--'}</td>
+            <td className="px-2 text-right hidden sm:table-cell">{entry ? formatDate(entry.date) : '---'}</td>
+          </tr>
+        );
+      })}
+    </tbody>
+  </table>
+);
+
+export default HighScoreTable;
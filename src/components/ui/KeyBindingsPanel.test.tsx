@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { KeyBindingsPanel } from './KeyBindingsPanel';
+import { createDefaultGlobalSave } from '../../utils/saveSchema';
+import type { GlobalSaveData } from '../../types/save';
+
+const save = createDefaultGlobalSave();
+const setKeyBindings = vi.fn();
+
+vi.mock('../../hooks/useSaveSystem', () => ({
+  useSaveSystem: () => ({ setKeyBindings }),
+  useSaveSelector: (selector: (data: GlobalSaveData) => unknown) => selector(save)
+}));
+
+describe('KeyBindingsPanel', () => {
+  beforeEach(() => {
+    setKeyBindings.mockClear();
+  });
+
+  it('rebinds the clicked slot to the next key pressed', () => {
+    render(<KeyBindingsPanel />);
+    fireEvent.change(screen.getByLabelText('Game'), { target: { value: 'metris' } });
+
+    fireEvent.click(within(screen.getByTestId('binding-hold')).getByText('C'));
+    expect(screen.getByText('PRESS KEY')).toBeInTheDocument();
+    fireEvent.keyDown(window, { key: ' ', code: 'Space' });
+
+    expect(setKeyBindings).toHaveBeenCalledWith('metris', expect.objectContaining({ hold: ['Space'], drop: [] }));
+    expect(screen.getByRole('status')).toHaveTextContent('SPACE moved from Hard drop');
+  });
+
+  it('cancels on ESC without rebinding', () => {
+    render(<KeyBindingsPanel />);
+    fireEvent.change(screen.getByLabelText('Game'), { target: { value: 'metris' } });
+
+    fireEvent.click(within(screen.getByTestId('binding-pause')).getByText('P'));
+    fireEvent.keyDown(window, { key: 'Escape', code: 'Escape' });
+
+    expect(setKeyBindings).not.toHaveBeenCalled();
+    expect(screen.queryByText('PRESS KEY')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, RotateCcw, X } from 'lucide-react';
+import { GAME_REGISTRY, type GameSaveKey } from '../../data/gameRegistry';
+import { INPUT_ACTIONS, MAX_KEYS_PER_ACTION } from '../../data/inputBindings';
+import { useSaveSelector, useSaveSystem } from '../../hooks/useSaveSystem';
+import {
+  actionLabel,
+  findBindingConflicts,
+  inputManager,
+  isReservedKey,
+  keyCodeFor,
+  keyLabel,
+  rebindKey,
+  resolveBindings,
+  unbindKey
+} from '../../utils/inputManager';
+import { gamepadLabel } from '../../utils/gamepad';
+import type { InputAction } from '../../types/input';
+
+// ============================================================================
+// KEY BINDINGS PANEL
+// Remaps each game's actions. Click a key slot, then press the new key; ESC
+// cancels. A key taken from another action is moved, not duplicated.
+// ============================================================================
+
+// Read when rendered: the registry imports games that import this panel
+const remappableGames = () => GAME_REGISTRY.filter(game => INPUT_ACTIONS[game.saveKey].length > 0);
+
+interface CaptureTarget {
+  action: InputAction;
+  slot: number;
+}
+
+export const KeyBindingsPanel: React.FC = () => {
+  const { setKeyBindings } = useSaveSystem();
+  const games = useMemo(remappableGames, []);
+  const [gameId, setGameId] = useState<GameSaveKey>(games[0].saveKey);
+  const [capturing, setCapturing] = useState<CaptureTarget | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const overrides = useSaveSelector(data => data.settings.keyBindings?.[gameId]);
+
+  const bindings = useMemo(() => resolveBindings(gameId, overrides), [gameId, overrides]);
+  const conflicts = findBindingConflicts(gameId, bindings);
+
+  // Listen for the new key ahead of everything else, with the games' input paused
+  useEffect(() => {
+    if (!capturing) return;
+    const resume = inputManager.suspend();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const code = keyCodeFor(e);
+
+      if (code === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      if (isReservedKey(code)) {
+        setMessage(`${keyLabel(code)} is reserved for the arcade`);
+        return;
+      }
+
+      const next = rebindKey(gameId, overrides ?? {}, capturing.action, capturing.slot, code);
+      const movedFrom = (Object.keys(bindings) as InputAction[])
+        .find(action => action !== capturing.action && bindings[action]?.includes(code));
+
+      setKeyBindings(gameId, next);
+      setMessage(movedFrom ? `${keyLabel(code)} moved from ${actionLabel(gameId, movedFrom)}` : null);
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      resume();
+    };
+  }, [capturing, gameId, overrides, bindings, setKeyBindings]);
+
+  const selectGame = (next: GameSaveKey) => {
+    setGameId(next);
+    setCapturing(null);
+    setMessage(null);
+  };
+
+  const handleUnbind = (action: InputAction, code: string) => {
+    setKeyBindings(gameId, unbindKey(gameId, overrides ?? {}, action, code));
+    setMessage(null);
+  };
+
+  const handleReset = () => {
+    setKeyBindings(gameId, null);
+    setCapturing(null);
+    setMessage(null);
+  };
+
+  return (
+    <div className="font-mono">
+      <div className="flex items-center gap-2 mb-4">
+        <select
+          value={gameId}
+          onChange={(e) => selectGame(e.target.value as GameSaveKey)}
+          className="flex-1 bg-gray-800 border border-green-500/50 rounded px-2 py-1 text-green-400 text-sm"
+          aria-label="Game"
+        >
+          {games.map(game => (
+            <option key={game.saveKey} value={game.saveKey}>{game.title}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleReset}
+          disabled={!overrides}
+          className="p-2 rounded bg-gray-800 hover:bg-gray-700 text-green-400 disabled:opacity-50"
+          title="Reset to defaults"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {INPUT_ACTIONS[gameId].map(({ action, label, buttons }) => (
+          <div key={action} className="flex items-center justify-between gap-2" data-testid={`binding-${action}`}>
+            <div className="flex flex-col">
+              <span className="text-gray-300 text-sm">{label}</span>
+              {buttons && (
+                <span className="text-gray-500 text-[10px]">{buttons.map(gamepadLabel).join(' / ')}</span>
+              )}
+            </div>
+            <div className="flex gap-1">
+              {Array.from({ length: MAX_KEYS_PER_ACTION }, (_, slot) => {
+                const code = bindings[action]?.[slot];
+                const isCapturing = capturing?.action === action && capturing.slot === slot;
+                return (
+                  <div key={slot} className="flex items-center">
+                    <button
+                      onClick={() => setCapturing({ action, slot })}
+                      className={`min-w-[4.5rem] px-2 py-1 rounded text-xs transition-colors ${
+                        isCapturing
+                          ? 'bg-green-600 text-white animate-pulse'
+                          : 'bg-gray-800 text-green-400 hover:bg-gray-700'
+                      }`}
+                    >
+                      {isCapturing ? 'PRESS KEY' : code ? keyLabel(code) : '-'}
+                    </button>
+                    {code && !isCapturing && (
+                      <button
+                        onClick={() => handleUnbind(action, code)}
+                        className="p-1 text-gray-500 hover:text-red-400"
+                        title={`Unbind ${keyLabel(code)}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {message && (
+        <div className="text-xs text-yellow-400 mb-2" role="status">{message}</div>
+      )}
+
+      {conflicts.map(conflict => (
+        <div key={conflict.code} className="flex items-center gap-2 text-xs text-red-400 mb-1">
+          <AlertTriangle className="w-3 h-3" />
+          <span>
+            {keyLabel(conflict.code)}{' '}
+            {conflict.reserved
+              ? 'is reserved for the arcade'
+              : `is bound to ${conflict.actions.map(action => actionLabel(gameId, action)).join(' and ')}`}
+          </span>
+        </div>
+      ))}
+
+      <div className="text-xs text-gray-400 text-center mt-4">
+        Click a key, then press the new one. ESC cancels.<br />
+        Gamepad buttons are shown under each action and can't be changed.
+      </div>
+    </div>
+  );
+};
+
+export default KeyBindingsPanel;
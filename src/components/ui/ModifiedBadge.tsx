@@ -0,0 +1,18 @@
+import { ShieldAlert } from 'lucide-react';
+
+interface ModifiedBadgeProps {
+  className?: string;
+}
+
+// Shown next to scores whose save data failed an integrity check
+export const ModifiedBadge = ({ className = '' }: ModifiedBadgeProps) => (
+  <span
+    className={`inline-flex items-center gap-1 px-1.5 py-0.5 bg-orange-900/40 border border-orange-500/50 rounded text-[10px] font-bold text-orange-400 ${className}`}
+    title="This data was edited outside the arcade or could not be verified"
+  >
+    <ShieldAlert className="w-3 h-3" />
+    MODIFIED
+  </span>
+);
+
+export default ModifiedBadge;
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PauseMenu } from './PauseMenu';
+
+const renderMenu = (gameId: 'metris' | 'terminalQuest' = 'metris') => {
+  const handlers = { onResume: vi.fn(), onRestart: vi.fn(), onSettings: vi.fn(), onQuit: vi.fn() };
+  render(<PauseMenu gameId={gameId} title="Metris" {...handlers} />);
+  return handlers;
+};
+
+describe('PauseMenu', () => {
+  it('resumes, restarts, opens settings and quits from its buttons', () => {
+    const handlers = renderMenu();
+
+    fireEvent.click(screen.getByText('RESUME'));
+    fireEvent.click(screen.getByText('RESTART'));
+    fireEvent.click(screen.getByText('SETTINGS'));
+    fireEvent.click(screen.getByText('QUIT TO MENU'));
+
+    expect(handlers.onResume).toHaveBeenCalledTimes(1);
+    expect(handlers.onRestart).toHaveBeenCalledTimes(1);
+    expect(handlers.onSettings).toHaveBeenCalledTimes(1);
+    expect(handlers.onQuit).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes on the game\'s own pause key', () => {
+    const { onResume } = renderMenu();
+
+    fireEvent.keyDown(window, { key: 'p' });
+    fireEvent.keyUp(window, { key: 'p' });
+
+    expect(onResume).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists the game\'s controls on the keys they are bound to', () => {
+    renderMenu();
+    fireEvent.click(screen.getByText('CONTROLS'));
+
+    expect(screen.getByText('Hard drop')).toBeInTheDocument();
+    expect(screen.getByText('Pause menu')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('BACK'));
+    expect(screen.getByText('RESUME')).toBeInTheDocument();
+  });
+
+  it('explains games played by typing', () => {
+    renderMenu('terminalQuest');
+    fireEvent.click(screen.getByText('CONTROLS'));
+
+    expect(screen.getByText(/Played by typing/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Gamepad2, LogOut, Pause, Play, RotateCcw, Settings } from 'lucide-react';
+import type { GameSaveKey } from '../../data/gameRegistry';
+import { ARCADE_CONTEXT, INPUT_ACTIONS } from '../../data/inputBindings';
+import { useGameInput } from '../../hooks/useGameInput';
+import { boundKeysLabel } from '../../utils/inputManager';
+import { gamepadLabel } from '../../utils/gamepad';
+
+// ============================================================================
+// PAUSE MENU
+// Laid over whichever game is being played while it's paused. The game holds
+// still underneath until the player resumes, restarts or quits to the menu.
+// ============================================================================
+
+interface PauseMenuProps {
+  gameId: GameSaveKey;
+  title: string;
+  onResume: () => void;
+  onRestart: () => void;
+  onSettings: () => void;
+  onQuit: () => void;
+}
+
+const MENU_BUTTON = 'w-full flex items-center gap-3 px-4 py-3 rounded border font-bold transition-colors focus:outline-none focus:ring-2 focus:ring-green-400';
+
+const ControlsHelp: React.FC<{ gameId: GameSaveKey }> = ({ gameId }) => {
+  const actions = INPUT_ACTIONS[gameId];
+
+  return (
+    <div className="space-y-2 text-sm">
+      {actions.length === 0 && (
+        <p className="text-green-400/80">Played by typing at the prompt and with the game's own buttons.</p>
+      )}
+      {actions.map(({ action, label, buttons }) => (
+        <div key={action} className="flex items-center justify-between gap-4">
+          <span className="text-green-400">{label}</span>
+          <span className="text-right">
+            <span className="text-green-300">{boundKeysLabel(gameId, action)}</span>
+            {buttons && (
+              <span className="block text-gray-500 text-[10px]">{buttons.map(gamepadLabel).join(' / ')}</span>
+            )}
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-4 border-t border-green-500/30 pt-2">
+        <span className="text-green-400">Pause menu</span>
+        <span className="text-green-300">{boundKeysLabel(ARCADE_CONTEXT, 'exit')}</span>
+      </div>
+    </div>
+  );
+};
+
+export const PauseMenu: React.FC<PauseMenuProps> = ({ gameId, title, onResume, onRestart, onSettings, onQuit }) => {
+  const [showControls, setShowControls] = useState(false);
+
+  // The game's own pause key resumes, as it would without the menu
+  useGameInput(gameId, ({ action, pressed, repeat }) => {
+    if (action === 'pause' && pressed && !repeat) onResume();
+  });
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex items-center justify-center bg-black/85 backdrop-blur-sm p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Paused"
+    >
+      <div className="bg-gray-900 border-2 border-green-500 rounded-lg p-6 max-w-sm w-full font-mono shadow-[0_0_20px_rgba(0,255,0,0.3)]">
+        <div className="flex items-center gap-2 mb-1">
+          <Pause className="w-5 h-5 text-green-400" />
+          <h2 className="text-lg font-bold text-green-400">PAUSED</h2>
+        </div>
+        <p className="text-xs text-green-400/70 mb-6">{title}</p>
+
+        {showControls ? (
+          <>
+            <ControlsHelp gameId={gameId} />
+            <button
+              onClick={() => setShowControls(false)}
+              className={`${MENU_BUTTON} mt-6 bg-gray-800 border-green-500/30 text-green-400 hover:bg-gray-700`}
+              autoFocus
+            >
+              <ArrowLeft className="w-4 h-4" />
+              BACK
+            </button>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <button
+              onClick={onResume}
+              className={`${MENU_BUTTON} bg-green-600 border-green-400 text-black hover:bg-green-500`}
+              autoFocus
+            >
+              <Play className="w-4 h-4" />
+              RESUME
+            </button>
+            <button
+              onClick={onRestart}
+              className={`${MENU_BUTTON} bg-gray-800 border-green-500/30 text-green-400 hover:bg-gray-700`}
+            >
+              <RotateCcw className="w-4 h-4" />
+              RESTART
+            </button>
+            <button
+              onClick={onSettings}
+              className={`${MENU_BUTTON} bg-gray-800 border-green-500/30 text-green-400 hover:bg-gray-700`}
+            >
+              <Settings className="w-4 h-4" />
+              SETTINGS
+            </button>
+            <button
+              onClick={() => setShowControls(true)}
+              className={`${MENU_BUTTON} bg-gray-800 border-green-500/30 text-green-400 hover:bg-gray-700`}
+            >
+              <Gamepad2 className="w-4 h-4" />
+              CONTROLS
+            </button>
+            <button
+              onClick={onQuit}
+              className={`${MENU_BUTTON} bg-red-900/60 border-red-500/50 text-red-400 hover:bg-red-800`}
+            >
+              <LogOut className="w-4 h-4" />
+              QUIT TO MENU
+            </button>
+          </div>
+        )}
+
+        <p className="mt-6 text-center text-xs text-green-400/60">
+          {boundKeysLabel(ARCADE_CONTEXT, 'exit')} to resume
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PauseMenu;
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  Users,
+  UserPlus,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  LogIn
+} from 'lucide-react';
+import { useProfiles } from '../../hooks/useProfiles';
+import { MAX_PROFILE_NAME_LENGTH } from '../../utils/profileStorage';
+
+interface ProfileManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const ProfileManager: React.FC<ProfileManagerProps> = ({ isOpen, onClose }) => {
+  const {
+    profiles,
+    activeProfile,
+    createProfile,
+    switchProfile,
+    renameProfile,
+    deleteProfile
+  } = useProfiles();
+
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (createProfile(newName)) {
+      setNewName('');
+      onClose();
+    }
+  };
+
+  const handleSwitch = (profileId: string) => {
+    switchProfile(profileId);
+    onClose();
+  };
+
+  const startRename = (profileId: string, name: string) => {
+    setEditingId(profileId);
+    setEditName(name);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && renameProfile(editingId, editName)) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = (profileId: string) => {
+    if (confirmingDeleteId === profileId) {
+      deleteProfile(profileId);
+      setConfirmingDeleteId(null);
+    } else {
+      setConfirmingDeleteId(profileId);
+      setTimeout(() => setConfirmingDeleteId(null), 5000);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.8, opacity: 0 }}
+          className="bg-gray-900 border-2 border-green-500 rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto font-mono"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-green-500/30">
+            <div className="flex items-center gap-3">
+              <Users className="w-6 h-6 text-green-400" />
+              <h2 className="text-xl font-bold text-green-400">PLAYER PROFILES</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-green-900 rounded transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5 text-green-400" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {/* Profile List */}
+            <ul className="space-y-2">
+              {profiles.map(profile => {
+                const isActive = profile.id === activeProfile.id;
+
+                return (
+                  <li
+                    key={profile.id}
+                    className={`flex items-center gap-3 p-3 rounded border ${
+                      isActive ? 'bg-green-900/40 border-green-500' : 'bg-black/50 border-green-500/30'
+                    }`}
+                  >
+                    {editingId === profile.id ? (
+                      <form onSubmit={handleRename} className="flex-1 flex items-center gap-2">
+                        <input
+                          autoFocus
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          maxLength={MAX_PROFILE_NAME_LENGTH}
+                          aria-label="Profile name"
+                          className="flex-1 bg-black border border-green-500/50 rounded px-2 py-1 text-green-400 focus:outline-none focus:border-green-400"
+                        />
+                        <button type="submit" className="p-1 hover:bg-green-800 rounded" aria-label="Save name">
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button type="button" onClick={() => setEditingId(null)} className="p-1 hover:bg-green-800 rounded" aria-label="Cancel rename">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </form>
+                    ) : (
+                      <>
+                        <div className="flex-1">
+                          <div className="text-green-400 font-bold">
+                            {profile.name}
+                            {isActive && <span className="ml-2 text-xs text-green-500">(ACTIVE)</span>}
+                          </div>
+                          <div className="text-xs text-gray-500">Created {formatDate(profile.createdAt)}</div>
+                        </div>
+
+                        {!isActive && (
+                          <button
+                            onClick={() => handleSwitch(profile.id)}
+                            className="p-2 hover:bg-green-800 rounded transition-colors"
+                            title={`Switch to ${profile.name}`}
+                          >
+                            <LogIn className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => startRename(profile.id, profile.name)}
+                          className="p-2 hover:bg-green-800 rounded transition-colors"
+                          title={`Rename ${profile.name}`}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        {profiles.length > 1 && (
+                          <button
+                            onClick={() => handleDelete(profile.id)}
+                            className={`p-2 rounded transition-colors ${
+                              confirmingDeleteId === profile.id ? 'bg-red-900/70 text-red-400' : 'hover:bg-red-900'
+                            }`}
+                            title={confirmingDeleteId === profile.id ? 'Click again to delete all of this profile\'s saves' : `Delete ${profile.name}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {/* New Profile */}
+            <form onSubmit={handleCreate} className="flex items-center gap-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                placeholder="New profile name"
+                aria-label="New profile name"
+                className="flex-1 bg-black border border-green-500/50 rounded px-3 py-2 text-green-400 placeholder-green-800 focus:outline-none focus:border-green-400"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="flex items-center gap-2 px-3 py-2 bg-green-900/50 hover:bg-green-800 border border-green-500/30 rounded transition-colors disabled:opacity-50"
+              >
+                <UserPlus className="w-4 h-4" />
+                Create
+              </button>
+            </form>
+
+            <p className="text-xs text-gray-500">
+              Each profile keeps its own saves, achievements, CTRL-S progress and audio settings.
+            </p>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default ProfileManager;
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Save, 
@@ -12,9 +12,22 @@ import {
   AlertTriangle,
   CheckCircle,
   FileText,
-  Settings
+  Settings,
+  Wrench,
+  History,
+  GitCompare,
+  ShieldAlert,
+  ShieldCheck,
+  Cloud,
+  RefreshCw,
+  Link
 } from 'lucide-react';
-import { useSaveSystem } from '../../hooks/useSaveSystem';
+import { useSaveSystem, type GameSaveKey, type SaveImportPreview } from '../../hooks/useSaveSystem';
+import { useSaveSync } from '../../hooks/useSaveSync';
+import { getGameBySaveKey } from '../../data/gameRegistry';
+import type { SaveDiffEntry } from '../../utils/saveValidation';
+import { formatPlayTime } from '../../utils/playerStats';
+import { ModifiedBadge } from './ModifiedBadge';
 
 interface SaveLoadManagerProps {
   isOpen: boolean;
@@ -27,19 +40,33 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
     isLoading,
     error,
     exportSaveData,
-    importSaveData,
+    previewImport,
+    applyImport,
     clearSaveData,
-    restoreFromBackup,
+    snapshots,
+    restoreSnapshot,
+    compareSnapshot,
     saveNow,
     getGameAchievements
   } = useSaveSystem();
 
   const [confirmingClear, setConfirmingClear] = useState(false);
   const [importing, setImporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<SaveImportPreview | null>(null);
+  const [comparison, setComparison] = useState<{ snapshotId: string; diff: SaveDiffEntry[] } | null>(null);
+  const [confirmingRestoreId, setConfirmingRestoreId] = useState<string | null>(null);
+  const [linkSaveId, setLinkSaveId] = useState('');
+  const sync = useSaveSync();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleExport = () => {
-    const success = exportSaveData();
+  useEffect(() => {
+    if (isOpen) {
+      setComparison(null);
+    }
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    const success = await exportSaveData();
     if (success) {
       // Could add a toast notification here
       console.log('Save data exported successfully');
@@ -51,11 +78,12 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
     if (!file) return;
 
     setImporting(true);
-    const success = await importSaveData(file);
+    const preview = await previewImport(file);
     setImporting(false);
     
-    if (success) {
-      console.log('Save data imported successfully');
+    // Nothing is written until the player confirms the preview
+    if (preview && !preview.report.fatal) {
+      setImportPreview(preview);
     }
     
     // Reset file input
@@ -64,6 +92,27 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
     }
   };
 
+  const handleConfirmImport = () => {
+    if (!importPreview) return;
+    
+    const success = applyImport(importPreview.repaired);
+    if (success) {
+      console.log('Save data imported successfully');
+    }
+    setImportPreview(null);
+  };
+
+  const handleSync = async () => {
+    await sync.syncNow();
+  };
+
+  const handleLinkSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (sync.setSaveId(linkSaveId)) {
+      setLinkSaveId('');
+    }
+  };
+
   const handleClearData = () => {
     if (confirmingClear) {
       clearSaveData();
@@ -74,26 +123,38 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
     }
   };
 
-  const formatPlayTime = (milliseconds: number) => {
-    const hours = Math.floor(milliseconds / (1000 * 60 * 60));
-    const minutes = Math.floor((milliseconds % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
+  const handleCompare = (snapshotId: string) => {
+    if (comparison?.snapshotId === snapshotId) {
+      setComparison(null);
+      return;
+    }
+    const diff = compareSnapshot(snapshotId);
+    if (diff) {
+      setComparison({ snapshotId, diff });
+    }
+  };
+
+  const handleRestore = (snapshotId: string) => {
+    if (confirmingRestoreId === snapshotId) {
+      restoreSnapshot(snapshotId);
+      setConfirmingRestoreId(null);
+      setComparison(null);
+    } else {
+      setConfirmingRestoreId(snapshotId);
+      setTimeout(() => setConfirmingRestoreId(null), 5000);
+    }
   };
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString();
   };
 
+  const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString();
+  };
+
   const getGameDisplayName = (gameId: string) => {
-    const names: Record<string, string> = {
-      snakeClassic: 'Snake Classic',
-      vortexPong: 'Vortex Pong',
-      matrixCloud: 'Matrix Cloud',
-      ctrlSWorld: 'CTRL-S | The World',
-      metris: 'Metris',
-      matrixInvaders: 'Matrix Invaders'
-    };
-    return names[gameId] || gameId;
+    return getGameBySaveKey(gameId)?.title || gameId;
   };
 
   if (!isOpen) return null;
@@ -188,6 +249,98 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
                 </button>
               </div>
 
+              {/* Import Preview */}
+              {importPreview && (
+                <div className="bg-black/50 border border-purple-500/50 rounded-lg p-4">
+                  <h3 className="text-purple-400 font-bold mb-1 flex items-center gap-2">
+                    <Upload className="w-5 h-5" />
+                    IMPORT PREVIEW
+                  </h3>
+                  <p className="text-xs text-gray-400 mb-4">
+                    {importPreview.fileName} • save v{importPreview.report.fromVersion}
+                  </p>
+
+                  {importPreview.report.valid ? (
+                    <div className="flex items-center gap-2 text-sm text-green-400 mb-4">
+                      <CheckCircle className="w-4 h-4" />
+                      Save file is valid
+                    </div>
+                  ) : (
+                    <div className="mb-4">
+                      <div className="flex items-center gap-2 text-sm text-yellow-400 mb-2">
+                        <AlertTriangle className="w-4 h-4" />
+                        {importPreview.report.issues.length} invalid field(s) found
+                      </div>
+                      <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+                        {importPreview.report.issues.map((issue, index) => (
+                          <li key={index} className="flex gap-2">
+                            <span className="text-yellow-400">{issue.path}</span>
+                            <span className="text-gray-400">{issue.message}</span>
+                            <span className="text-purple-400 uppercase">→ {issue.repair}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {importPreview.integrity && (
+                    importPreview.integrity.status === 'verified' ? (
+                      <div className="flex items-center gap-2 text-sm text-green-400 mb-4">
+                        <ShieldCheck className="w-4 h-4" />
+                        Signature verified
+                      </div>
+                    ) : (
+                      <div className="flex items-start gap-2 text-sm text-orange-400 mb-4">
+                        <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+                        <span>
+                          {importPreview.integrity.status === 'unsigned'
+                            ? 'File is not signed.'
+                            : 'File was edited or signed on another device.'}
+                          {' '}Affected scores will be imported marked as modified
+                          {importPreview.integrity.modifiedGames.length > 0 &&
+                            `: ${importPreview.integrity.modifiedGames.map(getGameDisplayName).join(', ')}`}
+                        </span>
+                      </div>
+                    )
+                  )}
+
+                  <div className="text-xs text-gray-400 mb-2">Changes after import:</div>
+                  {importPreview.diff.length === 0 ? (
+                    <p className="text-sm text-gray-500 mb-4">No differences from current save</p>
+                  ) : (
+                    <table className="w-full text-sm mb-4">
+                      <tbody>
+                        {importPreview.diff.map(entry => (
+                          <tr key={entry.path} className="border-b border-green-500/10">
+                            <td className="py-1 text-gray-300">{entry.label}</td>
+                            <td className="py-1 text-red-400 text-right">{entry.before.toLocaleString()}</td>
+                            <td className="py-1 text-gray-500 text-center">→</td>
+                            <td className="py-1 text-green-400">{entry.after.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    <button
+                      onClick={handleConfirmImport}
+                      className="flex items-center gap-2 px-3 py-2 bg-purple-900/50 hover:bg-purple-800 border border-purple-500/30 rounded transition-colors"
+                    >
+                      {importPreview.report.valid ? <Upload className="w-4 h-4" /> : <Wrench className="w-4 h-4" />}
+                      {importPreview.report.valid ? 'Import' : 'Repair & Import'}
+                    </button>
+                    <button
+                      onClick={() => setImportPreview(null)}
+                      className="flex items-center gap-2 px-3 py-2 bg-red-900/50 hover:bg-red-800 border border-red-500/30 rounded transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                      {importPreview.report.valid ? 'Cancel' : 'Reject'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Global Stats */}
               <div className="bg-black/50 border border-green-500/30 rounded-lg p-4">
                 <h3 className="text-green-400 font-bold mb-4 flex items-center gap-2">
@@ -215,8 +368,9 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
                   </div>
                   <div>
                     <div className="text-gray-400">Global Achievements</div>
-                    <div className="text-green-400 font-bold">
+                    <div className="text-green-400 font-bold flex items-center gap-2">
                       {saveData.globalStats.globalAchievements.length}
+                      {saveData.globalStats.modified && <ModifiedBadge />}
                     </div>
                   </div>
                 </div>
@@ -243,7 +397,10 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                         <div>
                           <div className="text-gray-400">High Score</div>
-                          <div className="text-green-400 font-bold">{gameData.highScore.toLocaleString()}</div>
+                          <div className="text-green-400 font-bold flex items-center gap-2">
+                            {gameData.highScore.toLocaleString()}
+                            {gameData.modified && <ModifiedBadge />}
+                          </div>
                         </div>
                         <div>
                           <div className="text-gray-400">Level</div>
@@ -256,7 +413,7 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
                         <div>
                           <div className="text-gray-400">Achievements</div>
                           <div className="text-green-400 font-bold">
-                            {gameData.achievements.length} / {getGameAchievements(gameId as GameId).length}
+                            {gameData.achievements.length} / {getGameAchievements(gameId as GameSaveKey).length}
                           </div>
                         </div>
                       </div>
@@ -294,14 +451,6 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
                   BACKUP & RECOVERY
                 </h3>
                 <div className="flex flex-wrap gap-4 text-sm">
-                  <button
-                    onClick={restoreFromBackup}
-                    className="flex items-center gap-2 px-3 py-2 bg-yellow-900/50 hover:bg-yellow-800 border border-yellow-500/30 rounded transition-colors"
-                  >
-                    <RotateCcw className="w-4 h-4" />
-                    Restore Backup
-                  </button>
-                  
                   <div className="flex items-center gap-2 text-gray-400">
                     <CheckCircle className="w-4 h-4" />
                     Auto-save: {saveData.settings.autoSave ? 'Enabled' : 'Disabled'}
@@ -314,8 +463,142 @@ export const SaveLoadManager: React.FC<SaveLoadManagerProps> = ({ isOpen, onClos
                     </div>
                   )}
                 </div>
+
+                {/* Save History */}
+                <div className="mt-4 pt-4 border-t border-yellow-500/20">
+                  <div className="text-xs text-gray-400 mb-2 flex items-center gap-2">
+                    <History className="w-4 h-4" />
+                    SAVE HISTORY ({snapshots.length})
+                  </div>
+
+                  {snapshots.length === 0 ? (
+                    <p className="text-sm text-gray-500">No snapshots yet - one is taken every time the game saves.</p>
+                  ) : (
+                    <ul className="space-y-2 max-h-72 overflow-y-auto">
+                      {snapshots.map(snapshot => (
+                        <li key={snapshot.id} className="bg-black/40 border border-yellow-500/20 rounded p-2 text-sm">
+                          <div className="flex flex-wrap items-center gap-3">
+                            <span className="text-gray-300">{formatDateTime(snapshot.createdAt)}</span>
+                            {snapshot.kind === 'daily' && (
+                              <span className="px-2 py-0.5 bg-yellow-900/40 border border-yellow-500/40 rounded text-xs text-yellow-400">
+                                DAILY
+                              </span>
+                            )}
+                            <span className="text-green-400">{snapshot.totalScore.toLocaleString()} pts</span>
+                            <span className="text-green-400 flex items-center gap-1">
+                              <Trophy className="w-3 h-3" />
+                              {snapshot.achievementCount}
+                            </span>
+                            <div className="ml-auto flex gap-2">
+                              <button
+                                onClick={() => handleCompare(snapshot.id)}
+                                className="flex items-center gap-1 px-2 py-1 bg-blue-900/50 hover:bg-blue-800 border border-blue-500/30 rounded transition-colors"
+                              >
+                                <GitCompare className="w-3 h-3" />
+                                Compare
+                              </button>
+                              <button
+                                onClick={() => handleRestore(snapshot.id)}
+                                className={`flex items-center gap-1 px-2 py-1 border rounded transition-colors ${
+                                  confirmingRestoreId === snapshot.id
+                                    ? 'bg-yellow-700/70 border-yellow-400 text-yellow-200'
+                                    : 'bg-yellow-900/50 hover:bg-yellow-800 border-yellow-500/30'
+                                }`}
+                              >
+                                <RotateCcw className="w-3 h-3" />
+                                {confirmingRestoreId === snapshot.id ? 'Confirm?' : 'Restore'}
+                              </button>
+                            </div>
+                          </div>
+
+                          {comparison?.snapshotId === snapshot.id && (
+                            comparison.diff.length === 0 ? (
+                              <p className="mt-2 text-xs text-gray-500">Identical to the current save</p>
+                            ) : (
+                              <table className="w-full mt-2 text-xs">
+                                <thead>
+                                  <tr className="text-gray-500">
+                                    <th></th>
+                                    <th className="text-right font-normal">Current</th>
+                                    <th></th>
+                                    <th className="text-left font-normal">Snapshot</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {comparison.diff.map(entry => (
+                                    <tr key={entry.path} className="border-b border-yellow-500/10">
+                                      <td className="py-1 text-gray-300">{entry.label}</td>
+                                      <td className="py-1 text-green-400 text-right">{entry.before.toLocaleString()}</td>
+                                      <td className="py-1 text-gray-500 text-center">→</td>
+                                      <td className="py-1 text-yellow-400">{entry.after.toLocaleString()}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
               </div>
 
+              {/* Cloud Sync */}
+              {sync.isAvailable && (
+                <div className="bg-black/50 border border-blue-500/30 rounded-lg p-4">
+                  <h3 className="text-blue-400 font-bold mb-4 flex items-center gap-2">
+                    <Cloud className="w-5 h-5" />
+                    CLOUD SYNC
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-4 text-sm mb-4">
+                    <div className="text-gray-400">
+                      Save ID: <span className="text-blue-300 select-all">{sync.saveId}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-gray-400">
+                      <Clock className="w-4 h-4" />
+                      {sync.lastSyncedAt ? `Last synced: ${formatDateTime(sync.lastSyncedAt)} (rev ${sync.revision})` : 'Never synced'}
+                    </div>
+                    <button
+                      onClick={handleSync}
+                      disabled={sync.status === 'syncing'}
+                      className="ml-auto flex items-center gap-2 px-3 py-2 bg-blue-900/50 hover:bg-blue-800 border border-blue-500/30 rounded transition-colors disabled:opacity-50"
+                    >
+                      <RefreshCw className={`w-4 h-4 ${sync.status === 'syncing' ? 'animate-spin' : ''}`} />
+                      {sync.status === 'syncing' ? 'Syncing...' : 'Sync Now'}
+                    </button>
+                  </div>
+
+                  {sync.error && (
+                    <div className="flex items-center gap-2 text-sm text-red-400 mb-4">
+                      <AlertTriangle className="w-4 h-4" />
+                      {sync.error}
+                    </div>
+                  )}
+
+                  <form onSubmit={handleLinkSave} className="flex items-center gap-2 text-sm">
+                    <input
+                      value={linkSaveId}
+                      onChange={(e) => setLinkSaveId(e.target.value)}
+                      placeholder="Save ID from another device"
+                      aria-label="Save ID to link"
+                      className="flex-1 bg-black border border-blue-500/50 rounded px-3 py-2 text-blue-300 placeholder-blue-900 focus:outline-none focus:border-blue-400"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!linkSaveId.trim()}
+                      className="flex items-center gap-2 px-3 py-2 bg-blue-900/50 hover:bg-blue-800 border border-blue-500/30 rounded transition-colors disabled:opacity-50"
+                    >
+                      <Link className="w-4 h-4" />
+                      Link
+                    </button>
+                  </form>
+                  <p className="mt-2 text-xs text-gray-500">
+                    Devices sharing a save ID merge their progress: best scores are kept, achievements combined and play time added up.
+                  </p>
+                </div>
+              )}
+
               {/* Matrix-themed divider */}
               <div className="flex items-center gap-2">
                 <div className="flex-1 h-px bg-green-500/30"></div>
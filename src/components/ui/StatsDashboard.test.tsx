@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { StatsDashboard } from './StatsDashboard';
+import { createDefaultGlobalSave } from '../../utils/saveSchema';
+import { toDayKey } from '../../utils/challengeCalendar';
+import type { GlobalSaveData } from '../../types/save';
+
+const save = createDefaultGlobalSave();
+save.games.metris.stats = { gamesPlayed: 2, totalScore: 3000, playTime: 90 * 60 * 1000 };
+save.games.metris.highScore = 2000;
+save.games.metris.recentRuns = [
+  { score: 1000, date: 1, durationSeconds: 60 },
+  { score: 2000, date: 2, durationSeconds: 90 }
+];
+save.globalStats.totalPlayTime = 90 * 60 * 1000;
+save.globalStats.dailyPlayTime = { [toDayKey(new Date())]: { metris: 90 * 60 * 1000 } };
+
+vi.mock('../../hooks/useSaveSystem', () => ({
+  useSaveSelector: (selector: (data: GlobalSaveData) => unknown) => selector(save)
+}));
+
+describe('StatsDashboard', () => {
+  it('shows arcade totals, today\'s play time and each game\'s numbers', () => {
+    render(<StatsDashboard isOpen onClose={vi.fn()} />);
+
+    expect(screen.getAllByText('1h 30m').length).toBeGreaterThan(0);
+    expect(screen.getByText('FAVOURITE').nextSibling).toHaveTextContent('Metris');
+    expect(screen.getByTestId(`play-bar-${toDayKey(new Date())}-metris`)).toBeInTheDocument();
+
+    const row = within(screen.getByTestId('stats-row-metris'));
+    expect(row.getByText('1,500')).toBeInTheDocument();
+    expect(row.getByRole('img', { name: 'Metris score trend' })).toBeInTheDocument();
+  });
+
+  it('renders nothing while closed', () => {
+    const { container } = render(<StatsDashboard isOpen={false} onClose={vi.fn()} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
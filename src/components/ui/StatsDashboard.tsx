@@ -0,0 +1,208 @@
+import React, { useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BarChart3, X } from 'lucide-react';
+import { GAME_SAVE_KEYS, type GameSaveKey } from '../../data/gameRegistry';
+import { useSaveSelector } from '../../hooks/useSaveSystem';
+import {
+  formatPlayTime,
+  playTimeByDay,
+  summariseArcadeStats,
+  summariseGameStats,
+  type PlayTimeDay
+} from '../../utils/playerStats';
+import type { RunRecord } from '../../types/save';
+
+// ============================================================================
+// STATS DASHBOARD
+// Lifetime numbers for the arcade and each game, play time over the last two
+// weeks and each game's recent scores. Charts are plain SVG.
+// ============================================================================
+
+export const CHART_DAYS = 14;
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 80;
+const TREND_WIDTH = 96;
+const TREND_HEIGHT = 24;
+
+// One shade of green per game so stacked bars can be told apart
+const GAME_COLOURS = ['#4ade80', '#22c55e', '#16a34a', '#86efac', '#15803d', '#bbf7d0', '#166534'];
+const colourFor = (gameId: GameSaveKey) => GAME_COLOURS[GAME_SAVE_KEYS.indexOf(gameId) % GAME_COLOURS.length];
+
+interface StatsDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PlayTimeChart = ({ days }: { days: PlayTimeDay[] }) => {
+  const most = Math.max(...days.map(day => day.total), 1);
+  const slot = CHART_WIDTH / days.length;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-24" role="img" aria-label="Play time per day">
+      {days.map((day, index) => {
+        let top = CHART_HEIGHT;
+        return (
+          <g key={day.day}>
+            <title>{`${day.day}: ${formatPlayTime(day.total)}`}</title>
+            <rect x={index * slot} y={0} width={slot} height={CHART_HEIGHT} fill="transparent" />
+            {(Object.entries(day.byGame) as [GameSaveKey, number][]).map(([gameId, time]) => {
+              const height = (time / most) * CHART_HEIGHT;
+              top -= height;
+              return (
+                <rect
+                  key={gameId}
+                  x={index * slot + 1}
+                  y={top}
+                  width={slot - 2}
+                  height={height}
+                  fill={colourFor(gameId)}
+                  data-testid={`play-bar-${day.day}-${gameId}`}
+                />
+              );
+            })}
+          </g>
+        );
+      })}
+      <line x1={0} y1={CHART_HEIGHT - 0.5} x2={CHART_WIDTH} y2={CHART_HEIGHT - 0.5} stroke="#22c55e" strokeOpacity={0.4} />
+    </svg>
+  );
+};
+
+// Sparkline of the latest runs, oldest on the left
+const ScoreTrend = ({ runs, title }: { runs: RunRecord[]; title: string }) => {
+  if (runs.length < 2) {
+    return <span className="text-green-500/50 text-xs">{runs.length === 1 ? runs[0].score.toLocaleString() : '-'}</span>;
+  }
+
+  const most = Math.max(...runs.map(run => run.score), 1);
+  const points = runs
+    .map((run, index) => {
+      const x = (index / (runs.length - 1)) * TREND_WIDTH;
+      const y = TREND_HEIGHT - 2 - (run.score / most) * (TREND_HEIGHT - 4);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`} className="w-24 h-6" role="img" aria-label={`${title} score trend`}>
+      <polyline points={points} fill="none" stroke="#4ade80" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ isOpen, onClose }) => {
+  const saveData = useSaveSelector(data => data);
+
+  const arcade = useMemo(() => summariseArcadeStats(saveData), [saveData]);
+  const games = useMemo(() => summariseGameStats(saveData), [saveData]);
+  const days = useMemo(() => playTimeByDay(saveData, CHART_DAYS), [saveData]);
+
+  if (!isOpen) return null;
+
+  const tiles = [
+    { label: 'PLAY TIME', value: formatPlayTime(arcade.totalPlayTime) },
+    { label: 'GAMES PLAYED', value: arcade.gamesPlayed.toLocaleString() },
+    { label: 'TOTAL SCORE', value: arcade.totalScore.toLocaleString() },
+    { label: 'ACHIEVEMENTS', value: arcade.achievementsUnlocked.toLocaleString() },
+    { label: 'FAVOURITE', value: arcade.favoriteGame ?? 'None yet' },
+    { label: 'DAYS PLAYED', value: arcade.daysPlayed.toLocaleString() }
+  ];
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.8, opacity: 0 }}
+          className="bg-gray-900 border-2 border-green-500 rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto font-mono"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-green-500/30">
+            <div className="flex items-center gap-3">
+              <BarChart3 className="w-6 h-6 text-green-400" />
+              <h2 className="text-xl font-bold text-green-400">PLAYER STATS</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-green-900 rounded transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5 text-green-400" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {/* Arcade totals */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {tiles.map(tile => (
+                <div key={tile.label} className="bg-black/50 border border-green-500/30 rounded p-3">
+                  <div className="text-xs text-green-500/70">{tile.label}</div>
+                  <div className="text-green-400 font-bold truncate">{tile.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Play time over the last two weeks */}
+            <section>
+              <h3 className="text-sm text-green-500/70 mb-2">PLAY TIME, LAST {CHART_DAYS} DAYS</h3>
+              <div className="bg-black/50 border border-green-500/30 rounded p-3">
+                <PlayTimeChart days={days} />
+                <div className="flex justify-between text-xs text-green-500/50 mt-1">
+                  <span>{days[0].day}</span>
+                  <span>TODAY</span>
+                </div>
+              </div>
+            </section>
+
+            {/* Per game */}
+            <section>
+              <h3 className="text-sm text-green-500/70 mb-2">BY GAME</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-green-400">
+                  <thead>
+                    <tr className="text-xs text-green-500/70 text-left">
+                      <th className="py-1 pr-3 font-normal">GAME</th>
+                      <th className="py-1 pr-3 font-normal text-right">PLAYED</th>
+                      <th className="py-1 pr-3 font-normal text-right">BEST</th>
+                      <th className="py-1 pr-3 font-normal text-right">AVERAGE</th>
+                      <th className="py-1 pr-3 font-normal text-right">TIME</th>
+                      <th className="py-1 font-normal">TREND</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {games.map(game => (
+                      <tr key={game.gameId} className="border-t border-green-500/20" data-testid={`stats-row-${game.gameId}`}>
+                        <td className="py-2 pr-3">
+                          <span className="inline-block w-2 h-2 mr-2 rounded-sm" style={{ background: colourFor(game.gameId) }} />
+                          {game.title}
+                        </td>
+                        <td className="py-2 pr-3 text-right">{game.gamesPlayed.toLocaleString()}</td>
+                        <td className="py-2 pr-3 text-right">{game.highScore.toLocaleString()}</td>
+                        <td className="py-2 pr-3 text-right">{game.averageScore.toLocaleString()}</td>
+                        <td className="py-2 pr-3 text-right">{formatPlayTime(game.playTime)}</td>
+                        <td className="py-2">
+                          <ScoreTrend runs={game.recentRuns} title={game.title} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createRef } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TouchControls } from './TouchControls';
+import { inputManager } from '../../utils/inputManager';
+import type { InputActionEvent } from '../../types/input';
+
+const surfaceRef = createRef<HTMLElement>();
+
+describe('TouchControls', () => {
+  let unsubscribe: (() => void) | undefined;
+
+  afterEach(() => {
+    unsubscribe?.();
+  });
+
+  const listen = (context: Parameters<typeof inputManager.subscribe>[0]) => {
+    const events: InputActionEvent[] = [];
+    unsubscribe = inputManager.subscribe(context, event => events.push(event));
+    return events;
+  };
+
+  it('presses the game\'s actions for as long as a pad button is held', () => {
+    const events = listen('snakeClassic');
+    render(<TouchControls gameId="snakeClassic" surfaceRef={surfaceRef} />);
+
+    fireEvent.pointerDown(screen.getByLabelText('Left'));
+    expect(inputManager.isHeld('snakeClassic', 'left')).toBe(true);
+    fireEvent.pointerUp(screen.getByLabelText('Left'));
+
+    expect(events.map(({ action, pressed }) => [action, pressed])).toEqual([['left', true], ['left', false]]);
+  });
+
+  it('lets go of held buttons when the game closes', () => {
+    const events = listen('matrixInvaders');
+    const { unmount } = render(<TouchControls gameId="matrixInvaders" surfaceRef={surfaceRef} />);
+
+    fireEvent.pointerDown(screen.getByLabelText('FIRE'));
+    unmount();
+
+    expect(events.map(({ action, pressed }) => [action, pressed])).toEqual([['fire', true], ['fire', false]]);
+  });
+
+  it('draws nothing for games played with their own buttons', () => {
+    render(<TouchControls gameId="ctrlSWorld" surfaceRef={surfaceRef} />);
+    expect(screen.queryByTestId('touch-controls')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from 'lucide-react';
+import type { GameSaveKey } from '../../data/gameRegistry';
+import { TOUCH_LAYOUTS } from '../../data/touchLayouts';
+import { inputManager } from '../../utils/inputManager';
+import { classifyGesture, dragSteps, DRAG_STEP, stickDirections, SWIPE_MAX_DURATION } from '../../utils/touchGestures';
+import type { InputAction } from '../../types/input';
+
+// ============================================================================
+// TOUCH CONTROLS
+// On-screen controls laid over a game on phones and tablets. Each one presses
+// the game's actions through the input manager, like a key would.
+// ============================================================================
+
+interface TouchControlsProps {
+  gameId: GameSaveKey;
+  // The element the game is drawn in, for gestures made on the game itself
+  surfaceRef: React.RefObject<HTMLElement>;
+}
+
+// Elements that handle their own touches
+const OWN_TOUCH_SELECTOR = 'button, input, select, textarea, a, [data-touch-control]';
+
+const tapAction = (action: InputAction) => {
+  inputManager.setVirtual(action, true);
+  inputManager.setVirtual(action, false);
+};
+
+// Held for as long as the finger stays down
+const HoldButton: React.FC<{ action: InputAction; label: string; className?: string; children?: React.ReactNode }> = ({
+  action,
+  label,
+  className = '',
+  children
+}) => {
+  const [pressed, setPressed] = useState(false);
+
+  useEffect(() => {
+    if (!pressed) return;
+    inputManager.setVirtual(action, true);
+    return () => inputManager.setVirtual(action, false);
+  }, [action, pressed]);
+
+  return (
+    <button
+      aria-label={label}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture?.(e.pointerId);
+        setPressed(true);
+      }}
+      onPointerUp={() => setPressed(false)}
+      onPointerCancel={() => setPressed(false)}
+      onContextMenu={(e) => e.preventDefault()}
+      className={`pointer-events-auto select-none touch-none rounded-full border-2 font-mono font-bold transition-colors ${
+        pressed ? 'bg-green-500/70 border-green-300 text-black' : 'bg-black/50 border-green-500/70 text-green-400'
+      } ${className}`}
+    >
+      {children ?? label}
+    </button>
+  );
+};
+
+const Dpad: React.FC = () => (
+  <div className="grid grid-cols-3 grid-rows-3 gap-1 w-40 h-40">
+    <HoldButton action="up" label="Up" className="col-start-2 flex items-center justify-center">
+      <ChevronUp className="w-8 h-8" />
+    </HoldButton>
+    <HoldButton action="left" label="Left" className="row-start-2 flex items-center justify-center">
+      <ChevronLeft className="w-8 h-8" />
+    </HoldButton>
+    <HoldButton action="right" label="Right" className="row-start-2 col-start-3 flex items-center justify-center">
+      <ChevronRight className="w-8 h-8" />
+    </HoldButton>
+    <HoldButton action="down" label="Down" className="row-start-3 col-start-2 flex items-center justify-center">
+      <ChevronDown className="w-8 h-8" />
+    </HoldButton>
+  </div>
+);
+
+const STICK_RADIUS = 56;
+
+// Holds the directions the knob is pushed towards
+const ThumbStick: React.FC = () => {
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const heldRef = useRef<InputAction[]>([]);
+
+  const hold = (directions: InputAction[]) => {
+    heldRef.current.filter(action => !directions.includes(action)).forEach(action => inputManager.setVirtual(action, false));
+    directions.filter(action => !heldRef.current.includes(action)).forEach(action => inputManager.setVirtual(action, true));
+    heldRef.current = directions;
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dx = e.clientX - (rect.left + rect.width / 2);
+    const dy = e.clientY - (rect.top + rect.height / 2);
+    const scale = Math.min(1, STICK_RADIUS / Math.max(Math.hypot(dx, dy), 1));
+    setKnob({ x: dx * scale, y: dy * scale });
+    hold(stickDirections(dx, dy, STICK_RADIUS));
+  };
+
+  const handleRelease = () => {
+    setKnob({ x: 0, y: 0 });
+    hold([]);
+  };
+
+  // Let go of everything if the game closes mid-push
+  useEffect(() => () => heldRef.current.forEach(action => inputManager.setVirtual(action, false)), []);
+
+  return (
+    <div
+      data-touch-control
+      data-testid="thumb-stick"
+      className="pointer-events-auto touch-none relative rounded-full border-2 border-green-500/70 bg-black/50"
+      style={{ width: STICK_RADIUS * 2, height: STICK_RADIUS * 2 }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture?.(e.pointerId);
+        handleMove(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.buttons > 0 || e.pointerType === 'touch') handleMove(e);
+      }}
+      onPointerUp={handleRelease}
+      onPointerCancel={handleRelease}
+    >
+      <div
+        className="absolute w-12 h-12 rounded-full bg-green-500/60 border-2 border-green-300 pointer-events-none"
+        style={{ left: STICK_RADIUS - 24 + knob.x, top: STICK_RADIUS - 24 + knob.y }}
+      />
+    </div>
+  );
+};
+
+/**
+ * Gestures made on the game itself: drag sideways to move a cell at a time,
+ * drag slowly downward to soft drop, tap to rotate (or start) and flick down
+ * to hard drop or up to hold.
+ */
+const useSwipeGestures = (surfaceRef: React.RefObject<HTMLElement>, enabled: boolean) => {
+  useEffect(() => {
+    const surface = surfaceRef.current;
+    if (!surface || !enabled) return;
+
+    let start: { x: number; y: number; time: number; id: number } | null = null;
+    let stepped = 0;
+    let softDrop = false;
+
+    const setSoftDrop = (held: boolean) => {
+      if (held === softDrop) return;
+      softDrop = held;
+      inputManager.setVirtual('down', held);
+    };
+
+    const handleDown = (e: PointerEvent) => {
+      if (start || (e.target instanceof Element && e.target.closest(OWN_TOUCH_SELECTOR))) return;
+      start = { x: e.clientX, y: e.clientY, time: e.timeStamp, id: e.pointerId };
+      stepped = 0;
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      if (!start || e.pointerId !== start.id) return;
+      const dx = e.clientX - start.x;
+      const dy = e.clientY - start.y;
+
+      const steps = dragSteps(dx, stepped);
+      for (let i = 0; i < Math.abs(steps); i++) tapAction(steps < 0 ? 'left' : 'right');
+      stepped += steps;
+
+      // Slower than a flick, so it can't be mistaken for a hard drop
+      setSoftDrop(dy > DRAG_STEP && Math.abs(dy) > Math.abs(dx) && e.timeStamp - start.time > SWIPE_MAX_DURATION);
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      if (!start || e.pointerId !== start.id) return;
+      const gesture = stepped === 0 && !softDrop
+        ? classifyGesture(e.clientX - start.x, e.clientY - start.y, e.timeStamp - start.time)
+        : null;
+      setSoftDrop(false);
+      start = null;
+
+      if (gesture === 'tap') {
+        tapAction('confirm');
+        tapAction('rotate');
+      } else if (gesture === 'swipeDown') {
+        tapAction('drop');
+      } else if (gesture === 'swipeUp') {
+        tapAction('hold');
+      }
+    };
+
+    const handleCancel = () => {
+      setSoftDrop(false);
+      start = null;
+    };
+
+    const touchAction = surface.style.touchAction;
+    surface.style.touchAction = 'none';
+    surface.addEventListener('pointerdown', handleDown);
+    surface.addEventListener('pointermove', handleMove);
+    surface.addEventListener('pointerup', handleUp);
+    surface.addEventListener('pointercancel', handleCancel);
+    return () => {
+      surface.style.touchAction = touchAction;
+      surface.removeEventListener('pointerdown', handleDown);
+      surface.removeEventListener('pointermove', handleMove);
+      surface.removeEventListener('pointerup', handleUp);
+      surface.removeEventListener('pointercancel', handleCancel);
+      handleCancel();
+    };
+  }, [surfaceRef, enabled]);
+};
+
+export const TouchControls: React.FC<TouchControlsProps> = ({ gameId, surfaceRef }) => {
+  const layout = TOUCH_LAYOUTS[gameId];
+  useSwipeGestures(surfaceRef, layout.scheme === 'swipe');
+
+  if (layout.scheme === 'native') return null;
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 z-40 flex items-end justify-between gap-4 p-4 pointer-events-none" data-testid="touch-controls">
+      <div>
+        {layout.scheme === 'dpad' && <Dpad />}
+        {layout.scheme === 'stick' && <ThumbStick />}
+      </div>
+
+      {layout.hint && (
+        <div className="self-center text-center text-xs font-mono text-green-400/80">{layout.hint}</div>
+      )}
+
+      <div className="flex flex-col items-end gap-3">
+        {layout.buttons.map(({ action, label }) => (
+          <HoldButton
+            key={action}
+            action={action}
+            label={label}
+            className={action === 'fire' ? 'w-20 h-20 text-sm' : 'px-4 py-2 text-xs'}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TouchControls;
@@ -6,6 +6,7 @@
  */
 
 import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { saveStorage } from '../utils/saveStorage';
 
 export interface PlayerStats {
   coffeeLevel: number;      // 0-200% (can go over 100!)
@@ -128,8 +129,6 @@ const DEFAULT_STATE: GameState = {
 
 const GameStateContext = createContext<GameStateContextType | undefined>(undefined);
 
-const STORAGE_KEY = 'matrix-arcade-ctrls-save';
-
 /**
  * Provider component for game state context
  * @param {Object} props
@@ -139,19 +138,15 @@ const STORAGE_KEY = 'matrix-arcade-ctrls-save';
  */
 export const GameStateProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, setState] = useState<GameState>(() => {
-    // Load from localStorage on initialisation
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        return JSON.parse(saved) as GameState;
-      } catch (e) {
-        console.error('Failed to parse saved game:', e);
-        return DEFAULT_STATE;
-      }
-    }
-    return DEFAULT_STATE;
+    // Load from storage on initialisation
+    return saveStorage.get('ctrlsSave') ?? DEFAULT_STATE;
   });
 
+  // Arcade-wide reset wipes CTRL-S progress too
+  useEffect(() => {
+    return saveStorage.onClear(() => setState(DEFAULT_STATE));
+  }, []);
+
   // Auto-save every 30 seconds
   useEffect(() => {
     const interval = setInterval(() => {
@@ -355,26 +350,21 @@ export const GameStateProvider: React.FC<{ children: ReactNode }> = ({ children
       ...state,
       lastSaved: new Date().toISOString()
     };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(toSave));
+    saveStorage.set('ctrlsSave', toSave);
     console.log('Game saved successfully');
   }, [state]);
 
   const loadGame = useCallback(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const loaded = JSON.parse(saved) as GameState;
-        setState(loaded);
-        console.log('Game loaded successfully');
-      } catch (e) {
-        console.error('Failed to load game:', e);
-      }
+    const loaded = saveStorage.get('ctrlsSave');
+    if (loaded) {
+      setState(loaded);
+      console.log('Game loaded successfully');
     }
   }, []);
 
   const resetGame = useCallback(() => {
     setState(DEFAULT_STATE);
-    localStorage.removeItem(STORAGE_KEY);
+    saveStorage.remove('ctrlsSave');
     console.log('Game reset');
   }, []);
 
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { ProfileProvider } from './ProfileContext';
+import { useProfiles } from '../hooks/useProfiles';
+import { GameStateProvider, useGameState } from './GameStateContext';
+import {
+  DEFAULT_PROFILE_ID,
+  PROFILES_KEY,
+  profileStorageKey,
+  loadProfileRegistry
+} from '../utils/profileStorage';
+
+const CTRLS_KEY = 'matrix-arcade-ctrls-save';
+
+describe('ProfileContext', () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <ProfileProvider>
+      <GameStateProvider>{children}</GameStateProvider>
+    </ProfileProvider>
+  );
+
+  const useProfilesAndGame = () => ({ profiles: useProfiles(), game: useGameState() });
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts with a default profile that uses the original storage keys', () => {
+    const { result } = renderHook(() => useProfiles(), { wrapper });
+
+    expect(result.current.profiles).toHaveLength(1);
+    expect(result.current.activeProfile.id).toBe(DEFAULT_PROFILE_ID);
+    expect(profileStorageKey(CTRLS_KEY)).toBe(CTRLS_KEY);
+  });
+
+  it('creates a profile, switches to it and persists the registry', () => {
+    const { result } = renderHook(() => useProfiles(), { wrapper });
+
+    act(() => {
+      result.current.createProfile('  Neo  ');
+    });
+
+    expect(result.current.profiles).toHaveLength(2);
+    expect(result.current.activeProfile.name).toBe('Neo');
+    expect(loadProfileRegistry().activeProfileId).toBe(result.current.activeProfile.id);
+    expect(localStorage.getItem(PROFILES_KEY)).toContain('Neo');
+  });
+
+  it('rejects empty profile names', () => {
+    const { result } = renderHook(() => useProfiles(), { wrapper });
+
+    let created: unknown;
+    act(() => {
+      created = result.current.createProfile('   ');
+    });
+
+    expect(created).toBeNull();
+    expect(result.current.profiles).toHaveLength(1);
+  });
+
+  it('keeps CTRL-S saves separate per profile', () => {
+    const { result } = renderHook(useProfilesAndGame, { wrapper });
+
+    act(() => {
+      result.current.game.setChapter(4);
+    });
+    act(() => {
+      result.current.game.saveGame();
+    });
+
+    act(() => {
+      result.current.profiles.createProfile('Trinity');
+    });
+
+    // Fresh profile starts from the default state
+    expect(result.current.game.state.currentChapter).toBe(1);
+
+    act(() => {
+      result.current.profiles.switchProfile(DEFAULT_PROFILE_ID);
+    });
+
+    expect(result.current.game.state.currentChapter).toBe(4);
+  });
+
+  it('renames profiles', () => {
+    const { result } = renderHook(() => useProfiles(), { wrapper });
+
+    act(() => {
+      result.current.renameProfile(DEFAULT_PROFILE_ID, 'Morpheus');
+    });
+
+    expect(result.current.activeProfile.name).toBe('Morpheus');
+  });
+
+  it('deletes a profile and its saves but never the last one', () => {
+    const { result } = renderHook(() => useProfiles(), { wrapper });
+
+    expect(result.current.deleteProfile(DEFAULT_PROFILE_ID)).toBe(false);
+
+    let profileId = '';
+    act(() => {
+      profileId = result.current.createProfile('Cypher')!.id;
+    });
+    localStorage.setItem(profileStorageKey(CTRLS_KEY, profileId), '{}');
+
+    act(() => {
+      result.current.deleteProfile(profileId);
+    });
+
+    expect(result.current.profiles).toHaveLength(1);
+    expect(result.current.activeProfile.id).toBe(DEFAULT_PROFILE_ID);
+    expect(localStorage.getItem(profileStorageKey(CTRLS_KEY, profileId))).toBeNull();
+  });
+
+  it('throws when used outside the provider', () => {
+    expect(() => renderHook(() => useProfiles())).toThrow('useProfiles must be used within a ProfileProvider');
+  });
+});
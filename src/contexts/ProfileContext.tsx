@@ -0,0 +1,97 @@
+/**
+ * @description React Context provider for player profiles. Owns the profile list and
+ *              remounts the arcade whenever the active profile changes so every
+ *              per-profile store reloads from that profile's storage keys.
+ */
+
+import React, { useState, useCallback, ReactNode } from 'react';
+import {
+  PlayerProfile,
+  ProfileRegistry,
+  loadProfileRegistry,
+  saveProfileRegistry,
+  createProfileId,
+  normaliseProfileName
+} from '../utils/profileStorage';
+import { saveStorage } from '../utils/saveStorage';
+import { ProfileContext, type ProfileContextType } from '../hooks/useProfiles';
+
+export type { PlayerProfile, ProfileContextType };
+
+/**
+ * Provider component for player profiles
+ * @param {Object} props
+ * @param {ReactNode} props.children - Child components, remounted on profile switch
+ * @return {JSX.Element}
+ * @constructor
+ */
+export const ProfileProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [registry, setRegistry] = useState<ProfileRegistry>(loadProfileRegistry);
+
+  // Persist before updating state so remounted children already see the new profile
+  const commit = useCallback((next: ProfileRegistry) => {
+    saveProfileRegistry(next);
+    setRegistry(next);
+  }, []);
+
+  const createProfile = useCallback((name: string) => {
+    const profileName = normaliseProfileName(name);
+    if (!profileName) return null;
+
+    const profile: PlayerProfile = { id: createProfileId(), name: profileName, createdAt: Date.now() };
+    commit({
+      activeProfileId: profile.id,
+      profiles: [...registry.profiles, profile]
+    });
+    return profile;
+  }, [registry, commit]);
+
+  const switchProfile = useCallback((profileId: string) => {
+    if (profileId === registry.activeProfileId) return;
+    if (!registry.profiles.some(p => p.id === profileId)) return;
+
+    commit({ ...registry, activeProfileId: profileId });
+  }, [registry, commit]);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    const profileName = normaliseProfileName(name);
+    if (!profileName || !registry.profiles.some(p => p.id === profileId)) return false;
+
+    commit({
+      ...registry,
+      profiles: registry.profiles.map(p => (p.id === profileId ? { ...p, name: profileName } : p))
+    });
+    return true;
+  }, [registry, commit]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    // The arcade always needs at least one profile
+    if (registry.profiles.length <= 1 || !registry.profiles.some(p => p.id === profileId)) {
+      return false;
+    }
+
+    const profiles = registry.profiles.filter(p => p.id !== profileId);
+    const activeProfileId = registry.activeProfileId === profileId ? profiles[0].id : registry.activeProfileId;
+
+    saveStorage.clear(profileId);
+    commit({ activeProfileId, profiles });
+    return true;
+  }, [registry, commit]);
+
+  const activeProfile = registry.profiles.find(p => p.id === registry.activeProfileId) ?? registry.profiles[0];
+
+  const value: ProfileContextType = {
+    profiles: registry.profiles,
+    activeProfile,
+    createProfile,
+    switchProfile,
+    renameProfile,
+    deleteProfile
+  };
+
+  return (
+    <ProfileContext.Provider value={value}>
+      <React.Fragment key={activeProfile.id}>{children}</React.Fragment>
+    </ProfileContext.Provider>
+  );
+};
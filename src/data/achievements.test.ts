@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GLOBAL_ACHIEVEMENTS,
+  METRIS_ACHIEVEMENTS,
+  TIER_POINTS,
+  DEFAULT_ACHIEVEMENT_POINTS,
+  achievementPoints,
+  calculateGamerscore
+} from './achievements';
+
+describe('achievements', () => {
+  it('chains tiers bronze to gold, each pointing at the tier below', () => {
+    const chain = ['level_10', 'immortal', 'metris_level_30'].map(id => METRIS_ACHIEVEMENTS.find(a => a.id === id)!);
+
+    expect(chain.map(a => a.tier)).toEqual(['bronze', 'silver', 'gold']);
+    expect(chain.map(a => a.previousTier)).toEqual([undefined, 'level_10', 'immortal']);
+  });
+
+  it('only chains to achievements of the same list', () => {
+    [METRIS_ACHIEVEMENTS, GLOBAL_ACHIEVEMENTS].forEach(list => {
+      const ids = new Set(list.map(a => a.id));
+      list.filter(a => a.previousTier).forEach(a => expect(ids.has(a.previousTier!)).toBe(true));
+    });
+  });
+
+  it('scores explicit points, then tier points, then the default', () => {
+    expect(achievementPoints({ points: 40, tier: 'gold' })).toBe(40);
+    expect(achievementPoints({ tier: 'silver' })).toBe(TIER_POINTS.silver);
+    expect(achievementPoints({})).toBe(DEFAULT_ACHIEVEMENT_POINTS);
+  });
+
+  it('counts only unlocked achievements towards the gamerscore', () => {
+    expect(calculateGamerscore([
+      { unlocked: true, tier: 'gold' },
+      { unlocked: true },
+      { unlocked: false, points: 100 }
+    ])).toBe(TIER_POINTS.gold + DEFAULT_ACHIEVEMENT_POINTS);
+  });
+});
@@ -0,0 +1,167 @@
+import type { Achievement, AchievementTier } from '../types/game';
+import { allOf, below, best, count, metric } from '../utils/achievementEngine';
+
+// ============================================================================
+// ACHIEVEMENT DEFINITIONS
+// Per-game lists are attached to their game in the registry (gameRegistry.ts).
+// Entries with a `condition` are unlocked by the achievement engine from the
+// events games report; the rest are unlocked by the game directly.
+// Each achievement is worth points towards the player's gamerscore.
+// ============================================================================
+
+export const DEFAULT_ACHIEVEMENT_POINTS = 10;
+
+export const TIER_POINTS: Record<AchievementTier, number> = {
+  bronze: 10,
+  silver: 25,
+  gold: 50
+};
+
+const TIER_ORDER: AchievementTier[] = ['bronze', 'silver', 'gold'];
+
+// Chains achievements bronze -> silver -> gold; each tier unlocks only after the one below it
+const tiered = (...chain: Achievement[]): Achievement[] =>
+  chain.map((achievement, i) => ({
+    ...achievement,
+    tier: TIER_ORDER[i],
+    ...(i > 0 ? { previousTier: chain[i - 1].id } : {})
+  }));
+
+export const achievementPoints = (achievement: Pick<Achievement, 'points' | 'tier'>) =>
+  achievement.points ?? (achievement.tier ? TIER_POINTS[achievement.tier] : DEFAULT_ACHIEVEMENT_POINTS);
+
+// Total points of the unlocked achievements
+export const calculateGamerscore = (achievements: Pick<Achievement, 'points' | 'tier' | 'unlocked'>[]) =>
+  achievements.reduce((sum, achievement) => sum + (achievement.unlocked ? achievementPoints(achievement) : 0), 0);
+
+export const SNAKE_ACHIEVEMENTS: Achievement[] = [
+  { id: 'snake_first_apple', name: 'First Bite', description: 'Eat your first data fragment', game: 'Snake Classic', condition: best('score', 'score', 1) },
+  ...tiered(
+    { id: 'snake_score_100', name: 'Century Mark', description: 'Score 100 points', game: 'Snake Classic', condition: best('score', 'score', 100) },
+    { id: 'snake_score_500', name: 'Data Hoarder', description: 'Score 500 points', game: 'Snake Classic', condition: best('score', 'score', 500) },
+    { id: 'snake_score_1000', name: 'Snake Master', description: 'Score 1,000 points', game: 'Snake Classic', condition: best('score', 'score', 1000) }
+  ),
+  { id: 'snake_combo_10', name: 'Chain Reaction', description: 'Achieve 10x combo', game: 'Snake Classic' },
+  { id: 'snake_power_master', name: 'Power User', description: 'Collect 10 power-ups in one game', game: 'Snake Classic', condition: count('power_up_collected', 10, { scope: 'session' }) },
+  { id: 'snake_survivor', name: 'Survival Expert', description: 'Survive for 5 minutes', game: 'Snake Classic', condition: best('game_over', 'durationSeconds', 300) },
+  { id: 'snake_speed_demon', name: 'Speed Demon', description: 'Score 100 points on max speed', game: 'Snake Classic', condition: allOf(
+    best('score', 'score', 100, { scope: 'session' }),
+    best('level_reached', 'level', 10, { scope: 'session' })
+  ) }
+];
+
+export const PONG_ACHIEVEMENTS: Achievement[] = [
+  { id: 'pong_first_point', name: 'First Strike', description: 'Score your first point', game: 'Vortex Pong', condition: best('score', 'score', 1) },
+  { id: 'pong_beat_ai', name: 'AI Destroyer', description: 'Defeat the AI opponent', game: 'Vortex Pong', condition: count('match_won', 1) },
+  { id: 'pong_perfect_game', name: 'Flawless Victory', description: 'Win without losing a point', game: 'Vortex Pong', condition: count('match_won', 1, { where: { pointsConceded: 0 } }), points: 50 },
+  { id: 'pong_multi_ball', name: 'Ball Juggler', description: 'Handle 3 balls simultaneously', game: 'Vortex Pong', condition: best('balls_in_play', 'balls', 3) },
+  { id: 'pong_combo_king', name: 'Combo King', description: 'Score 5 consecutive paddle hits', game: 'Vortex Pong', condition: best('rally', 'hits', 5) },
+  { id: 'pong_rally_master', name: 'Rally Master', description: '20 hits in a single rally', game: 'Vortex Pong', condition: best('rally', 'hits', 20) },
+  { id: 'pong_power_master', name: 'Power Player', description: 'Collect 5 power-ups in one game', game: 'Vortex Pong', condition: count('power_up_collected', 5, { scope: 'session' }) }
+];
+
+export const CLOUD_ACHIEVEMENTS: Achievement[] = [
+  { id: 'cloud_first_flight', name: 'Digital Pilot', description: 'Complete your first flight', game: 'Matrix Cloud', condition: count('run_started', 1) },
+  { id: 'cloud_level_5', name: 'Matrix Navigator', description: 'Reach level 5', game: 'Matrix Cloud', condition: best('level_reached', 'level', 5) },
+  { id: 'cloud_boss_slayer', name: 'Agent Destroyer', description: 'Defeat your first boss', game: 'Matrix Cloud', condition: count('boss_defeated', 1) },
+  { id: 'cloud_power_collector', name: 'Power Seeker', description: 'Collect 20 power-ups', game: 'Matrix Cloud', condition: count('power_up_collected', 20) },
+  { id: 'cloud_architect_defeat', name: 'Architect\'s Bane', description: 'Defeat the Architect', game: 'Matrix Cloud', condition: count('boss_defeated', 1, { where: { boss: 'architect' } }), visibility: 'hidden', points: 25 },
+  { id: 'cloud_all_bosses', name: 'Boss Master', description: 'Defeat all three bosses', game: 'Matrix Cloud', condition: allOf(
+    count('boss_defeated', 1, { where: { boss: 'agent_smith' } }),
+    count('boss_defeated', 1, { where: { boss: 'sentinel' } }),
+    count('boss_defeated', 1, { where: { boss: 'architect' } })
+  ), points: 50 },
+  { id: 'cloud_high_flyer', name: 'High Flyer', description: 'Reach altitude 1000', game: 'Matrix Cloud', condition: best('score', 'score', 1000) }
+];
+
+export const INVADERS_ACHIEVEMENTS: Achievement[] = [
+  { id: 'invaders_first_kill', name: 'Code Breaker', description: 'Destroy your first invader', game: 'Matrix Invaders', condition: count('enemy_destroyed', 1) },
+  { id: 'invaders_combo_10', name: 'Combo Master', description: 'Achieve a 10x combo', game: 'Matrix Invaders', condition: best('combo', 'multiplier', 10) },
+  { id: 'invaders_bullet_time', name: 'Time Bender', description: 'Use bullet time 5 times', game: 'Matrix Invaders', condition: count('bullet_time_used', 5) },
+  { id: 'invaders_perfect_wave', name: 'Flawless Defense', description: 'Complete a wave without taking damage', game: 'Matrix Invaders', points: 25 },
+  { id: 'invaders_boss_defeat', name: 'System Override', description: 'Defeat a boss enemy', game: 'Matrix Invaders', condition: count('boss_defeated', 1) },
+  { id: 'invaders_high_score', name: 'Elite Hacker', description: 'Score over 10,000 points', game: 'Matrix Invaders', condition: best('score', 'score', 10000) },
+  { id: 'invaders_100_enemies', name: 'Exterminator', description: 'Destroy 100 invaders in one game', game: 'Matrix Invaders', condition: count('enemy_destroyed', 100, { scope: 'session' }) },
+  ...tiered(
+    { id: 'invaders_wave_5', name: 'Wave Survivor', description: 'Reach wave 5', game: 'Matrix Invaders', condition: best('wave_completed', 'wave', 5) },
+    { id: 'invaders_wave_10', name: 'Wave Breaker', description: 'Reach wave 10', game: 'Matrix Invaders', condition: best('wave_completed', 'wave', 10) },
+    { id: 'invaders_endless', name: 'Endless Defender', description: 'Reach wave 20', game: 'Matrix Invaders', condition: best('wave_completed', 'wave', 20) }
+  )
+];
+
+export const CTRLS_ACHIEVEMENTS: Achievement[] = [
+  { id: 'ctrl_coffee_addict', name: 'Caffeine Dependent', description: 'Reach 100% coffee level', game: 'CTRL-S World' },
+  { id: 'ctrl_clean_coder', name: 'Clean Code Master', description: 'Achieve 90+ code quality', game: 'CTRL-S World' },
+  { id: 'ctrl_choice_master', name: 'Decision Maker', description: 'Make 50 choices', game: 'CTRL-S World' },
+  { id: 'ctrl_story_complete', name: 'Epic Journey', description: 'Complete the main storyline', game: 'CTRL-S World' },
+  { id: 'ctrl_collector', name: 'Item Hoarder', description: 'Collect 10 different items', game: 'CTRL-S World' },
+  { id: 'ctrl_voice_master', name: 'Voice Commander', description: 'Use Shatner voice for 5 minutes', game: 'CTRL-S World' },
+  { id: 'ctrl_bug_free', name: 'Bug Free', description: 'Achieve 0 bugs', game: 'CTRL-S World', visibility: 'hidden' },
+  { id: 'first_puzzle', name: 'First Steps', description: 'Solve your first puzzle', game: 'CTRL-S World', condition: count('puzzle_solved', 1) },
+  { id: 'no_hints', name: 'Quick Thinker', description: 'Solve a puzzle without hints or lifelines', game: 'CTRL-S World', condition: count('puzzle_solved', 1, { where: { assisted: false } }) },
+  { id: 'puzzle_master', name: 'Puzzle Master', description: 'Solve 10 different puzzles', game: 'CTRL-S World', condition: best('puzzle_solved', 'solved', 10) },
+  { id: 'chapter_1', name: 'Unlikely Heroes', description: 'Reach chapter 1', game: 'CTRL-S World', condition: best('level_reached', 'level', 1) },
+  { id: 'chapter_3', name: 'Echoes from the Past', description: 'Reach chapter 3', game: 'CTRL-S World', condition: best('level_reached', 'level', 3) },
+  { id: 'story_complete', name: 'The New Dawn', description: 'Reach the final chapter', game: 'CTRL-S World', condition: best('level_reached', 'level', 5) },
+  { id: 'speed_reader', name: 'Speed Reader', description: 'Finish the story in under 30 minutes', game: 'CTRL-S World', condition: count('game_over', 1, { where: { durationSeconds: below(1800) } }) }
+];
+
+export const METRIS_ACHIEVEMENTS: Achievement[] = [
+  { id: 'first_line', name: 'First Steps', description: 'Clear your first line', game: 'Metris', condition: count('line_cleared', 1) },
+  { id: 'tetris', name: 'Tetris Master', description: 'Clear 4 lines at once', game: 'Metris', condition: best('line_cleared', 'lines', 4) },
+  ...tiered(
+    { id: 'level_10', name: 'Speed Demon', description: 'Reach level 10', game: 'Metris', condition: best('level_reached', 'level', 10) },
+    { id: 'immortal', name: 'Immortal', description: 'Reach level 20', game: 'Metris', condition: best('level_reached', 'level', 20) },
+    { id: 'metris_level_30', name: 'The One Who Stacks', description: 'Reach level 30', game: 'Metris', condition: best('level_reached', 'level', 30) }
+  ),
+  { id: 'high_roller', name: 'High Roller', description: 'Score 10,000 points', game: 'Metris', condition: best('score', 'score', 10000) },
+  { id: 'neos_apprentice', name: 'Neo\'s Apprentice', description: 'Use Bullet Time 10 times', game: 'Metris', condition: count('bullet_time_used', 10) },
+  { id: 'line_clearer', name: 'Line Clearer', description: 'Clear 100 total lines', game: 'Metris', condition: count('line_cleared', 100, { field: 'lines' }) },
+  { id: 'marathon_runner', name: 'Marathon Runner', description: 'Survive for 10 minutes', game: 'Metris', condition: best('game_over', 'durationSeconds', 600) },
+  { id: 'combo_king', name: 'Combo King', description: 'Achieve 5x combo multiplier', game: 'Metris', condition: best('combo', 'multiplier', 5) },
+  { id: 'perfect_start', name: 'Perfect Start', description: 'No game over before level 5', game: 'Metris' },
+  { id: 'architect', name: 'Architect', description: 'Build to 18 rows without clearing', game: 'Metris' },
+  { id: 't_spin_master', name: 'T-Spin Master', description: 'Perform 5 T-spins', game: 'Metris' }
+];
+
+export const TERMINAL_QUEST_ACHIEVEMENTS: Achievement[] = [
+  { id: 'quest_first_choice', name: 'Hello, World', description: 'Make your first choice', game: 'Terminal Quest', condition: count('choice_made', 1) },
+  { id: 'quest_first_combat', name: 'Warrior\'s Path', description: 'Win your first combat', game: 'Terminal Quest', condition: count('combat_won', 1) },
+  { id: 'quest_combat_victor', name: 'Combat Veteran', description: 'Win 10 combats', game: 'Terminal Quest', condition: count('combat_won', 10) },
+  { id: 'quest_tool_collector', name: 'Tool Collector', description: 'Carry 5 different items', game: 'Terminal Quest', condition: best('choice_made', 'items', 5) },
+  { id: 'quest_all_items', name: 'Collector', description: 'Find all items', game: 'Terminal Quest', condition: count('choice_made', 1, { where: { allItems: true } }) },
+  { id: 'quest_survivor', name: 'Survivor', description: 'Stay at full health after 10 choices', game: 'Terminal Quest', condition: count('choice_made', 10, { where: { fullHealth: true }, scope: 'session' }) },
+  { id: 'quest_code_master', name: 'Code Master', description: 'Raise the security level to 90', game: 'Terminal Quest', condition: best('choice_made', 'security', 90) },
+  { id: 'quest_team_leader', name: 'Team Leader', description: 'Keep health at 80 or above', game: 'Terminal Quest', condition: best('choice_made', 'health', 80) },
+  { id: 'quest_story_end', name: 'Exit Found', description: 'Reach an ending', game: 'Terminal Quest', condition: count('ending_reached', 1) },
+  { id: 'quest_pacifist_run', name: 'Ghost in the Machine', description: 'Reach an ending without combat', game: 'Terminal Quest', condition: count('ending_reached', 1, { where: { combats: 0 } }), visibility: 'secret', points: 25 },
+  { id: 'quest_speed_run', name: 'Lightning Fast', description: 'Reach an ending in under 50 choices', game: 'Terminal Quest', condition: count('ending_reached', 1, { where: { choices: below(50) } }) },
+  { id: 'quest_true_ending', name: 'System Administrator', description: 'Achieve the best ending', game: 'Terminal Quest', condition: count('ending_reached', 1, { where: { ending: 'ending_transcendent' } }), visibility: 'hidden', points: 50 },
+  { id: 'quest_all_endings', name: 'Multiverse Explorer', description: 'See all endings', game: 'Terminal Quest', condition: allOf(
+    count('ending_reached', 1, { where: { ending: 'ending_escape' } }),
+    count('ending_reached', 1, { where: { ending: 'ending_corrupted' } }),
+    count('ending_reached', 1, { where: { ending: 'ending_transcendent' } })
+  ), points: 50 },
+  { id: 'quest_no_damage', name: 'Untouchable', description: 'Reach an ending without taking damage', game: 'Terminal Quest', condition: count('ending_reached', 1, { where: { damageTaken: 0 } }) },
+  { id: 'quest_full_corruption', name: 'Embrace the Darkness', description: 'Become fully corrupted', game: 'Terminal Quest', condition: count('ending_reached', 1, { where: { ending: 'ending_corrupted' } }), visibility: 'secret' }
+];
+
+// Global achievements (meta achievements)
+export const GLOBAL_ACHIEVEMENTS: Achievement[] = [
+  { id: 'global_first_game', name: 'Welcome to the Matrix', description: 'Play your first game', condition: count('game_started', 1) },
+  { id: 'global_all_games', name: 'Matrix Master', description: 'Play every game in the arcade', condition: metric('gamesTriedPercent', 100) },
+  ...tiered(
+    { id: 'global_10_achievements', name: 'Achievement Hunter', description: 'Unlock 10 achievements', condition: metric('achievementsUnlocked', 10) },
+    { id: 'global_25_achievements', name: 'Achievement Expert', description: 'Unlock 25 achievements', condition: metric('achievementsUnlocked', 25) },
+    { id: 'global_50_achievements', name: 'Achievement Legend', description: 'Unlock 50 achievements', condition: metric('achievementsUnlocked', 50) }
+  ),
+  { id: 'global_night_owl', name: 'Night Owl', description: 'Play after midnight', visibility: 'secret' },
+  { id: 'global_dedicated', name: 'Dedicated Player', description: 'Complete a daily challenge 7 days in a row', condition: metric('dailyChallengeStreak', 7) },
+  ...tiered(
+    { id: 'global_score_10k', name: 'Five Figures', description: 'Reach 10,000 combined high score', condition: metric('combinedHighScore', 10000) },
+    { id: 'global_score_50k', name: 'Score Hacker', description: 'Reach 50,000 combined high score', condition: metric('combinedHighScore', 50000) },
+    { id: 'global_score_100k', name: 'The One', description: 'Reach 100,000 combined high score', condition: metric('combinedHighScore', 100000) }
+  ),
+  { id: 'global_100_plays', name: 'Regular', description: 'Play 100 games', condition: metric('totalGamesPlayed', 100) },
+  { id: 'global_marathon_gamer', name: 'Marathon Gamer', description: 'Play for 60 minutes in one visit', condition: count('play_time', 60, { field: 'minutes', scope: 'visit' }) }
+];
@@ -0,0 +1,40 @@
+import type { GameSaveKey } from './gameRegistry';
+import type { ChallengeDefinition } from '../types/challenge';
+import { best, count } from '../utils/achievementEngine';
+
+// ============================================================================
+// CHALLENGE DEFINITIONS
+// Each day one challenge per game is drawn from its daily pool, and each
+// week one challenge is drawn from the weekly pool. Goals use the same
+// conditions as achievements but are counted over a single run.
+// ============================================================================
+
+export const DAILY_CHALLENGES: Partial<Record<GameSaveKey, ChallengeDefinition[]>> = {
+  metris: [
+    { id: 'metris_line_rush', gameId: 'metris', title: 'Line Rush', description: 'Clear 40 lines in under 3 minutes', goal: count('line_cleared', 40, { field: 'lines' }), timeLimitSeconds: 180 },
+    { id: 'metris_combo', gameId: 'metris', title: 'Chain Reaction', description: 'Reach a x4 combo', goal: best('combo', 'multiplier', 4) },
+    { id: 'metris_no_bullet_time', gameId: 'metris', title: 'Real Time', description: 'Reach level 8 without bullet time', goal: best('level_reached', 'level', 8), forbidden: [count('bullet_time_used', 1)] }
+  ],
+  matrixInvaders: [
+    { id: 'invaders_wave_6', gameId: 'matrixInvaders', title: 'No Slow-Mo', description: 'Reach wave 6 without bullet time', goal: best('wave_completed', 'wave', 6), forbidden: [count('bullet_time_used', 1)] },
+    { id: 'invaders_purge', gameId: 'matrixInvaders', title: 'Purge', description: 'Destroy 75 enemies in one run', goal: count('enemy_destroyed', 75) },
+    { id: 'invaders_score', gameId: 'matrixInvaders', title: 'Sharpshooter', description: 'Score 5,000 points', goal: best('score', 'score', 5000) }
+  ],
+  snakeClassic: [
+    { id: 'snake_no_ghost', gameId: 'snakeClassic', title: 'Solid State', description: 'Score 300 points with the ghost power-up disabled', goal: best('score', 'score', 300), modifiers: { disabledPowerUps: ['ghost'] } },
+    { id: 'snake_sprint', gameId: 'snakeClassic', title: 'Sprint', description: 'Score 150 points in under 2 minutes', goal: best('score', 'score', 150), timeLimitSeconds: 120 },
+    { id: 'snake_level', gameId: 'snakeClassic', title: 'Growth Spurt', description: 'Reach level 5', goal: best('level_reached', 'level', 5) }
+  ],
+  matrixCloud: [
+    { id: 'cloud_collector', gameId: 'matrixCloud', title: 'Scavenger', description: 'Collect 5 power-ups in one run', goal: count('power_up_collected', 5) },
+    { id: 'cloud_boss', gameId: 'matrixCloud', title: 'Boss Hunter', description: 'Defeat a boss', goal: count('boss_defeated', 1) },
+    { id: 'cloud_unshielded', gameId: 'matrixCloud', title: 'Exposed', description: 'Reach level 3 without picking up a shield', goal: best('level_reached', 'level', 3), forbidden: [count('power_up_collected', 1, { where: { powerUp: 'shield' } })] }
+  ]
+};
+
+export const WEEKLY_CHALLENGES: ChallengeDefinition[] = [
+  { id: 'weekly_metris_marathon', gameId: 'metris', title: 'Marathon', description: 'Clear 100 lines in one run', goal: count('line_cleared', 100, { field: 'lines' }) },
+  { id: 'weekly_invaders_wave_10', gameId: 'matrixInvaders', title: 'Hold the Line', description: 'Reach wave 10 without bullet time', goal: best('wave_completed', 'wave', 10), forbidden: [count('bullet_time_used', 1)] },
+  { id: 'weekly_snake_600', gameId: 'snakeClassic', title: 'Hard Mode', description: 'Score 600 points with the ghost power-up disabled', goal: best('score', 'score', 600), modifiers: { disabledPowerUps: ['ghost'] } },
+  { id: 'weekly_cloud_bosses', gameId: 'matrixCloud', title: 'Double Trouble', description: 'Defeat 2 bosses in one run', goal: count('boss_defeated', 2) }
+];
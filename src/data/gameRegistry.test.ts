@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import {
+  GAME_REGISTRY,
+  GAME_SAVE_KEYS,
+  GAME_ACHIEVEMENTS,
+  getGameById,
+  getGameBySaveKey,
+  isGameSaveKey
+} from './gameRegistry';
+import { useSaveSystem } from '../hooks/useSaveSystem';
+
+describe('gameRegistry', () => {
+  it('has unique ids and save keys', () => {
+    const ids = GAME_REGISTRY.map(game => game.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(GAME_SAVE_KEYS).size).toBe(GAME_SAVE_KEYS.length);
+  });
+
+  it('gives every game a component, preview and capabilities', () => {
+    GAME_REGISTRY.forEach(game => {
+      expect(game.component).toBeTypeOf('function');
+      expect(game.preview).toBeTruthy();
+      expect(game.capabilities).toBeDefined();
+    });
+  });
+
+  it('derives GAME_ACHIEVEMENTS from registry entries', () => {
+    expect(Object.keys(GAME_ACHIEVEMENTS).sort()).toEqual([...GAME_SAVE_KEYS].sort());
+    GAME_REGISTRY.forEach(game => {
+      expect(GAME_ACHIEVEMENTS[game.saveKey]).toBe(game.achievements);
+    });
+  });
+
+  it('has globally unique achievement ids', () => {
+    const ids = GAME_REGISTRY.flatMap(game => game.achievements.map(a => a.id));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('looks games up by id and save key', () => {
+    expect(getGameById('metris')?.saveKey).toBe('metris');
+    expect(getGameBySaveKey('snakeClassic')?.title).toBe('Snake Classic');
+    expect(getGameById('nope')).toBeUndefined();
+    expect(isGameSaveKey('vortexPong')).toBe(true);
+    expect(isGameSaveKey('pacman')).toBe(false);
+  });
+
+  it('creates a default save slot for every registered game', async () => {
+    localStorage.clear();
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(Object.keys(result.current.saveData.games).sort()).toEqual([...GAME_SAVE_KEYS].sort());
+  });
+});
@@ -0,0 +1,130 @@
+import { Keyboard, Gamepad2, Disc3, Crosshair, Blocks, Terminal } from 'lucide-react';
+import type { Achievement, Game } from '../types/game';
+import {
+  CTRLS_ACHIEVEMENTS,
+  SNAKE_ACHIEVEMENTS,
+  PONG_ACHIEVEMENTS,
+  CLOUD_ACHIEVEMENTS,
+  INVADERS_ACHIEVEMENTS,
+  METRIS_ACHIEVEMENTS,
+  TERMINAL_QUEST_ACHIEVEMENTS
+} from './achievements';
+import CtrlSWorld from '../components/games/CtrlSWorld';
+import SimpleSnake from '../components/games/SimpleSnake';
+import VortexPong from '../components/games/VortexPong';
+import MatrixCloud from '../components/games/MatrixCloud';
+import MatrixInvaders from '../components/games/MatrixInvaders';
+import Metris from '../components/games/Metris';
+import TerminalQuest from '../components/games/TerminalQuest';
+import matrixInvadersPreview from '../images/matrixinvaders.webp';
+import metrisPreview from '../images/metris.webp';
+import terminalQuestPreview from '../images/terminalquest.svg';
+
+// ============================================================================
+// GAME REGISTRY
+// Single source of truth for every game in the arcade. The carousel, save
+// defaults, achievement lists and "play all games" checks are derived from it,
+// so adding a game means adding one entry here.
+// ============================================================================
+
+const GAMES = [
+  {
+    id: 'ctrls-world',
+    title: 'CTRL-S | The World',
+    description: 'A hilarious text adventure about saving the digital world',
+    icon: Keyboard,
+    preview: 'https://res.cloudinary.com/depqttzlt/image/upload/v1737071600/ctrlsthegame_m1tg5l.png',
+    component: CtrlSWorld,
+    saveKey: 'ctrlSWorld',
+    achievements: CTRLS_ACHIEVEMENTS,
+    capabilities: { highScore: false, levels: true, muteControl: false }
+  },
+  {
+    id: 'snake-classic',
+    title: 'Snake Classic',
+    description: 'Navigate through the matrix collecting data fragments',
+    icon: Gamepad2,
+    preview: 'https://res.cloudinary.com/depqttzlt/image/upload/v1737071599/matrixsnake2_jw29w1.png',
+    component: SimpleSnake,
+    saveKey: 'snakeClassic',
+    achievements: SNAKE_ACHIEVEMENTS,
+    capabilities: { highScore: true, levels: true, muteControl: true }
+  },
+  {
+    id: 'vortex-pong',
+    title: 'Vortex Pong',
+    description: 'Battle the AI in a hypnotic 3D arena',
+    icon: Disc3,
+    preview: 'https://res.cloudinary.com/depqttzlt/image/upload/v1737071596/vortexpong2_hkjn4k.png',
+    component: VortexPong,
+    saveKey: 'vortexPong',
+    achievements: PONG_ACHIEVEMENTS,
+    capabilities: { highScore: true, levels: false, muteControl: false }
+  },
+  {
+    id: 'matrix-cloud',
+    title: 'Matrix Cloud',
+    description: 'Navigate through the digital storm',
+    icon: Gamepad2,
+    preview: 'https://res.cloudinary.com/depqttzlt/image/upload/v1737071594/matrixcloud_rw8hsa.png',
+    component: MatrixCloud,
+    saveKey: 'matrixCloud',
+    achievements: CLOUD_ACHIEVEMENTS,
+    capabilities: { highScore: true, levels: true, muteControl: false }
+  },
+  {
+    id: 'matrix-invaders',
+    title: 'Matrix Invaders',
+    description: 'Defend against the code invasion',
+    icon: Crosshair,
+    preview: matrixInvadersPreview,
+    component: MatrixInvaders,
+    saveKey: 'matrixInvaders',
+    achievements: INVADERS_ACHIEVEMENTS,
+    capabilities: { highScore: true, levels: true, muteControl: false }
+  },
+  {
+    id: 'metris',
+    title: 'Metris',
+    description: 'Stack the code blocks and break the Matrix',
+    icon: Blocks,
+    preview: metrisPreview,
+    component: Metris,
+    saveKey: 'metris',
+    achievements: METRIS_ACHIEVEMENTS,
+    capabilities: { highScore: true, levels: true, muteControl: true },
+    modes: [{ id: 'sprint', label: 'Sprint', description: 'Clear 40 lines as fast as you can' }]
+  },
+  {
+    id: 'terminal-quest',
+    title: 'Terminal Quest',
+    description: 'Hack your way out of a corrupted network',
+    icon: Terminal,
+    preview: terminalQuestPreview,
+    component: TerminalQuest,
+    saveKey: 'terminalQuest',
+    achievements: TERMINAL_QUEST_ACHIEVEMENTS,
+    capabilities: { highScore: true, levels: true, muteControl: false }
+  }
+] as const satisfies readonly Game[];
+
+// Save slot key for each registered game (e.g. 'metris', 'snakeClassic')
+export type GameSaveKey = (typeof GAMES)[number]['saveKey'];
+
+export const GAME_REGISTRY: readonly Game<GameSaveKey>[] = GAMES;
+
+export const GAME_SAVE_KEYS: readonly GameSaveKey[] = GAME_REGISTRY.map(game => game.saveKey);
+
+// Achievement definitions keyed by save slot
+export const GAME_ACHIEVEMENTS = Object.fromEntries(
+  GAME_REGISTRY.map(game => [game.saveKey, game.achievements])
+) as Record<GameSaveKey, Achievement[]>;
+
+export const getGameById = (id: string): Game<GameSaveKey> | undefined =>
+  GAME_REGISTRY.find(game => game.id === id);
+
+export const getGameBySaveKey = (saveKey: string): Game<GameSaveKey> | undefined =>
+  GAME_REGISTRY.find(game => game.saveKey === saveKey);
+
+export const isGameSaveKey = (key: string): key is GameSaveKey =>
+  (GAME_SAVE_KEYS as readonly string[]).includes(key);
@@ -0,0 +1,84 @@
+import type { InputAction, InputActionDefinition, InputContext } from '../types/input';
+
+// ============================================================================
+// INPUT BINDINGS
+// The actions each game responds to, the keys they start out on and the
+// gamepad buttons they use. Players can remap any game action's keys; the
+// arcade's own controls, the menu controls and the gamepad layouts are fixed.
+// Within a context each button means one thing.
+// ============================================================================
+
+export const ARCADE_CONTEXT = 'arcade' as const;
+export const MENU_CONTEXT = 'menu' as const;
+
+// Arcade controls that stay live while a game is being played, so no game may use their keys
+export const RESERVED_WHILE_PLAYING: readonly InputAction[] = ['exit'];
+
+export const MAX_KEYS_PER_ACTION = 2;
+
+export const INPUT_ACTIONS: Record<InputContext, InputActionDefinition[]> = {
+  arcade: [
+    { action: 'left', label: 'Previous game', keys: ['ArrowLeft'], buttons: ['DpadLeft', 'StickLeft'] },
+    { action: 'right', label: 'Next game', keys: ['ArrowRight'], buttons: ['DpadRight', 'StickRight'] },
+    { action: 'confirm', label: 'Play', keys: ['Enter'], buttons: ['A', 'Start'] },
+    { action: 'exit', label: 'Pause menu', keys: ['Escape'], buttons: ['Back'] },
+    { action: 'achievements', label: 'Achievements', keys: ['KeyA'], buttons: ['Y'] },
+    { action: 'mute', label: 'Mute', keys: ['KeyV'] }
+  ],
+  // Initials entry and the Hall of Fame, over a game or the carousel
+  menu: [
+    { action: 'up', label: 'Up', keys: ['ArrowUp'], buttons: ['DpadUp', 'StickUp'] },
+    { action: 'down', label: 'Down', keys: ['ArrowDown'], buttons: ['DpadDown', 'StickDown'] },
+    { action: 'left', label: 'Left', keys: ['ArrowLeft'], buttons: ['DpadLeft', 'StickLeft'] },
+    { action: 'right', label: 'Right', keys: ['ArrowRight'], buttons: ['DpadRight', 'StickRight'] },
+    { action: 'confirm', label: 'Select', keys: ['Enter'], buttons: ['A'] }
+  ],
+  snakeClassic: [
+    { action: 'up', label: 'Up', keys: ['ArrowUp', 'KeyW'], buttons: ['DpadUp', 'StickUp'] },
+    { action: 'down', label: 'Down', keys: ['ArrowDown', 'KeyS'], buttons: ['DpadDown', 'StickDown'] },
+    { action: 'left', label: 'Left', keys: ['ArrowLeft', 'KeyA'], buttons: ['DpadLeft', 'StickLeft'] },
+    { action: 'right', label: 'Right', keys: ['ArrowRight', 'KeyD'], buttons: ['DpadRight', 'StickRight'] },
+    { action: 'pause', label: 'Pause', keys: ['Space'], buttons: ['Start'] },
+    { action: 'confirm', label: 'Start', keys: ['Enter'], buttons: ['A'] }
+  ],
+  metris: [
+    { action: 'left', label: 'Move left', keys: ['ArrowLeft'], buttons: ['DpadLeft', 'StickLeft'] },
+    { action: 'right', label: 'Move right', keys: ['ArrowRight'], buttons: ['DpadRight', 'StickRight'] },
+    { action: 'down', label: 'Soft drop', keys: ['ArrowDown'], buttons: ['DpadDown', 'StickDown'] },
+    { action: 'drop', label: 'Hard drop', keys: ['Space'], buttons: ['DpadUp'] },
+    { action: 'rotate', label: 'Rotate', keys: ['ArrowUp', 'KeyX'], buttons: ['A'] },
+    { action: 'rotateBack', label: 'Rotate back', keys: ['KeyZ', 'ShiftLeft'], buttons: ['B'] },
+    { action: 'hold', label: 'Hold', keys: ['KeyC'], buttons: ['X', 'Y'] },
+    // Start also starts a waiting game, as A rotates
+    { action: 'pause', label: 'Pause', keys: ['KeyP'], buttons: ['Start'] },
+    { action: 'confirm', label: 'Start', keys: ['Enter'] }
+  ],
+  matrixInvaders: [
+    { action: 'left', label: 'Move left', keys: ['ArrowLeft', 'KeyA'], buttons: ['DpadLeft', 'StickLeft'] },
+    { action: 'right', label: 'Move right', keys: ['ArrowRight', 'KeyD'], buttons: ['DpadRight', 'StickRight'] },
+    { action: 'fire', label: 'Fire', keys: ['Space'], buttons: ['A', 'RT'] },
+    { action: 'special', label: 'Bullet time', keys: ['KeyB'], buttons: ['X'] },
+    { action: 'pause', label: 'Pause', keys: ['KeyP'], buttons: ['Start'] }
+  ],
+  // The left stick steers the paddle directly through inputManager.getAxis
+  vortexPong: [
+    { action: 'up', label: 'Paddle up', keys: ['ArrowUp', 'KeyW'], buttons: ['DpadUp'] },
+    { action: 'down', label: 'Paddle down', keys: ['ArrowDown', 'KeyS'], buttons: ['DpadDown'] },
+    { action: 'pause', label: 'Pause', keys: ['KeyP'], buttons: ['Start'] },
+    { action: 'confirm', label: 'Play again', keys: ['Enter'], buttons: ['A'] }
+  ],
+  matrixCloud: [
+    { action: 'jump', label: 'Flap', keys: ['Space'], buttons: ['A'] },
+    { action: 'pause', label: 'Pause', keys: ['KeyP'], buttons: ['Start'] }
+  ],
+  ctrlSWorld: [
+    { action: 'confirm', label: 'Continue story', keys: ['Enter', 'Space'], buttons: ['A'] },
+    { action: 'right', label: 'Next page', keys: ['ArrowRight'], buttons: ['DpadRight'] },
+    { action: 'pause', label: 'Pause', keys: ['KeyP'], buttons: ['Start'] },
+    { action: 'inventory', label: 'Inventory', keys: ['KeyI'], buttons: ['Y'] },
+    { action: 'fullscreen', label: 'Fullscreen', keys: ['KeyF'] },
+    { action: 'help', label: 'Info', keys: ['Slash'], buttons: ['X'] }
+  ],
+  // Played by typing commands, so it has no bindable controls
+  terminalQuest: []
+};
@@ -0,0 +1,43 @@
+import type { GameSaveKey } from './gameRegistry';
+import type { TouchLayout } from '../types/input';
+
+// ============================================================================
+// TOUCH LAYOUTS
+// The on-screen controls each game gets on phones and tablets. Every control
+// presses one of the game's actions, so games can't tell them from keys.
+// ============================================================================
+
+export const TOUCH_LAYOUTS: Record<GameSaveKey, TouchLayout> = {
+  snakeClassic: {
+    scheme: 'dpad',
+    buttons: [{ action: 'pause', label: 'PAUSE' }]
+  },
+  metris: {
+    scheme: 'swipe',
+    buttons: [
+      { action: 'hold', label: 'HOLD' },
+      { action: 'pause', label: 'PAUSE' }
+    ],
+    hint: 'Drag to move, tap to rotate, swipe down to drop'
+  },
+  vortexPong: {
+    scheme: 'drag',
+    buttons: [],
+    hint: 'Drag on the court to move your paddle'
+  },
+  matrixCloud: {
+    scheme: 'tap',
+    buttons: [{ action: 'pause', label: 'PAUSE' }],
+    hint: 'Tap to flap'
+  },
+  matrixInvaders: {
+    scheme: 'stick',
+    buttons: [
+      { action: 'fire', label: 'FIRE' },
+      { action: 'special', label: 'BULLET TIME' },
+      { action: 'pause', label: 'PAUSE' }
+    ]
+  },
+  ctrlSWorld: { scheme: 'native', buttons: [] },
+  terminalQuest: { scheme: 'native', buttons: [] }
+};
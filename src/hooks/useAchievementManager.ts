@@ -1,61 +1,27 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useSaveSystem } from './useSaveSystem';
-
-interface AchievementNotification {
-  id: string;
-  name: string;
-  description: string;
-  icon?: string;
-  game?: string;
-  timestamp: number;
-}
+import { achievementPoints, calculateGamerscore } from '../data/achievements';
+import { achievementNotifications, type AchievementNotice } from '../utils/achievementNotifications';
 
 export const useAchievementManager = () => {
   const saveSystem = useSaveSystem();
-  const [notificationQueue, setNotificationQueue] = useState<AchievementNotification[]>([]);
+  // Unlocks from every save system instance arrive through the shared notifier
+  const [notifications, setNotifications] = useState(achievementNotifications.getState);
   const [isDisplayOpen, setIsDisplayOpen] = useState(false);
-  const previousAchievements = useRef<Set<string>>(new Set());
-
-  // Initialize previous achievements
-  useEffect(() => {
-    const unlockedIds = saveSystem.achievements
-      .filter(a => a.unlocked)
-      .map(a => a.id);
-    previousAchievements.current = new Set(unlockedIds);
-  }, [saveSystem.achievements]);
 
-  // Check for new achievements
   useEffect(() => {
-    const currentUnlocked = saveSystem.achievements.filter(a => a.unlocked);
-    
-    currentUnlocked.forEach(achievement => {
-      if (!previousAchievements.current.has(achievement.id)) {
-        // New achievement unlocked!
-        previousAchievements.current.add(achievement.id);
-        
-        // Add to notification queue
-        const notification: AchievementNotification = {
-          id: achievement.id,
-          name: achievement.name,
-          description: achievement.description,
-          icon: achievement.icon,
-          game: achievement.game,
-          timestamp: Date.now()
-        };
-        
-        setNotificationQueue(prev => [...prev, notification]);
-      }
-    });
-  }, [saveSystem.achievements]);
+    setNotifications(achievementNotifications.getState());
+    return achievementNotifications.subscribe(setNotifications);
+  }, []);
 
   // Remove notification from queue
-  const dismissNotification = useCallback((index: number) => {
-    setNotificationQueue(prev => prev.filter((_, i) => i !== index));
+  const dismissNotification = useCallback((key: string) => {
+    achievementNotifications.dismiss(key);
   }, []);
 
   // Clear all notifications
   const clearNotifications = useCallback(() => {
-    setNotificationQueue([]);
+    achievementNotifications.clear();
   }, []);
 
   // Toggle achievement display
@@ -95,7 +61,9 @@ export const useAchievementManager = () => {
       total,
       unlocked,
       percentage,
-      byGame
+      byGame,
+      gamerscore: calculateGamerscore(saveSystem.achievements),
+      maxGamerscore: saveSystem.achievements.reduce((sum, achievement) => sum + achievementPoints(achievement), 0)
     };
   }, [saveSystem.achievements]);
 
@@ -103,27 +71,29 @@ export const useAchievementManager = () => {
   const unlockAchievement = useCallback((
     gameId: keyof typeof saveSystem.saveData.games,
     achievementId: string, 
-    customNotification?: Partial<AchievementNotification>
+    customNotification?: Partial<Omit<AchievementNotice, 'id'>>
   ) => {
-    const success = saveSystem.unlockAchievement(gameId, achievementId);
-    
-    if (success && customNotification) {
-      // If custom notification provided, use it instead of auto-detection
-      const achievement = saveSystem.achievements.find(a => a.id === achievementId);
-      if (achievement) {
-        const notification: AchievementNotification = {
-          id: achievement.id,
-          name: customNotification.name || achievement.name,
-          description: customNotification.description || achievement.description,
-          icon: customNotification.icon || achievement.icon,
-          game: customNotification.game || achievement.game,
-          timestamp: Date.now()
-        };
-        setNotificationQueue(prev => [...prev, notification]);
-      }
+    const achievement = saveSystem.achievements.find(a => a.id === achievementId);
+    if (achievement?.unlocked) {
+      return false;
     }
-    
-    return success;
+
+    // Announced before the save updates, so the automatic notification is dropped as a duplicate
+    if (achievement && customNotification) {
+      achievementNotifications.notify({
+        id: achievement.id,
+        name: achievement.name,
+        description: achievement.description,
+        icon: achievement.icon,
+        game: achievement.game,
+        tier: achievement.tier,
+        priority: achievementPoints(achievement),
+        ...customNotification
+      });
+    }
+
+    saveSystem.unlockAchievement(gameId, achievementId);
+    return true;
   }, [saveSystem]);
 
   // Check if achievement is unlocked
@@ -149,9 +119,11 @@ export const useAchievementManager = () => {
     // Achievement data
     achievements: getAchievements(),
     stats: getStats(),
+    sessionId: saveSystem.sessionId,
     
     // Notification system
-    notificationQueue,
+    notificationQueue: notifications.visible,
+    queuedNotifications: notifications.queued.length,
     dismissNotification,
     clearNotifications,
     
@@ -164,6 +136,9 @@ export const useAchievementManager = () => {
     // Achievement methods
     unlockAchievement,
     isUnlocked,
+    // The same functions every render, so effects can depend on these rather than the manager
+    emit: saveSystem.recordGameEvent,
+    armChallenge: saveSystem.armChallenge,
     
     // Save system methods (pass through)
     saveGame: saveSystem.saveGame,
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { saveStorage } from '../utils/saveStorage';
 
 // Voice Persona Types
 export type VoicePersona = 'captain' | 'oracle' | 'architect' | 'narrator' | 'glitch';
@@ -176,10 +177,15 @@ const DEFAULT_CONFIG: AdvancedVoiceConfig = {
 
 export function useAdvancedVoice() {
   const [config, setConfig] = useState<AdvancedVoiceConfig>(() => {
-    const saved = localStorage.getItem('matrix-arcade-advanced-voice');
-    return saved ? { ...DEFAULT_CONFIG, ...JSON.parse(saved) } : DEFAULT_CONFIG;
+    const saved = saveStorage.get('advancedVoice');
+    return saved ? { ...DEFAULT_CONFIG, ...saved } : DEFAULT_CONFIG;
   });
 
+  // Arcade-wide reset restores the default voice settings
+  useEffect(() => {
+    return saveStorage.onClear(() => setConfig(DEFAULT_CONFIG));
+  }, []);
+
   const [isSupported, setIsSupported] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
@@ -224,7 +230,7 @@ export function useAdvancedVoice() {
 
   // Save config changes
   useEffect(() => {
-    localStorage.setItem('matrix-arcade-advanced-voice', JSON.stringify(config));
+    saveStorage.set('advancedVoice', config);
   }, [config]);
 
   // Detect emotion from text
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { buildRoute, parseRoute, type ArcadeRoute } from '../utils/arcadeRoute';
+
+/**
+ * Keeps the address bar on `route` and reports back/forward navigation to
+ * `onNavigate`. Entering or leaving a game adds a history entry, so Back
+ * leaves the game and Forward returns to it; browsing the carousel only
+ * replaces the current entry.
+ */
+export function useArcadeRoute(route: ArcadeRoute, onNavigate: (route: ArcadeRoute) => void) {
+  const url = buildRoute(route);
+  const playingRef = useRef(route.play);
+  const navigateRef = useRef(onNavigate);
+
+  useEffect(() => {
+    navigateRef.current = onNavigate;
+  }, [onNavigate]);
+
+  useEffect(() => {
+    const current = `${window.location.pathname}${window.location.search}`;
+    if (current !== url) {
+      if (route.play !== playingRef.current) {
+        window.history.pushState(null, '', url);
+      } else {
+        window.history.replaceState(null, '', url);
+      }
+    }
+    playingRef.current = route.play;
+  }, [url, route.play]);
+
+  useEffect(() => {
+    const handlePopState = () => navigateRef.current(parseRoute(window.location));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useChallenges } from './useChallenges';
+
+describe('useChallenges', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('draws the next day\'s challenges at midnight', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 23, 59, 0));
+    const { result } = renderHook(() => useChallenges());
+    const daily = () => result.current.challenges.filter(challenge => challenge.period === 'daily');
+    expect(daily().every(challenge => challenge.periodKey === '2026-10-19')).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(60_000);
+    });
+    expect(daily().every(challenge => challenge.periodKey === '2026-10-20')).toBe(true);
+  });
+});
@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSaveSelector } from './useSaveSystem';
+import { drawChallenges } from '../utils/challengeEngine';
+import { dailyChallengeStreak, periodEndFor } from '../utils/challengeCalendar';
+import type { ActiveChallenge } from '../types/challenge';
+
+export interface ChallengeStatus extends ActiveChallenge {
+  completed: boolean;
+}
+
+/**
+ * Today's and this week's challenges with whether each has been completed,
+ * and the player's daily challenge streak. A new draw is made when the day changes.
+ */
+export function useChallenges() {
+  const completed = useSaveSelector(data => data.challenges?.completed);
+  // Moves on at midnight so the draw and the streak do too
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setNow(Date.now()), periodEndFor('daily', now) - Date.now());
+    return () => clearTimeout(timer);
+  }, [now]);
+
+  const drawn = useMemo(() => drawChallenges(now), [now]);
+
+  const challenges = useMemo<ChallengeStatus[]>(
+    () => drawn.map(challenge => ({ ...challenge, completed: !!completed?.[challenge.key] })),
+    [drawn, completed]
+  );
+
+  const streak = useMemo(() => dailyChallengeStreak(completed, now), [completed, now]);
+
+  return { challenges, streak };
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { inputManager } from '../utils/inputManager';
+import type { InputAction, InputActionEvent, InputContext } from '../types/input';
+
+/**
+ * Calls `onAction` for presses and releases of the context's bound keys
+ * while `enabled`. The latest `onAction` is always used, so it can read
+ * current state without re-subscribing. An `exclusive` caller, such as a
+ * menu over a game, gets its keys' presses to itself. Returns a check for
+ * held actions.
+ */
+export function useGameInput(
+  context: InputContext,
+  onAction: (event: InputActionEvent) => void,
+  enabled = true,
+  exclusive = false
+) {
+  const handlerRef = useRef(onAction);
+
+  useEffect(() => {
+    handlerRef.current = onAction;
+  }, [onAction]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return inputManager.subscribe(context, event => handlerRef.current(event), exclusive);
+  }, [context, enabled, exclusive]);
+
+  return useCallback((action: InputAction) => inputManager.isHeld(context, action), [context]);
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { GamePauseProps } from '../types/game';
+
+/**
+ * A game's side of the arcade's pause protocol. In the arcade the game's
+ * pause key and button open the arcade's pause menu, and `setPaused` follows
+ * the menu opening and closing; played on its own, the game pauses itself.
+ * Returns the toggle for the game's pause key and button.
+ */
+export function useGamePause(
+  { paused = false, onPause }: GamePauseProps,
+  isPaused: boolean,
+  setPaused: (paused: boolean) => void
+) {
+  const setPausedRef = useRef(setPaused);
+  const hosted = onPause !== undefined;
+
+  useEffect(() => {
+    setPausedRef.current = setPaused;
+  }, [setPaused]);
+
+  useEffect(() => {
+    if (hosted) setPausedRef.current(paused);
+  }, [hosted, paused]);
+
+  return useCallback(() => {
+    if (onPause) onPause();
+    else setPaused(!isPaused);
+  }, [onPause, isPaused, setPaused]);
+}
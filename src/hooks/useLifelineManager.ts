@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect } from 'react';
+import { saveStorage } from '../utils/saveStorage';
 
 // ============================================================================
 // LIFELINE MANAGER HOOK
@@ -21,28 +22,14 @@ export interface LifelineState {
   };
 }
 
-const STORAGE_KEY = 'ctrlsworld_lifelines';
-const INITIAL_FREE_ANSWERS = 10;
+// Persisted form: Sets are stored as arrays
+export type StoredLifelineState = Omit<LifelineState, 'usedLifelines'> & {
+  usedLifelines: Record<keyof LifelineState['usedLifelines'], string[]>;
+};
 
-const getInitialState = (): LifelineState => {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const parsed = JSON.parse(stored);
-      // Convert arrays back to Sets
-      return {
-        ...parsed,
-        usedLifelines: {
-          fiftyFifty: new Set(parsed.usedLifelines.fiftyFifty || []),
-          sentientAI: new Set(parsed.usedLifelines.sentientAI || []),
-          characters: new Set(parsed.usedLifelines.characters || []),
-        }
-      };
-    }
-  } catch (error) {
-    console.warn('Failed to load lifeline state:', error);
-  }
+const INITIAL_FREE_ANSWERS = 10;
 
+const createDefaultState = (): LifelineState => {
   return {
     freeAnswersRemaining: INITIAL_FREE_ANSWERS,
     usedLifelines: {
@@ -60,13 +47,39 @@ const getInitialState = (): LifelineState => {
   };
 };
 
+const getInitialState = (): LifelineState => {
+  try {
+    const stored = saveStorage.get('ctrlsLifelines');
+    if (stored) {
+      // Convert arrays back to Sets
+      return {
+        ...stored,
+        usedLifelines: {
+          fiftyFifty: new Set(stored.usedLifelines.fiftyFifty || []),
+          sentientAI: new Set(stored.usedLifelines.sentientAI || []),
+          characters: new Set(stored.usedLifelines.characters || []),
+        }
+      };
+    }
+  } catch (error) {
+    console.warn('Failed to load lifeline state:', error);
+  }
+
+  return createDefaultState();
+};
+
 export const useLifelineManager = () => {
   const [state, setState] = useState<LifelineState>(getInitialState);
 
-  // Persist to localStorage whenever state changes
+  // Arcade-wide reset puts every lifeline back
+  useEffect(() => {
+    return saveStorage.onClear(() => setState(createDefaultState()));
+  }, []);
+
+  // Persist whenever state changes
   useEffect(() => {
     try {
-      const toStore = {
+      const toStore: StoredLifelineState = {
         ...state,
         usedLifelines: {
           fiftyFifty: Array.from(state.usedLifelines.fiftyFifty),
@@ -74,7 +87,7 @@ export const useLifelineManager = () => {
           characters: Array.from(state.usedLifelines.characters),
         }
       };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(toStore));
+      saveStorage.set('ctrlsLifelines', toStore);
     } catch (error) {
       console.warn('Failed to save lifeline state:', error);
     }
@@ -192,7 +205,7 @@ export const useLifelineManager = () => {
 
   // Reset all lifelines (for new game)
   const resetLifelines = useCallback(() => {
-    setState(getInitialState());
+    setState(createDefaultState());
   }, []);
 
   // Get stats summary
@@ -0,0 +1,13 @@
+import { useEffect } from 'react';
+import { achievementNotifications } from '../utils/achievementNotifications';
+
+/**
+ * Holds achievement notifications back while `active` is true, e.g. during
+ * a boss fight or bullet time. Held unlocks are shown once it turns false.
+ */
+export function useNotificationDeferral(source: string, active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+    return achievementNotifications.defer(source);
+  }, [source, active]);
+}
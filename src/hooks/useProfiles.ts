@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { PlayerProfile } from '../utils/profileStorage';
+
+export interface ProfileContextType {
+  profiles: PlayerProfile[];
+  activeProfile: PlayerProfile;
+
+  createProfile: (name: string) => PlayerProfile | null;
+  switchProfile: (profileId: string) => void;
+  renameProfile: (profileId: string, name: string) => boolean;
+  deleteProfile: (profileId: string) => boolean;
+}
+
+// Provided by ProfileProvider in contexts/ProfileContext
+export const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+export const useProfiles = () => {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfiles must be used within a ProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useRunReport, type RunInProgress } from './useRunReport';
+
+describe('useRunReport', () => {
+  it('reports the run under way as quit when the game closes', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(100_000);
+    const emit = vi.fn();
+    const startedAt = { current: 40_000 };
+    const { rerender, unmount } = renderHook((run: RunInProgress) => useRunReport('metris', emit, run), {
+      initialProps: { active: true, score: 100, startedAt }
+    });
+
+    rerender({ active: true, score: 2500, startedAt });
+    expect(emit).not.toHaveBeenCalled();
+
+    unmount();
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit).toHaveBeenCalledWith({ type: 'run_quit', gameId: 'metris', score: 2500, durationSeconds: 60 });
+    vi.useRealTimers();
+  });
+
+  it('reports nothing between runs', () => {
+    const emit = vi.fn();
+    const { unmount } = renderHook(() => useRunReport('metris', emit, { active: false, score: 900, startedAt: { current: 0 } }));
+
+    unmount();
+    expect(emit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,39 @@
+import { useEffect, useRef, type MutableRefObject } from 'react';
+import type { GameSaveKey } from '../data/gameRegistry';
+import type { GameEvent } from '../types/events';
+
+export interface RunInProgress {
+  active: boolean;                      // Started and not yet over
+  score: number;
+  startedAt: MutableRefObject<number>;  // The game's own record of when the run began
+}
+
+/**
+ * Reports the run under way when the game is closed. The arcade restarts a
+ * game by remounting it and quits it by unmounting it, so a game torn down
+ * mid-run reports the run as quit, with its score so far.
+ */
+export function useRunReport(gameId: GameSaveKey, emit: ((event: GameEvent) => void) | undefined, run: RunInProgress) {
+  const runRef = useRef(run);
+  const emitRef = useRef(emit);
+
+  useEffect(() => {
+    runRef.current = run;
+    emitRef.current = emit;
+  });
+
+  useEffect(() => {
+    const latest = runRef;
+    const report = emitRef;
+    return () => {
+      const { active, score, startedAt } = latest.current;
+      if (!active) return;
+      report.current?.({
+        type: 'run_quit',
+        gameId,
+        score,
+        durationSeconds: Math.floor((Date.now() - startedAt.current) / 1000)
+      });
+    };
+  }, [gameId]);
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSaveSystem } from './useSaveSystem';
+import { saveStorage } from '../utils/saveStorage';
+import { createSyncState, syncSaveData, type SyncAdapter, type SyncState } from '../utils/saveSync';
+import { createConfiguredSyncAdapter } from '../utils/restSyncAdapter';
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error';
+
+// The save ID is shown to the player for linking devices, so it must stay put between visits
+const loadSyncState = () => {
+  const stored = saveStorage.get('syncState');
+  if (stored) return stored;
+
+  const created = createSyncState();
+  saveStorage.set('syncState', created);
+  return created;
+};
+
+/**
+ * Cross-device sync for the active profile's save. Devices that share a
+ * save ID share one merged save; `createAdapter` defaults to the REST
+ * service configured with VITE_SYNC_URL.
+ */
+export function useSaveSync(createAdapter: (saveId: string) => SyncAdapter | null = createConfiguredSyncAdapter) {
+  const { saveData, applySyncedSave } = useSaveSystem();
+  const [syncState, setSyncState] = useState<SyncState>(loadSyncState);
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const adapter = useMemo(() => createAdapter(syncState.saveId), [createAdapter, syncState.saveId]);
+
+  const updateSyncState = useCallback((next: SyncState) => {
+    saveStorage.set('syncState', next);
+    setSyncState(next);
+  }, []);
+
+  // Link this device to another device's save
+  const setSaveId = useCallback((saveId: string) => {
+    const trimmed = saveId.trim();
+    if (!trimmed || trimmed === syncState.saveId) return false;
+
+    // A different save has no common base with what we merged before
+    updateSyncState({ ...syncState, saveId: trimmed, revision: 0, lastSyncedAt: null, base: null });
+    setStatus('idle');
+    return true;
+  }, [syncState, updateSyncState]);
+
+  const syncNow = useCallback(async () => {
+    if (!adapter) {
+      setError('Sync is not configured');
+      return false;
+    }
+
+    setStatus('syncing');
+    try {
+      const result = await syncSaveData(adapter, saveData, syncState);
+      applySyncedSave(result.data, saveData, adapter.merge);
+      updateSyncState(result.state);
+      setStatus('synced');
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error('Failed to sync save data:', err);
+      setStatus('error');
+      setError(err instanceof Error ? err.message : 'Failed to sync save data');
+      return false;
+    }
+  }, [adapter, saveData, syncState, applySyncedSave, updateSyncState]);
+
+  // A reset forgets which save this device was linked to
+  useEffect(() => {
+    return saveStorage.onClear(() => {
+      setSyncState(loadSyncState());
+      setStatus('idle');
+    });
+  }, []);
+
+  return {
+    isAvailable: adapter !== null,
+    adapterName: adapter?.name ?? null,
+    status,
+    error,
+    saveId: syncState.saveId,
+    revision: syncState.revision,
+    lastSyncedAt: syncState.lastSyncedAt,
+    setSaveId,
+    syncNow
+  };
+}
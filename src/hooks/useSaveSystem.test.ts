@@ -0,0 +1,333 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useSaveSystem, useGameSave } from './useSaveSystem';
+import { SAVE_VERSION, createDefaultGlobalSave } from '../utils/saveSchema';
+import { achievementNotifications } from '../utils/achievementNotifications';
+import { count } from '../utils/achievementEngine';
+import { toDayKey } from '../utils/challengeCalendar';
+import { MIN_SNAPSHOT_INTERVAL } from '../utils/saveHistory';
+import { verifySaveData } from '../utils/saveIntegrity';
+
+const STORAGE_KEY = 'matrix-arcade-save-data';
+const BACKUP_KEY = 'matrix-arcade-backup';
+const HISTORY_KEY = 'matrix-arcade-save-history';
+const INTEGRITY_KEY = 'matrix-arcade-save-integrity';
+
+describe('useSaveSystem', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('creates a fresh save on first load', async () => {
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    expect(stored.version).toBe(SAVE_VERSION);
+  });
+
+  it('migrates an old save on load and keeps the original in history', async () => {
+    const legacy = JSON.stringify({
+      version: '1.0.0',
+      games: { metris: { highScore: 777, level: 3, achievements: [], stats: { gamesPlayed: 2, totalScore: 900 }, lastPlayed: 1 } },
+      globalStats: { totalPlayTime: 0, favoriteGame: '', globalAchievements: [], firstPlayDate: 1 },
+      settings: { autoSave: true }
+    });
+    localStorage.setItem(STORAGE_KEY, legacy);
+
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.saveData.version).toBe(SAVE_VERSION);
+    expect(result.current.saveData.games.metris.highScore).toBe(777);
+    expect(result.current.saveData.games.terminalQuest).toBeDefined();
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).version).toBe(SAVE_VERSION);
+    expect(JSON.parse(localStorage.getItem(HISTORY_KEY)!)[0].data).toEqual(JSON.parse(legacy));
+    expect(result.current.snapshots[0].totalScore).toBe(900);
+  });
+
+  it('migrates data restored from an old backup', async () => {
+    localStorage.setItem(BACKUP_KEY, JSON.stringify({
+      games: { snakeClassic: { highScore: 50, gamesPlayed: 4, totalScore: 120, achievements: [] } }
+    }));
+
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    let restored = false;
+    act(() => {
+      restored = result.current.restoreFromBackup();
+    });
+
+    expect(restored).toBe(true);
+    expect(result.current.saveData.games.snakeClassic.highScore).toBe(50);
+    expect(result.current.saveData.games.snakeClassic.stats.gamesPlayed).toBe(4);
+  });
+
+  it('folds legacy per-game high score keys into the save', async () => {
+    localStorage.setItem('metris_highScore', '3100');
+
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.saveData.games.metris.highScore).toBe(3100);
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).games.metris.highScore).toBe(3100);
+    expect(localStorage.getItem('metris_highScore')).toBeNull();
+  });
+
+  it('clearSaveData wipes every arcade key', async () => {
+    localStorage.setItem('matrix-arcade-ctrls-save', '{}');
+    localStorage.setItem('ctrlsworld_lifelines', '{}');
+
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    act(() => {
+      result.current.clearSaveData();
+    });
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(localStorage.getItem('matrix-arcade-ctrls-save')).toBeNull();
+    expect(localStorage.getItem('ctrlsworld_lifelines')).toBeNull();
+  });
+
+  it('snapshots the previous save on write instead of overwriting one backup', async () => {
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    const now = vi.spyOn(Date, 'now').mockReturnValue(new Date(2025, 0, 1, 12).getTime());
+
+    act(() => {
+      result.current.updateGameSave('metris', { highScore: 100, stats: { gamesPlayed: 1, totalScore: 100 } });
+    });
+    now.mockReturnValue(new Date(2025, 0, 1, 12).getTime() + MIN_SNAPSHOT_INTERVAL);
+    act(() => {
+      result.current.updateGameSave('metris', { highScore: 200, stats: { gamesPlayed: 2, totalScore: 300 } });
+    });
+    act(() => {
+      result.current.updateGameSave('metris', { highScore: 300, stats: { gamesPlayed: 3, totalScore: 600 } });
+    });
+
+    // The third write came too soon after the second to be snapshotted
+    expect(result.current.snapshots).toHaveLength(2);
+    expect(localStorage.getItem(BACKUP_KEY)).toBeNull();
+
+    const latest = result.current.snapshots[0];
+    expect(result.current.compareSnapshot(latest.id)).toEqual([
+      expect.objectContaining({ path: 'games.metris.highScore', before: 300, after: 100 }),
+      expect.objectContaining({ path: 'games.metris.stats.gamesPlayed', before: 3, after: 1 })
+    ]);
+
+    act(() => {
+      result.current.restoreSnapshot(latest.id);
+    });
+    expect(result.current.saveData.games.metris.highScore).toBe(100);
+
+    // Restoring snapshots the save it replaces, even inside the interval, so it can be undone
+    act(() => {
+      result.current.restoreSnapshot(result.current.snapshots[0].id);
+    });
+    now.mockRestore();
+    expect(result.current.saveData.games.metris.highScore).toBe(300);
+  });
+
+  it('signs saves and flags scores edited outside the arcade', async () => {
+    const first = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(first.result.current.isLoading).toBe(false));
+
+    act(() => {
+      first.result.current.updateGameSave('metris', { highScore: 500 });
+    });
+    await waitFor(() => expect(localStorage.getItem(INTEGRITY_KEY)).not.toBeNull());
+    await waitFor(() => expect(first.result.current.integrity?.status).toBe('verified'));
+    first.unmount();
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    stored.games.metris.highScore = 999999;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.integrity?.status).toBe('modified'));
+
+    expect(result.current.saveData.games.metris.highScore).toBe(999999);
+    expect(result.current.saveData.games.metris.modified).toBe(true);
+    expect(result.current.saveData.games.snakeClassic.modified).toBeUndefined();
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).games.metris.modified).toBe(true);
+  });
+
+  it('merges play from during a sync and trusts what the sync brought in', async () => {
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    const sent = result.current.saveData;
+    const synced = {
+      ...sent,
+      games: { ...sent.games, snakeClassic: { ...sent.games.snakeClassic, highScore: 800 } }
+    };
+
+    act(() => {
+      result.current.updateGameSave('metris', { highScore: 300 });
+    });
+    act(() => {
+      result.current.applySyncedSave(synced, sent);
+    });
+
+    const { games } = result.current.saveData;
+    expect(games.metris.highScore).toBe(300);
+    expect(games.metris.modified).toBeUndefined();
+    expect(games.snakeClassic.highScore).toBe(800);
+    expect(games.snakeClassic.modified).toBeUndefined();
+    // Let the queued signatures land before the next test clears storage
+    await waitFor(async () => {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+      const signatures = JSON.parse(localStorage.getItem(INTEGRITY_KEY) ?? 'null');
+      expect((await verifySaveData(stored, signatures)).status).toBe('verified');
+    });
+  });
+
+  it('trusts and signs saves written before signing existed', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      version: SAVE_VERSION,
+      games: { metris: { highScore: 1200, level: 2, achievements: [], stats: { gamesPlayed: 1, totalScore: 1200 }, lastPlayed: 1 } }
+    }));
+
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.integrity?.status).toBe('verified'));
+
+    expect(result.current.saveData.games.metris.modified).toBeUndefined();
+    expect(localStorage.getItem(INTEGRITY_KEY)).not.toBeNull();
+  });
+
+  it('unlocks achievements from reported game events and saves their counters', async () => {
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    act(() => {
+      result.current.recordGameEvent({ type: 'game_started', gameId: 'metris' });
+      result.current.recordGameEvent({ type: 'line_cleared', gameId: 'metris', lines: 4 });
+    });
+
+    expect(result.current.saveData.games.metris.achievements).toEqual(['first_line', 'tetris']);
+    expect(result.current.saveData.globalStats.globalAchievements).toContain('global_first_game');
+    expect(result.current.achievements.find(a => a.id === 'tetris')?.unlock).toMatchObject({
+      gameId: 'metris',
+      sessionId: result.current.sessionId
+    });
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).games.metris.counters['line_cleared|lines|max|']).toBe(4);
+  });
+
+  it('shares one save between every consumer', async () => {
+    const arcade = renderHook(() => useSaveSystem());
+    const game = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(arcade.result.current.isLoading).toBe(false));
+
+    act(() => {
+      game.result.current.updateGameSave('metris', { highScore: 700 });
+      arcade.result.current.updateGameSave('snakeClassic', { highScore: 40 });
+    });
+
+    // Neither write clobbers the other
+    expect(arcade.result.current.saveData.games.metris.highScore).toBe(700);
+    expect(game.result.current.saveData.games.snakeClassic.highScore).toBe(40);
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).games.metris.highScore).toBe(700);
+  });
+
+  it('only re-renders a game when its own save changes', async () => {
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useGameSave('metris');
+    });
+    const arcade = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(arcade.result.current.isLoading).toBe(false));
+    const settled = renders;
+
+    act(() => {
+      arcade.result.current.updateGameSave('snakeClassic', { highScore: 40 });
+    });
+    expect(renders).toBe(settled);
+
+    act(() => {
+      result.current.updateGameSave('metris', { highScore: 900 });
+    });
+    expect(renders).toBe(settled + 1);
+    expect(result.current.gameSave.highScore).toBe(900);
+  });
+
+  it('builds a game update from its latest save when given a function', async () => {
+    const { result } = renderHook(() => useGameSave('metris'));
+    await waitFor(() => expect(result.current.gameSave).toBeDefined());
+
+    act(() => {
+      result.current.updateGameSave('metris', game => ({ stats: { ...game.stats, gamesPlayed: game.stats.gamesPlayed + 1 } }));
+      result.current.updateGameSave('metris', game => ({ stats: { ...game.stats, gamesPlayed: game.stats.gamesPlayed + 1 } }));
+    });
+
+    // The second update sees the first even though the component hasn't re-rendered in between
+    expect(result.current.gameSave.stats.gamesPlayed).toBe(2);
+  });
+
+  it('announces an unlock once even when several instances record it', async () => {
+    achievementNotifications.reset();
+    const first = renderHook(() => useSaveSystem());
+    const second = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(second.result.current.isLoading).toBe(false));
+
+    act(() => {
+      first.result.current.unlockAchievement('snakeClassic', 'snake_first_apple');
+      second.result.current.unlockAchievement('snakeClassic', 'snake_first_apple');
+    });
+
+    await waitFor(() => expect(achievementNotifications.getState().visible).toHaveLength(1));
+    expect(achievementNotifications.getState().visible[0].achievements).toEqual([
+      expect.objectContaining({ id: 'snake_first_apple', name: 'First Bite', priority: 10 })
+    ]);
+  });
+
+  it('keeps achievement progress across visits', async () => {
+    const first = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(first.result.current.isLoading).toBe(false));
+
+    act(() => {
+      first.result.current.recordGameEvent({ type: 'line_cleared', gameId: 'metris', lines: 3 });
+    });
+    first.unmount();
+
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    const lineClearer = result.current.achievements.find(a => a.id === 'line_clearer');
+    expect(lineClearer).toMatchObject({ progress: 3, maxProgress: 100, unlocked: false });
+    expect(result.current.saveData.games.metris.achievementProgress?.line_clearer).toBe(3);
+  });
+
+  it('records a completed challenge and unlocks the streak achievement', async () => {
+    const day = (daysAgo: number) => toDayKey(new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000));
+    const save = createDefaultGlobalSave();
+    save.challenges = {
+      completed: Object.fromEntries([1, 2, 3, 4, 5, 6].map(daysAgo => [
+        `daily-${day(daysAgo)}:metris_combo`,
+        { completedAt: 0, gameId: 'metris' as const, period: 'daily' as const, periodKey: day(daysAgo) }
+      ]))
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+
+    const { result } = renderHook(() => useSaveSystem());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    const key = `daily-${day(0)}:metris_lines`;
+    act(() => {
+      result.current.armChallenge({
+        id: 'metris_lines', gameId: 'metris', title: 'Lines', description: 'Clear 2 lines',
+        goal: count('line_cleared', 2, { field: 'lines' }),
+        key, period: 'daily', periodKey: day(0), endsAt: Date.now() + 1000
+      });
+      result.current.recordGameEvent({ type: 'run_started', gameId: 'metris' });
+      result.current.recordGameEvent({ type: 'line_cleared', gameId: 'metris', lines: 2 });
+      result.current.armChallenge(null);
+    });
+
+    expect(result.current.saveData.challenges?.completed[key]).toMatchObject({ gameId: 'metris', periodKey: day(0) });
+    expect(result.current.saveData.globalStats.globalAchievements).toContain('global_dedicated');
+  });
+});
@@ -1,420 +1,647 @@
-import { useCallback, useEffect, useState, useMemo } from 'react';
-
-// Save data structure for each game
-export interface GameSaveData {
-  highScore: number;
-  level: number;
-  achievements: string[];
-  stats: {
-    gamesPlayed: number;
-    totalScore: number;
-    bestCombo?: number;
-    longestSurvival?: number;
-    bossesDefeated?: number;
-  };
-  lastPlayed: number;
-  preferences?: Record<string, unknown>;
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { GAME_ACHIEVEMENTS, type GameSaveKey } from '../data/gameRegistry';
+import { GLOBAL_ACHIEVEMENTS, TIER_POINTS, achievementPoints } from '../data/achievements';
+import { createDefaultGameSave, createDefaultGlobalSave, migrateSaveData } from '../utils/saveSchema';
+import { saveStorage, foldLegacyHighScores } from '../utils/saveStorage';
+import {
+  addSnapshot,
+  isSnapshotDue,
+  summariseSnapshot,
+  restoreSnapshotData,
+  type SaveSnapshot,
+  type SaveSnapshotSummary
+} from '../utils/saveHistory';
+import { repairSaveData, diffSaveData, type SaveDiffEntry, type SaveValidationReport } from '../utils/saveValidation';
+import {
+  signSaveData,
+  verifySaveData,
+  markModified,
+  splitSignedSave,
+  isSaveSignatures,
+  type SaveIntegrityReport
+} from '../utils/saveIntegrity';
+import { getActiveProfileId } from '../utils/profileStorage';
+import { mergeSaves, type SyncAdapter } from '../utils/saveSync';
+import { getLeaderboardClient, hashReplay } from '../utils/leaderboardClient';
+import { recordPlayStats } from '../utils/playerStats';
+import { inputManager } from '../utils/inputManager';
+import { createSaveStore, type SaveState, type SaveStore } from '../utils/saveStore';
+import {
+  createAchievementRuntime,
+  trackRuntimeEvent,
+  applyEventToSave,
+  settleAchievements,
+  conditionContext,
+  achievementProgress,
+  createUnlockRecord,
+  addUnlockRecords,
+  GLOBAL_OWNER,
+  type AchievementDefinitions
+} from '../utils/achievementEngine';
+import { achievementNotifications } from '../utils/achievementNotifications';
+import {
+  armChallenge as armChallengeRuntime,
+  createChallengeRuntime,
+  isChallengeCompleted,
+  recordChallengeCompletion,
+  trackChallengeEvent
+} from '../utils/challengeEngine';
+import { recordHighScore } from '../utils/highScores';
+import type { ActiveChallenge } from '../types/challenge';
+import type { GameEvent } from '../types/events';
+import type { KeyBindings } from '../types/input';
+import type { Achievement } from '../types/game';
+import type { GameSaveData, GameStats, GlobalSaveData, HighScoreEntry } from '../types/save';
+
+export type { Achievement, GameSaveKey, GameSaveData, GameStats, GlobalSaveData, SaveSnapshotSummary, SaveIntegrityReport };
+export { GAME_ACHIEVEMENTS, GLOBAL_ACHIEVEMENTS };
+
+// Result of reading an import file, shown to the player before it is applied
+export interface SaveImportPreview {
+  fileName: string;
+  report: SaveValidationReport;
+  repaired: GlobalSaveData;
+  diff: SaveDiffEntry[];
+  integrity: SaveIntegrityReport | null;   // null when the file could not be checked
 }
 
-// Global save data structure
-export interface GlobalSaveData {
-  version: string;
-  games: {
-    snakeClassic: GameSaveData;
-    vortexPong: GameSaveData;
-    matrixCloud: GameSaveData;
-    ctrlSWorld: GameSaveData;
-    matrixInvaders: GameSaveData;
-    metris: GameSaveData;
-  };
-  globalStats: {
-    totalPlayTime: number;
-    favoriteGame: string;
-    globalAchievements: string[];
-    firstPlayDate: number;
-  };
-  settings: {
-    lastBackupDate?: number;
-    autoSave: boolean;
+// Session and visit achievement counters, shared by every instance for the life of the page
+const achievementRuntime = createAchievementRuntime();
+
+// The challenge the player accepted and how their current attempt is going
+const challengeRuntime = createChallengeRuntime();
+
+// Built on demand: the registry imports the games, which import this hook
+const achievementDefinitions = (): AchievementDefinitions => ({
+  games: GAME_ACHIEVEMENTS,
+  global: GLOBAL_ACHIEVEMENTS
+});
+
+// Queue a notification for every defined achievement unlocked between two saves
+const announceUnlocks = (prev: GlobalSaveData, next: GlobalSaveData) => {
+  if (next === prev) return;
+
+  const announce = (definitions: Achievement[], before: string[] = [], after: string[] = []) => {
+    after
+      .filter(id => !before.includes(id))
+      .forEach(id => {
+        const achievement = definitions.find(definition => definition.id === id);
+        if (!achievement) return;
+        achievementNotifications.notify({
+          id,
+          name: achievement.name,
+          description: achievement.description,
+          icon: achievement.icon,
+          game: achievement.game,
+          tier: achievement.tier,
+          priority: achievementPoints(achievement)
+        });
+      });
   };
-}
 
-// Default save data
-const createDefaultGameSave = (): GameSaveData => ({
-  highScore: 0,
-  level: 1,
-  achievements: [],
-  stats: {
-    gamesPlayed: 0,
-    totalScore: 0,
-    bestCombo: 0,
-    longestSurvival: 0,
-    bossesDefeated: 0
-  },
-  lastPlayed: Date.now(),
-  preferences: {}
+  (Object.keys(GAME_ACHIEVEMENTS) as GameSaveKey[]).forEach(gameId => {
+    announce(GAME_ACHIEVEMENTS[gameId], prev.games[gameId]?.achievements, next.games[gameId]?.achievements);
+  });
+  announce(GLOBAL_ACHIEVEMENTS, prev.globalStats.globalAchievements, next.globalStats.globalAchievements);
+};
+
+const CLEAN_REPORT: SaveIntegrityReport = { status: 'verified', modifiedGames: [], globalModified: false };
+
+// Signing is async; chain it so signatures land in the same order as the saves they cover
+let pendingSignature: Promise<void> = Promise.resolve();
+
+const queueSignature = (data: GlobalSaveData) => {
+  const profileId = getActiveProfileId();
+  pendingSignature = pendingSignature
+    .then(() => signSaveData(data))
+    .then(signatures => {
+      // A profile switch while signing would otherwise stamp the wrong profile's save
+      if (getActiveProfileId() === profileId) {
+        saveStorage.set('saveIntegrity', signatures);
+      }
+    })
+    .catch(err => console.error('Failed to sign save data:', err));
+  return pendingSignature;
+};
+
+const createInitialState = (): SaveState => ({
+  saveData: createDefaultGlobalSave(),
+  isLoading: true,
+  error: null,
+  history: [],
+  integrity: null
 });
 
-const createDefaultGlobalSave = (): GlobalSaveData => ({
-  version: '1.0.0',
-  games: {
-    snakeClassic: createDefaultGameSave(),
-    vortexPong: createDefaultGameSave(),
-    matrixCloud: createDefaultGameSave(),
-    ctrlSWorld: createDefaultGameSave(),
-    matrixInvaders: createDefaultGameSave(),
-    metris: createDefaultGameSave()
-  },
-  globalStats: {
-    totalPlayTime: 0,
-    favoriteGame: '',
-    globalAchievements: [],
-    firstPlayDate: Date.now()
-  },
-  settings: {
-    autoSave: true
+// Created on first use for the same reason as the definitions: the default save needs the registry
+let saveStore: SaveStore | null = null;
+const getSaveStore = () => {
+  if (!saveStore) {
+    const store = createSaveStore(createInitialState());
+    // Remapped keys apply as soon as they're saved, and follow profile switches
+    const applyKeyBindings = () => inputManager.setOverrides(store.getState().saveData.settings.keyBindings);
+    applyKeyBindings();
+    store.subscribe(applyKeyBindings);
+    saveStore = store;
   }
-});
+  return saveStore;
+};
 
-// Achievement interface
-export interface Achievement {
-  id: string;
-  name: string;
-  description: string;
-  icon?: string;
-  game?: string;
-  unlocked?: boolean;
-  unlockedAt?: number;
-  progress?: number;
-  maxProgress?: number;
-}
+const setSaveData = (update: GlobalSaveData | ((prev: GlobalSaveData) => GlobalSaveData)) => {
+  getSaveStore().setState(state => ({ saveData: typeof update === 'function' ? update(state.saveData) : update }));
+};
+const setError = (error: string | null) => getSaveStore().setState({ error });
+const setHistory = (history: SaveSnapshot[]) => getSaveStore().setState({ history });
+const setIntegrity = (integrity: SaveIntegrityReport | null) => getSaveStore().setState({ integrity });
+
+// Bumped on every load and reset so async verification of an older save is dropped
+let loadGeneration = 0;
+let consumers = 0;
+let loadedProfileId: string | null = null;
 
-// Achievement definitions with icons
-export const GAME_ACHIEVEMENTS: Record<string, Achievement[]> = {
-  snakeClassic: [
-    { id: 'snake_first_apple', name: 'First Bite', description: 'Eat your first data fragment', game: 'Snake Classic' },
-    { id: 'snake_score_100', name: 'Century Mark', description: 'Score 100 points', game: 'Snake Classic' },
-    { id: 'snake_score_500', name: 'Data Hoarder', description: 'Score 500 points', game: 'Snake Classic' },
-    { id: 'snake_combo_10', name: 'Chain Reaction', description: 'Achieve 10x combo', game: 'Snake Classic' },
-    { id: 'snake_power_master', name: 'Power User', description: 'Collect 10 power-ups in one game', game: 'Snake Classic' },
-    { id: 'snake_survivor', name: 'Survival Expert', description: 'Survive for 5 minutes', game: 'Snake Classic' },
-    { id: 'snake_speed_demon', name: 'Speed Demon', description: 'Score 100 points on max speed', game: 'Snake Classic' }
-  ],
-  vortexPong: [
-    { id: 'pong_first_point', name: 'First Strike', description: 'Score your first point', game: 'Vortex Pong' },
-    { id: 'pong_beat_ai', name: 'AI Destroyer', description: 'Defeat the AI opponent', game: 'Vortex Pong' },
-    { id: 'pong_perfect_game', name: 'Flawless Victory', description: 'Win without losing a point', game: 'Vortex Pong' },
-    { id: 'pong_multi_ball', name: 'Ball Juggler', description: 'Handle 3 balls simultaneously', game: 'Vortex Pong' },
-    { id: 'pong_combo_king', name: 'Combo King', description: 'Score 5 consecutive paddle hits', game: 'Vortex Pong' },
-    { id: 'pong_rally_master', name: 'Rally Master', description: '20 hits in a single rally', game: 'Vortex Pong' }
-  ],
-  matrixCloud: [
-    { id: 'cloud_first_flight', name: 'Digital Pilot', description: 'Complete your first flight', game: 'Matrix Cloud' },
-    { id: 'cloud_level_5', name: 'Matrix Navigator', description: 'Reach level 5', game: 'Matrix Cloud' },
-    { id: 'cloud_boss_slayer', name: 'Agent Destroyer', description: 'Defeat your first boss', game: 'Matrix Cloud' },
-    { id: 'cloud_power_collector', name: 'Power Seeker', description: 'Collect 20 power-ups', game: 'Matrix Cloud' },
-    { id: 'cloud_architect_defeat', name: 'Architect\'s Bane', description: 'Defeat the Architect', game: 'Matrix Cloud' },
-    { id: 'cloud_all_bosses', name: 'Boss Master', description: 'Defeat all three bosses', game: 'Matrix Cloud' },
-    { id: 'cloud_high_flyer', name: 'High Flyer', description: 'Reach altitude 1000', game: 'Matrix Cloud' }
-  ],
-  matrixInvaders: [
-    { id: 'invaders_first_kill', name: 'Code Breaker', description: 'Destroy your first invader', game: 'Matrix Invaders' },
-    { id: 'invaders_wave_5', name: 'Wave Survivor', description: 'Reach wave 5', game: 'Matrix Invaders' },
-    { id: 'invaders_combo_10', name: 'Combo Master', description: 'Achieve a 10x combo', game: 'Matrix Invaders' },
-    { id: 'invaders_bullet_time', name: 'Time Bender', description: 'Use bullet time 5 times', game: 'Matrix Invaders' },
-    { id: 'invaders_perfect_wave', name: 'Flawless Defense', description: 'Complete a wave without taking damage', game: 'Matrix Invaders' },
-    { id: 'invaders_boss_defeat', name: 'System Override', description: 'Defeat a boss enemy', game: 'Matrix Invaders' },
-    { id: 'invaders_high_score', name: 'Elite Hacker', description: 'Score over 10,000 points', game: 'Matrix Invaders' }
-  ],
-  ctrlSWorld: [
-    { id: 'ctrl_coffee_addict', name: 'Caffeine Dependent', description: 'Reach 100% coffee level', game: 'CTRL-S World' },
-    { id: 'ctrl_clean_coder', name: 'Clean Code Master', description: 'Achieve 90+ code quality', game: 'CTRL-S World' },
-    { id: 'ctrl_choice_master', name: 'Decision Maker', description: 'Make 50 choices', game: 'CTRL-S World' },
-    { id: 'ctrl_story_complete', name: 'Epic Journey', description: 'Complete the main storyline', game: 'CTRL-S World' },
-    { id: 'ctrl_collector', name: 'Item Hoarder', description: 'Collect 10 different items', game: 'CTRL-S World' },
-    { id: 'ctrl_voice_master', name: 'Voice Commander', description: 'Use Shatner voice for 5 minutes', game: 'CTRL-S World' },
-    { id: 'ctrl_bug_free', name: 'Bug Free', description: 'Achieve 0 bugs', game: 'CTRL-S World' }
-  ],
-  metris: [
-    { id: 'first_line', name: 'First Steps', description: 'Clear your first line', game: 'Metris' },
-    { id: 'tetris', name: 'Tetris Master', description: 'Clear 4 lines at once', game: 'Metris' },
-    { id: 'level_10', name: 'Speed Demon', description: 'Reach level 10', game: 'Metris' },
-    { id: 'high_roller', name: 'High Roller', description: 'Score 10,000 points', game: 'Metris' },
-    { id: 'neos_apprentice', name: 'Neo\'s Apprentice', description: 'Use Bullet Time 10 times', game: 'Metris' },
-    { id: 'line_clearer', name: 'Line Clearer', description: 'Clear 100 total lines', game: 'Metris' },
-    { id: 'marathon_runner', name: 'Marathon Runner', description: 'Survive for 10 minutes', game: 'Metris' },
-    { id: 'combo_king', name: 'Combo King', description: 'Achieve 5x combo multiplier', game: 'Metris' },
-    { id: 'perfect_start', name: 'Perfect Start', description: 'No game over before level 5', game: 'Metris' },
-    { id: 'architect', name: 'Architect', description: 'Build to 18 rows without clearing', game: 'Metris' },
-    { id: 't_spin_master', name: 'T-Spin Master', description: 'Perform 5 T-spins', game: 'Metris' },
-    { id: 'immortal', name: 'Immortal', description: 'Reach level 20', game: 'Metris' }
-  ]
+// Snapshot a save that is about to be replaced (the loaded history mirrors storage).
+// Forced snapshots are taken even inside the snapshot interval.
+const pushSnapshot = (data: unknown, { createdAt, force = false }: { createdAt?: number; force?: boolean } = {}) => {
+  const history = getSaveStore().getState().history;
+  const next = addSnapshot(history, data, createdAt, force);
+  if (next === history) return;
+
+  saveStorage.set('saveHistory', next);
+  setHistory(next);
 };
 
-// Global achievements (meta achievements)
-export const GLOBAL_ACHIEVEMENTS: Achievement[] = [
-  { id: 'global_first_game', name: 'Welcome to the Matrix', description: 'Play your first game' },
-  { id: 'global_all_games', name: 'Matrix Master', description: 'Play all 5 games' },
-  { id: 'global_10_achievements', name: 'Achievement Hunter', description: 'Unlock 10 achievements' },
-  { id: 'global_25_achievements', name: 'Achievement Expert', description: 'Unlock 25 achievements' },
-  { id: 'global_50_achievements', name: 'Achievement Legend', description: 'Unlock 50 achievements' },
-  { id: 'global_night_owl', name: 'Night Owl', description: 'Play after midnight' },
-  { id: 'global_dedicated', name: 'Dedicated Player', description: 'Play 7 days in a row' }
-];
+// Check the stored save against its signatures and flag anything edited outside the arcade
+const verifyStoredSave = async (data: GlobalSaveData) => {
+  const generation = loadGeneration;
+  const profileId = getActiveProfileId();
+  // Verification is async; it must not write into whatever has been loaded since
+  const isStale = () => generation !== loadGeneration || getActiveProfileId() !== profileId;
 
-const STORAGE_KEY = 'matrix-arcade-save-data';
-const BACKUP_KEY = 'matrix-arcade-backup';
+  try {
+    await pendingSignature;
+    if (isStale()) return;
+    const signatures = saveStorage.get('saveIntegrity');
 
-export function useSaveSystem() {
-  const [saveData, setSaveData] = useState<GlobalSaveData>(createDefaultGlobalSave);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Load save data from localStorage
-  const loadSaveData = useCallback(() => {
-    try {
-      setIsLoading(true);
-      const stored = localStorage.getItem(STORAGE_KEY);
+    // Saves from before signing existed are trusted once and signed from now on
+    if (!signatures && !saveStorage.get('integrityKey')) {
+      await queueSignature(data);
+      setIntegrity(CLEAN_REPORT);
+      return;
+    }
+
+    const report = await verifySaveData(data, isSaveSignatures(signatures) ? signatures : null);
+    if (isStale()) return;
+    setIntegrity(report);
+
+    if (report.status !== 'verified') {
+      console.warn('Save data failed its integrity check:', report);
+      const flagged = markModified(data, report);
+      if (flagged !== data) {
+        // Re-sign with the flags in place so they survive the next load
+        saveStorage.set('saveData', flagged);
+        queueSignature(flagged);
+        setSaveData(prev => markModified(prev, report));
+      }
+    }
+  } catch (err) {
+    console.error('Failed to verify save data:', err);
+  }
+};
+
+// Load save data from storage
+const loadSaveData = () => {
+  loadGeneration++;
+  loadedProfileId = getActiveProfileId();
+  try {
+    getSaveStore().setState({ isLoading: true });
+    const stored = saveStorage.get('saveData');
+    setHistory(saveStorage.get('saveHistory') ?? []);
+    
+    // Move the old single-slot backup into history
+    const legacyBackup = saveStorage.get('saveBackup');
+    if (legacyBackup) {
+      const backupDate = (stored as GlobalSaveData | null)?.settings?.lastBackupDate;
+      pushSnapshot(legacyBackup, { createdAt: typeof backupDate === 'number' ? backupDate : undefined });
+      saveStorage.remove('saveBackup');
+    }
+    
+    if (stored) {
+      // Upgrade older saves and fill any missing fields from defaults
+      const { data, fromVersion, migrated } = migrateSaveData(stored);
+      const folded = foldLegacyHighScores(data);
       
-      if (stored) {
-        const parsed = JSON.parse(stored) as GlobalSaveData;
-        
-        // Version migration if needed
-        if (parsed.version !== '1.0.0') {
-          console.log('Migrating save data from version', parsed.version, 'to 1.0.0');
-          // Add migration logic here in the future
-        }
-        
-        // Merge with defaults to ensure all properties exist
-        const mergedData = {
-          ...createDefaultGlobalSave(),
-          ...parsed,
-          games: {
-            ...createDefaultGlobalSave().games,
-            ...parsed.games
-          }
-        };
-        
-        setSaveData(mergedData);
-      } else {
-        // First time setup
-        const defaultData = createDefaultGlobalSave();
-        setSaveData(defaultData);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultData));
+      if (migrated) {
+        console.log('Migrated save data from version', fromVersion, 'to', data.version);
+        // Keep the pre-migration save in history in case anything went wrong
+        pushSnapshot(stored, { force: true });
+      }
+      if (migrated || folded) {
+        saveStorage.set('saveData', folded ?? data);
       }
       
-      setError(null);
-    } catch (err) {
-      console.error('Failed to load save data:', err);
-      setError('Failed to load save data');
-      setSaveData(createDefaultGlobalSave());
-    } finally {
-      setIsLoading(false);
+      setSaveData(folded ?? data);
+      verifyStoredSave(folded ?? data);
+    } else {
+      // First time setup (picking up any scores saved before the unified save existed)
+      const defaultData = createDefaultGlobalSave();
+      const initialData = foldLegacyHighScores(defaultData) ?? defaultData;
+      setSaveData(initialData);
+      saveStorage.set('saveData', initialData);
+      queueSignature(initialData);
+      setIntegrity(CLEAN_REPORT);
     }
-  }, []);
+    
+    setError(null);
+  } catch (err) {
+    console.error('Failed to load save data:', err);
+    setError('Failed to load save data');
+    setSaveData(createDefaultGlobalSave());
+  } finally {
+    getSaveStore().setState({ isLoading: false });
+  }
+};
 
-  // Save data to localStorage
-  const saveToDisk = useCallback((data: GlobalSaveData) => {
-    try {
-      // Create backup before saving
-      const currentData = localStorage.getItem(STORAGE_KEY);
+// Save data to storage
+const saveToDisk = (data: GlobalSaveData) => {
+  try {
+    // Snapshot the save being replaced, unless the last snapshot is too recent
+    if (isSnapshotDue(getSaveStore().getState().history)) {
+      const currentData = saveStorage.get('saveData');
       if (currentData) {
-        localStorage.setItem(BACKUP_KEY, currentData);
+        pushSnapshot(currentData);
       }
-      
-      // Save new data
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-      
-      // Update backup date
-      data.settings.lastBackupDate = Date.now();
-      
-      setError(null);
-      return true;
-    } catch (err) {
-      console.error('Failed to save data:', err);
-      setError('Failed to save data');
-      return false;
     }
-  }, []);
+    
+    // Save new data
+    saveStorage.set('saveData', data);
+    queueSignature(data);
+    
+    // Update backup date
+    data.settings.lastBackupDate = Date.now();
+    
+    setError(null);
+    return true;
+  } catch (err) {
+    console.error('Failed to save data:', err);
+    setError('Failed to save data');
+    return false;
+  }
+};
 
-  // Update game save data
-  const updateGameSave = useCallback((gameId: keyof GlobalSaveData['games'], updates: Partial<GameSaveData>) => {
-    setSaveData(prev => {
-      const newData = {
-        ...prev,
-        games: {
-          ...prev.games,
-          [gameId]: {
-            ...prev.games[gameId],
-            ...updates,
-            lastPlayed: Date.now()
-          }
+// Apply a change to the shared save, announcing unlocks and auto-saving when it changed anything
+const commitSaveData = (update: (prev: GlobalSaveData) => GlobalSaveData) => {
+  const prev = getSaveStore().getState().saveData;
+  const newData = update(prev);
+  if (newData === prev) return;
+
+  announceUnlocks(prev, newData);
+  if (newData.settings.autoSave) {
+    saveToDisk(newData);
+  }
+  setSaveData(newData);
+};
+
+// Update game save data. Pass a function to build the update from the game's
+// current save, so a game adding to its stats needn't re-render on every save write.
+const updateGameSave = (
+  gameId: keyof GlobalSaveData['games'],
+  updates: Partial<GameSaveData> | ((game: GameSaveData) => Partial<GameSaveData>)
+) => {
+  commitSaveData(prev =>
+    // New scores can satisfy score-based achievements
+    settleAchievements({
+      ...prev,
+      games: {
+        ...prev.games,
+        [gameId]: {
+          ...prev.games[gameId],
+          ...(typeof updates === 'function' ? updates(prev.games[gameId]) : updates),
+          lastPlayed: Date.now()
         }
-      };
-      
-      if (newData.settings.autoSave) {
-        saveToDisk(newData);
       }
-      
-      return newData;
-    });
-  }, [saveToDisk]);
-
-  // Unlock achievement
-  const unlockAchievement = useCallback((gameId: keyof GlobalSaveData['games'], achievementId: string) => {
-    setSaveData(prev => {
-      // Ensure the game data exists
-      if (!prev.games[gameId]) {
-        prev.games[gameId] = {
-          highScore: 0,
-          totalScore: 0,
-          gamesPlayed: 0,
-          achievements: [],
+    }, achievementDefinitions(), achievementRuntime)
+  );
+};
+
+// Unlock achievement
+const unlockAchievement = (gameId: keyof GlobalSaveData['games'], achievementId: string) => {
+  commitSaveData(prev => {
+    // Ensure the game data exists
+    const game = prev.games[gameId] ?? createDefaultGameSave();
+    const currentAchievements = game.achievements || [];
+
+    if (currentAchievements.includes(achievementId)) {
+      return prev;
+    }
+
+    // Unlock counts feed the "unlock N achievements" milestones
+    return settleAchievements({
+      ...prev,
+      games: {
+        ...prev.games,
+        [gameId]: {
+          ...game,
+          achievements: [...currentAchievements, achievementId],
+          unlocks: addUnlockRecords(game.unlocks, [achievementId], createUnlockRecord(achievementRuntime, gameId)),
           lastPlayed: Date.now()
-        };
+        }
       }
+    }, achievementDefinitions(), achievementRuntime);
+  });
+};
 
-      const currentAchievements = prev.games[gameId].achievements || [];
-
-      if (!currentAchievements.includes(achievementId)) {
-        const newData = {
-          ...prev,
-          games: {
-            ...prev.games,
-            [gameId]: {
-              ...prev.games[gameId],
-              achievements: [...currentAchievements, achievementId],
-              lastPlayed: Date.now()
-            }
-          }
-        };
+// Add a finished run to a game's high score table for a mode
+const submitHighScore = (gameId: GameSaveKey, mode: string, entry: HighScoreEntry) => {
+  commitSaveData(prev => recordHighScore(prev, gameId, mode, entry));
+
+  // Shared as well when a leaderboard service is configured; queued if it's unreachable
+  const leaderboard = getLeaderboardClient();
+  if (leaderboard) {
+    hashReplay({ gameId, mode, ...entry })
+      .then(replayHash => leaderboard.submit({
+        gameId, mode, score: entry.score, initials: entry.initials, seed: entry.seed, replayHash
+      }))
+      .catch(error => console.error('Leaderboard submit failed:', error));
+  }
+};
+
+// Replace a game's remapped keys; null puts it back on the defaults
+const setKeyBindings = (gameId: GameSaveKey, bindings: KeyBindings | null) => {
+  commitSaveData(prev => {
+    const keyBindings = { ...prev.settings.keyBindings };
+    if (bindings) {
+      keyBindings[gameId] = bindings;
+    } else {
+      delete keyBindings[gameId];
+    }
+    return { ...prev, settings: { ...prev.settings, keyBindings } };
+  });
+};
+
+// Update global stats
+const updateGlobalStats = (updates: Partial<GlobalSaveData['globalStats']>) => {
+  commitSaveData(prev => ({
+    ...prev,
+    globalStats: {
+      ...prev.globalStats,
+      ...updates
+    }
+  }));
+};
+
+// Choose the challenge the player is attempting, or null to stop attempting one
+const armChallenge = (challenge: ActiveChallenge | null) => {
+  armChallengeRuntime(challengeRuntime, challenge);
+};
+
+const announceChallenge = (challenge: ActiveChallenge) => {
+  achievementNotifications.notify({
+    id: challenge.key,
+    name: `${challenge.period === 'daily' ? 'Daily' : 'Weekly'} challenge: ${challenge.title}`,
+    description: challenge.description,
+    icon: '🎯',
+    priority: TIER_POINTS[challenge.period === 'daily' ? 'silver' : 'gold']
+  });
+};
+
+// Report a game event; counters and progress update and any achievement whose condition is now met unlocks
+const recordGameEvent = (event: GameEvent) => {
+  const definitions = achievementDefinitions();
+  trackRuntimeEvent(achievementRuntime, definitions, event);
+  const challenge = trackChallengeEvent(challengeRuntime, event);
+  // A challenge already completed this period is not recorded or announced again
+  const completed = challenge && !isChallengeCompleted(getSaveStore().getState().saveData, challenge) ? challenge : null;
+
+  commitSaveData(prev => {
+    const counted = recordPlayStats(applyEventToSave(prev, definitions, event), event);
+    // Recorded before settling so a new streak can unlock its achievement straight away
+    const withChallenge = completed ? recordChallengeCompletion(counted, completed) : counted;
+    return settleAchievements(withChallenge, definitions, achievementRuntime);
+  });
+  if (completed) {
+    announceChallenge(completed);
+  }
+};
+
+// Export save data
+const exportSaveData = async () => {
+  try {
+    const { saveData } = getSaveStore().getState();
+    const integrity = await signSaveData(saveData);
+    const dataStr = JSON.stringify({ ...saveData, integrity }, null, 2);
+    const dataBlob = new Blob([dataStr], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `matrix-arcade-save-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    
+    URL.revokeObjectURL(url);
+    return true;
+  } catch (err) {
+    console.error('Failed to export save data:', err);
+    setError('Failed to export save data');
+    return false;
+  }
+};
+
+// Read and validate a save file without applying it
+const previewImport = (file: File) => {
+  return new Promise<SaveImportPreview | null>((resolve) => {
+    const reader = new FileReader();
+    
+    reader.onload = async (e) => {
+      try {
+        const content = e.target?.result as string;
+        const { data: unsigned, signatures } = splitSignedSave(JSON.parse(content));
+        const { data, report } = repairSaveData(unsigned);
         
-        if (newData.settings.autoSave) {
-          saveToDisk(newData);
+        // Edited or unsigned scores are imported but marked as modified
+        let integrity: SaveIntegrityReport | null = null;
+        if (!report.fatal) {
+          try {
+            integrity = await verifySaveData(data, signatures);
+          } catch (err) {
+            console.warn('Could not check save file integrity:', err);
+          }
         }
+        const repaired = integrity ? markModified(data, integrity) : data;
         
-        return newData;
-      }
-      
-      return prev;
-    });
-  }, [saveToDisk]);
-
-  // Update global stats
-  const updateGlobalStats = useCallback((updates: Partial<GlobalSaveData['globalStats']>) => {
-    setSaveData(prev => {
-      const newData = {
-        ...prev,
-        globalStats: {
-          ...prev.globalStats,
-          ...updates
+        if (report.fatal) {
+          setError(`Failed to import save data: ${report.fatal}`);
+        } else {
+          setError(null);
         }
-      };
-      
-      if (newData.settings.autoSave) {
-        saveToDisk(newData);
+        
+        resolve({
+          fileName: file.name,
+          report,
+          repaired,
+          diff: report.fatal ? [] : diffSaveData(getSaveStore().getState().saveData, repaired),
+          integrity
+        });
+      } catch (err) {
+        console.error('Failed to import save data:', err);
+        setError('Failed to import save data: Invalid file format');
+        resolve(null);
       }
-      
-      return newData;
-    });
-  }, [saveToDisk]);
-
-  // Export save data
-  const exportSaveData = useCallback(() => {
-    try {
-      const dataStr = JSON.stringify(saveData, null, 2);
-      const dataBlob = new Blob([dataStr], { type: 'application/json' });
-      const url = URL.createObjectURL(dataBlob);
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `matrix-arcade-save-${new Date().toISOString().split('T')[0]}.json`;
-      link.click();
-      
-      URL.revokeObjectURL(url);
-      return true;
-    } catch (err) {
-      console.error('Failed to export save data:', err);
-      setError('Failed to export save data');
-      return false;
-    }
-  }, [saveData]);
+    };
+    
+    reader.onerror = () => {
+      setError('Failed to read save file');
+      resolve(null);
+    };
+    
+    reader.readAsText(file);
+  });
+};
 
-  // Import save data
-  const importSaveData = useCallback((file: File) => {
-    return new Promise<boolean>((resolve) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const content = e.target?.result as string;
-          const imported = JSON.parse(content) as GlobalSaveData;
-          
-          // Validate imported data structure
-          if (!imported.version || !imported.games) {
-            throw new Error('Invalid save file format');
-          }
-          
-          setSaveData(imported);
-          saveToDisk(imported);
-          resolve(true);
-        } catch (err) {
-          console.error('Failed to import save data:', err);
-          setError('Failed to import save data: Invalid file format');
-          resolve(false);
-        }
-      };
-      
-      reader.onerror = () => {
-        setError('Failed to read save file');
-        resolve(false);
-      };
-      
-      reader.readAsText(file);
-    });
-  }, [saveToDisk]);
+// Replace the current save with validated import data
+const applyImport = (data: GlobalSaveData) => {
+  setSaveData(data);
+  return saveToDisk(data);
+};
 
-  // Clear all save data
-  const clearSaveData = useCallback(() => {
-    try {
-      localStorage.removeItem(STORAGE_KEY);
-      localStorage.removeItem(BACKUP_KEY);
-      const defaultData = createDefaultGlobalSave();
-      setSaveData(defaultData);
+// Take in the result of a sync that started from `sent`. Play may have gone on while
+// the sync was in flight, so the current save is merged in again. The sync has already
+// flagged whatever failed validation; the rest is signed with this device's key on save.
+const applySyncedSave = (synced: GlobalSaveData, sent: GlobalSaveData, merge: SyncAdapter['merge'] = mergeSaves) => {
+  const current = getSaveStore().getState().saveData;
+  const data = current === sent ? synced : merge(current, synced, sent);
+
+  setSaveData(data);
+  return saveToDisk(data);
+};
+
+// Import save data; files with problems are rejected unless repair is requested
+const importSaveData = async (file: File, options: { repair?: boolean } = {}) => {
+  const preview = await previewImport(file);
+  if (!preview || preview.report.fatal) {
+    return false;
+  }
+  
+  if (!preview.report.valid && !options.repair) {
+    setError(`Save file has ${preview.report.issues.length} invalid field(s)`);
+    return false;
+  }
+  
+  return applyImport(preview.repaired);
+};
+
+// Clear all save data for the active profile: arcade saves, CTRL-S progress and settings
+const clearSaveData = () => {
+  try {
+    saveStorage.clear();
+    setError(null);
+    return true;
+  } catch (err) {
+    console.error('Failed to clear save data:', err);
+    setError('Failed to clear save data');
+    return false;
+  }
+};
+
+// Restore a snapshot from save history, snapshotting the current save first so the restore can be undone
+const restoreSnapshot = (snapshotId: string) => {
+  try {
+    const { history, saveData } = getSaveStore().getState();
+    const snapshot = history.find(s => s.id === snapshotId);
+    if (snapshot) {
+      const restored = restoreSnapshotData(snapshot);
+      pushSnapshot(saveData, { force: true });
+      setSaveData(restored);
+      saveToDisk(restored);
       setError(null);
       return true;
-    } catch (err) {
-      console.error('Failed to clear save data:', err);
-      setError('Failed to clear save data');
+    } else {
+      setError('Snapshot not found');
       return false;
     }
-  }, []);
+  } catch (err) {
+    console.error('Failed to restore snapshot:', err);
+    setError('Failed to restore snapshot');
+    return false;
+  }
+};
 
-  // Restore from backup
-  const restoreFromBackup = useCallback(() => {
-    try {
-      const backup = localStorage.getItem(BACKUP_KEY);
-      if (backup) {
-        const parsed = JSON.parse(backup) as GlobalSaveData;
-        setSaveData(parsed);
-        saveToDisk(parsed);
-        setError(null);
-        return true;
-      } else {
-        setError('No backup found');
-        return false;
-      }
-    } catch (err) {
-      console.error('Failed to restore from backup:', err);
-      setError('Failed to restore from backup');
-      return false;
+// What would change if the snapshot replaced the current save
+const compareSnapshot = (snapshotId: string) => {
+  const { history, saveData } = getSaveStore().getState();
+  const snapshot = history.find(s => s.id === snapshotId);
+  return snapshot ? diffSaveData(saveData, restoreSnapshotData(snapshot)) : null;
+};
+
+// Restore the most recent snapshot
+const restoreFromBackup = () => {
+  const { history } = getSaveStore().getState();
+  if (history.length === 0) {
+    setError('No backup found');
+    return false;
+  }
+  return restoreSnapshot(history[0].id);
+};
+
+// Manual save
+const saveNow = () => saveToDisk(getSaveStore().getState().saveData);
+
+// Get achievements for a game
+const getGameAchievements = (gameId: keyof GlobalSaveData['games']) => {
+  return GAME_ACHIEVEMENTS[gameId] || [];
+};
+
+// A reset from any consumer drops the in-memory save and history
+saveStorage.onClear(() => {
+  loadGeneration++;
+  getSaveStore().setState({ saveData: createDefaultGlobalSave(), history: [], integrity: null });
+});
+
+// The first consumer to mount loads the save, as does any mounted after a profile switch.
+// Once the last one unmounts the store starts over, so remounting reloads from storage.
+const useSaveStoreConsumer = () => {
+  useEffect(() => {
+    consumers++;
+    if (consumers === 1 || loadedProfileId !== getActiveProfileId()) {
+      loadSaveData();
     }
-  }, [saveToDisk]);
+    return () => {
+      consumers--;
+      if (consumers === 0) {
+        loadGeneration++;
+        loadedProfileId = null;
+        getSaveStore().setState(createInitialState());
+      }
+    };
+  }, []);
+};
+
+/**
+ * Reads one slice of the shared save. The component only re-renders when
+ * the selected value changes, so select objects from the save rather than
+ * building new ones.
+ */
+export function useSaveSelector<T>(selector: (data: GlobalSaveData) => T): T {
+  useSaveStoreConsumer();
+  return useSyncExternalStore(getSaveStore().subscribe, () => selector(getSaveStore().getState().saveData));
+}
+
+// A game's own save and the actions games use, without re-rendering on other games' saves
+export function useGameSave<K extends GameSaveKey>(gameId: K) {
+  const gameSave = useSaveSelector(data => data.games[gameId]);
+
+  return {
+    gameSave,
+    updateGameSave,
+    unlockAchievement,
+    recordGameEvent,
+    submitHighScore
+  };
+}
+
+export function useSaveSystem() {
+  useSaveStoreConsumer();
+  const { saveData, isLoading, error, history, integrity } = useSyncExternalStore(getSaveStore().subscribe, getSaveStore().getState);
 
-  // Manual save
-  const saveNow = useCallback(() => {
-    return saveToDisk(saveData);
-  }, [saveData, saveToDisk]);
+  const snapshots = useMemo(() => history.map(summariseSnapshot), [history]);
 
   // Get all achievements with unlock status
   const achievements = useMemo(() => {
@@ -422,57 +649,68 @@ export function useSaveSystem() {
     
     // Add game achievements
     Object.entries(GAME_ACHIEVEMENTS).forEach(([gameId, gameAchievements]) => {
+      const game = saveData.games[gameId as GameSaveKey];
+      const context = conditionContext(saveData, achievementRuntime, gameId as GameSaveKey);
+
       gameAchievements.forEach(achievement => {
-        const isUnlocked = saveData.games[gameId as keyof GlobalSaveData['games']]?.achievements.includes(achievement.id);
-        const unlockedAt = isUnlocked ? saveData.games[gameId as keyof GlobalSaveData['games']].lastPlayed : undefined;
+        const isUnlocked = game?.achievements.includes(achievement.id);
+        const unlock = isUnlocked ? game.unlocks?.[achievement.id] : undefined;
         
         allAchievements.push({
           ...achievement,
+          ...achievementProgress(achievement, !!isUnlocked, game?.achievementProgress, context),
           unlocked: isUnlocked,
-          unlockedAt
+          unlockedAt: unlock?.unlockedAt,
+          unlock
         });
       });
     });
     
     // Add global achievements
+    const globalContext = conditionContext(saveData, achievementRuntime, GLOBAL_OWNER);
     GLOBAL_ACHIEVEMENTS.forEach(achievement => {
       const isUnlocked = saveData.globalStats.globalAchievements.includes(achievement.id);
+      const unlock = isUnlocked ? saveData.globalStats.unlocks?.[achievement.id] : undefined;
       allAchievements.push({
         ...achievement,
+        ...achievementProgress(achievement, isUnlocked, saveData.globalStats.achievementProgress, globalContext),
         unlocked: isUnlocked,
-        unlockedAt: isUnlocked ? Date.now() : undefined
+        unlockedAt: unlock?.unlockedAt,
+        unlock
       });
     });
     
     return allAchievements;
   }, [saveData]);
 
-  // Get achievements for a game
-  const getGameAchievements = useCallback((gameId: keyof GlobalSaveData['games']) => {
-    return GAME_ACHIEVEMENTS[gameId] || [];
-  }, []);
-
   // Check if achievement is unlocked
   const isAchievementUnlocked = useCallback((gameId: keyof GlobalSaveData['games'], achievementId: string) => {
     return saveData.games[gameId].achievements.includes(achievementId);
   }, [saveData]);
 
-  // Load data on mount
-  useEffect(() => {
-    loadSaveData();
-  }, [loadSaveData]);
-
   return {
     saveData,
     isLoading,
     error,
+    integrity,
     achievements,
+    sessionId: achievementRuntime.sessionId,
     updateGameSave,
     unlockAchievement,
     updateGlobalStats,
+    recordGameEvent,
+    armChallenge,
+    submitHighScore,
+    setKeyBindings,
     exportSaveData,
     importSaveData,
+    previewImport,
+    applyImport,
+    applySyncedSave,
     clearSaveData,
+    snapshots,
+    restoreSnapshot,
+    compareSnapshot,
     restoreFromBackup,
     saveNow,
     getGameAchievements,
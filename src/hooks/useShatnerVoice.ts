@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { saveStorage } from '../utils/saveStorage';
 
 export interface ShatnerVoiceConfig {
   enabled: boolean;
@@ -75,9 +76,14 @@ const SHATNER_PATTERNS = {
 
 export function useShatnerVoice() {
   const [config, setConfig] = useState<ShatnerVoiceConfig>(() => {
-    const saved = localStorage.getItem('matrix-arcade-shatner-voice');
-    return saved ? { ...DEFAULT_CONFIG, ...JSON.parse(saved) } : DEFAULT_CONFIG;
+    const saved = saveStorage.get('shatnerVoice');
+    return saved ? { ...DEFAULT_CONFIG, ...saved } : DEFAULT_CONFIG;
   });
+
+  // Arcade-wide reset restores the default voice settings
+  useEffect(() => {
+    return saveStorage.onClear(() => setConfig(DEFAULT_CONFIG));
+  }, []);
   
   const [isSupported, setIsSupported] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -90,9 +96,9 @@ export function useShatnerVoice() {
     setIsSupported('speechSynthesis' in window && 'SpeechSynthesisUtterance' in window);
   }, []);
 
-  // Save config to localStorage
+  // Save config changes
   useEffect(() => {
-    localStorage.setItem('matrix-arcade-shatner-voice', JSON.stringify(config));
+    saveStorage.set('shatnerVoice', config);
   }, [config]);
 
   // Process text to add ULTIMATE Shatner-style pauses and emphasis
@@ -1,4 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { useGameInput } from './useGameInput';
+import { useGamePause } from './useGamePause';
+import type { GamePauseProps } from '../types/game';
 
 export type Position = { x: number; y: number };
 export type Direction = 'up' | 'down' | 'left' | 'right';
@@ -37,16 +40,21 @@ const INITIAL_SPEED = 150;
 const SPEED_INCREMENT = 5; // Speed up by 5ms every 50 points
 const MIN_SPEED = 50; // Fastest speed
 
-export function useSimpleSnakeGame() {
-  // Load high score from localStorage
-  const loadHighScore = () => {
-    try {
-      return parseInt(localStorage.getItem('simpleSnakeHighScore') || '0', 10);
-    } catch {
-      return 0;
-    }
-  };
-
+const POWER_UP_TYPES: PowerUpType[] = ['speed', 'double', 'shield', 'ghost'];
+const NONE_DISABLED: string[] = [];
+
+/**
+ * @param savedHighScore - High score from the save system; the hook keeps the best of this and the session
+ * @param disabledPowerUps - Power-ups that never spawn, e.g. while a challenge forbids them
+ * @param pause - The arcade's pause state, when played in the arcade
+ * @param onRunStart - Called as each new run starts (not when one resumes from pause)
+ */
+export function useSimpleSnakeGame(
+  savedHighScore = 0,
+  disabledPowerUps: string[] = NONE_DISABLED,
+  pause: GamePauseProps = {},
+  onRunStart?: () => void
+) {
   // Initial state
   const [gameState, setGameState] = useState<SnakeGameState>({
     snake: [{ x: 10, y: 10 }],
@@ -54,7 +62,7 @@ export function useSimpleSnakeGame() {
     direction: 'right',
     nextDirection: null,
     score: 0,
-    highScore: loadHighScore(),
+    highScore: savedHighScore,
     gameState: 'menu',
     speed: INITIAL_SPEED,
     foodEaten: 0,
@@ -62,6 +70,11 @@ export function useSimpleSnakeGame() {
     activePowerUps: {}
   });
 
+  // The save loads after mount, so pick up its high score once it arrives
+  useEffect(() => {
+    setGameState(prev => (savedHighScore > prev.highScore ? { ...prev, highScore: savedHighScore } : prev));
+  }, [savedHighScore]);
+
   // Refs for game loop
   const gameLoopRef = useRef<NodeJS.Timeout | null>(null);
   const lastMoveTime = useRef<number>(0);
@@ -95,7 +108,8 @@ export function useSimpleSnakeGame() {
     // 15% chance to spawn a power-up
     if (Math.random() > 0.15) return undefined;
 
-    const types: PowerUpType[] = ['speed', 'double', 'shield', 'ghost'];
+    const types = POWER_UP_TYPES.filter(type => !disabledPowerUps.includes(type));
+    if (types.length === 0) return undefined;
     const type = types[Math.floor(Math.random() * types.length)];
 
     const available: Position[] = [];
@@ -119,7 +133,7 @@ export function useSimpleSnakeGame() {
     }
 
     return undefined;
-  }, []);
+  }, [disabledPowerUps]);
 
   // Get next position based on direction
   const getNextPosition = (head: Position, direction: Direction): Position => {
@@ -204,9 +218,6 @@ export function useSimpleSnakeGame() {
         } else {
           // Game over
           const newHighScore = Math.max(prev.score, prev.highScore);
-          if (newHighScore > prev.highScore) {
-            localStorage.setItem('simpleSnakeHighScore', newHighScore.toString());
-          }
           return {
             ...prev,
             gameState: 'gameOver',
@@ -315,19 +326,21 @@ export function useSimpleSnakeGame() {
       powerUp: undefined,
       activePowerUps: {}
     }));
-  }, [generateFood]);
+    onRunStart?.();
+  }, [generateFood, onRunStart]);
 
-  // Pause/Resume game
-  const togglePause = useCallback(() => {
+  // Pause/Resume game; only a game in progress can be paused
+  const setPaused = useCallback((paused: boolean) => {
     setGameState(prev => {
-      if (prev.gameState === 'playing') {
+      if (paused && prev.gameState === 'playing') {
         return { ...prev, gameState: 'paused' };
-      } else if (prev.gameState === 'paused') {
+      } else if (!paused && prev.gameState === 'paused') {
         return { ...prev, gameState: 'playing' };
       }
       return prev;
     });
   }, []);
+  const togglePause = useGamePause(pause, gameState.gameState === 'paused', setPaused);
 
   // Change direction
   const changeDirection = useCallback((newDirection: Direction) => {
@@ -379,35 +392,28 @@ export function useSimpleSnakeGame() {
     };
   }, [gameState.gameState, gameState.speed, moveSnake]);
 
-  // Handle keyboard input
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      // Prevent default for game keys
-      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'w', 'a', 's', 'd', ' ', 'Enter'].includes(e.key)) {
-        e.preventDefault();
-      }
-
-      // Direction controls
-      if (e.key === 'ArrowUp' || e.key === 'w') changeDirection('up');
-      else if (e.key === 'ArrowDown' || e.key === 's') changeDirection('down');
-      else if (e.key === 'ArrowLeft' || e.key === 'a') changeDirection('left');
-      else if (e.key === 'ArrowRight' || e.key === 'd') changeDirection('right');
+  // Controls come through the input manager so they follow the player's key bindings
+  useGameInput('snakeClassic', ({ action, pressed }) => {
+    if (!pressed) return;
 
-      // Game controls
-      else if (e.key === ' ') {
-        if (gameState.gameState === 'playing' || gameState.gameState === 'paused') {
-          togglePause();
-        }
-      } else if (e.key === 'Enter') {
-        if (gameState.gameState === 'menu' || gameState.gameState === 'gameOver') {
-          startGame();
-        }
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [gameState.gameState, changeDirection, togglePause, startGame]);
+    switch (action) {
+      case 'up':
+      case 'down':
+      case 'left':
+      case 'right':
+        changeDirection(action);
+        break;
+      case 'pause':
+        // Also starts from the menu and returns to it from the game over screen
+        if (gameState.gameState === 'playing' || gameState.gameState === 'paused') togglePause();
+        else if (gameState.gameState === 'menu') startGame();
+        else resetGame();
+        break;
+      case 'confirm':
+        if (gameState.gameState === 'menu' || gameState.gameState === 'gameOver') startGame();
+        break;
+    }
+  }, !pause.paused);
 
   return {
     gameState,
@@ -6,6 +6,7 @@
  */
 
 import { useCallback, useRef, useState, useEffect, useMemo } from 'react';
+import { saveStorage } from '../utils/saveStorage';
 
 export interface SoundConfig {
   music: boolean;
@@ -214,9 +215,14 @@ const MUSIC_SEQUENCES = {
 
 export function useSoundSystem() {
   const [config, setConfig] = useState<SoundConfig>(() => {
-    const saved = localStorage.getItem('matrix-arcade-audio-config');
-    return saved ? { ...DEFAULT_CONFIG, ...JSON.parse(saved) } : DEFAULT_CONFIG;
+    const saved = saveStorage.get('audioConfig');
+    return saved ? { ...DEFAULT_CONFIG, ...saved } : DEFAULT_CONFIG;
   });
+
+  // Arcade-wide reset restores the default mix
+  useEffect(() => {
+    return saveStorage.onClear(() => setConfig(DEFAULT_CONFIG));
+  }, []);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const musicSourceRef = useRef<AudioBufferSourceNode | null>(null);
@@ -501,7 +507,7 @@ export function useSoundSystem() {
   const updateConfig = useCallback((newConfig: Partial<SoundConfig>) => {
     const updated = { ...config, ...newConfig };
     setConfig(updated);
-    localStorage.setItem('matrix-arcade-audio-config', JSON.stringify(updated));
+    saveStorage.set('audioConfig', updated);
 
     // Update gain nodes if they exist
     if (masterGainRef.current && updated.masterVolume !== config.masterVolume) {
@@ -0,0 +1,30 @@
+import type { GameSaveKey } from '../data/gameRegistry';
+import type { AchievementCondition, CounterCondition } from './game';
+
+export type ChallengePeriod = 'daily' | 'weekly';
+
+// Rule changes a game applies while a challenge is being attempted
+export interface ChallengeModifiers {
+  disabledPowerUps?: string[];
+}
+
+// A challenge objective. Goal and forbidden counters are counted over a
+// single run of the game, whatever scope they name.
+export interface ChallengeDefinition {
+  id: string;
+  gameId: GameSaveKey;
+  title: string;
+  description: string;
+  goal: AchievementCondition;
+  timeLimitSeconds?: number;          // The goal must be met this soon after the run starts
+  forbidden?: CounterCondition[];     // Any of these during the run fails it
+  modifiers?: ChallengeModifiers;
+}
+
+// A challenge drawn for a particular day or week
+export interface ActiveChallenge extends ChallengeDefinition {
+  key: string;                        // Unique per period, e.g. "daily-2026-10-19:metris_line_rush"
+  period: ChallengePeriod;
+  periodKey: string;
+  endsAt: number;
+}
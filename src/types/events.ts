@@ -0,0 +1,36 @@
+import type { GameSaveKey } from '../data/gameRegistry';
+
+// Payload carried by each event games report to the achievement engine.
+// Numeric fields can be summed or maxed by achievement conditions; string
+// and boolean fields can be used to filter.
+export interface GameEventMap {
+  game_started: Record<never, never>;      // Opened from the arcade
+  run_started: Record<never, never>;       // A new run began; session counters reset
+  game_over: { score: number; durationSeconds: number };
+  run_quit: { score: number; durationSeconds: number };  // A run left unfinished by restarting or quitting the game
+  game_paused: Record<never, never>;       // Reported by the arcade as its pause menu opens
+  game_resumed: Record<never, never>;      // ...and as it closes, or the game is left while paused
+  score: { score: number };                 // Running score of the current run
+  level_reached: { level: number };
+  line_cleared: { lines: number };
+  combo: { multiplier: number };
+  bullet_time_used: Record<never, never>;
+  power_up_collected: { powerUp: string };
+  enemy_destroyed: Record<never, never>;
+  wave_completed: { wave: number };
+  boss_defeated: { boss: string };
+  match_won: { pointsConceded: number };
+  rally: { hits: number };                  // Running hit count of the current rally
+  balls_in_play: { balls: number };
+  choice_made: { choices: number; health: number; security: number; items: number; fullHealth: boolean; allItems: boolean };
+  combat_won: Record<never, never>;
+  ending_reached: { ending: string; choices: number; combats: number; damageTaken: number };
+  puzzle_solved: { puzzle: string; solved: number; assisted: boolean };   // `solved`: distinct puzzles solved so far
+  play_time: { minutes: number };           // Reported by the arcade when a game is closed
+}
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEvent<T extends GameEventType = GameEventType> = T extends GameEventType
+  ? { type: T; gameId: GameSaveKey } & GameEventMap[T]
+  : never;
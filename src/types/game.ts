@@ -1,7 +1,126 @@
-export interface Game {
+import type React from 'react';
+import type { GameEvent, GameEventType } from './events';
+import type { AchievementUnlock } from './save';
+import type { ActiveChallenge } from './challenge';
+
+// Achievement definition (unlock state is filled in by the save system)
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  game?: string;
+  unlocked?: boolean;
+  unlockedAt?: number;
+  progress?: number;
+  maxProgress?: number;
+  condition?: AchievementCondition;   // Unlocked by the achievement engine when met
+  unlock?: AchievementUnlock;         // How it was earned, when that was recorded
+  points?: number;                    // Gamerscore value; defaults from the tier
+  visibility?: AchievementVisibility;
+  tier?: AchievementTier;
+  previousTier?: string;              // Tier below in the same chain; must unlock first
+}
+
+// hidden: listed, but name and description stay masked until unlocked
+// secret: not listed at all until unlocked
+export type AchievementVisibility = 'visible' | 'hidden' | 'secret';
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
+// Where a counter accumulates: one run of a game, one visit to the arcade, or forever
+export type CounterScope = 'session' | 'visit' | 'lifetime';
+
+// Matches an event field exactly, or a numeric field strictly below a bound
+export type WhereValue = string | number | boolean | { below: number };
+
+// Aggregates events of one type: counts them, or sums/maxes a numeric field
+export interface CounterCondition {
+  type: 'counter';
+  event: GameEventType;
+  field?: string;
+  aggregate?: 'sum' | 'max';
+  where?: Record<string, WhereValue>;
+  scope?: CounterScope;               // Defaults to lifetime
+  target: number;
+}
+
+// Figures derived from the whole save rather than from events
+export type ArcadeMetric =
+  | 'achievementsUnlocked'
+  | 'combinedHighScore'
+  | 'totalGamesPlayed'
+  | 'gamesTriedPercent'
+  | 'dailyChallengeStreak';            // Longest run of days with a daily challenge completed
+
+export interface MetricCondition {
+  type: 'metric';
+  metric: ArcadeMetric;
+  target: number;
+}
+
+export interface CompoundCondition {
+  type: 'all' | 'any';
+  conditions: AchievementCondition[];
+}
+
+export type AchievementCondition = CounterCondition | MetricCondition | CompoundCondition;
+
+// Minimal achievement manager contract handed to every game
+export interface GameAchievementManager {
+  unlockAchievement(gameId: string, achievementId: string): void;
+  emit(event: GameEvent): void;
+}
+
+// The arcade's pause protocol. From its pause menu the arcade restarts a game
+// by remounting it and quits it by unmounting it; a game reports the run it
+// was in the middle of as it goes (see useRunReport). onRestart and onQuit
+// give the game's own screens the same two commands.
+export interface GamePauseProps {
+  paused?: boolean;       // The arcade's pause menu is open: hold still and ignore input
+  onPause?: () => void;   // Opens the pause menu, for the game's own pause key and button
+  onRestart?: () => void; // Starts the game afresh, as the pause menu's restart does
+  onQuit?: () => void;    // Leaves the game for the carousel, as the pause menu's quit does
+}
+
+// A way to play a game other than its standard rules, e.g. Metris' 40-line sprint
+export interface GameMode {
+  id: string;           // As written in links: /play/metris?mode=sprint
+  label: string;
+  description: string;
+}
+
+// How the arcade was asked to start a game, usually by a link
+export interface GameLaunchOptions {
+  mode: string;         // 'standard' or one of the game's own modes
+  seed?: string;        // Games with random draws make them from this, so a link replays the same run
+}
+
+// Props every registered game component accepts
+export interface GameComponentProps extends GamePauseProps {
+  achievementManager?: GameAchievementManager;
+  isMuted?: boolean;
+  onExit?: () => void;
+  challenge?: ActiveChallenge;   // The challenge being attempted; games apply its modifiers
+  options?: GameLaunchOptions;   // Games without modes or random draws can ignore these
+}
+
+// Feature flags the arcade shell uses to decide what to show for a game
+export interface GameCapabilities {
+  highScore: boolean;   // Game records a numeric high score
+  levels: boolean;      // Game has levels/waves that progress
+  muteControl: boolean; // Game honours the isMuted prop
+}
+
+export interface Game<SaveKey extends string = string> {
   id: string;
   title: string;
   description: string;
-  icon: React.ComponentType;
-  component: React.ComponentType<{ onExit?: () => void }>;
-}
\ No newline at end of file
+  icon: React.ComponentType<{ className?: string }>;
+  preview: string;
+  component: React.ComponentType<GameComponentProps>;
+  saveKey: SaveKey;
+  achievements: Achievement[];
+  capabilities: GameCapabilities;
+  modes?: readonly GameMode[];   // The game's own modes, besides standard play and challenges
+}
@@ -0,0 +1,64 @@
+import type { GameSaveKey } from '../data/gameRegistry';
+
+// Controls games respond to, whatever keys they happen to be bound to
+export type InputAction =
+  | 'up' | 'down' | 'left' | 'right'        // Movement
+  | 'rotate' | 'rotateBack' | 'drop' | 'hold'
+  | 'fire' | 'jump' | 'special'
+  | 'pause' | 'confirm'
+  | 'inventory' | 'fullscreen' | 'help'
+  | 'exit' | 'achievements' | 'mute';       // Arcade menu
+
+// Whose bindings apply: a game's, the arcade's own controls, or an on-screen
+// menu such as initials entry that takes over from whatever is underneath
+export type InputContext = GameSaveKey | 'arcade' | 'menu';
+
+// Keys are KeyboardEvent.code values, e.g. 'ArrowUp', 'KeyW', 'Space'
+export type KeyBindings = Partial<Record<InputAction, string[]>>;
+
+// Controls of a standard-mapping gamepad. The left stick also counts as four
+// directions once pushed far enough.
+export type GamepadControl =
+  | 'A' | 'B' | 'X' | 'Y'
+  | 'LB' | 'RB' | 'LT' | 'RT'
+  | 'Back' | 'Start' | 'LS' | 'RS'
+  | 'DpadUp' | 'DpadDown' | 'DpadLeft' | 'DpadRight'
+  | 'StickUp' | 'StickDown' | 'StickLeft' | 'StickRight';
+
+// Left stick axes, -1 (left/up) to 1 (right/down)
+export type InputAxis = 'horizontal' | 'vertical';
+
+export interface InputActionDefinition {
+  action: InputAction;
+  label: string;
+  keys: string[];           // Default keys, first one shown as the main binding
+  buttons?: GamepadControl[]; // Gamepad layout, not remappable
+}
+
+// Delivered to subscribers when a key bound to one of their actions changes
+export interface InputActionEvent {
+  action: InputAction;
+  pressed: boolean;
+  repeat: boolean;          // Key repeat, or another key for the same action already held
+  code: string;
+}
+
+// How a game is played on a touch screen
+export type TouchScheme =
+  | 'dpad'                  // Four-way pad
+  | 'swipe'                 // Drag to move, tap and swipe gestures on the board
+  | 'drag'                  // The game follows the finger itself
+  | 'tap'                   // Tap anywhere on the game
+  | 'stick'                 // Thumb-stick with action buttons
+  | 'native';               // Played with the game's own buttons and text input
+
+export interface TouchButton {
+  action: InputAction;
+  label: string;
+}
+
+export interface TouchLayout {
+  scheme: TouchScheme;
+  buttons: TouchButton[];   // Shown beside the pad or stick
+  hint?: string;
+}
@@ -0,0 +1,92 @@
+import type { GameSaveKey } from '../data/gameRegistry';
+import type { ChallengePeriod } from './challenge';
+import type { KeyBindings } from './input';
+
+// Per-game statistics; games may record extra counters of their own
+export interface GameStats {
+  gamesPlayed: number;
+  totalScore: number;
+  bestCombo?: number;
+  longestSurvival?: number;
+  bossesDefeated?: number;
+  playTime?: number;        // Milliseconds spent in the game
+  [stat: string]: number | undefined;
+}
+
+// When and in which run an achievement was earned
+export interface AchievementUnlock {
+  unlockedAt: number;
+  sessionId: string;        // The arcade visit it was earned in
+  gameId?: GameSaveKey;     // Game being played, for arcade-wide achievements
+  runId?: string;           // The run it was earned in, when a game was being played
+  runStartedAt?: number;
+  score?: number;           // Score of that run at the moment of unlocking
+}
+
+// A challenge the player beat, keyed in the save by the challenge key
+export interface ChallengeCompletion {
+  completedAt: number;
+  gameId: GameSaveKey;
+  period: ChallengePeriod;
+  periodKey: string;        // Day (YYYY-MM-DD) or week start the challenge was drawn for
+}
+
+// One row of a game's top-10 table
+export interface HighScoreEntry {
+  initials: string;         // Three characters, A-Z, 0-9 or space
+  score: number;
+  level?: number;           // Level or wave reached
+  durationSeconds: number;
+  date: number;
+  seed?: string;            // The daily or weekly challenge the run was played under
+}
+
+// A finished run, kept for score trend lines
+export interface RunRecord {
+  score: number;
+  date: number;
+  durationSeconds: number;
+}
+
+// Save data structure for each game
+export interface GameSaveData {
+  highScore: number;
+  level: number;
+  achievements: string[];
+  stats: GameStats;
+  lastPlayed: number;
+  preferences?: Record<string, unknown>;
+  modified?: boolean;     // Failed an integrity check at some point; never cleared
+  counters?: Record<string, number>;  // Lifetime achievement counters, keyed by condition
+  achievementProgress?: Record<string, number>;  // Best progress towards each achievement, by ID
+  unlocks?: Record<string, AchievementUnlock>;    // Unlock records by achievement ID; older saves lack them
+  highScores?: Record<string, HighScoreEntry[]>;  // Top-10 tables by mode, best first
+  recentRuns?: RunRecord[];                       // Latest finished runs, oldest first
+  endingsSeen?: string[];                         // Story endings reached, for games that have them
+}
+
+// Global save data structure
+export interface GlobalSaveData {
+  version: string;
+  games: Record<GameSaveKey, GameSaveData>;
+  globalStats: {
+    totalPlayTime: number;    // Milliseconds
+    favoriteGame: string;     // Title of the game played longest
+    globalAchievements: string[];
+    firstPlayDate: number;
+    modified?: boolean;
+    counters?: Record<string, number>;
+    achievementProgress?: Record<string, number>;
+    unlocks?: Record<string, AchievementUnlock>;
+    dailyPlayTime?: Record<string, Partial<Record<GameSaveKey, number>>>;  // Milliseconds by local day (YYYY-MM-DD), then game
+  };
+  settings: {
+    lastBackupDate?: number;
+    autoSave: boolean;
+    lastInitials?: string;  // Pre-filled on the next initials entry
+    keyBindings?: Partial<Record<GameSaveKey, KeyBindings>>;  // Remapped keys; actions not listed use the defaults
+  };
+  challenges?: {
+    completed: Record<string, ChallengeCompletion>;
+  };
+}
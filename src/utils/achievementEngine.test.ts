@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allOf,
+  applyEventToSave,
+  below,
+  best,
+  count,
+  createAchievementRuntime,
+  evaluateCondition,
+  metric,
+  trackRuntimeEvent,
+  unlockMetAchievements,
+  settleAchievements,
+  achievementProgress,
+  conditionContext,
+  createUnlockRecord,
+  type AchievementDefinitions
+} from './achievementEngine';
+import { createDefaultGlobalSave } from './saveSchema';
+import type { GameSaveKey } from '../data/gameRegistry';
+import type { Achievement } from '../types/game';
+import type { GameEvent } from '../types/events';
+import type { GlobalSaveData } from '../types/save';
+
+const definitions = (games: Partial<Record<GameSaveKey, Achievement[]>>, global: Achievement[] = []): AchievementDefinitions => {
+  const empty = Object.fromEntries(
+    Object.keys(createDefaultGlobalSave().games).map(key => [key, []])
+  ) as unknown as Record<GameSaveKey, Achievement[]>;
+  return { games: { ...empty, ...games }, global };
+};
+
+const achievement = (id: string, condition: Achievement['condition']): Achievement => ({
+  id, name: id, description: id, condition
+});
+
+// Runs events through the engine the way useSaveSystem does
+const play = (data: GlobalSaveData, defs: AchievementDefinitions, events: GameEvent[], runtime = createAchievementRuntime()) =>
+  events.reduce((save, event) => {
+    trackRuntimeEvent(runtime, defs, event);
+    return settleAchievements(applyEventToSave(save, defs, event), defs, runtime);
+  }, data);
+
+describe('achievementEngine', () => {
+  it('counts events and sums or maxes their fields in the save', () => {
+    const defs = definitions({
+      metris: [
+        achievement('first_line', count('line_cleared', 1)),
+        achievement('line_clearer', count('line_cleared', 10, { field: 'lines' })),
+        achievement('tetris', best('line_cleared', 'lines', 4))
+      ]
+    });
+
+    const data = play(createDefaultGlobalSave(), defs, [
+      { type: 'line_cleared', gameId: 'metris', lines: 3 },
+      { type: 'line_cleared', gameId: 'metris', lines: 2 }
+    ]);
+
+    expect(data.games.metris.counters).toMatchObject({
+      'line_cleared||sum|': 2,
+      'line_cleared|lines|sum|': 5,
+      'line_cleared|lines|max|': 3
+    });
+    expect(data.games.metris.achievements).toEqual(['first_line']);
+
+    const later = play(data, defs, [
+      { type: 'line_cleared', gameId: 'metris', lines: 4 },
+      { type: 'line_cleared', gameId: 'metris', lines: 1 }
+    ]);
+    expect(later.games.metris.achievements).toEqual(['first_line', 'tetris', 'line_clearer']);
+  });
+
+  it('resets session counters when a new run starts', () => {
+    const defs = definitions({
+      matrixInvaders: [achievement('exterminator', count('enemy_destroyed', 3, { scope: 'session' }))]
+    });
+    const kill: GameEvent = { type: 'enemy_destroyed', gameId: 'matrixInvaders' };
+    const runtime = createAchievementRuntime();
+
+    let data = play(createDefaultGlobalSave(), defs, [kill, kill, { type: 'run_started', gameId: 'matrixInvaders' }, kill, kill], runtime);
+    expect(data.games.matrixInvaders.achievements).toEqual([]);
+    expect(data.games.matrixInvaders.counters).toBeUndefined();
+
+    data = play(data, defs, [kill], runtime);
+    expect(data.games.matrixInvaders.achievements).toEqual(['exterminator']);
+  });
+
+  it('filters events with where and requires every part of allOf', () => {
+    const defs = definitions({
+      matrixCloud: [
+        achievement('architect', count('boss_defeated', 1, { where: { boss: 'architect' } })),
+        achievement('all_bosses', allOf(
+          count('boss_defeated', 1, { where: { boss: 'agent_smith' } }),
+          count('boss_defeated', 1, { where: { boss: 'architect' } })
+        ))
+      ]
+    });
+
+    const data = play(createDefaultGlobalSave(), defs, [{ type: 'boss_defeated', gameId: 'matrixCloud', boss: 'agent_smith' }]);
+    expect(data.games.matrixCloud.achievements).toEqual([]);
+
+    const progress = evaluateCondition(defs.games.matrixCloud[1].condition!, conditionContext(data, createAchievementRuntime(), 'matrixCloud'));
+    expect(progress).toEqual({ current: 1, target: 2, met: false });
+
+    const finished = play(data, defs, [{ type: 'boss_defeated', gameId: 'matrixCloud', boss: 'architect' }]);
+    expect(finished.games.matrixCloud.achievements).toEqual(['architect', 'all_bosses']);
+  });
+
+  it('filters numeric fields with a below bound', () => {
+    const defs = definitions({
+      terminalQuest: [achievement('speed_run', count('ending_reached', 1, { where: { choices: below(50) } }))]
+    });
+    const ending = (choices: number): GameEvent => ({
+      type: 'ending_reached', gameId: 'terminalQuest', ending: 'ending_escape', choices, combats: 0, damageTaken: 0
+    });
+
+    const slow = play(createDefaultGlobalSave(), defs, [ending(50)]);
+    expect(slow.games.terminalQuest.achievements).toEqual([]);
+
+    const fast = play(slow, defs, [ending(49)]);
+    expect(fast.games.terminalQuest.achievements).toEqual(['speed_run']);
+  });
+
+  it('keeps unlocking until metric conditions settle', () => {
+    const defs = definitions(
+      { metris: [achievement('first_line', count('line_cleared', 1))] },
+      [
+        achievement('first_game', count('game_started', 1)),
+        achievement('two_unlocked', metric('achievementsUnlocked', 2)),
+        achievement('three_unlocked', metric('achievementsUnlocked', 3))
+      ]
+    );
+
+    const data = play(createDefaultGlobalSave(), defs, [
+      { type: 'game_started', gameId: 'metris' },
+      { type: 'line_cleared', gameId: 'metris', lines: 1 }
+    ]);
+
+    expect(data.games.metris.achievements).toEqual(['first_line']);
+    expect(data.globalStats.globalAchievements).toEqual(['first_game', 'two_unlocked', 'three_unlocked']);
+  });
+
+  it('returns the same save when an event changes nothing', () => {
+    const defs = definitions({ metris: [achievement('tetris', best('line_cleared', 'lines', 4))] });
+    const data = play(createDefaultGlobalSave(), defs, [{ type: 'line_cleared', gameId: 'metris', lines: 2 }]);
+
+    const event: GameEvent = { type: 'line_cleared', gameId: 'metris', lines: 1 };
+    expect(applyEventToSave(data, defs, event)).toBe(data);
+    expect(unlockMetAchievements(data, defs, createAchievementRuntime())).toBe(data);
+  });
+
+  it('stores the best progress towards locked achievements, even for per-run goals', () => {
+    const defs = definitions({
+      matrixCloud: [
+        achievement('collector', count('power_up_collected', 20)),
+        achievement('power_run', count('power_up_collected', 5, { scope: 'session' }))
+      ]
+    });
+    const collect: GameEvent = { type: 'power_up_collected', gameId: 'matrixCloud', powerUp: 'shield' };
+    const runtime = createAchievementRuntime();
+
+    const data = play(createDefaultGlobalSave(), defs, [collect, collect, collect, { type: 'run_started', gameId: 'matrixCloud' }, collect], runtime);
+    expect(data.games.matrixCloud.achievementProgress).toEqual({ collector: 4, power_run: 3 });
+
+    const context = conditionContext(data, runtime, 'matrixCloud');
+    const [collector, powerRun] = defs.games.matrixCloud;
+    expect(achievementProgress(collector, false, data.games.matrixCloud.achievementProgress, context)).toEqual({ progress: 4, maxProgress: 20 });
+    expect(achievementProgress(powerRun, false, data.games.matrixCloud.achievementProgress, context)).toEqual({ progress: 3, maxProgress: 5 });
+    expect(achievementProgress(powerRun, true, data.games.matrixCloud.achievementProgress, context)).toEqual({ progress: 5, maxProgress: 5 });
+    expect(achievementProgress(achievement('manual', undefined), false, undefined, context)).toEqual({ progress: 0, maxProgress: 1 });
+  });
+
+  it('records when and in which run each achievement unlocked', () => {
+    const defs = definitions(
+      { metris: [achievement('high_roller', best('score', 'score', 1000))] },
+      [achievement('ten_k', metric('combinedHighScore', 0)), achievement('first_game', count('game_started', 1))]
+    );
+    const runtime = createAchievementRuntime(1000);
+    trackRuntimeEvent(runtime, defs, { type: 'run_started', gameId: 'metris' }, 2000);
+    const run = runtime.runs.metris!;
+
+    let data = applyEventToSave(createDefaultGlobalSave(), defs, { type: 'score', gameId: 'metris', score: 1500 });
+    trackRuntimeEvent(runtime, defs, { type: 'score', gameId: 'metris', score: 1500 }, 3000);
+    data = unlockMetAchievements(data, defs, runtime, 4000);
+
+    expect(data.games.metris.unlocks?.high_roller).toEqual({
+      unlockedAt: 4000,
+      sessionId: runtime.sessionId,
+      gameId: 'metris',
+      runId: run.id,
+      runStartedAt: 2000,
+      score: 1500
+    });
+    // Arcade-wide unlocks are credited to the game that was being played
+    expect(data.globalStats.unlocks?.ten_k.runId).toBe(run.id);
+    expect(createUnlockRecord(createAchievementRuntime(), null, 5000)).toEqual({
+      unlockedAt: 5000,
+      sessionId: expect.stringMatching(/^visit-/)
+    });
+  });
+
+  it('climbs tier chains in order', () => {
+    const defs = definitions({
+      metris: [
+        { ...achievement('level_10', best('level_reached', 'level', 10)), tier: 'bronze' },
+        { ...achievement('level_20', best('level_reached', 'level', 20)), tier: 'silver', previousTier: 'level_10' },
+        { ...achievement('level_30', best('level_reached', 'level', 30)), tier: 'gold', previousTier: 'level_20' }
+      ]
+    });
+
+    const data = play(createDefaultGlobalSave(), defs, [{ type: 'level_reached', gameId: 'metris', level: 25 }]);
+    expect(data.games.metris.achievements).toEqual(['level_10', 'level_20']);
+
+    // A chain tier unlocked by the game directly still gates the next one
+    const skipped = createDefaultGlobalSave();
+    skipped.games.metris.counters = { 'level_reached|level|max|': 30 };
+    expect(unlockMetAchievements(skipped, { ...defs, games: { ...defs.games, metris: defs.games.metris.slice(1) } }, createAchievementRuntime())).toBe(skipped);
+  });
+});
+
@@ -0,0 +1,506 @@
+import type { GameSaveKey } from '../data/gameRegistry';
+import type {
+  Achievement,
+  AchievementCondition,
+  ArcadeMetric,
+  CounterCondition,
+  CounterScope
+} from '../types/game';
+import type { GameEvent } from '../types/events';
+import type { AchievementUnlock, GlobalSaveData } from '../types/save';
+import { dailyChallengeStreak } from './challengeCalendar';
+
+// ============================================================================
+// ACHIEVEMENT ENGINE
+// Achievements declare their unlock conditions; games only report events.
+// Each event updates the counters the conditions need (per run, per visit
+// and lifetime) and anything whose condition is now met is unlocked here,
+// so no game has to hand-code a threshold check.
+// ============================================================================
+
+export type CounterSet = Record<string, number>;
+
+// Counters are owned by a game, or by the arcade for global achievements
+export const GLOBAL_OWNER = 'global';
+type CounterOwner = GameSaveKey | typeof GLOBAL_OWNER;
+
+export interface AchievementDefinitions {
+  games: Record<GameSaveKey, Achievement[]>;
+  global: Achievement[];
+}
+
+// The run a game is on, recorded against anything unlocked during it
+export interface RunContext {
+  id: string;
+  startedAt: number;
+  score: number;
+}
+
+// Session and visit counters live in memory only; lifetime counters live in the save
+export interface AchievementRuntime {
+  sessionId: string;
+  session: Partial<Record<CounterOwner, CounterSet>>;
+  visit: Partial<Record<CounterOwner, CounterSet>>;
+  runs: Partial<Record<GameSaveKey, RunContext>>;
+  lastGameId: GameSaveKey | null;     // Game that reported the latest event
+}
+
+const createRunId = (prefix: string, now: number) =>
+  `${prefix}-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createAchievementRuntime = (now = Date.now()): AchievementRuntime => ({
+  sessionId: createRunId('visit', now),
+  session: {},
+  visit: {},
+  runs: {},
+  lastGameId: null
+});
+
+// Every game counts how often it was opened, which the gamesTriedPercent metric reads
+const GAME_STARTED: CounterCondition = { type: 'counter', event: 'game_started', target: 1 };
+
+// ===== CONDITION BUILDERS =====
+
+type CounterOptions = Pick<CounterCondition, 'field' | 'where' | 'scope'>;
+
+// Counts matching events, or sums `field` across them
+export const count = (event: CounterCondition['event'], target: number, options: CounterOptions = {}): CounterCondition => ({
+  type: 'counter', event, target, aggregate: 'sum', ...options
+});
+
+// The largest `field` seen in a single event
+export const best = (
+  event: CounterCondition['event'],
+  field: string,
+  target: number,
+  options: Omit<CounterOptions, 'field'> = {}
+): CounterCondition => ({
+  type: 'counter', event, field, target, aggregate: 'max', ...options
+});
+
+export const metric = (name: ArcadeMetric, target: number): AchievementCondition => ({
+  type: 'metric', metric: name, target
+});
+
+// A `where` bound for "in under N" conditions
+export const below = (value: number) => ({ below: value });
+
+export const allOf = (...conditions: AchievementCondition[]): AchievementCondition => ({ type: 'all', conditions });
+export const anyOf = (...conditions: AchievementCondition[]): AchievementCondition => ({ type: 'any', conditions });
+
+// ===== COUNTERS =====
+
+export const counterKey = (condition: CounterCondition) => {
+  const where = condition.where
+    ? Object.keys(condition.where).sort().map(key => {
+      const value = condition.where![key];
+      return typeof value === 'object' ? `${key}<${value.below}` : `${key}=${value}`;
+    }).join('&')
+    : '';
+  return [condition.event, condition.field ?? '', condition.aggregate ?? 'sum', where].join('|');
+};
+
+// Max counters record a best, so merging two of them must not add them up
+export const isMaxCounterKey = (key: string) => key.split('|')[2] === 'max';
+
+export const counterLeaves = (condition: AchievementCondition | undefined): CounterCondition[] => {
+  if (!condition) return [];
+  switch (condition.type) {
+    case 'counter':
+      return [condition];
+    case 'metric':
+      return [];
+    default:
+      return condition.conditions.flatMap(counterLeaves);
+  }
+};
+
+const matchesEvent = (condition: CounterCondition, event: GameEvent) => {
+  if (condition.event !== event.type) return false;
+  const fields = event as unknown as Record<string, unknown>;
+  return !condition.where || Object.entries(condition.where).every(([key, value]) =>
+    typeof value === 'object'
+      ? typeof fields[key] === 'number' && (fields[key] as number) < value.below
+      : fields[key] === value
+  );
+};
+
+const eventValue = (condition: CounterCondition, event: GameEvent) => {
+  if (condition.field === undefined) return 1;
+  const value = (event as unknown as Record<string, unknown>)[condition.field];
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+};
+
+/**
+ * Applies one event to the counters of the given leaves.
+ * Returns `counters` itself when nothing changed.
+ */
+export const applyEventToCounters = (
+  counters: CounterSet,
+  leaves: CounterCondition[],
+  event: GameEvent
+): CounterSet => {
+  let next = counters;
+  const seen = new Set<string>();
+
+  leaves.forEach(leaf => {
+    const key = counterKey(leaf);
+    if (seen.has(key) || !matchesEvent(leaf, event)) return;
+    seen.add(key);
+
+    const current = next[key] ?? 0;
+    const value = eventValue(leaf, event);
+    const updated = leaf.aggregate === 'max' ? Math.max(current, value) : current + value;
+
+    if (updated !== current) {
+      if (next === counters) next = { ...counters };
+      next[key] = updated;
+    }
+  });
+
+  return next;
+};
+
+const leavesFor = (achievements: Achievement[], scope: CounterScope) =>
+  achievements.flatMap(a => counterLeaves(a.condition)).filter(leaf => (leaf.scope ?? 'lifetime') === scope);
+
+const ownerAchievements = (definitions: AchievementDefinitions, owner: CounterOwner) =>
+  owner === GLOBAL_OWNER ? definitions.global : definitions.games[owner] ?? [];
+
+/**
+ * Updates the in-memory session and visit counters and the current run for
+ * an event. A run starting (or a game being opened) resets that game's session.
+ */
+export const trackRuntimeEvent = (
+  runtime: AchievementRuntime,
+  definitions: AchievementDefinitions,
+  event: GameEvent,
+  now = Date.now()
+) => {
+  const owners: CounterOwner[] = [event.gameId, GLOBAL_OWNER];
+  const newRun = event.type === 'run_started' || event.type === 'game_started';
+
+  if (newRun) {
+    owners.forEach(owner => {
+      runtime.session[owner] = {};
+    });
+  }
+
+  // Games that never report a run start still get one from their first event
+  if (newRun || !runtime.runs[event.gameId]) {
+    runtime.runs[event.gameId] = { id: createRunId('run', now), startedAt: now, score: 0 };
+  }
+  if ('score' in event) {
+    runtime.runs[event.gameId]!.score = event.score;
+  }
+  runtime.lastGameId = event.gameId;
+
+  owners.forEach(owner => {
+    const achievements = ownerAchievements(definitions, owner);
+    (['session', 'visit'] as const).forEach(scope => {
+      runtime[scope][owner] = applyEventToCounters(runtime[scope][owner] ?? {}, leavesFor(achievements, scope), event);
+    });
+  });
+};
+
+/**
+ * Applies an event to the lifetime counters stored in the save.
+ */
+export const applyEventToSave = (
+  data: GlobalSaveData,
+  definitions: AchievementDefinitions,
+  event: GameEvent
+): GlobalSaveData => {
+  let next = data;
+
+  const game = data.games[event.gameId];
+  if (game) {
+    const leaves = [GAME_STARTED, ...leavesFor(ownerAchievements(definitions, event.gameId), 'lifetime')];
+    const stored = game.counters ?? {};
+    const counters = applyEventToCounters(stored, leaves, event);
+    if (counters !== stored) {
+      next = { ...next, games: { ...next.games, [event.gameId]: { ...game, counters } } };
+    }
+  }
+
+  const storedGlobal = data.globalStats.counters ?? {};
+  const globalCounters = applyEventToCounters(storedGlobal, leavesFor(definitions.global, 'lifetime'), event);
+  if (globalCounters !== storedGlobal) {
+    next = { ...next, globalStats: { ...next.globalStats, counters: globalCounters } };
+  }
+
+  return next;
+};
+
+// ===== EVALUATION =====
+
+export const computeArcadeMetrics = (data: GlobalSaveData): Record<ArcadeMetric, number> => {
+  const games = Object.values(data.games);
+  const tried = games.filter(game => (game.counters?.[counterKey(GAME_STARTED)] ?? 0) > 0).length;
+
+  return {
+    achievementsUnlocked:
+      games.reduce((sum, game) => sum + game.achievements.length, 0) + data.globalStats.globalAchievements.length,
+    combinedHighScore: games.reduce((sum, game) => sum + (game.highScore || 0), 0),
+    totalGamesPlayed: games.reduce((sum, game) => sum + (game.stats.gamesPlayed || 0), 0),
+    gamesTriedPercent: games.length > 0 ? Math.floor((tried / games.length) * 100) : 0,
+    dailyChallengeStreak: dailyChallengeStreak(data.challenges?.completed).best
+  };
+};
+
+export interface ConditionContext {
+  counters: Record<CounterScope, CounterSet>;
+  metrics: Record<ArcadeMetric, number>;
+}
+
+export interface ConditionProgress {
+  current: number;
+  target: number;
+  met: boolean;
+}
+
+/**
+ * How far along a condition is. Compound conditions report how many of
+ * their parts are met (`all`) or the furthest part (`any`).
+ */
+export const evaluateCondition = (condition: AchievementCondition, context: ConditionContext): ConditionProgress => {
+  switch (condition.type) {
+    case 'counter': {
+      const value = context.counters[condition.scope ?? 'lifetime'][counterKey(condition)] ?? 0;
+      return { current: Math.min(value, condition.target), target: condition.target, met: value >= condition.target };
+    }
+    case 'metric': {
+      const value = context.metrics[condition.metric];
+      return { current: Math.min(value, condition.target), target: condition.target, met: value >= condition.target };
+    }
+    case 'all': {
+      const parts = condition.conditions.map(part => evaluateCondition(part, context));
+      const metCount = parts.filter(part => part.met).length;
+      return { current: metCount, target: parts.length, met: metCount === parts.length };
+    }
+    case 'any': {
+      const parts = condition.conditions.map(part => evaluateCondition(part, context));
+      const furthest = parts.reduce<ConditionProgress | null>(
+        (best, part) => (!best || part.current / part.target > best.current / best.target ? part : best),
+        null
+      );
+      return { ...(furthest ?? { current: 0, target: 1 }), met: parts.some(part => part.met) };
+    }
+  }
+};
+
+export const conditionContext = (
+  data: GlobalSaveData,
+  runtime: AchievementRuntime,
+  owner: CounterOwner
+): ConditionContext => ({
+  counters: {
+    session: runtime.session[owner] ?? {},
+    visit: runtime.visit[owner] ?? {},
+    lifetime: (owner === GLOBAL_OWNER ? data.globalStats.counters : data.games[owner]?.counters) ?? {}
+  },
+  metrics: computeArcadeMetrics(data)
+});
+
+// A tier only unlocks once the tier below it has; the fixed-point loop below climbs the chain
+const newlyMet = (achievements: Achievement[], unlocked: string[], context: ConditionContext) =>
+  achievements
+    .filter(a =>
+      a.condition &&
+      !unlocked.includes(a.id) &&
+      (!a.previousTier || unlocked.includes(a.previousTier)) &&
+      evaluateCondition(a.condition, context).met
+    )
+    .map(a => a.id);
+
+/**
+ * Records when and in which run an achievement was earned. Arcade-wide
+ * achievements are credited to whichever game reported last.
+ */
+export const createUnlockRecord = (
+  runtime: AchievementRuntime,
+  gameId: GameSaveKey | null,
+  now = Date.now()
+): AchievementUnlock => {
+  const run = gameId ? runtime.runs[gameId] : undefined;
+  return {
+    unlockedAt: now,
+    sessionId: runtime.sessionId,
+    ...(gameId ? { gameId } : {}),
+    ...(run ? { runId: run.id, runStartedAt: run.startedAt, score: run.score } : {})
+  };
+};
+
+export const addUnlockRecords = (
+  unlocks: Record<string, AchievementUnlock> | undefined,
+  ids: string[],
+  record: AchievementUnlock
+): Record<string, AchievementUnlock> => ({
+  ...unlocks,
+  ...Object.fromEntries(ids.map(id => [id, record]))
+});
+
+/**
+ * Unlocks every achievement whose condition is met, recording the unlock.
+ * Repeats until nothing changes, since unlocking can satisfy metric
+ * conditions such as "unlock 10 achievements". Returns `data` itself when
+ * nothing unlocked.
+ */
+export const unlockMetAchievements = (
+  data: GlobalSaveData,
+  definitions: AchievementDefinitions,
+  runtime: AchievementRuntime,
+  now = Date.now()
+): GlobalSaveData => {
+  let next = data;
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+
+    (Object.keys(definitions.games) as GameSaveKey[]).forEach(gameId => {
+      const game = next.games[gameId];
+      if (!game) return;
+
+      const ids = newlyMet(definitions.games[gameId], game.achievements, conditionContext(next, runtime, gameId));
+      if (ids.length > 0) {
+        next = {
+          ...next,
+          games: {
+            ...next.games,
+            [gameId]: {
+              ...game,
+              achievements: [...game.achievements, ...ids],
+              unlocks: addUnlockRecords(game.unlocks, ids, createUnlockRecord(runtime, gameId, now))
+            }
+          }
+        };
+        changed = true;
+      }
+    });
+
+    const globalIds = newlyMet(
+      definitions.global,
+      next.globalStats.globalAchievements,
+      conditionContext(next, runtime, GLOBAL_OWNER)
+    );
+    if (globalIds.length > 0) {
+      next = {
+        ...next,
+        globalStats: {
+          ...next.globalStats,
+          globalAchievements: [...next.globalStats.globalAchievements, ...globalIds],
+          unlocks: addUnlockRecords(
+            next.globalStats.unlocks,
+            globalIds,
+            createUnlockRecord(runtime, runtime.lastGameId, now)
+          )
+        }
+      };
+      changed = true;
+    }
+  }
+
+  return next;
+};
+
+// ===== PROGRESS =====
+
+// Keeps the best progress seen, so per-run goals still show how close the player came
+const recordProgress = (
+  stored: Record<string, number> | undefined,
+  achievements: Achievement[],
+  unlocked: string[],
+  context: ConditionContext
+) => {
+  const base = stored ?? {};
+  let next = base;
+
+  achievements.forEach(a => {
+    if (!a.condition || unlocked.includes(a.id)) return;
+    const { current } = evaluateCondition(a.condition, context);
+    if (current > (next[a.id] ?? 0)) {
+      if (next === base) next = { ...base };
+      next[a.id] = current;
+    }
+  });
+
+  return next === base ? stored : next;
+};
+
+/**
+ * Records progress towards every locked achievement with a condition.
+ * Returns `data` itself when no progress was made.
+ */
+export const updateAchievementProgress = (
+  data: GlobalSaveData,
+  definitions: AchievementDefinitions,
+  runtime: AchievementRuntime
+): GlobalSaveData => {
+  let next = data;
+
+  (Object.keys(definitions.games) as GameSaveKey[]).forEach(gameId => {
+    const game = next.games[gameId];
+    if (!game) return;
+
+    const progress = recordProgress(
+      game.achievementProgress,
+      definitions.games[gameId],
+      game.achievements,
+      conditionContext(next, runtime, gameId)
+    );
+    if (progress !== game.achievementProgress) {
+      next = { ...next, games: { ...next.games, [gameId]: { ...game, achievementProgress: progress } } };
+    }
+  });
+
+  const globalProgress = recordProgress(
+    next.globalStats.achievementProgress,
+    definitions.global,
+    next.globalStats.globalAchievements,
+    conditionContext(next, runtime, GLOBAL_OWNER)
+  );
+  if (globalProgress !== next.globalStats.achievementProgress) {
+    next = { ...next, globalStats: { ...next.globalStats, achievementProgress: globalProgress } };
+  }
+
+  return next;
+};
+
+/**
+ * Unlocks whatever is now met and records progress towards the rest.
+ */
+export const settleAchievements = (
+  data: GlobalSaveData,
+  definitions: AchievementDefinitions,
+  runtime: AchievementRuntime,
+  now = Date.now()
+): GlobalSaveData =>
+  updateAchievementProgress(unlockMetAchievements(data, definitions, runtime, now), definitions, runtime);
+
+export interface AchievementProgress {
+  progress: number;
+  maxProgress: number;
+}
+
+/**
+ * Progress to show for an achievement: the best of what was stored and
+ * where its condition stands now. Achievements without a condition are
+ * all-or-nothing.
+ */
+export const achievementProgress = (
+  achievement: Achievement,
+  unlocked: boolean,
+  stored: Record<string, number> | undefined,
+  context: ConditionContext
+): AchievementProgress => {
+  if (!achievement.condition) {
+    return { progress: unlocked ? 1 : 0, maxProgress: 1 };
+  }
+
+  const { current, target } = evaluateCondition(achievement.condition, context);
+  return {
+    progress: unlocked ? target : Math.min(Math.max(current, stored?.[achievement.id] ?? 0), target),
+    maxProgress: target
+  };
+};
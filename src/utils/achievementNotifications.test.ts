@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createAchievementNotifier, NOTIFICATION_BATCH_WINDOW_MS, type AchievementNotice } from './achievementNotifications';
+
+const notice = (id: string, priority = 10): AchievementNotice => ({
+  id, name: id, description: id, priority
+});
+
+const shown = (notifier: ReturnType<typeof createAchievementNotifier>) =>
+  notifier.getState().visible.map(notification => notification.achievements.map(a => a.id));
+
+describe('achievementNotifications', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('batches unlocks that arrive together, most valuable first', () => {
+    const notifier = createAchievementNotifier();
+    notifier.notify(notice('bronze', 10));
+    notifier.notify(notice('gold', 50));
+    notifier.notify(notice('silver', 25));
+
+    expect(notifier.getState().visible).toEqual([]);
+    vi.advanceTimersByTime(NOTIFICATION_BATCH_WINDOW_MS);
+
+    expect(shown(notifier)).toEqual([['gold', 'silver', 'bronze']]);
+    expect(notifier.getState().visible[0].priority).toBe(50);
+  });
+
+  it('shows queued notifications by priority and keeps arrival order for ties', () => {
+    const notifier = createAchievementNotifier({ maxVisible: 1 });
+    ['first', 'second', 'gold', 'third'].forEach(id => {
+      notifier.notify(notice(id, id === 'gold' ? 50 : 10));
+      vi.advanceTimersByTime(NOTIFICATION_BATCH_WINDOW_MS);
+    });
+
+    const order: string[][] = [];
+    while (notifier.getState().visible.length > 0) {
+      order.push(...shown(notifier));
+      notifier.dismiss(notifier.getState().visible[0].key);
+    }
+    expect(order).toEqual([['first'], ['gold'], ['second'], ['third']]);
+  });
+
+  it('announces each achievement once until reset', () => {
+    const notifier = createAchievementNotifier();
+    expect(notifier.notify(notice('tetris'))).toBe(true);
+    expect(notifier.notify(notice('tetris'))).toBe(false);
+    vi.advanceTimersByTime(NOTIFICATION_BATCH_WINDOW_MS);
+    expect(notifier.notify(notice('tetris'))).toBe(false);
+    expect(shown(notifier)).toEqual([['tetris']]);
+
+    notifier.reset();
+    expect(notifier.getState().visible).toEqual([]);
+    expect(notifier.notify(notice('tetris'))).toBe(true);
+  });
+
+  it('holds notifications while deferred and shows them once every hold is released', () => {
+    const notifier = createAchievementNotifier();
+    const listener = vi.fn();
+    notifier.subscribe(listener);
+
+    notifier.notify(notice('early'));
+    vi.advanceTimersByTime(NOTIFICATION_BATCH_WINDOW_MS);
+    const releaseBoss = notifier.defer('boss');
+    const releaseBulletTime = notifier.defer('bulletTime');
+
+    // What was on screen goes back to the queue
+    expect(notifier.getState()).toMatchObject({ visible: [], deferred: true });
+    notifier.notify(notice('boss_kill', 50));
+    vi.advanceTimersByTime(NOTIFICATION_BATCH_WINDOW_MS);
+    expect(notifier.getState().queued).toHaveLength(2);
+
+    releaseBoss();
+    expect(notifier.getState().visible).toEqual([]);
+    releaseBulletTime();
+    expect(notifier.getState().deferred).toBe(false);
+    expect(shown(notifier)).toEqual([['boss_kill'], ['early']]);
+    expect(listener).toHaveBeenLastCalledWith(notifier.getState());
+  });
+});
@@ -0,0 +1,175 @@
+import { saveStorage } from './saveStorage';
+import type { AchievementTier } from '../types/game';
+
+// ============================================================================
+// ACHIEVEMENT NOTIFICATIONS
+// One queue for every unlock notification on the page. Unlocks reported
+// within a short window are batched into a single notification, the most
+// valuable are shown first, an achievement is only ever announced once and
+// nothing is shown while a game has notifications deferred.
+// ============================================================================
+
+export const NOTIFICATION_BATCH_WINDOW_MS = 250;
+export const MAX_VISIBLE_NOTIFICATIONS = 3;
+
+// What the player is told about one unlocked achievement
+export interface AchievementNotice {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  game?: string;
+  tier?: AchievementTier;
+  priority: number;           // Higher is shown first; the arcade uses achievement points
+}
+
+// One toast: a single unlock or a batch that arrived together
+export interface AchievementNotification {
+  key: string;
+  achievements: AchievementNotice[];  // Highest priority first
+  priority: number;
+  timestamp: number;
+}
+
+export interface NotificationState {
+  visible: AchievementNotification[];
+  queued: AchievementNotification[];
+  deferred: boolean;
+}
+
+export interface AchievementNotifier {
+  notify(notice: AchievementNotice): boolean;
+  dismiss(key: string): void;
+  clear(): void;
+  defer(source: string): () => void;
+  getState(): NotificationState;
+  subscribe(listener: (state: NotificationState) => void): () => void;
+  reset(): void;
+}
+
+interface NotifierOptions {
+  batchWindowMs?: number;
+  maxVisible?: number;
+  now?: () => number;
+}
+
+const byPriority = <T extends { priority: number }>(a: T, b: T) => b.priority - a.priority;
+
+export const createAchievementNotifier = ({
+  batchWindowMs = NOTIFICATION_BATCH_WINDOW_MS,
+  maxVisible = MAX_VISIBLE_NOTIFICATIONS,
+  now = Date.now
+}: NotifierOptions = {}): AchievementNotifier => {
+  const announced = new Set<string>();
+  const deferSources = new Set<string>();
+  const listeners = new Set<(state: NotificationState) => void>();
+  let pending: AchievementNotice[] = [];
+  let batchTimer: ReturnType<typeof setTimeout> | null = null;
+  let visible: AchievementNotification[] = [];
+  let queued: AchievementNotification[] = [];
+  let nextKey = 0;
+  let state: NotificationState = { visible, queued, deferred: false };
+
+  const publish = () => {
+    state = { visible, queued, deferred: deferSources.size > 0 };
+    listeners.forEach(listener => listener(state));
+  };
+
+  // Fill free slots from the queue, best first; equal priorities keep arrival order
+  const promote = () => {
+    if (deferSources.size > 0) return;
+    while (visible.length < maxVisible && queued.length > 0) {
+      const [next, ...rest] = queued;
+      visible = [...visible, next];
+      queued = rest;
+    }
+  };
+
+  const flush = () => {
+    batchTimer = null;
+    if (pending.length === 0) return;
+
+    const achievements = [...pending].sort(byPriority);
+    pending = [];
+    const notification: AchievementNotification = {
+      key: `${achievements[0].id}-${nextKey++}`,
+      achievements,
+      priority: achievements[0].priority,
+      timestamp: now()
+    };
+    // Stable sort: a batch goes behind queued notifications of the same priority
+    queued = [...queued, notification].sort(byPriority);
+    promote();
+    publish();
+  };
+
+  return {
+    // Returns false when the achievement has already been announced
+    notify(notice) {
+      if (announced.has(notice.id)) return false;
+      announced.add(notice.id);
+
+      pending.push(notice);
+      if (batchTimer === null) {
+        batchTimer = setTimeout(flush, batchWindowMs);
+      }
+      return true;
+    },
+
+    dismiss(key) {
+      visible = visible.filter(notification => notification.key !== key);
+      queued = queued.filter(notification => notification.key !== key);
+      promote();
+      publish();
+    },
+
+    clear() {
+      visible = [];
+      queued = [];
+      publish();
+    },
+
+    // Hides notifications until every source has released its hold; ones on
+    // screen go back to the queue and are shown again in full afterwards
+    defer(source) {
+      deferSources.add(source);
+      queued = [...visible, ...queued].sort(byPriority);
+      visible = [];
+      publish();
+      return () => {
+        if (!deferSources.delete(source)) return;
+        promote();
+        publish();
+      };
+    },
+
+    getState() {
+      return state;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // Forget what was announced so unlocks after a reset are shown again
+    reset() {
+      if (batchTimer !== null) {
+        clearTimeout(batchTimer);
+        batchTimer = null;
+      }
+      announced.clear();
+      pending = [];
+      visible = [];
+      queued = [];
+      publish();
+    }
+  };
+};
+
+// Shared by every save system instance so an unlock seen by several of them is announced once
+export const achievementNotifications = createAchievementNotifier();
+
+saveStorage.onClear(() => achievementNotifications.reset());
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { buildRoute, challengeForRoute, launchOptionsFor, parseRoute, routeFor } from './arcadeRoute';
+import { drawChallenges } from './challengeEngine';
+
+const at = (pathname: string, search = '') => ({ pathname, search });
+const NOW = new Date(2026, 9, 19, 12).getTime();
+
+describe('arcadeRoute', () => {
+  it('reads the game and whether to play it from the path', () => {
+    expect(parseRoute(at('/'))).toEqual({ play: false, mode: 'standard' });
+    expect(parseRoute(at('/games/metris'))).toEqual({ gameId: 'metris', play: false, mode: 'standard', seed: undefined });
+    expect(parseRoute(at('/play/snake-classic/'))).toEqual({ gameId: 'snakeClassic', play: true, mode: 'standard', seed: undefined });
+  });
+
+  it('reads challenge links and the game\'s own modes', () => {
+    expect(parseRoute(at('/play/metris', '?mode=daily&seed=2026-10-19'))).toMatchObject({ mode: 'daily', seed: '2026-10-19' });
+    expect(parseRoute(at('/play/metris', '?mode=sprint&seed=123'))).toEqual({ gameId: 'metris', play: true, mode: 'sprint', seed: '123' });
+    expect(parseRoute(at('/games/metris', '?mode=daily'))).toMatchObject({ mode: 'standard' });
+  });
+
+  it('opens the carousel on the game, flagged, for a mode the game doesn\'t have', () => {
+    expect(parseRoute(at('/play/metris', '?mode=turbo'))).toEqual({ gameId: 'metris', play: false, mode: 'standard', unknownMode: 'turbo' });
+    expect(parseRoute(at('/play/snake-classic', '?mode=sprint'))).toMatchObject({ play: false, unknownMode: 'sprint' });
+  });
+
+  it('sends unknown games and paths to the carousel', () => {
+    expect(parseRoute(at('/play/pacman'))).toEqual({ play: false, mode: 'standard' });
+    expect(parseRoute(at('/settings'))).toEqual({ play: false, mode: 'standard' });
+  });
+
+  it('writes routes that read back the same', () => {
+    const challenge = drawChallenges(NOW).find(candidate => candidate.period === 'daily' && candidate.gameId === 'metris')!;
+    const route = routeFor('metris', true, challenge);
+
+    expect(buildRoute(route)).toBe('/play/metris?mode=daily&seed=2026-10-19');
+    expect(parseRoute(at('/play/metris', '?mode=daily&seed=2026-10-19'))).toEqual(route);
+    expect(buildRoute(routeFor('ctrlSWorld', false, null))).toBe('/');
+    expect(buildRoute(routeFor('vortexPong', false, null))).toBe('/games/vortex-pong');
+  });
+
+  it('writes a mode and seed back into the link', () => {
+    const route = routeFor('metris', true, null, { mode: 'sprint', seed: '123' });
+
+    expect(buildRoute(route)).toBe('/play/metris?mode=sprint&seed=123');
+    expect(parseRoute(at('/play/metris', '?mode=sprint&seed=123'))).toEqual(route);
+  });
+
+  it('starts the game with the link\'s mode and seed, challenges under standard rules', () => {
+    expect(launchOptionsFor(parseRoute(at('/play/metris', '?mode=sprint&seed=123')))).toEqual({ mode: 'sprint', seed: '123' });
+    expect(launchOptionsFor(parseRoute(at('/play/metris', '?seed=42')))).toEqual({ mode: 'standard', seed: '42' });
+    expect(launchOptionsFor(parseRoute(at('/play/metris', '?mode=daily&seed=2026-10-18')))).toEqual({ mode: 'standard', seed: '2026-10-18' });
+    expect(launchOptionsFor(parseRoute(at('/games/metris', '?seed=42')))).toEqual({ mode: 'standard', seed: undefined });
+  });
+
+  it('plays a linked challenge only while it is still running', () => {
+    const route = parseRoute(at('/play/metris', '?mode=daily&seed=2026-10-19'));
+
+    expect(challengeForRoute(route, NOW)).toMatchObject({ gameId: 'metris', period: 'daily', periodKey: '2026-10-19' });
+    expect(challengeForRoute(route, NOW + 24 * 60 * 60 * 1000)).toBeNull();
+    expect(challengeForRoute(parseRoute(at('/play/metris')), NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { GAME_REGISTRY, type GameSaveKey } from '../data/gameRegistry';
+import { drawChallenges } from './challengeEngine';
+import type { ActiveChallenge, ChallengePeriod } from '../types/challenge';
+import type { Game, GameLaunchOptions } from '../types/game';
+
+// ============================================================================
+// ARCADE ROUTE
+// What the address bar says the arcade is showing, so a link can open a game
+// or drop a friend straight into one:
+//   /                                     the carousel
+//   /games/metris                         the carousel on Metris
+//   /play/metris                          playing Metris
+//   /play/metris?mode=daily&seed=2026-10-19   playing that day's challenge
+//   /play/metris?mode=sprint&seed=123     playing Metris' sprint mode, seeded
+// Games are named by their registry id. A mode is standard play, a challenge
+// period or one of the game's own modes; for a challenge the seed is the
+// challenge's period key, as challenges are drawn from the date. Whatever the
+// mode, the seed reaches the game, which makes its random draws from it.
+// ============================================================================
+
+// 'standard', a challenge period or the id of one of the game's own modes
+export type RouteMode = string;
+
+export interface ArcadeRoute {
+  gameId?: GameSaveKey;     // Unset for the carousel's first game
+  play: boolean;
+  mode: RouteMode;
+  seed?: string;
+  unknownMode?: string;     // A mode the game doesn't have; the link opens the carousel on the game instead
+}
+
+export const HOME_ROUTE: ArcadeRoute = { play: false, mode: 'standard' };
+export const STANDARD_LAUNCH: GameLaunchOptions = { mode: 'standard' };
+
+const ROUTE_PATTERN = /^\/(games|play)\/([^/]+)\/?$/;
+const CHALLENGE_MODES: readonly RouteMode[] = ['daily', 'weekly'];
+
+const isChallengeMode = (mode: RouteMode): mode is ChallengePeriod => CHALLENGE_MODES.includes(mode);
+
+// The modes a link can ask a game for
+const routeModesFor = (game: Game) => ['standard', ...CHALLENGE_MODES, ...(game.modes ?? []).map(mode => mode.id)];
+
+export const parseRoute = (location: Pick<Location, 'pathname' | 'search'>): ArcadeRoute => {
+  const match = ROUTE_PATTERN.exec(location.pathname);
+  const game = match && GAME_REGISTRY.find(candidate => candidate.id === decodeURIComponent(match[2]));
+  if (!match || !game) return HOME_ROUTE;
+
+  const params = new URLSearchParams(location.search);
+  const mode = params.get('mode') ?? 'standard';
+  const play = match[1] === 'play';
+
+  if (!play) return { gameId: game.saveKey, play, mode: 'standard', seed: undefined };
+  if (!routeModesFor(game).includes(mode)) return { gameId: game.saveKey, play: false, mode: 'standard', unknownMode: mode };
+  return { gameId: game.saveKey, play, mode, seed: params.get('seed') ?? undefined };
+};
+
+export const buildRoute = (route: ArcadeRoute) => {
+  const game = GAME_REGISTRY.find(candidate => candidate.saveKey === route.gameId);
+  if (!game || (!route.play && game === GAME_REGISTRY[0])) return '/';
+  if (!route.play) return `/games/${game.id}`;
+
+  const params = new URLSearchParams();
+  if (route.mode !== 'standard') params.set('mode', route.mode);
+  if (route.seed) params.set('seed', route.seed);
+  const query = params.toString();
+  return `/play/${game.id}${query ? `?${query}` : ''}`;
+};
+
+// Where the arcade is: the selected game, whether it's being played, and the challenge or mode played
+export const routeFor = (
+  gameId: GameSaveKey,
+  play: boolean,
+  challenge: ActiveChallenge | null,
+  options?: GameLaunchOptions
+): ArcadeRoute => {
+  if (!play) return { gameId, play, mode: 'standard', seed: undefined };
+  if (challenge) return { gameId, play, mode: challenge.period, seed: challenge.periodKey };
+  return { gameId, play, mode: options?.mode ?? 'standard', seed: options?.seed };
+};
+
+export const gameIndexFor = (route: ArcadeRoute) =>
+  Math.max(0, GAME_REGISTRY.findIndex(game => game.saveKey === route.gameId));
+
+/**
+ * The challenge a route asks to play, if it's still running. Links to an
+ * earlier day's or week's challenge, or to a challenge the game doesn't have
+ * this period, play the game normally.
+ */
+export const challengeForRoute = (route: ArcadeRoute, now = Date.now()): ActiveChallenge | null => {
+  if (!route.play || !isChallengeMode(route.mode)) return null;
+
+  const challenge = drawChallenges(now).find(candidate => candidate.period === route.mode && candidate.gameId === route.gameId);
+  if (!challenge || (route.seed && route.seed !== challenge.periodKey)) return null;
+  return challenge;
+};
+
+// What the game is started with. Challenges are played under standard rules,
+// their seed the period's, so everyone taking one gets the same draws.
+export const launchOptionsFor = (route: ArcadeRoute): GameLaunchOptions => ({
+  mode: isChallengeMode(route.mode) ? 'standard' : route.mode,
+  seed: route.play ? route.seed : undefined
+});
@@ -0,0 +1,72 @@
+import type { ChallengePeriod } from '../types/challenge';
+import type { ChallengeCompletion } from '../types/save';
+
+// ============================================================================
+// CHALLENGE CALENDAR
+// Challenges change at local midnight (daily) and on Monday (weekly). Days
+// are identified by their local YYYY-MM-DD date so streaks follow the
+// player's calendar rather than UTC.
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const fromDayKey = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Monday of the week containing the date
+const startOfWeek = (date: Date) => {
+  const start = startOfDay(date);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// The day a period began on, e.g. "2026-10-19" for both the day and, on a Monday, its week
+export const periodKeyFor = (period: ChallengePeriod, now: number) =>
+  toDayKey(period === 'daily' ? startOfDay(new Date(now)) : startOfWeek(new Date(now)));
+
+export const periodEndFor = (period: ChallengePeriod, now: number) => {
+  const end = period === 'daily' ? startOfDay(new Date(now)) : startOfWeek(new Date(now));
+  end.setDate(end.getDate() + (period === 'daily' ? 1 : 7));
+  return end.getTime();
+};
+
+// Whole calendar days from one day key to the next; DST shifts round away
+const daysBetween = (from: string, to: string) =>
+  Math.round((fromDayKey(to).getTime() - fromDayKey(from).getTime()) / DAY_MS);
+
+export interface ChallengeStreak {
+  current: number;    // Consecutive days up to today, or up to yesterday if today is still open
+  best: number;
+}
+
+// Streaks count days on which at least one daily challenge was completed
+export const dailyChallengeStreak = (
+  completed: Record<string, ChallengeCompletion> | undefined,
+  now?: number
+): ChallengeStreak => {
+  const days = [...new Set(
+    Object.values(completed ?? {})
+      .filter(completion => completion.period === 'daily')
+      .map(completion => completion.periodKey)
+  )].sort();
+
+  let best = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && daysBetween(days[index - 1], day) === 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+
+  const last = days[days.length - 1];
+  const sinceLast = last && now !== undefined ? daysBetween(last, toDayKey(new Date(now))) : Infinity;
+  return { current: sinceLast <= 1 ? run : 0, best };
+};
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  armChallenge,
+  createChallengeRuntime,
+  drawChallenges,
+  recordChallengeCompletion,
+  trackChallengeEvent
+} from './challengeEngine';
+import { dailyChallengeStreak, periodKeyFor } from './challengeCalendar';
+import { best, count } from './achievementEngine';
+import { createDefaultGlobalSave } from './saveSchema';
+import type { ActiveChallenge } from '../types/challenge';
+import type { ChallengeCompletion } from '../types/save';
+
+const MONDAY = new Date(2026, 9, 19, 12).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const challenge = (overrides: Partial<ActiveChallenge> = {}): ActiveChallenge => ({
+  id: 'test',
+  gameId: 'matrixInvaders',
+  title: 'Test',
+  description: 'Test',
+  goal: best('wave_completed', 'wave', 3),
+  key: 'daily-2026-10-19:test',
+  period: 'daily',
+  periodKey: '2026-10-19',
+  endsAt: MONDAY + DAY_MS,
+  ...overrides
+});
+
+const completion = (periodKey: string, period: 'daily' | 'weekly' = 'daily'): ChallengeCompletion => ({
+  completedAt: 0,
+  gameId: 'metris',
+  period,
+  periodKey
+});
+
+describe('challengeEngine', () => {
+  it('draws the same challenges for everyone on the same day', () => {
+    const morning = drawChallenges(new Date(2026, 9, 19, 8).getTime());
+    const evening = drawChallenges(new Date(2026, 9, 19, 22).getTime());
+
+    expect(evening.map(c => c.key)).toEqual(morning.map(c => c.key));
+    expect(morning.filter(c => c.period === 'daily').map(c => c.gameId)).toEqual([
+      'metris', 'matrixInvaders', 'snakeClassic', 'matrixCloud'
+    ]);
+    expect(morning.filter(c => c.period === 'weekly')).toHaveLength(1);
+    expect(morning[0].key).toMatch(/^daily-2026-10-19:metris_/);
+  });
+
+  it('keeps the weekly challenge for the whole week', () => {
+    const weekly = (now: number) => drawChallenges(now).find(c => c.period === 'weekly')!;
+
+    expect(periodKeyFor('weekly', MONDAY + 6 * DAY_MS)).toBe('2026-10-19');
+    expect(weekly(MONDAY + 6 * DAY_MS).key).toBe(weekly(MONDAY).key);
+    expect(weekly(MONDAY).endsAt).toBe(new Date(2026, 9, 26).getTime());
+  });
+
+  it('completes an armed challenge within a single run', () => {
+    const runtime = createChallengeRuntime();
+    const armed = challenge();
+    armChallenge(runtime, armed);
+
+    trackChallengeEvent(runtime, { type: 'run_started', gameId: 'matrixInvaders' }, MONDAY);
+    expect(trackChallengeEvent(runtime, { type: 'wave_completed', gameId: 'matrixInvaders', wave: 2 }, MONDAY)).toBeNull();
+    // Another game's events don't count
+    expect(trackChallengeEvent(runtime, { type: 'wave_completed', gameId: 'metris', wave: 3 } as never, MONDAY)).toBeNull();
+    expect(trackChallengeEvent(runtime, { type: 'wave_completed', gameId: 'matrixInvaders', wave: 3 }, MONDAY)).toBe(armed);
+    expect(runtime.run?.status).toBe('completed');
+  });
+
+  it('fails a run that breaks a rule until the next run starts', () => {
+    const runtime = createChallengeRuntime();
+    armChallenge(runtime, challenge({ forbidden: [count('bullet_time_used', 1)] }));
+
+    trackChallengeEvent(runtime, { type: 'run_started', gameId: 'matrixInvaders' }, MONDAY);
+    trackChallengeEvent(runtime, { type: 'bullet_time_used', gameId: 'matrixInvaders' }, MONDAY);
+    expect(trackChallengeEvent(runtime, { type: 'wave_completed', gameId: 'matrixInvaders', wave: 5 }, MONDAY)).toBeNull();
+    expect(runtime.run?.status).toBe('failed');
+
+    trackChallengeEvent(runtime, { type: 'run_started', gameId: 'matrixInvaders' }, MONDAY);
+    expect(trackChallengeEvent(runtime, { type: 'wave_completed', gameId: 'matrixInvaders', wave: 5 }, MONDAY)).not.toBeNull();
+  });
+
+  it('gives up the attempt when the run is quit', () => {
+    const runtime = createChallengeRuntime();
+    armChallenge(runtime, challenge());
+
+    trackChallengeEvent(runtime, { type: 'run_started', gameId: 'matrixInvaders' }, MONDAY);
+    trackChallengeEvent(runtime, { type: 'run_quit', gameId: 'matrixInvaders', score: 40, durationSeconds: 30 }, MONDAY);
+    expect(trackChallengeEvent(runtime, { type: 'wave_completed', gameId: 'matrixInvaders', wave: 3 }, MONDAY)).toBeNull();
+    expect(runtime.run?.status).toBe('failed');
+  });
+
+  it('fails a run that runs out of time', () => {
+    const runtime = createChallengeRuntime();
+    armChallenge(runtime, challenge({ timeLimitSeconds: 60 }));
+
+    trackChallengeEvent(runtime, { type: 'run_started', gameId: 'matrixInvaders' }, MONDAY);
+    expect(trackChallengeEvent(runtime, { type: 'wave_completed', gameId: 'matrixInvaders', wave: 3 }, MONDAY + 61_000)).toBeNull();
+    expect(runtime.run?.status).toBe('failed');
+  });
+
+  it('leaves time spent paused off the time limit', () => {
+    const runtime = createChallengeRuntime();
+    armChallenge(runtime, challenge({ timeLimitSeconds: 60 }));
+
+    trackChallengeEvent(runtime, { type: 'run_started', gameId: 'matrixInvaders' }, MONDAY);
+    trackChallengeEvent(runtime, { type: 'game_paused', gameId: 'matrixInvaders' }, MONDAY + 30_000);
+    trackChallengeEvent(runtime, { type: 'game_resumed', gameId: 'matrixInvaders' }, MONDAY + 330_000);
+    expect(trackChallengeEvent(runtime, { type: 'wave_completed', gameId: 'matrixInvaders', wave: 3 }, MONDAY + 350_000)).toEqual(
+      expect.objectContaining({ key: 'daily-2026-10-19:test' })
+    );
+  });
+
+  it('records the first completion only', () => {
+    const save = recordChallengeCompletion(createDefaultGlobalSave(), challenge(), 100);
+    expect(save.challenges?.completed['daily-2026-10-19:test']).toEqual({
+      completedAt: 100, gameId: 'matrixInvaders', period: 'daily', periodKey: '2026-10-19'
+    });
+    expect(recordChallengeCompletion(save, challenge(), 200)).toBe(save);
+  });
+});
+
+describe('dailyChallengeStreak', () => {
+  it('counts consecutive days with a completed daily challenge', () => {
+    const completed = {
+      a: completion('2026-10-10'),
+      b: completion('2026-10-11'),
+      c: completion('2026-10-12'),
+      d: completion('2026-10-17'),
+      e: completion('2026-10-18'),
+      f: completion('2026-10-18'),
+      g: completion('2026-10-19', 'weekly')
+    };
+
+    // Today is still open, so yesterday's streak is alive
+    expect(dailyChallengeStreak(completed, MONDAY)).toEqual({ current: 2, best: 3 });
+    expect(dailyChallengeStreak(completed, MONDAY + 2 * DAY_MS)).toEqual({ current: 0, best: 3 });
+    expect(dailyChallengeStreak(undefined, MONDAY)).toEqual({ current: 0, best: 0 });
+  });
+});
@@ -0,0 +1,176 @@
+import { DAILY_CHALLENGES, WEEKLY_CHALLENGES } from '../data/challenges';
+import { applyEventToCounters, counterLeaves, evaluateCondition, type CounterSet, type ConditionContext } from './achievementEngine';
+import { periodEndFor, periodKeyFor } from './challengeCalendar';
+import type { GameSaveKey } from '../data/gameRegistry';
+import type { ActiveChallenge, ChallengeDefinition, ChallengePeriod } from '../types/challenge';
+import type { GameEvent } from '../types/events';
+import type { GlobalSaveData } from '../types/save';
+
+// ============================================================================
+// CHALLENGE ENGINE
+// Draws the day's and week's challenges from a seed made of the date, so
+// every player gets the same ones, and judges the run the player is
+// attempting a challenge in from the events the game reports.
+// ============================================================================
+
+// FNV-1a: turns a seed string into a 32-bit number
+const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and the same in every browser. Games use it too, for
+// runs a link gives a seed, so everyone opening the link gets the same draws.
+export const seededRandom = (seed: string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const drawFrom = (pool: ChallengeDefinition[], seed: string) =>
+  pool[Math.floor(seededRandom(seed)() * pool.length)];
+
+const activate = (challenge: ChallengeDefinition, period: ChallengePeriod, now: number): ActiveChallenge => {
+  const periodKey = periodKeyFor(period, now);
+  return {
+    ...challenge,
+    key: `${period}-${periodKey}:${challenge.id}`,
+    period,
+    periodKey,
+    endsAt: periodEndFor(period, now)
+  };
+};
+
+/**
+ * Today's challenge for each game followed by this week's challenge. Each
+ * game is drawn with its own seed so adding a game leaves the others as they were.
+ */
+export const drawChallenges = (now = Date.now()): ActiveChallenge[] => {
+  const day = periodKeyFor('daily', now);
+  const daily = (Object.entries(DAILY_CHALLENGES) as [GameSaveKey, ChallengeDefinition[]][])
+    .filter(([, pool]) => pool.length > 0)
+    .map(([gameId, pool]) => activate(drawFrom(pool, `daily-${day}-${gameId}`), 'daily', now));
+
+  const weekly = activate(drawFrom(WEEKLY_CHALLENGES, `weekly-${periodKeyFor('weekly', now)}`), 'weekly', now);
+  return [...daily, weekly];
+};
+
+export type ChallengeRunStatus = 'active' | 'failed' | 'completed';
+
+// The player's current attempt at the armed challenge
+export interface ChallengeRun {
+  startedAt: number;
+  pausedAt: number | null;  // When the current pause began
+  pausedMs: number;         // Earlier pauses, which don't count towards a time limit
+  counters: CounterSet;
+  status: ChallengeRunStatus;
+}
+
+// In memory only: which challenge the player chose to attempt and how the current run is going
+export interface ChallengeRuntime {
+  armed: ActiveChallenge | null;
+  run: ChallengeRun | null;
+}
+
+export const createChallengeRuntime = (): ChallengeRuntime => ({ armed: null, run: null });
+
+export const armChallenge = (runtime: ChallengeRuntime, challenge: ActiveChallenge | null) => {
+  runtime.armed = challenge;
+  runtime.run = null;
+};
+
+// Goals never use arcade metrics; a run's counters stand in for every scope
+const runContext = (counters: CounterSet): ConditionContext => ({
+  counters: { session: counters, visit: counters, lifetime: counters },
+  metrics: {} as ConditionContext['metrics']
+});
+
+/**
+ * Updates the armed challenge's run with an event and returns the challenge
+ * if this event completed it. A new run of the game starts a new attempt;
+ * a run that failed stays failed until then.
+ */
+export const trackChallengeEvent = (
+  runtime: ChallengeRuntime,
+  event: GameEvent,
+  now = Date.now()
+): ActiveChallenge | null => {
+  const challenge = runtime.armed;
+  if (!challenge || event.gameId !== challenge.gameId) return null;
+
+  if (event.type === 'run_started' || event.type === 'game_started' || !runtime.run) {
+    runtime.run = { startedAt: now, pausedAt: null, pausedMs: 0, counters: {}, status: 'active' };
+  }
+  const run = runtime.run;
+  if (run.status !== 'active') return null;
+
+  // Quitting a run gives up the attempt
+  if (event.type === 'run_quit') {
+    run.status = 'failed';
+    return null;
+  }
+
+  if (event.type === 'game_paused') {
+    run.pausedAt ??= now;
+    return null;
+  }
+  if (event.type === 'game_resumed') {
+    if (run.pausedAt !== null) run.pausedMs += now - run.pausedAt;
+    run.pausedAt = null;
+    return null;
+  }
+
+  const playedMs = (run.pausedAt ?? now) - run.startedAt - run.pausedMs;
+  if (challenge.timeLimitSeconds !== undefined && playedMs > challenge.timeLimitSeconds * 1000) {
+    run.status = 'failed';
+    return null;
+  }
+
+  const forbidden = challenge.forbidden ?? [];
+  run.counters = applyEventToCounters(run.counters, [...counterLeaves(challenge.goal), ...forbidden], event);
+  const context = runContext(run.counters);
+
+  if (forbidden.some(rule => evaluateCondition(rule, context).met)) {
+    run.status = 'failed';
+  } else if (evaluateCondition(challenge.goal, context).met) {
+    run.status = 'completed';
+    return challenge;
+  }
+  return null;
+};
+
+export const isChallengeCompleted = (data: GlobalSaveData, challenge: ActiveChallenge) =>
+  !!data.challenges?.completed[challenge.key];
+
+// Records a completed challenge; completing one twice keeps the first time
+export const recordChallengeCompletion = (
+  data: GlobalSaveData,
+  challenge: ActiveChallenge,
+  now = Date.now()
+): GlobalSaveData => {
+  if (isChallengeCompleted(data, challenge)) return data;
+
+  return {
+    ...data,
+    challenges: {
+      ...data.challenges,
+      completed: {
+        ...data.challenges?.completed,
+        [challenge.key]: {
+          completedAt: now,
+          gameId: challenge.gameId,
+          period: challenge.period,
+          periodKey: challenge.periodKey
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GAMEPAD_REPEAT_DELAY, applyDeadzone, readGamepad } from './gamepad';
+import { createInputManager, type FrameScheduler } from './inputManager';
+import { INPUT_ACTIONS } from '../data/inputBindings';
+import type { InputActionEvent } from '../types/input';
+
+// A standard-mapping pad with the given buttons held
+const pad = (pressed: number[] = [], axes = [0, 0]) => ({
+  connected: true,
+  mapping: 'standard',
+  axes,
+  buttons: Array.from({ length: 17 }, (_, index) => ({ pressed: pressed.includes(index), value: pressed.includes(index) ? 1 : 0 }))
+}) as unknown as Gamepad;
+
+const A = 0;
+const START = 9;
+const DPAD_LEFT = 14;
+
+let pads: (Gamepad | null)[] = [];
+
+const stubGamepads = () => {
+  Object.defineProperty(navigator, 'getGamepads', { configurable: true, value: vi.fn(() => pads) });
+};
+
+// Runs the manager's poll by hand, one frame per call
+const manualFrames = () => {
+  let queued: ((now: number) => void) | null = null;
+  const frames: FrameScheduler = {
+    request: callback => {
+      queued = callback;
+      return 1;
+    },
+    cancel: () => {
+      queued = null;
+    }
+  };
+  const step = (now: number) => {
+    const callback = queued;
+    queued = null;
+    callback?.(now);
+  };
+  return { frames, step, isPolling: () => queued !== null };
+};
+
+describe('gamepad', () => {
+  afterEach(() => {
+    pads = [];
+    Reflect.deleteProperty(navigator, 'getGamepads');
+  });
+
+  it('ignores stick travel inside the deadzone and rescales the rest', () => {
+    expect(applyDeadzone(0.2)).toBe(0);
+    expect(applyDeadzone(-0.2)).toBe(0);
+    expect(applyDeadzone(1)).toBe(1);
+    expect(applyDeadzone(-0.625)).toBeCloseTo(-0.5);
+  });
+
+  it('gives each button one meaning in every context', () => {
+    Object.values(INPUT_ACTIONS).forEach(actions => {
+      const buttons = actions.flatMap(definition => definition.buttons ?? []);
+      expect(new Set(buttons).size).toBe(buttons.length);
+    });
+  });
+
+  it('reads buttons and counts a pushed stick as a direction', () => {
+    expect(readGamepad(pad([A, DPAD_LEFT], [0.3, -0.9]))).toEqual(['GamepadA', 'GamepadDpadLeft', 'GamepadStickUp']);
+  });
+
+  it('turns buttons into the subscribed game\'s actions, with repeats while held', () => {
+    stubGamepads();
+    pads = [null, pad([DPAD_LEFT])];
+    const { frames, step } = manualFrames();
+    const manager = createInputManager(new EventTarget() as Window, frames);
+    const events: InputActionEvent[] = [];
+    manager.subscribe('metris', event => events.push(event));
+
+    step(0);
+    expect(manager.isHeld('metris', 'left')).toBe(true);
+    step(GAMEPAD_REPEAT_DELAY - 1);
+    step(GAMEPAD_REPEAT_DELAY);
+    pads = [null, pad()];
+    step(GAMEPAD_REPEAT_DELAY + 16);
+
+    expect(events).toEqual([
+      { action: 'left', pressed: true, repeat: false, code: 'GamepadDpadLeft' },
+      { action: 'left', pressed: true, repeat: true, code: 'GamepadDpadLeft' },
+      { action: 'left', pressed: false, repeat: false, code: 'GamepadDpadLeft' }
+    ]);
+  });
+
+  it('drives the arcade menu and uses each game\'s own layout', () => {
+    stubGamepads();
+    pads = [pad([START])];
+    const { frames, step } = manualFrames();
+    const manager = createInputManager(new EventTarget() as Window, frames);
+    const arcade = vi.fn();
+    const cloud = vi.fn();
+    manager.subscribe('arcade', arcade);
+    manager.subscribe('matrixCloud', cloud);
+
+    step(0);
+    pads = [pad([A])];
+    step(16);
+
+    expect(arcade).toHaveBeenCalledWith(expect.objectContaining({ action: 'confirm', pressed: true, code: 'GamepadStart' }));
+    expect(cloud).toHaveBeenCalledWith(expect.objectContaining({ action: 'pause', pressed: true }));
+    expect(cloud).toHaveBeenCalledWith(expect.objectContaining({ action: 'jump', pressed: true }));
+  });
+
+  it('gives the stick as an analog axis and stops polling once the pad is unplugged', () => {
+    stubGamepads();
+    pads = [pad([], [0, 1])];
+    const { frames, step, isPolling } = manualFrames();
+    const manager = createInputManager(new EventTarget() as Window, frames);
+    manager.subscribe('vortexPong', vi.fn());
+
+    expect(manager.getAxis('vertical')).toBe(1);
+    expect(manager.getAxis('horizontal')).toBe(0);
+
+    pads = [];
+    step(0);
+    expect(isPolling()).toBe(false);
+    expect(manager.getAxis('vertical')).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import type { GamepadControl, InputAxis } from '../types/input';
+
+// ============================================================================
+// GAMEPAD
+// Reads standard-mapping controllers into the same held-control model the
+// input manager uses for keys. Controls are given codes like 'GamepadA' so
+// they can never clash with a KeyboardEvent.code.
+// ============================================================================
+
+// Stick travel ignored around the centre, as worn sticks rarely rest at zero
+export const GAMEPAD_DEADZONE = 0.25;
+
+// How far the stick must be pushed to count as a D-pad direction
+export const STICK_PRESS_THRESHOLD = 0.5;
+
+// Held buttons repeat like keyboard keys do
+export const GAMEPAD_REPEAT_DELAY = 250; // ms
+export const GAMEPAD_REPEAT_INTERVAL = 50; // ms
+
+// Button indices of the W3C standard gamepad mapping
+const STANDARD_BUTTONS: GamepadControl[] = [
+  'A', 'B', 'X', 'Y',
+  'LB', 'RB', 'LT', 'RT',
+  'Back', 'Start', 'LS', 'RS',
+  'DpadUp', 'DpadDown', 'DpadLeft', 'DpadRight'
+];
+
+const AXIS_INDEX: Record<InputAxis, number> = { horizontal: 0, vertical: 1 };
+
+const DIRECTION_ARROWS: Record<string, string> = { Up: '↑', Down: '↓', Left: '←', Right: '→' };
+
+export const gamepadCode = (control: GamepadControl) => `Gamepad${control}`;
+
+// 'DpadUp' reads as 'D-PAD ↑', 'StickLeft' as 'STICK ←'
+export const gamepadLabel = (control: GamepadControl) =>
+  control.replace(/^(Dpad|Stick)(Up|Down|Left|Right)$/, (_, part: string, direction: string) =>
+    `${part === 'Dpad' ? 'D-PAD' : 'STICK'} ${DIRECTION_ARROWS[direction]}`
+  ).toUpperCase();
+
+// Rescales what's left after the deadzone so the stick still reaches 1
+export const applyDeadzone = (value: number, deadzone = GAMEPAD_DEADZONE) => {
+  const magnitude = Math.abs(value);
+  if (magnitude < deadzone) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+};
+
+export const readAxis = (pad: Gamepad, axis: InputAxis) => applyDeadzone(pad.axes[AXIS_INDEX[axis]] ?? 0);
+
+/**
+ * Codes of every control held on the pad, with the left stick counted as
+ * D-pad directions past STICK_PRESS_THRESHOLD.
+ */
+export const readGamepad = (pad: Gamepad): string[] => {
+  const controls = STANDARD_BUTTONS.filter((_, index) => pad.buttons[index]?.pressed);
+
+  const x = pad.axes[AXIS_INDEX.horizontal] ?? 0;
+  const y = pad.axes[AXIS_INDEX.vertical] ?? 0;
+  if (x <= -STICK_PRESS_THRESHOLD) controls.push('StickLeft');
+  if (x >= STICK_PRESS_THRESHOLD) controls.push('StickRight');
+  if (y <= -STICK_PRESS_THRESHOLD) controls.push('StickUp');
+  if (y >= STICK_PRESS_THRESHOLD) controls.push('StickDown');
+
+  return controls.map(gamepadCode);
+};
+
+// Connected pads; browsers fill the list with nulls for empty slots
+export const connectedGamepads = (): Gamepad[] => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return [...navigator.getGamepads()].filter((pad): pad is Gamepad => pad !== null && pad.connected);
+};
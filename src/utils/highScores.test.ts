@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HIGH_SCORE_TABLE_SIZE,
+  highScoreRank,
+  mergeHighScoreTables,
+  normaliseInitials,
+  recordHighScore
+} from './highScores';
+import { createDefaultGlobalSave } from './saveSchema';
+import type { HighScoreEntry } from '../types/save';
+
+const entry = (score: number, date = score, initials = 'NEO'): HighScoreEntry => ({
+  initials, score, durationSeconds: 60, date
+});
+
+const fullTable = () => Array.from({ length: HIGH_SCORE_TABLE_SIZE }, (_, i) => entry((HIGH_SCORE_TABLE_SIZE - i) * 100));
+
+describe('highScores', () => {
+  it('ranks a score below every equal or better one', () => {
+    const table = [entry(500), entry(300), entry(100)];
+
+    expect(highScoreRank(table, 600)).toBe(0);
+    expect(highScoreRank(table, 300, 1000)).toBe(2);
+    expect(highScoreRank(table, 50)).toBe(3);
+    expect(highScoreRank(table, 0)).toBe(-1);
+    expect(highScoreRank(fullTable(), 100, 1000)).toBe(-1);
+    expect(highScoreRank(fullTable(), 150)).toBe(9);
+  });
+
+  it('records a run in its mode, keeps the best ten and remembers the initials', () => {
+    let save = createDefaultGlobalSave();
+    save.games.metris.highScores = { standard: fullTable() };
+
+    save = recordHighScore(save, 'metris', 'standard', entry(650, 5000, 'tr'));
+    save = recordHighScore(save, 'metris', 'challenge', entry(40, 6000, 'AB'));
+
+    const standard = save.games.metris.highScores!.standard;
+    expect(standard).toHaveLength(HIGH_SCORE_TABLE_SIZE);
+    expect(standard[4]).toMatchObject({ initials: 'TR ', score: 650 });
+    expect(standard[HIGH_SCORE_TABLE_SIZE - 1].score).toBe(200);
+    expect(save.games.metris.highScores!.challenge).toEqual([expect.objectContaining({ initials: 'AB ', score: 40 })]);
+    expect(save.games.metris.highScore).toBe(650);
+    expect(save.settings.lastInitials).toBe('AB ');
+  });
+
+  it('keeps only characters an arcade cabinet can enter', () => {
+    expect(normaliseInitials('n3o!x')).toBe('N3O');
+    expect(normaliseInitials('')).toBe('   ');
+  });
+
+  it('merges tables from two devices without duplicating runs', () => {
+    const shared = entry(400, 1);
+    const merged = mergeHighScoreTables(
+      { standard: [shared, entry(200)] },
+      { standard: [entry(300), shared], challenge: [entry(90)] }
+    );
+
+    expect(merged?.standard.map(row => row.score)).toEqual([400, 300, 200]);
+    expect(merged?.challenge).toHaveLength(1);
+    expect(mergeHighScoreTables(undefined, undefined)).toBeUndefined();
+  });
+});
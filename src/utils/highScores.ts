@@ -0,0 +1,96 @@
+import type { GameSaveKey } from '../data/gameRegistry';
+import type { ActiveChallenge } from '../types/challenge';
+import type { GameSaveData, GlobalSaveData, HighScoreEntry } from '../types/save';
+
+// ============================================================================
+// HIGH SCORE TABLES
+// Each game keeps a top-10 table per mode. Challenge runs and a game's own
+// modes are played under different rules, so they get tables of their own.
+// ============================================================================
+
+export const HIGH_SCORE_TABLE_SIZE = 10;
+export const DEFAULT_MODE = 'standard';
+export const CHALLENGE_MODE = 'challenge';
+export const INITIALS_LENGTH = 3;
+export const INITIALS_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 ';
+
+// Entries from before tables existed, when only the score was kept
+export const UNKNOWN_INITIALS = '---';
+
+export const modeFor = (challenge?: ActiveChallenge | null, gameMode = DEFAULT_MODE) => (challenge ? CHALLENGE_MODE : gameMode);
+
+export const modeLabel = (mode: string) => mode.toUpperCase();
+
+// Upper-cases, drops characters a cabinet couldn't enter and pads to three
+export const normaliseInitials = (initials: string) =>
+  [...initials.toUpperCase()]
+    .filter(char => INITIALS_ALPHABET.includes(char))
+    .join('')
+    .slice(0, INITIALS_LENGTH)
+    .padEnd(INITIALS_LENGTH, ' ');
+
+// Higher scores first; of equal scores the one set first stays ahead
+const byRank = (a: HighScoreEntry, b: HighScoreEntry) => b.score - a.score || a.date - b.date;
+
+export const sortHighScores = (table: HighScoreEntry[]) =>
+  [...table].sort(byRank).slice(0, HIGH_SCORE_TABLE_SIZE);
+
+export const getHighScoreTable = (game: GameSaveData | undefined, mode = DEFAULT_MODE): HighScoreEntry[] =>
+  game?.highScores?.[mode] ?? [];
+
+// The position (0-based) a score would take in the table, or -1 if it doesn't make it
+export const highScoreRank = (table: HighScoreEntry[], score: number, date = Date.now()) => {
+  if (score <= 0) return -1;
+  const rank = table.filter(entry => byRank(entry, { initials: '', score, durationSeconds: 0, date }) <= 0).length;
+  return rank < HIGH_SCORE_TABLE_SIZE ? rank : -1;
+};
+
+export const qualifiesForHighScore = (table: HighScoreEntry[], score: number) => highScoreRank(table, score) !== -1;
+
+/**
+ * Adds a run to a game's table for a mode. The game's single high score
+ * follows the best entry, and the initials are remembered for next time.
+ */
+export const recordHighScore = (
+  data: GlobalSaveData,
+  gameId: GameSaveKey,
+  mode: string,
+  entry: HighScoreEntry
+): GlobalSaveData => {
+  const game = data.games[gameId];
+  const initials = normaliseInitials(entry.initials);
+  const table = sortHighScores([...getHighScoreTable(game, mode), { ...entry, initials }]);
+
+  return {
+    ...data,
+    games: {
+      ...data.games,
+      [gameId]: {
+        ...game,
+        highScore: Math.max(game.highScore, entry.score),
+        highScores: { ...game.highScores, [mode]: table }
+      }
+    },
+    settings: { ...data.settings, lastInitials: initials }
+  };
+};
+
+// Tables from two saves: every distinct run is kept and the best ten survive
+export const mergeHighScoreTables = (
+  local: Record<string, HighScoreEntry[]> | undefined,
+  remote: Record<string, HighScoreEntry[]> | undefined
+): Record<string, HighScoreEntry[]> | undefined => {
+  if (!local && !remote) return undefined;
+
+  const modes = new Set([...Object.keys(local ?? {}), ...Object.keys(remote ?? {})]);
+  return Object.fromEntries([...modes].map(mode => {
+    const seen = new Set<string>();
+    const entries = [...(local?.[mode] ?? []), ...(remote?.[mode] ?? [])].filter(entry => {
+      const id = `${entry.initials}|${entry.score}|${entry.date}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+    return [mode, sortHighScores(entries)];
+  }));
+};
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory, IDBDatabase } from 'fake-indexeddb';
+import { createIndexedDbBackend, initSaveStorage } from './indexedDbBackend';
+import { saveStorage, createLocalStorageBackend, STORAGE_KEYS } from './saveStorage';
+
+describe('IndexedDB storage backend', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    saveStorage.setBackend(createLocalStorageBackend());
+  });
+
+  it('persists values across reopen once flushed', async () => {
+    const backend = await createIndexedDbBackend({ factory });
+    backend.setItem('matrix-arcade-save-data', { version: '1.1.0', games: {} });
+    await backend.flush();
+
+    const reopened = await createIndexedDbBackend({ factory });
+    expect(reopened.getItem('matrix-arcade-save-data')).toEqual({ version: '1.1.0', games: {} });
+  });
+
+  it('serves reads from memory before the write lands', async () => {
+    const backend = await createIndexedDbBackend({ factory, flushDelay: 10_000 });
+    backend.setItem('key', { score: 1 });
+
+    expect(backend.getItem('key')).toEqual({ score: 1 });
+
+    const reopened = await createIndexedDbBackend({ factory });
+    expect(reopened.getItem('key')).toBeNull();
+  });
+
+  it('batches rapid writes into a single transaction', async () => {
+    const backend = await createIndexedDbBackend({ factory, flushDelay: 10_000 });
+    const transaction = vi.spyOn(IDBDatabase.prototype, 'transaction');
+
+    for (let score = 0; score < 20; score++) {
+      backend.setItem('key', { score });
+    }
+    backend.setItem('other', true);
+    await backend.flush();
+
+    const writes = transaction.mock.calls.filter(([, mode]) => mode === 'readwrite');
+    expect(writes).toHaveLength(1);
+
+    const reopened = await createIndexedDbBackend({ factory });
+    expect(reopened.getItem('key')).toEqual({ score: 19 });
+    expect(reopened.getItem('other')).toBe(true);
+  });
+
+  it('writes automatically after the debounce delay', async () => {
+    const backend = await createIndexedDbBackend({ factory, flushDelay: 5 });
+    backend.setItem('key', 'value');
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const reopened = await createIndexedDbBackend({ factory });
+    expect(reopened.getItem('key')).toBe('value');
+  });
+
+  it('deletes removed keys', async () => {
+    const backend = await createIndexedDbBackend({ factory });
+    backend.setItem('key', 1);
+    await backend.flush();
+    backend.removeItem('key');
+    await backend.flush();
+
+    const reopened = await createIndexedDbBackend({ factory });
+    expect(reopened.getItem('key')).toBeNull();
+    expect(reopened.keys()).toEqual([]);
+  });
+
+  it('keeps values as given and writes them as JSON data', async () => {
+    const backend = await createIndexedDbBackend({ factory });
+    const value = { games: { metris: 1 }, lastSynced: undefined, savedAt: new Date(0) };
+    backend.setItem('key', value);
+
+    expect(backend.getItem('key')).toBe(value);
+    await backend.flush();
+
+    const reopened = await createIndexedDbBackend({ factory });
+    expect(reopened.getItem('key')).toStrictEqual({ games: { metris: 1 }, savedAt: '1970-01-01T00:00:00.000Z' });
+  });
+
+  it('rejects when IndexedDB is unavailable', async () => {
+    await expect(createIndexedDbBackend({ factory: undefined })).rejects.toThrow('IndexedDB is not available');
+  });
+});
+
+describe('initSaveStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    saveStorage.setBackend(createLocalStorageBackend());
+  });
+
+  it('moves existing localStorage saves into IndexedDB on first run', async () => {
+    const factory = new IDBFactory();
+    localStorage.setItem(STORAGE_KEYS.saveData, JSON.stringify({ version: '1.1.0' }));
+    localStorage.setItem(`${STORAGE_KEYS.ctrlsSave}@profile-2`, JSON.stringify({ currentChapter: 3 }));
+    localStorage.setItem('unrelated', 'keep me');
+
+    expect(await initSaveStorage({ factory })).toBe('indexedDB');
+
+    expect(saveStorage.get('saveData')).toEqual({ version: '1.1.0' });
+    expect(localStorage.getItem(STORAGE_KEYS.saveData)).toBeNull();
+    expect(localStorage.getItem('unrelated')).toBe('keep me');
+
+    const reopened = await createIndexedDbBackend({ factory });
+    expect(reopened.getItem(`${STORAGE_KEYS.ctrlsSave}@profile-2`)).toEqual({ currentChapter: 3 });
+  });
+
+  it('falls back to localStorage when IndexedDB cannot be opened', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await initSaveStorage()).toBe('localStorage');
+
+    saveStorage.set('audioConfig', { music: false });
+    expect(localStorage.getItem(STORAGE_KEYS.audioConfig)).toBe('{"music":false}');
+  });
+});
@@ -0,0 +1,192 @@
+import { isArcadeStorageKey, saveStorage, type StorageBackend } from './saveStorage';
+
+// ============================================================================
+// INDEXEDDB BACKEND
+// Keeps every arcade value in memory for synchronous reads and persists
+// changes to IndexedDB in debounced batches, one transaction per batch, so
+// gameplay never waits on a full-save serialise + write.
+// ============================================================================
+
+export const DB_NAME = 'matrix-arcade';
+export const DB_VERSION = 1;
+export const STORE_NAME = 'saves';
+export const DEFAULT_FLUSH_DELAY = 250;
+
+export interface IndexedDbBackendOptions {
+  dbName?: string;
+  flushDelay?: number;       // ms of quiet before a batch is written
+  factory?: IDBFactory;
+}
+
+// Stored as JSON data, the same shape the localStorage backend hands back
+const serialise = (value: unknown): unknown => JSON.parse(JSON.stringify(value));
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (factory: IDBFactory, dbName: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(dbName, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+
+const loadAll = async (db: IDBDatabase) => {
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll())
+  ]);
+  return new Map(keys.map((key, index) => [String(key), values[index] as unknown]));
+};
+
+// Writes a batch atomically: either every change lands or none do
+const commitBatch = (db: IDBDatabase, batch: Map<string, unknown>) =>
+  new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+
+    batch.forEach((value, key) => {
+      if (value === undefined) {
+        store.delete(key);
+      } else {
+        store.put(serialise(value), key);
+      }
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Opens the arcade database and returns a backend hydrated with everything in it.
+ * Rejects when IndexedDB is unavailable so callers can fall back to localStorage.
+ */
+export const createIndexedDbBackend = async (options: IndexedDbBackendOptions = {}): Promise<StorageBackend> => {
+  const factory = options.factory ?? globalThis.indexedDB;
+  if (!factory) {
+    throw new Error('IndexedDB is not available');
+  }
+
+  const flushDelay = options.flushDelay ?? DEFAULT_FLUSH_DELAY;
+  const db = await openDatabase(factory, options.dbName ?? DB_NAME);
+  const cache = await loadAll(db);
+
+  // Callers replace values rather than change them (saves are updated immutably),
+  // so the cache holds what they pass and is only serialised when a batch is written.
+  // Keys changed since the last commit (undefined value = delete)
+  let pending = new Map<string, unknown>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  // Resolves once everything written so far is committed; rejects if this batch failed
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending.size === 0) return inFlight;
+
+    const batch = pending;
+    pending = new Map();
+
+    const write = inFlight.then(() => commitBatch(db, batch));
+    inFlight = write.catch(error => {
+      console.error('Failed to write saves to IndexedDB:', error);
+      // Put the batch back (without overwriting newer changes) so the next flush retries it
+      batch.forEach((value, key) => {
+        if (!pending.has(key)) pending.set(key, value);
+      });
+    });
+    return write;
+  };
+
+  const schedule = (key: string, value: unknown) => {
+    pending.set(key, value);
+    if (timer) clearTimeout(timer);
+    // Failures are logged and retried by flush itself
+    timer = setTimeout(() => flush().catch(() => {}), flushDelay);
+  };
+
+  return {
+    name: 'indexedDB',
+
+    getItem(key) {
+      return cache.has(key) ? cache.get(key) : null;
+    },
+
+    setItem(key, value) {
+      cache.set(key, value);
+      schedule(key, value);
+    },
+
+    removeItem(key) {
+      if (!cache.has(key)) return;
+      cache.delete(key);
+      schedule(key, undefined);
+    },
+
+    keys() {
+      return Array.from(cache.keys());
+    },
+
+    flush
+  };
+};
+
+/**
+ * Copies arcade data out of localStorage into a fresh backend (first run after upgrading).
+ */
+export const importFromLocalStorage = async (backend: StorageBackend) => {
+  const keys = Object.keys(localStorage).filter(isArcadeStorageKey);
+  if (keys.length === 0) return 0;
+
+  keys.forEach(key => {
+    try {
+      backend.setItem(key, JSON.parse(localStorage.getItem(key)!));
+    } catch (error) {
+      console.warn(`Skipping unreadable ${key} during IndexedDB import:`, error);
+    }
+  });
+  await backend.flush();
+
+  // Only drop the originals once they are safely committed
+  keys.forEach(key => localStorage.removeItem(key));
+  return keys.length;
+};
+
+/**
+ * Switches the arcade to IndexedDB when the browser supports it. Never rejects:
+ * on any failure the existing localStorage backend stays in place.
+ */
+export const initSaveStorage = async (options: IndexedDbBackendOptions = {}) => {
+  try {
+    const backend = await createIndexedDbBackend(options);
+    if (backend.keys().length === 0) {
+      await importFromLocalStorage(backend);
+    }
+
+    saveStorage.setBackend(backend);
+
+    // Push out anything still debounced when the tab is hidden or closed
+    const flushNow = () => saveStorage.flush().catch(() => {});
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flushNow();
+    });
+    window.addEventListener('pagehide', flushNow);
+  } catch (error) {
+    console.warn('IndexedDB unavailable, using localStorage for saves:', error);
+  }
+
+  return saveStorage.backendName;
+};
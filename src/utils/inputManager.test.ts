@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createInputManager,
+  findBindingConflicts,
+  keyCodeFor,
+  rebindKey,
+  resolveBindings
+} from './inputManager';
+import type { InputActionEvent } from '../types/input';
+
+const press = (target: EventTarget, key: string, code = '') =>
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, code, cancelable: true }));
+const release = (target: EventTarget, key: string, code = '') =>
+  target.dispatchEvent(new KeyboardEvent('keyup', { key, code }));
+
+describe('inputManager', () => {
+  it('maps keys to codes whether or not the event carries one', () => {
+    expect(keyCodeFor({ key: 'w', code: '' })).toBe('KeyW');
+    expect(keyCodeFor({ key: ' ', code: '' })).toBe('Space');
+    expect(keyCodeFor({ key: 'z', code: 'KeyY' })).toBe('KeyY');
+  });
+
+  it('delivers presses and releases as actions of the subscribed game', () => {
+    const target = new EventTarget();
+    const manager = createInputManager(target as Window);
+    const events: InputActionEvent[] = [];
+    manager.subscribe('snakeClassic', event => events.push(event));
+
+    press(target, 'w');
+    press(target, 'ArrowUp', 'ArrowUp');
+    expect(manager.isHeld('snakeClassic', 'up')).toBe(true);
+    release(target, 'w');
+    release(target, 'ArrowUp', 'ArrowUp');
+    press(target, 'q');
+
+    expect(events).toEqual([
+      { action: 'up', pressed: true, repeat: false, code: 'KeyW' },
+      { action: 'up', pressed: true, repeat: true, code: 'ArrowUp' },
+      { action: 'up', pressed: false, repeat: false, code: 'ArrowUp' }
+    ]);
+    expect(manager.isHeld('snakeClassic', 'up')).toBe(false);
+  });
+
+  it('uses the player\'s keys in place of the defaults and stops listening when nobody is subscribed', () => {
+    const target = new EventTarget();
+    const remove = vi.spyOn(target, 'removeEventListener');
+    const manager = createInputManager(target as Window);
+    const listener = vi.fn();
+    const unsubscribe = manager.subscribe('matrixCloud', listener);
+
+    manager.setOverrides({ matrixCloud: { jump: ['ArrowUp'] } });
+    press(target, ' ');
+    press(target, 'ArrowUp', 'ArrowUp');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ action: 'jump', code: 'ArrowUp' }));
+
+    unsubscribe();
+    expect(remove).toHaveBeenCalledWith('keydown', expect.any(Function));
+  });
+
+  it('ignores keys while suspended', () => {
+    const target = new EventTarget();
+    const manager = createInputManager(target as Window);
+    const listener = vi.fn();
+    manager.subscribe('metris', listener);
+
+    const resume = manager.suspend();
+    press(target, 'c');
+    resume();
+    press(target, 'c');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives an exclusive subscriber its keys to itself and everyone the rest', () => {
+    const target = new EventTarget();
+    const manager = createInputManager(target as Window);
+    const game = vi.fn();
+    const menu = vi.fn();
+    manager.subscribe('metris', game);
+    const close = manager.subscribe('menu', menu, true);
+
+    press(target, 'Enter', 'Enter');
+    press(target, 'c');
+    release(target, 'Enter', 'Enter');
+    close();
+    press(target, 'Enter', 'Enter');
+
+    expect(menu.mock.calls.map(([event]) => event.action)).toEqual(['confirm', 'confirm']);
+    expect(game.mock.calls.map(([event]) => [event.action, event.pressed])).toEqual([
+      ['hold', true],
+      ['confirm', false],
+      ['confirm', true]
+    ]);
+  });
+
+  it('moves a rebound key off the action that had it', () => {
+    const bindings = rebindKey('metris', {}, 'hold', 0, 'Space');
+
+    expect(bindings.hold).toEqual(['Space']);
+    expect(bindings.drop).toEqual([]);
+    expect(findBindingConflicts('metris', bindings)).toEqual([]);
+  });
+
+  it('reports keys shared by two actions and keys the arcade keeps for itself', () => {
+    const bindings = { ...resolveBindings('vortexPong'), up: ['KeyW', 'Escape'], down: ['KeyW'] };
+
+    expect(findBindingConflicts('vortexPong', bindings)).toEqual([
+      { code: 'KeyW', actions: ['up', 'down'], reserved: false },
+      { code: 'Escape', actions: ['up'], reserved: true }
+    ]);
+  });
+});
@@ -0,0 +1,369 @@
+import { ARCADE_CONTEXT, INPUT_ACTIONS, MAX_KEYS_PER_ACTION, MENU_CONTEXT, RESERVED_WHILE_PLAYING } from '../data/inputBindings';
+import type { GameSaveKey } from '../data/gameRegistry';
+import {
+  GAMEPAD_REPEAT_DELAY,
+  GAMEPAD_REPEAT_INTERVAL,
+  connectedGamepads,
+  gamepadCode,
+  readAxis,
+  readGamepad
+} from './gamepad';
+import type { InputAction, InputActionEvent, InputAxis, InputContext, KeyBindings } from '../types/input';
+
+// ============================================================================
+// INPUT MANAGER
+// The one keyboard listener and gamepad poller on the page. Keys and buttons
+// are translated into the actions bound for each subscriber's context (a game,
+// the arcade or an on-screen menu), with the player's remapped keys taking the
+// place of the defaults. On-screen touch controls press actions directly.
+// An exclusive subscriber, such as initials entry over a finished game, takes
+// the presses of its bound controls from everyone else.
+// ============================================================================
+
+export type KeyBindingOverrides = Partial<Record<GameSaveKey, KeyBindings>>;
+
+export interface BindingConflict {
+  code: string;
+  actions: InputAction[];
+  reserved: boolean;        // The key belongs to an arcade control that is always live
+}
+
+export interface InputManager {
+  subscribe(context: InputContext, listener: (event: InputActionEvent) => void, exclusive?: boolean): () => void;
+  isHeld(context: InputContext, action: InputAction): boolean;
+  getAxis(axis: InputAxis): number;
+  setVirtual(action: InputAction, pressed: boolean): void;
+  getBindings(context: InputContext): KeyBindings;
+  setOverrides(overrides: KeyBindingOverrides | undefined): void;
+  suspend(): () => void;
+}
+
+// Lets tests step the gamepad poll by hand
+export interface FrameScheduler {
+  request(callback: (now: number) => void): number;
+  cancel(id: number): void;
+}
+
+const animationFrames: FrameScheduler = {
+  request: callback => requestAnimationFrame(callback),
+  cancel: id => cancelAnimationFrame(id)
+};
+
+// Keys whose KeyboardEvent.key doesn't map onto a code by itself
+const KEY_CODES: Record<string, string> = {
+  ' ': 'Space',
+  Shift: 'ShiftLeft',
+  Control: 'ControlLeft',
+  Alt: 'AltLeft',
+  Meta: 'MetaLeft',
+  '/': 'Slash',
+  '?': 'Slash',
+  ',': 'Comma',
+  '.': 'Period',
+  ';': 'Semicolon',
+  '-': 'Minus',
+  '=': 'Equal'
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'ESC',
+  ShiftLeft: 'L-SHIFT',
+  ShiftRight: 'R-SHIFT',
+  ControlLeft: 'L-CTRL',
+  ControlRight: 'R-CTRL',
+  AltLeft: 'L-ALT',
+  AltRight: 'R-ALT',
+  Slash: '/',
+  Comma: ',',
+  Period: '.',
+  Semicolon: ';',
+  Minus: '-',
+  Equal: '='
+};
+
+/**
+ * Layout-independent name of the key pressed. Synthetic events that only
+ * carry `key` are mapped to the code a US keyboard would have sent.
+ */
+export const keyCodeFor = (event: Pick<KeyboardEvent, 'code' | 'key'>) => {
+  if (event.code) return event.code;
+  if (/^[a-z]$/i.test(event.key)) return `Key${event.key.toUpperCase()}`;
+  if (/^[0-9]$/.test(event.key)) return `Digit${event.key}`;
+  return KEY_CODES[event.key] ?? event.key;
+};
+
+export const keyLabel = (code: string) =>
+  KEY_LABELS[code] ?? code.replace(/^Key|^Digit/, '').toUpperCase();
+
+export const actionLabel = (context: InputContext, action: InputAction) =>
+  INPUT_ACTIONS[context].find(definition => definition.action === action)?.label ?? action;
+
+// Every action can be pressed by an on-screen control under this code
+const touchCode = (action: InputAction) => `Touch:${action}`;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+
+// The context's actions with the player's keys where they've remapped them
+export const resolveBindings = (context: InputContext, overrides?: KeyBindings): KeyBindings =>
+  Object.fromEntries(INPUT_ACTIONS[context].map(({ action, keys }) => [action, overrides?.[action] ?? keys]));
+
+const reservedCodes = () => {
+  const arcade = resolveBindings(ARCADE_CONTEXT);
+  return new Set(RESERVED_WHILE_PLAYING.flatMap(action => arcade[action] ?? []));
+};
+
+/**
+ * Keys bound to more than one action in the same game, and game keys that
+ * an always-live arcade control would swallow.
+ */
+export const findBindingConflicts = (context: InputContext, bindings: KeyBindings): BindingConflict[] => {
+  const reserved = context === ARCADE_CONTEXT ? new Set<string>() : reservedCodes();
+  const actionsByCode = new Map<string, InputAction[]>();
+
+  (Object.entries(bindings) as [InputAction, string[]][]).forEach(([action, codes]) => {
+    codes.forEach(code => actionsByCode.set(code, [...(actionsByCode.get(code) ?? []), action]));
+  });
+
+  return [...actionsByCode.entries()]
+    .filter(([code, actions]) => actions.length > 1 || reserved.has(code))
+    .map(([code, actions]) => ({ code, actions, reserved: reserved.has(code) }));
+};
+
+export const isReservedKey = (code: string) => reservedCodes().has(code);
+
+/**
+ * Puts `code` in the action's `slot`, taking it off any other action in the
+ * context so a key only ever does one thing.
+ */
+export const rebindKey = (
+  context: InputContext,
+  bindings: KeyBindings,
+  action: InputAction,
+  slot: number,
+  code: string
+): KeyBindings => {
+  const resolved = resolveBindings(context, bindings);
+  const next = Object.fromEntries((Object.entries(resolved) as [InputAction, string[]][]).map(([other, codes]) => [
+    other,
+    other === action ? codes : codes.filter(existing => existing !== code)
+  ])) as KeyBindings;
+
+  const codes = [...(next[action] ?? [])].filter(existing => existing !== code);
+  codes.splice(Math.min(slot, codes.length), slot < codes.length ? 1 : 0, code);
+  next[action] = codes.slice(0, MAX_KEYS_PER_ACTION);
+  return next;
+};
+
+export const unbindKey = (context: InputContext, bindings: KeyBindings, action: InputAction, code: string): KeyBindings => {
+  const resolved = resolveBindings(context, bindings);
+  return { ...resolved, [action]: (resolved[action] ?? []).filter(existing => existing !== code) };
+};
+
+interface Subscription {
+  context: InputContext;
+  listener: (event: InputActionEvent) => void;
+  exclusive: boolean;
+}
+
+export const createInputManager = (
+  target: Pick<Window, 'addEventListener' | 'removeEventListener'> = window,
+  frames: FrameScheduler = animationFrames
+): InputManager => {
+  const subscriptions = new Set<Subscription>();
+  const held = new Set<string>();
+  const resolved = new Map<InputContext, KeyBindings>();
+  const controls = new Map<InputContext, KeyBindings>();
+  // Gamepad codes held, with when each next repeats
+  const padRepeats = new Map<string, number>();
+  let overrides: KeyBindingOverrides | undefined;
+  let suspensions = 0;
+  let frame: number | null = null;
+
+  const bindingsFor = (context: InputContext) => {
+    let bindings = resolved.get(context);
+    if (!bindings) {
+      bindings = resolveBindings(context, context === ARCADE_CONTEXT || context === MENU_CONTEXT ? undefined : overrides?.[context]);
+      resolved.set(context, bindings);
+    }
+    return bindings;
+  };
+
+  // Keys, gamepad buttons and touch controls together
+  const controlsFor = (context: InputContext) => {
+    let bound = controls.get(context);
+    if (!bound) {
+      const keys = bindingsFor(context);
+      bound = Object.fromEntries(INPUT_ACTIONS[context].map(({ action, buttons }) => [
+        action,
+        [...(keys[action] ?? []), ...(buttons ?? []).map(gamepadCode), touchCode(action)]
+      ]));
+      controls.set(context, bound);
+    }
+    return bound;
+  };
+
+  const actionsFor = (context: InputContext, code: string) =>
+    (Object.entries(controlsFor(context)) as [InputAction, string[]][])
+      .filter(([, codes]) => codes.includes(code))
+      .map(([action]) => action);
+
+  const isHeld = (context: InputContext, action: InputAction) =>
+    (controlsFor(context)[action] ?? []).some(code => held.has(code));
+
+  // The latest exclusive subscriber with an action on the code takes it alone
+  const receiversOf = (code: string) => {
+    const claimed = [...subscriptions].reverse()
+      .find(subscription => subscription.exclusive && actionsFor(subscription.context, code).length > 0);
+    return claimed ? [claimed] : [...subscriptions];
+  };
+
+  // Returns whether any subscriber had an action on the key
+  const press = (code: string, repeat: boolean) => {
+    const events = receiversOf(code).flatMap(subscription => actionsFor(subscription.context, code).map(action => ({
+      subscription,
+      event: { action, pressed: true, repeat: repeat || isHeld(subscription.context, action), code }
+    })));
+    held.add(code);
+
+    events.forEach(({ subscription, event }) => subscription.listener(event));
+    return events.length > 0;
+  };
+
+  // Releases reach everyone, so nothing stays held behind an exclusive subscriber
+  const release = (code: string) => {
+    if (!held.delete(code)) return;
+
+    [...subscriptions].forEach(subscription => {
+      actionsFor(subscription.context, code)
+        // Still pressed through another of its keys
+        .filter(action => !isHeld(subscription.context, action))
+        .forEach(action => subscription.listener({ action, pressed: false, repeat: false, code }));
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (suspensions > 0 || isEditable(event.target)) return;
+    if (press(keyCodeFor(event), event.repeat)) event.preventDefault();
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => release(keyCodeFor(event));
+
+  // Keys let go while the window was in the background never send keyup
+  const releaseAll = () => {
+    padRepeats.clear();
+    [...held].forEach(release);
+  };
+
+  // Gamepads have no events for buttons, so they're read once a frame
+  const pollGamepads = (now: number) => {
+    const pads = connectedGamepads();
+    const pressed = new Set(suspensions > 0 ? [] : pads.flatMap(readGamepad));
+
+    [...padRepeats.keys()].filter(code => !pressed.has(code)).forEach(code => {
+      padRepeats.delete(code);
+      release(code);
+    });
+    pressed.forEach(code => {
+      const nextRepeat = padRepeats.get(code);
+      if (nextRepeat === undefined) {
+        padRepeats.set(code, now + GAMEPAD_REPEAT_DELAY);
+        press(code, false);
+      } else if (now >= nextRepeat) {
+        padRepeats.set(code, now + GAMEPAD_REPEAT_INTERVAL);
+        press(code, true);
+      }
+    });
+
+    return pads.length > 0;
+  };
+
+  // Polls until the last pad is unplugged
+  const tick = (now: number) => {
+    frame = null;
+    if (pollGamepads(now)) frame = frames.request(tick);
+  };
+
+  const startPolling = () => {
+    if (frame === null) frame = frames.request(tick);
+  };
+
+  const attach = () => {
+    target.addEventListener('keydown', handleKeyDown);
+    target.addEventListener('keyup', handleKeyUp);
+    target.addEventListener('blur', releaseAll);
+    target.addEventListener('gamepadconnected', startPolling);
+    if (connectedGamepads().length > 0) startPolling();
+  };
+
+  const detach = () => {
+    target.removeEventListener('keydown', handleKeyDown);
+    target.removeEventListener('keyup', handleKeyUp);
+    target.removeEventListener('blur', releaseAll);
+    target.removeEventListener('gamepadconnected', startPolling);
+    if (frame !== null) frames.cancel(frame);
+    frame = null;
+    padRepeats.clear();
+    held.clear();
+  };
+
+  return {
+    subscribe(context, listener, exclusive = false) {
+      const subscription = { context, listener, exclusive };
+      if (subscriptions.size === 0) attach();
+      subscriptions.add(subscription);
+      return () => {
+        if (subscriptions.delete(subscription) && subscriptions.size === 0) detach();
+      };
+    },
+
+    isHeld,
+
+    // The first pad's left stick, for games that steer with it directly
+    getAxis(axis) {
+      const pad = connectedGamepads()[0];
+      return pad && suspensions === 0 ? readAxis(pad, axis) : 0;
+    },
+
+    setVirtual(action, pressed) {
+      if (!pressed) {
+        release(touchCode(action));
+      } else if (suspensions === 0) {
+        press(touchCode(action), false);
+      }
+    },
+
+    getBindings: bindingsFor,
+
+    setOverrides(next) {
+      if (next === overrides) return;
+      overrides = next;
+      resolved.clear();
+      controls.clear();
+    },
+
+    // While the bindings screen listens for a new key, nothing else should react to it
+    suspend() {
+      suspensions++;
+      releaseAll();
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        suspensions--;
+      };
+    }
+  };
+};
+
+// Shared by the arcade and every game so there is only ever one set of listeners and one poll
+export const inputManager = createInputManager();
+
+// The keys an action is on right now, for on-screen help, e.g. "↑ X"
+export const boundKeysLabel = (context: InputContext, action: InputAction) =>
+  (inputManager.getBindings(context)[action] ?? []).map(keyLabel).join(' ') || '-';
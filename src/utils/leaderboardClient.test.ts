@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createLeaderboardClient,
+  MAX_SEND_ATTEMPTS,
+  type LeaderboardStorage,
+  type LeaderboardSubmission,
+  type QueuedSubmission
+} from './leaderboardClient';
+
+const SUBMISSION: LeaderboardSubmission = {
+  gameId: 'metris',
+  mode: 'standard',
+  score: 1200,
+  initials: 'NEO',
+  replayHash: 'abc123'
+};
+
+// A leaderboard service that can be taken offline, with its queue kept in memory
+const createMockService = () => {
+  let online = true;
+  const accepted: QueuedSubmission[] = [];
+  let queue: QueuedSubmission[] | null = null;
+
+  const fetch = vi.fn(async (_input: RequestInfo | URL, init: RequestInit = {}) => {
+    if (!online) throw new TypeError('Failed to fetch');
+    const submission = JSON.parse(String(init.body)) as QueuedSubmission;
+    accepted.push(submission);
+    return Response.json({ entry: { ...submission, id: submission.submissionId, submittedAt: 0 }, rank: accepted.length }, { status: 201 });
+  });
+
+  const storage: LeaderboardStorage = {
+    get: () => queue,
+    set: (_key, value) => {
+      queue = value;
+    }
+  };
+
+  return {
+    fetch,
+    storage,
+    accepted,
+    setOnline: (value: boolean) => {
+      online = value;
+    }
+  };
+};
+
+describe('createLeaderboardClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues scores while offline and retries with a growing delay', async () => {
+    const service = createMockService();
+    const client = createLeaderboardClient({ baseUrl: 'http://leaderboard', fetch: service.fetch, storage: service.storage, retryDelay: 1000 });
+    service.setOnline(false);
+
+    expect(await client.submit(SUBMISSION)).toMatchObject({ status: 'queued' });
+    expect(service.fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(service.fetch).toHaveBeenCalledTimes(2);
+
+    // The second retry waits twice as long as the first
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(service.fetch).toHaveBeenCalledTimes(2);
+
+    service.setOnline(true);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(service.accepted).toHaveLength(1);
+    expect(client.getQueue()).toEqual([]);
+
+    // Nothing left to send, so nothing more is scheduled
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(service.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('sends scores queued on an earlier visit when flushed', async () => {
+    const service = createMockService();
+    const earlier = createLeaderboardClient({ baseUrl: 'http://leaderboard', fetch: service.fetch, storage: service.storage });
+    service.setOnline(false);
+    await earlier.submit(SUBMISSION);
+    service.setOnline(true);
+
+    const client = createLeaderboardClient({ baseUrl: 'http://leaderboard', fetch: service.fetch, storage: service.storage });
+    expect(await client.flush()).toEqual({ sent: 1, dropped: 0 });
+    expect(service.accepted.map(s => s.score)).toEqual([1200]);
+  });
+
+  it('gives up on a score the service never takes and reports it as dropped', async () => {
+    const service = createMockService();
+    const client = createLeaderboardClient({ baseUrl: 'http://leaderboard', fetch: service.fetch, storage: service.storage, retryDelay: 1000 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service.setOnline(false);
+    await client.submit(SUBMISSION);
+
+    for (let attempt = 2; attempt < MAX_SEND_ATTEMPTS; attempt++) {
+      expect(await client.flush()).toEqual({ sent: 0, dropped: 0 });
+    }
+    expect(await client.flush()).toEqual({ sent: 0, dropped: 1 });
+    expect(client.getQueue()).toEqual([]);
+    expect(service.fetch).toHaveBeenCalledTimes(MAX_SEND_ATTEMPTS);
+  });
+
+  it('leaves a profile\'s retries behind when another profile becomes active', async () => {
+    const service = createMockService();
+    let profile = 'neo';
+    const client = createLeaderboardClient({
+      baseUrl: 'http://leaderboard', fetch: service.fetch, storage: service.storage, profileId: () => profile, retryDelay: 1000
+    });
+    service.setOnline(false);
+    await client.submit(SUBMISSION);
+
+    profile = 'trinity';
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(service.fetch).toHaveBeenCalledTimes(1);
+  });
+});
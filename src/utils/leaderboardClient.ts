@@ -0,0 +1,246 @@
+import { saveStorage } from './saveStorage';
+import { canonicalJson } from './saveIntegrity';
+import { getActiveProfileId } from './profileStorage';
+import type { GameSaveKey } from '../data/gameRegistry';
+
+// ============================================================================
+// LEADERBOARD CLIENT
+// Talks to a shared leaderboard service:
+//   POST /scores                         -> 201 { entry, rank } (200 when the
+//                                           submissionId was already accepted)
+//   GET  /scores/:gameId?mode=&limit=    -> 200 { gameId, mode, entries }
+// Submissions made while the service can't be reached are queued in storage
+// and sent, oldest first, the next time it can: on startup, when the browser
+// comes back online, and on retries that back off while the service stays down.
+// A score that still can't be sent after MAX_SEND_ATTEMPTS is given up on.
+// ============================================================================
+
+export const DEFAULT_LEADERBOARD_LIMIT = 10;
+export const DEFAULT_RETRY_DELAY = 5 * 1000;
+export const MAX_RETRY_DELAY = 5 * 60 * 1000;
+export const MAX_SEND_ATTEMPTS = 10;
+
+export interface LeaderboardSubmission {
+  gameId: GameSaveKey;
+  mode: string;
+  score: number;
+  initials: string;
+  seed?: string;          // Challenge key the run was played under
+  replayHash: string;     // Fingerprint of the run, see hashReplay
+}
+
+export interface LeaderboardEntry extends LeaderboardSubmission {
+  id: string;
+  submittedAt: number;
+}
+
+// A submission waiting for the service; the id makes resending it safe
+export interface QueuedSubmission extends LeaderboardSubmission {
+  submissionId: string;
+  queuedAt: number;
+  attempts: number;       // Sends that failed for want of the service
+}
+
+export type LeaderboardSubmitResult =
+  | { status: 'submitted'; entry: LeaderboardEntry; rank: number }
+  | { status: 'queued'; submissionId: string };
+
+// What a flush did with the queue: scores the service took, and scores given up on
+export interface LeaderboardFlushResult {
+  sent: number;
+  dropped: number;
+}
+
+// Where the queue is kept; the save storage in the arcade
+export interface LeaderboardStorage {
+  get(key: 'leaderboardQueue'): QueuedSubmission[] | null;
+  set(key: 'leaderboardQueue', value: QueuedSubmission[]): void;
+}
+
+export interface LeaderboardClient {
+  submit(submission: LeaderboardSubmission): Promise<LeaderboardSubmitResult>;
+  fetch(gameId: GameSaveKey, mode?: string, limit?: number): Promise<LeaderboardEntry[]>;
+  flush(): Promise<LeaderboardFlushResult>;
+  getQueue(): QueuedSubmission[];
+  subscribe(listener: (queue: QueuedSubmission[]) => void): () => void;
+}
+
+export interface LeaderboardClientOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+  storage?: LeaderboardStorage;
+  profileId?: () => string; // Whose queue the storage holds; the active profile by default
+  retryDelay?: number;      // First retry after a failed send; doubles up to MAX_RETRY_DELAY
+}
+
+type PostResult =
+  | { ok: true; entry: LeaderboardEntry; rank: number }
+  | { ok: false; retry: boolean; error: string };
+
+const createSubmissionId = () =>
+  `sub-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * SHA-256 of a run's details, hex encoded. Runs aren't recorded move by move
+ * yet, so this fingerprints the outcome; a replay log can be hashed the same way.
+ */
+export const hashReplay = async (run: unknown): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(run)));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const createLeaderboardClient = (options: LeaderboardClientOptions): LeaderboardClient => {
+  const request = options.fetch ?? ((input, init) => fetch(input, init));
+  const storage = options.storage ?? saveStorage;
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const headers = { 'Content-Type': 'application/json', ...options.headers };
+  const profileId = options.profileId ?? getActiveProfileId;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const listeners = new Set<(queue: QueuedSubmission[]) => void>();
+  let flushing: Promise<LeaderboardFlushResult> | null = null;
+  // Retries back off for one profile's queue; another profile's starts afresh
+  let retry: { profileId: string; timer: ReturnType<typeof setTimeout> | null; attempt: number } | null = null;
+
+  const getQueue = () => storage.get('leaderboardQueue') ?? [];
+  const setQueue = (queue: QueuedSubmission[]) => {
+    storage.set('leaderboardQueue', queue);
+    listeners.forEach(listener => listener(queue));
+  };
+
+  // Network failures and server errors are worth retrying; a 4xx is the submission's fault
+  const post = async (submission: QueuedSubmission): Promise<PostResult> => {
+    let response: Response;
+    try {
+      response = await request(`${baseUrl}/scores`, { method: 'POST', headers, body: JSON.stringify(submission) });
+    } catch (error) {
+      return { ok: false, retry: true, error: error instanceof Error ? error.message : String(error) };
+    }
+    if (!response.ok) {
+      return { ok: false, retry: response.status >= 500, error: `Leaderboard submit failed with HTTP ${response.status}` };
+    }
+    return { ok: true, ...((await response.json()) as { entry: LeaderboardEntry; rank: number }) };
+  };
+
+  const sendQueued = async (): Promise<LeaderboardFlushResult> => {
+    let sent = 0;
+    let dropped = 0;
+    for (const submission of getQueue()) {
+      const result = await post(submission);
+      const others = getQueue().filter(queued => queued.submissionId !== submission.submissionId);
+
+      if (result.ok) {
+        setQueue(others);
+        sent++;
+      } else if (result.retry && submission.attempts + 1 < MAX_SEND_ATTEMPTS) {
+        setQueue(getQueue().map(queued =>
+          queued.submissionId === submission.submissionId ? { ...queued, attempts: queued.attempts + 1 } : queued
+        ));
+        break;
+      } else {
+        // A rejected score will never be accepted, nor one the service never took; drop it rather than block the queue
+        console.error('Dropping queued leaderboard score:', result.error);
+        setQueue(others);
+        dropped++;
+      }
+    }
+    return { sent, dropped };
+  };
+
+  // Anything still queued after a send means the service is unreachable; try again later
+  const scheduleRetry = () => {
+    const profile = profileId();
+    if (retry?.profileId !== profile) {
+      if (retry?.timer) clearTimeout(retry.timer);
+      retry = { profileId: profile, timer: null, attempt: 0 };
+    }
+    if (getQueue().length === 0) {
+      retry.attempt = 0;
+      return;
+    }
+    if (retry.timer !== null) return;
+
+    const scheduled = retry;
+    const delay = Math.min(MAX_RETRY_DELAY, retryDelay * 2 ** scheduled.attempt);
+    scheduled.attempt++;
+    scheduled.timer = setTimeout(() => {
+      scheduled.timer = null;
+      // A profile switched away from keeps its queue until it is active again
+      if (profileId() !== scheduled.profileId) return;
+      flush().catch(error => console.error('Leaderboard flush failed:', error));
+    }, delay);
+  };
+
+  const flush = (): Promise<LeaderboardFlushResult> => {
+    flushing ??= sendQueued().finally(() => {
+      flushing = null;
+      scheduleRetry();
+    });
+    return flushing;
+  };
+
+  return {
+    async submit(submission) {
+      const queued: QueuedSubmission = { ...submission, submissionId: createSubmissionId(), queuedAt: Date.now(), attempts: 0 };
+
+      // Older scores go first so the service sees them in the order they were set
+      if (getQueue().length > 0) {
+        await flush();
+      }
+      if (getQueue().length === 0) {
+        const result = await post(queued);
+        if (result.ok) return { status: 'submitted', entry: result.entry, rank: result.rank };
+        if (!result.retry) throw new Error(result.error);
+        queued.attempts++;
+      }
+
+      setQueue([...getQueue(), queued]);
+      scheduleRetry();
+      return { status: 'queued', submissionId: queued.submissionId };
+    },
+
+    async fetch(gameId, mode = 'standard', limit = DEFAULT_LEADERBOARD_LIMIT) {
+      const query = new URLSearchParams({ mode, limit: String(limit) });
+      const response = await request(`${baseUrl}/scores/${encodeURIComponent(gameId)}?${query}`, { method: 'GET', headers });
+      if (!response.ok) {
+        throw new Error(`Leaderboard fetch failed with HTTP ${response.status}`);
+      }
+      return ((await response.json()) as { entries: LeaderboardEntry[] }).entries;
+    },
+
+    flush,
+    getQueue,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+/**
+ * Client for the service configured with VITE_LEADERBOARD_URL, or null when
+ * there is no shared leaderboard. Queued scores are sent when the browser comes back online.
+ */
+export const createConfiguredLeaderboardClient = (): LeaderboardClient | null => {
+  const baseUrl = import.meta.env.VITE_LEADERBOARD_URL;
+  if (!baseUrl) return null;
+
+  const client = createLeaderboardClient({ baseUrl });
+  window.addEventListener('online', () => {
+    client.flush().catch(error => console.error('Leaderboard flush failed:', error));
+  });
+  return client;
+};
+
+let configuredClient: LeaderboardClient | null | undefined;
+
+// Shared client, created when the arcade starts or the first time a score is shared
+export const getLeaderboardClient = (): LeaderboardClient | null => {
+  if (configuredClient === undefined) {
+    configuredClient = createConfiguredLeaderboardClient();
+  }
+  return configuredClient;
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PLAY_HISTORY_DAYS,
+  RECENT_RUNS_SIZE,
+  computeFavoriteGame,
+  playTimeByDay,
+  recordPlayStats,
+  summariseArcadeStats,
+  summariseGameStats
+} from './playerStats';
+import { createDefaultGlobalSave } from './saveSchema';
+import { mergeSaves } from './saveSync';
+
+const MINUTE = 60 * 1000;
+const at = (day: number, hour = 12) => new Date(2026, 9, day, hour).getTime();
+
+describe('playerStats', () => {
+  it('adds closed games to the total, the game and the day, and picks the favourite by time', () => {
+    let save = createDefaultGlobalSave();
+    save.games.snakeClassic.stats.gamesPlayed = 12;
+
+    save = recordPlayStats(save, { type: 'play_time', gameId: 'metris', minutes: 10 }, at(18));
+    save = recordPlayStats(save, { type: 'play_time', gameId: 'metris', minutes: 5 }, at(19));
+    save = recordPlayStats(save, { type: 'play_time', gameId: 'snakeClassic', minutes: 2 }, at(19));
+
+    expect(save.globalStats.totalPlayTime).toBe(17 * MINUTE);
+    expect(save.games.metris.stats.playTime).toBe(15 * MINUTE);
+    expect(save.globalStats.dailyPlayTime).toEqual({
+      '2026-10-18': { metris: 10 * MINUTE },
+      '2026-10-19': { metris: 5 * MINUTE, snakeClassic: 2 * MINUTE }
+    });
+    expect(computeFavoriteGame(save)).toBe('metris');
+    expect(save.globalStats.favoriteGame).toBe('Metris');
+  });
+
+  it('falls back to games played when nothing has play time yet', () => {
+    const save = createDefaultGlobalSave();
+    expect(computeFavoriteGame(save)).toBeNull();
+
+    save.games.vortexPong.stats.gamesPlayed = 3;
+    expect(computeFavoriteGame(save)).toBe('vortexPong');
+  });
+
+  it('forgets days outside the history window', () => {
+    let save = createDefaultGlobalSave();
+    save = recordPlayStats(save, { type: 'play_time', gameId: 'metris', minutes: 1 }, at(1));
+    save = recordPlayStats(save, { type: 'play_time', gameId: 'metris', minutes: 1 }, at(1) + PLAY_HISTORY_DAYS * 24 * 60 * MINUTE);
+
+    expect(Object.keys(save.globalStats.dailyPlayTime ?? {})).toHaveLength(1);
+    expect(save.globalStats.totalPlayTime).toBe(2 * MINUTE);
+  });
+
+  it('keeps the latest runs for trend lines', () => {
+    let save = createDefaultGlobalSave();
+    for (let score = 1; score <= RECENT_RUNS_SIZE + 5; score++) {
+      save = recordPlayStats(save, { type: 'game_over', gameId: 'matrixCloud', score, durationSeconds: 30 }, score);
+    }
+
+    const runs = save.games.matrixCloud.recentRuns!;
+    expect(runs).toHaveLength(RECENT_RUNS_SIZE);
+    expect(runs[0]).toEqual({ score: 6, date: 6, durationSeconds: 30 });
+    expect(summariseGameStats(save).find(game => game.gameId === 'matrixCloud')?.recentRuns).toBe(runs);
+  });
+
+  it('charts every day in the range, including days off', () => {
+    let save = createDefaultGlobalSave();
+    save = recordPlayStats(save, { type: 'play_time', gameId: 'metris', minutes: 3 }, at(17));
+
+    const days = playTimeByDay(save, 3, at(19));
+    expect(days.map(day => day.day)).toEqual(['2026-10-17', '2026-10-18', '2026-10-19']);
+    expect(days.map(day => day.total)).toEqual([3 * MINUTE, 0, 0]);
+  });
+
+  it('summarises the arcade as a whole', () => {
+    const save = createDefaultGlobalSave();
+    save.games.metris.stats = { gamesPlayed: 4, totalScore: 1000, playTime: MINUTE };
+    save.games.snakeClassic.stats = { gamesPlayed: 1, totalScore: 50 };
+    save.games.metris.achievements = ['metris_first_line'];
+
+    expect(summariseArcadeStats(save)).toMatchObject({
+      gamesPlayed: 5, totalScore: 1050, achievementsUnlocked: 1, favoriteGame: 'Metris'
+    });
+    expect(summariseGameStats(save).find(game => game.gameId === 'metris')?.averageScore).toBe(250);
+  });
+
+  it('adds up a day played on two devices when syncing', () => {
+    const base = recordPlayStats(createDefaultGlobalSave(), { type: 'play_time', gameId: 'metris', minutes: 1 }, at(19));
+    const local = recordPlayStats(base, { type: 'play_time', gameId: 'metris', minutes: 2 }, at(19));
+    const remote = recordPlayStats(base, { type: 'play_time', gameId: 'snakeClassic', minutes: 4 }, at(19));
+
+    const merged = mergeSaves(local, remote, base);
+    expect(merged.globalStats.dailyPlayTime?.['2026-10-19']).toEqual({ metris: 3 * MINUTE, snakeClassic: 4 * MINUTE });
+    expect(merged.globalStats.favoriteGame).toBe('Snake Classic');
+  });
+});
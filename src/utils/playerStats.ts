@@ -0,0 +1,190 @@
+import { GAME_REGISTRY, GAME_SAVE_KEYS, getGameBySaveKey, type GameSaveKey } from '../data/gameRegistry';
+import { toDayKey } from './challengeCalendar';
+import type { GameEvent } from '../types/events';
+import type { GlobalSaveData, RunRecord } from '../types/save';
+
+// ============================================================================
+// PLAYER STATS
+// Play time is recorded when a game is closed and runs when they end; both are
+// bucketed so the stats screen can chart them without keeping every session.
+// Everything the screen shows is derived from the save on demand.
+// ============================================================================
+
+export const PLAY_HISTORY_DAYS = 90;
+export const RECENT_RUNS_SIZE = 30;
+
+// One day of the play time chart
+export interface PlayTimeDay {
+  day: string;                                    // Local YYYY-MM-DD
+  total: number;                                  // Milliseconds
+  byGame: Partial<Record<GameSaveKey, number>>;
+}
+
+export interface GameStatsSummary {
+  gameId: GameSaveKey;
+  title: string;
+  gamesPlayed: number;
+  totalScore: number;
+  highScore: number;
+  averageScore: number;
+  playTime: number;
+  bestCombo?: number;
+  longestSurvival?: number;
+  bossesDefeated?: number;
+  lastPlayed: number;
+  recentRuns: RunRecord[];
+}
+
+export interface ArcadeStatsSummary {
+  totalPlayTime: number;
+  gamesPlayed: number;
+  totalScore: number;
+  achievementsUnlocked: number;
+  favoriteGame: string | null;
+  daysPlayed: number;
+  firstPlayDate: number;
+}
+
+// Days older than the history window are dropped
+const pruneDays = (days: Record<string, Partial<Record<GameSaveKey, number>>>, now: number) => {
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() - (PLAY_HISTORY_DAYS - 1));
+  const oldest = toDayKey(cutoff);
+  return Object.fromEntries(Object.entries(days).filter(([day]) => day >= oldest));
+};
+
+/**
+ * The game with the most play time; games played before time was tracked
+ * fall back to how many runs they had. Null until something has been played.
+ */
+export const computeFavoriteGame = (data: Pick<GlobalSaveData, 'games'>): GameSaveKey | null => {
+  let favorite: GameSaveKey | null = null;
+  let best = [0, 0];
+
+  for (const gameId of GAME_SAVE_KEYS) {
+    const stats = data.games[gameId]?.stats;
+    const score = [stats?.playTime || 0, stats?.gamesPlayed || 0];
+    if (score[0] > best[0] || (score[0] === best[0] && score[1] > best[1])) {
+      favorite = gameId;
+      best = score;
+    }
+  }
+
+  return favorite;
+};
+
+// What globalStats.favoriteGame holds: the favourite's title, or '' before anything is played
+export const favoriteGameTitle = (data: Pick<GlobalSaveData, 'games'>) => {
+  const favorite = computeFavoriteGame(data);
+  return favorite ? getGameBySaveKey(favorite)?.title ?? favorite : '';
+};
+
+const recordPlayTime = (data: GlobalSaveData, gameId: GameSaveKey, milliseconds: number, now: number): GlobalSaveData => {
+  const game = data.games[gameId];
+  if (!game || milliseconds <= 0) return data;
+
+  const day = toDayKey(new Date(now));
+  const daily = data.globalStats.dailyPlayTime ?? {};
+  const next: GlobalSaveData = {
+    ...data,
+    games: {
+      ...data.games,
+      [gameId]: { ...game, stats: { ...game.stats, playTime: (game.stats.playTime || 0) + milliseconds } }
+    },
+    globalStats: {
+      ...data.globalStats,
+      totalPlayTime: data.globalStats.totalPlayTime + milliseconds,
+      dailyPlayTime: pruneDays({
+        ...daily,
+        [day]: { ...daily[day], [gameId]: (daily[day]?.[gameId] || 0) + milliseconds }
+      }, now)
+    }
+  };
+
+  return { ...next, globalStats: { ...next.globalStats, favoriteGame: favoriteGameTitle(next) } };
+};
+
+const recordRun = (data: GlobalSaveData, gameId: GameSaveKey, run: RunRecord): GlobalSaveData => {
+  const game = data.games[gameId];
+  if (!game) return data;
+
+  return {
+    ...data,
+    games: {
+      ...data.games,
+      [gameId]: { ...game, recentRuns: [...(game.recentRuns ?? []), run].slice(-RECENT_RUNS_SIZE) }
+    }
+  };
+};
+
+/**
+ * Adds what an event says about the player's habits to the save: minutes
+ * played (reported when a game is closed) and finished runs.
+ */
+export const recordPlayStats = (data: GlobalSaveData, event: GameEvent, now = Date.now()): GlobalSaveData => {
+  switch (event.type) {
+    case 'play_time':
+      return recordPlayTime(data, event.gameId, Math.round(event.minutes * 60 * 1000), now);
+    case 'game_over':
+      return recordRun(data, event.gameId, { score: event.score, date: now, durationSeconds: event.durationSeconds });
+    default:
+      return data;
+  }
+};
+
+// The last `days` days, oldest first, including days nothing was played
+export const playTimeByDay = (data: GlobalSaveData, days = 14, now = Date.now()): PlayTimeDay[] => {
+  const daily = data.globalStats.dailyPlayTime ?? {};
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(now);
+    date.setDate(date.getDate() - (days - 1 - index));
+    const day = toDayKey(date);
+    const byGame = daily[day] ?? {};
+    const total = Object.values(byGame).reduce((sum, time) => sum + (time || 0), 0);
+    return { day, total, byGame };
+  });
+};
+
+export const summariseGameStats = (data: GlobalSaveData): GameStatsSummary[] =>
+  GAME_REGISTRY.map(({ saveKey, title }) => {
+    const game = data.games[saveKey];
+    const stats = game?.stats;
+    const gamesPlayed = stats?.gamesPlayed || 0;
+    const totalScore = stats?.totalScore || 0;
+
+    return {
+      gameId: saveKey,
+      title,
+      gamesPlayed,
+      totalScore,
+      highScore: game?.highScore || 0,
+      averageScore: gamesPlayed > 0 ? Math.round(totalScore / gamesPlayed) : 0,
+      playTime: stats?.playTime || 0,
+      bestCombo: stats?.bestCombo,
+      longestSurvival: stats?.longestSurvival,
+      bossesDefeated: stats?.bossesDefeated,
+      lastPlayed: game?.lastPlayed || 0,
+      recentRuns: game?.recentRuns ?? []
+    };
+  });
+
+export const summariseArcadeStats = (data: GlobalSaveData): ArcadeStatsSummary => {
+  const games = Object.values(data.games);
+  return {
+    totalPlayTime: data.globalStats.totalPlayTime,
+    gamesPlayed: games.reduce((sum, game) => sum + (game.stats.gamesPlayed || 0), 0),
+    totalScore: games.reduce((sum, game) => sum + (game.stats.totalScore || 0), 0),
+    achievementsUnlocked:
+      games.reduce((sum, game) => sum + game.achievements.length, 0) + data.globalStats.globalAchievements.length,
+    favoriteGame: favoriteGameTitle(data) || null,
+    daysPlayed: Object.keys(data.globalStats.dailyPlayTime ?? {}).length,
+    firstPlayDate: data.globalStats.firstPlayDate
+  };
+};
+
+export const formatPlayTime = (milliseconds: number) => {
+  const hours = Math.floor(milliseconds / (1000 * 60 * 60));
+  const minutes = Math.floor((milliseconds % (1000 * 60 * 60)) / (1000 * 60));
+  return `${hours}h ${minutes}m`;
+};
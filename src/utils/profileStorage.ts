@@ -0,0 +1,85 @@
+// ============================================================================
+// PROFILE STORAGE
+// Player profiles share one browser, so every per-player localStorage key is
+// namespaced by the active profile. The default profile keeps the original
+// un-namespaced keys so saves from before profiles existed stay where they are.
+// ============================================================================
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface ProfileRegistry {
+  activeProfileId: string;
+  profiles: PlayerProfile[];
+}
+
+export const PROFILES_KEY = 'matrix-arcade-profiles';
+export const DEFAULT_PROFILE_ID = 'default';
+export const MAX_PROFILE_NAME_LENGTH = 16;
+
+const createDefaultRegistry = (): ProfileRegistry => ({
+  activeProfileId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Player 1', createdAt: Date.now() }]
+});
+
+const isProfile = (value: unknown): value is PlayerProfile =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as PlayerProfile).id === 'string' &&
+  typeof (value as PlayerProfile).name === 'string';
+
+export const loadProfileRegistry = (): ProfileRegistry => {
+  try {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      const profiles: PlayerProfile[] = Array.isArray(parsed.profiles) ? parsed.profiles.filter(isProfile) : [];
+
+      if (profiles.length > 0) {
+        const active = profiles.some(p => p.id === parsed.activeProfileId)
+          ? parsed.activeProfileId
+          : profiles[0].id;
+        return { activeProfileId: active, profiles };
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to load profiles:', error);
+  }
+
+  return createDefaultRegistry();
+};
+
+// Every storage key lookup asks for the active profile, so the parsed id is kept
+// until the stored registry changes (here, in a test or from another tab)
+let activeProfileCache: { stored: string | null; profileId: string } | null = null;
+
+export const saveProfileRegistry = (registry: ProfileRegistry) => {
+  const stored = JSON.stringify(registry);
+  localStorage.setItem(PROFILES_KEY, stored);
+  activeProfileCache = { stored, profileId: registry.activeProfileId };
+};
+
+export const getActiveProfileId = () => {
+  const stored = localStorage.getItem(PROFILES_KEY);
+  if (activeProfileCache?.stored !== stored) {
+    activeProfileCache = { stored, profileId: loadProfileRegistry().activeProfileId };
+  }
+  return activeProfileCache.profileId;
+};
+
+/**
+ * Storage key for `baseKey` in the given (default: active) profile.
+ */
+export const profileStorageKey = (baseKey: string, profileId = getActiveProfileId()) =>
+  profileId === DEFAULT_PROFILE_ID ? baseKey : `${baseKey}@${profileId}`;
+
+export const createProfileId = () =>
+  `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Trims and length-limits a profile name; returns null when nothing usable is left
+export const normaliseProfileName = (name: string) => {
+  const trimmed = name.trim().replace(/\s+/g, ' ').slice(0, MAX_PROFILE_NAME_LENGTH);
+  return trimmed.length > 0 ? trimmed : null;
+};
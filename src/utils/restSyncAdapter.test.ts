@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRestSyncAdapter } from './restSyncAdapter';
+import { syncSaveData, createSyncState, type SyncEnvelope } from './saveSync';
+import { createDefaultGlobalSave } from './saveSchema';
+
+const BASE_URL = 'http://localhost:4010/api/';
+
+// Minimal mock of the sync service, answering the adapter's requests in memory
+const createMockSyncServer = () => {
+  const saves = new Map<string, SyncEnvelope>();
+  const requests: string[] = [];
+
+  const fetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const method = init.method ?? 'GET';
+    requests.push(`${method} ${url.pathname}`);
+
+    const match = url.pathname.match(/^\/api\/saves\/([^/]+)$/);
+    if (!match) return new Response('Not found', { status: 404 });
+    const saveId = decodeURIComponent(match[1]);
+    const current = saves.get(saveId);
+
+    if (method === 'GET') {
+      return current
+        ? Response.json(current)
+        : new Response('Not found', { status: 404 });
+    }
+
+    if (method === 'PUT') {
+      const body = JSON.parse(String(init.body));
+      if ((current?.revision ?? 0) !== body.baseRevision) {
+        return Response.json(current, { status: 409 });
+      }
+      const next: SyncEnvelope = {
+        data: body.data,
+        revision: body.baseRevision + 1,
+        updatedAt: body.updatedAt,
+        deviceId: body.deviceId
+      };
+      saves.set(saveId, next);
+      return Response.json(next);
+    }
+
+    return new Response('Method not allowed', { status: 405 });
+  };
+
+  return { fetch, saves, requests };
+};
+
+describe('createRestSyncAdapter', () => {
+  let server: ReturnType<typeof createMockSyncServer>;
+
+  beforeEach(() => {
+    server = createMockSyncServer();
+  });
+
+  it('returns null when the service has no save yet', async () => {
+    const adapter = createRestSyncAdapter({ baseUrl: BASE_URL, saveId: 'save 1', fetch: server.fetch });
+
+    await expect(adapter.pull()).resolves.toBeNull();
+    expect(server.requests).toEqual(['GET /api/saves/save%201']);
+  });
+
+  it('reports a stale push as a conflict carrying the current save', async () => {
+    const adapter = createRestSyncAdapter({ baseUrl: BASE_URL, saveId: 'abc', fetch: server.fetch });
+    const data = createDefaultGlobalSave();
+
+    const first = await adapter.push({ data, baseRevision: 0, deviceId: 'a', updatedAt: 1 });
+    const stale = await adapter.push({ data, baseRevision: 0, deviceId: 'b', updatedAt: 2 });
+
+    expect(first).toMatchObject({ ok: true, envelope: { revision: 1, deviceId: 'a' } });
+    expect(stale).toMatchObject({ ok: false, conflict: { revision: 1, deviceId: 'a' } });
+  });
+
+  it('throws on server errors', async () => {
+    const adapter = createRestSyncAdapter({
+      baseUrl: BASE_URL,
+      saveId: 'abc',
+      fetch: async () => new Response('boom', { status: 500 })
+    });
+
+    await expect(adapter.pull()).rejects.toThrow('HTTP 500');
+  });
+
+  it('merges two devices through the service', async () => {
+    const laptop = createRestSyncAdapter({ baseUrl: BASE_URL, saveId: 'shared', fetch: server.fetch });
+    const phone = createRestSyncAdapter({ baseUrl: BASE_URL, saveId: 'shared', fetch: server.fetch });
+
+    const laptopSave = createDefaultGlobalSave();
+    laptopSave.games.metris.highScore = 4000;
+    laptopSave.globalStats.totalPlayTime = 60;
+    await syncSaveData(laptop, laptopSave, createSyncState());
+
+    const phoneSave = createDefaultGlobalSave();
+    phoneSave.games.snakeClassic.highScore = 120;
+    phoneSave.globalStats.totalPlayTime = 30;
+    const result = await syncSaveData(phone, phoneSave, createSyncState());
+
+    expect(result.data.games.metris.highScore).toBe(4000);
+    expect(result.data.games.snakeClassic.highScore).toBe(120);
+    expect(result.data.globalStats.totalPlayTime).toBe(90);
+    expect(server.saves.get('shared')?.revision).toBe(2);
+  });
+});
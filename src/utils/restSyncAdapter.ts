@@ -0,0 +1,54 @@
+import type { SyncAdapter, SyncEnvelope } from './saveSync';
+
+// ============================================================================
+// REST SYNC ADAPTER
+// Reference adapter for a minimal save service:
+//   GET /saves/:saveId  -> 200 SyncEnvelope | 404 when nothing is stored yet
+//   PUT /saves/:saveId  -> 200 SyncEnvelope with the new revision
+//                          409 SyncEnvelope (current) when baseRevision is stale
+// ============================================================================
+
+export interface RestSyncAdapterOptions {
+  baseUrl: string;
+  saveId: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export const createRestSyncAdapter = (options: RestSyncAdapterOptions): SyncAdapter => {
+  const request = options.fetch ?? ((input, init) => fetch(input, init));
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/saves/${encodeURIComponent(options.saveId)}`;
+  const headers = { 'Content-Type': 'application/json', ...options.headers };
+
+  return {
+    name: 'rest',
+
+    async pull() {
+      const response = await request(url, { method: 'GET', headers });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Sync pull failed with HTTP ${response.status}`);
+      }
+      return (await response.json()) as SyncEnvelope;
+    },
+
+    async push(body) {
+      const response = await request(url, { method: 'PUT', headers, body: JSON.stringify(body) });
+      if (response.status === 409) {
+        return { ok: false, conflict: (await response.json()) as SyncEnvelope };
+      }
+      if (!response.ok) {
+        throw new Error(`Sync push failed with HTTP ${response.status}`);
+      }
+      return { ok: true, envelope: (await response.json()) as SyncEnvelope };
+    }
+  };
+};
+
+/**
+ * Adapter for the service configured with VITE_SYNC_URL, or null when sync is not set up.
+ */
+export const createConfiguredSyncAdapter = (saveId: string): SyncAdapter | null => {
+  const baseUrl = import.meta.env.VITE_SYNC_URL;
+  return baseUrl ? createRestSyncAdapter({ baseUrl, saveId }) : null;
+};
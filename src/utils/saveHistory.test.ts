@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addSnapshot,
+  summariseSnapshot,
+  restoreSnapshotData,
+  MAX_ROLLING_SNAPSHOTS,
+  MAX_DAILY_SNAPSHOTS,
+  MIN_SNAPSHOT_INTERVAL,
+  type SaveSnapshot
+} from './saveHistory';
+import { SAVE_VERSION, createDefaultGlobalSave } from './saveSchema';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date(2025, 0, 1, 12).getTime();
+
+const addMany = (count: number, spacing: number, start = START) => {
+  let history: SaveSnapshot[] = [];
+  for (let i = 0; i < count; i++) {
+    history = addSnapshot(history, { n: i }, start + i * spacing);
+  }
+  return history;
+};
+
+describe('addSnapshot', () => {
+  it('keeps the first snapshot of the day as a daily snapshot', () => {
+    const history = addMany(3, MIN_SNAPSHOT_INTERVAL);
+
+    expect(history.map(s => s.kind)).toEqual(['rolling', 'rolling', 'daily']);
+    expect(history[0].createdAt).toBeGreaterThan(history[1].createdAt);
+  });
+
+  it('caps rolling snapshots at the configured limit', () => {
+    const history = addMany(MAX_ROLLING_SNAPSHOTS + 5, MIN_SNAPSHOT_INTERVAL);
+    const rolling = history.filter(s => s.kind === 'rolling');
+
+    expect(rolling).toHaveLength(MAX_ROLLING_SNAPSHOTS);
+    expect(rolling[0].data).toEqual({ n: MAX_ROLLING_SNAPSHOTS + 4 });
+  });
+
+  it('keeps one daily snapshot per day up to the limit', () => {
+    const history = addMany(MAX_DAILY_SNAPSHOTS + 3, DAY);
+    const daily = history.filter(s => s.kind === 'daily');
+
+    expect(daily).toHaveLength(MAX_DAILY_SNAPSHOTS);
+    expect(history.filter(s => s.kind === 'rolling')).toHaveLength(0);
+  });
+
+  it('keeps the existing snapshot when saves come in quick succession', () => {
+    const history = addMany(5, 1000);
+
+    expect(history).toHaveLength(1);
+    expect(history[0].data).toEqual({ n: 0 });
+  });
+
+  it('returns the same history when a snapshot is not due yet', () => {
+    const history = addMany(2, MIN_SNAPSHOT_INTERVAL);
+
+    expect(addSnapshot(history, { n: 99 }, START + MIN_SNAPSHOT_INTERVAL + 1000)).toBe(history);
+    expect(addSnapshot(history, { n: 99 }, START + 2 * MIN_SNAPSHOT_INTERVAL)).not.toBe(history);
+  });
+
+  it('adds a forced snapshot inside the interval', () => {
+    const history = addSnapshot(addMany(1, 0), { n: 99 }, START + 1000, true);
+
+    expect(history.map(s => s.data)).toEqual([{ n: 99 }, { n: 0 }]);
+  });
+
+  it('does not modify the existing history', () => {
+    const history = addMany(2, MIN_SNAPSHOT_INTERVAL);
+    const copy = [...history];
+
+    addSnapshot(history, { n: 99 }, START + DAY);
+
+    expect(history).toEqual(copy);
+  });
+});
+
+describe('summariseSnapshot', () => {
+  it('reports total score and achievement count', () => {
+    const data = createDefaultGlobalSave();
+    data.games.metris.stats.totalScore = 1500;
+    data.games.snakeClassic.stats.totalScore = 500;
+    data.games.metris.achievements = ['first_line', 'level_10'];
+    data.globalStats.globalAchievements = ['global_first_game'];
+
+    const [snapshot] = addSnapshot([], data, START);
+    const summary = summariseSnapshot(snapshot);
+
+    expect(summary.totalScore).toBe(2000);
+    expect(summary.achievementCount).toBe(3);
+    expect(summary.version).toBe(SAVE_VERSION);
+  });
+
+  it('migrates old snapshots before summarising or restoring them', () => {
+    const [snapshot] = addSnapshot([], { games: { metris: { highScore: 9, gamesPlayed: 1, totalScore: 40 } } }, START);
+
+    expect(summariseSnapshot(snapshot).totalScore).toBe(40);
+    expect(restoreSnapshotData(snapshot).games.terminalQuest).toBeDefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { migrateSaveData } from './saveSchema';
+import type { GlobalSaveData } from '../types/save';
+
+// ============================================================================
+// SAVE HISTORY
+// Rolling, timestamped snapshots of earlier saves. A write snapshots the save
+// it replaces, at most once per snapshot interval; the first snapshot of each
+// day is also kept as a daily snapshot so older history survives a burst of saves.
+// Restores and migrations always snapshot what they replace, interval or not.
+// ============================================================================
+
+export const MAX_ROLLING_SNAPSHOTS = 10;
+export const MAX_DAILY_SNAPSHOTS = 7;
+// Saves closer together than this keep the newest snapshot and add none
+export const MIN_SNAPSHOT_INTERVAL = 60 * 1000;
+
+export type SnapshotKind = 'rolling' | 'daily';
+
+export interface SaveSnapshot {
+  id: string;
+  createdAt: number;
+  kind: SnapshotKind;
+  data: unknown;          // Stored as written; migrated when restored
+}
+
+export interface SaveSnapshotSummary {
+  id: string;
+  createdAt: number;
+  kind: SnapshotKind;
+  version: string;
+  totalScore: number;
+  achievementCount: number;
+}
+
+const dayKey = (timestamp: number) => new Date(timestamp).toDateString();
+
+// Whether enough time has passed since the newest snapshot to take another
+export const isSnapshotDue = (history: SaveSnapshot[], now = Date.now()) =>
+  history.every(s => now - s.createdAt >= MIN_SNAPSHOT_INTERVAL);
+
+/**
+ * Adds a snapshot of `data` and prunes the history to the configured limits.
+ * Returns a new array, or `history` itself when a snapshot isn't due yet and
+ * `force` isn't set; the input is not modified.
+ */
+export const addSnapshot = (history: SaveSnapshot[], data: unknown, now = Date.now(), force = false): SaveSnapshot[] => {
+  if (!force && !isSnapshotDue(history, now)) return history;
+
+  const hasDaily = history.some(s => s.kind === 'daily' && dayKey(s.createdAt) === dayKey(now));
+  const snapshot: SaveSnapshot = {
+    id: `snapshot-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    createdAt: now,
+    kind: hasDaily ? 'rolling' : 'daily',
+    data
+  };
+
+  let rolling = history.filter(s => s.kind === 'rolling');
+  let daily = history.filter(s => s.kind === 'daily');
+
+  if (snapshot.kind === 'daily') {
+    daily = [snapshot, ...daily].slice(0, MAX_DAILY_SNAPSHOTS);
+  } else {
+    rolling = [snapshot, ...rolling].slice(0, MAX_ROLLING_SNAPSHOTS);
+  }
+
+  return [...rolling, ...daily].sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const summariseSnapshot = (snapshot: SaveSnapshot): SaveSnapshotSummary => {
+  const { data } = migrateSaveData(snapshot.data);
+  const games = Object.values(data.games);
+
+  return {
+    id: snapshot.id,
+    createdAt: snapshot.createdAt,
+    kind: snapshot.kind,
+    version: data.version,
+    totalScore: games.reduce((sum, game) => sum + (game.stats.totalScore || 0), 0),
+    achievementCount:
+      games.reduce((sum, game) => sum + game.achievements.length, 0) +
+      data.globalStats.globalAchievements.length
+  };
+};
+
+export const restoreSnapshotData = (snapshot: SaveSnapshot): GlobalSaveData =>
+  migrateSaveData(snapshot.data).data;
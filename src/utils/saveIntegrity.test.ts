@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  canonicalJson,
+  signSaveData,
+  verifySaveData,
+  markModified,
+  splitSignedSave
+} from './saveIntegrity';
+import { createDefaultGlobalSave } from './saveSchema';
+import type { GlobalSaveData } from '../types/save';
+
+const withProgress = (): GlobalSaveData => {
+  const data = createDefaultGlobalSave();
+  data.games.metris = { ...data.games.metris, highScore: 4200, achievements: ['metris_first_line'] };
+  data.games.snakeClassic = { ...data.games.snakeClassic, highScore: 90 };
+  return data;
+};
+
+describe('canonicalJson', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(canonicalJson({ b: 1, a: [2, { d: 3, c: undefined }] }))
+      .toBe(canonicalJson({ a: [2, { d: 3 }], b: 1 }));
+  });
+});
+
+describe('save signatures', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('creates a signing key once and verifies its own signatures', async () => {
+    const data = withProgress();
+    const signatures = await signSaveData(data);
+    const key = localStorage.getItem('matrix-arcade-integrity-key');
+
+    expect(key).not.toBeNull();
+    await signSaveData(data);
+    expect(localStorage.getItem('matrix-arcade-integrity-key')).toBe(key);
+
+    const report = await verifySaveData(data, signatures);
+    expect(report).toEqual({ status: 'verified', modifiedGames: [], globalModified: false });
+  });
+
+  it('pinpoints the games that were edited after signing', async () => {
+    const data = withProgress();
+    const signatures = await signSaveData(data);
+
+    const edited = structuredClone(data);
+    edited.games.metris.highScore = 999999;
+    edited.globalStats.globalAchievements.push('arcade_master');
+
+    const report = await verifySaveData(edited, signatures);
+    expect(report.status).toBe('modified');
+    expect(report.modifiedGames).toEqual(['metris']);
+    expect(report.globalModified).toBe(true);
+  });
+
+  it('does not verify signatures made with another key', async () => {
+    const data = withProgress();
+    const signatures = await signSaveData(data);
+    localStorage.removeItem('matrix-arcade-integrity-key');
+
+    const report = await verifySaveData(data, signatures);
+    expect(report.status).toBe('modified');
+    expect(report.modifiedGames).toContain('metris');
+  });
+
+  it('treats unsigned data with progress as modified', async () => {
+    const report = await verifySaveData(withProgress(), null);
+
+    expect(report.status).toBe('unsigned');
+    expect(report.modifiedGames.sort()).toEqual(['metris', 'snakeClassic']);
+    expect(report.globalModified).toBe(false);
+  });
+});
+
+describe('markModified', () => {
+  it('flags reported games and leaves the rest alone', () => {
+    const data = withProgress();
+    const flagged = markModified(data, { status: 'modified', modifiedGames: ['metris'], globalModified: true });
+
+    expect(flagged.games.metris.modified).toBe(true);
+    expect(flagged.games.snakeClassic.modified).toBeUndefined();
+    expect(flagged.globalStats.modified).toBe(true);
+    expect(data.games.metris.modified).toBeUndefined();
+  });
+
+  it('returns the same object when nothing new needs flagging', () => {
+    const report = { status: 'modified' as const, modifiedGames: ['metris'], globalModified: false };
+    const flagged = markModified(withProgress(), report);
+
+    expect(markModified(flagged, report)).toBe(flagged);
+  });
+});
+
+describe('splitSignedSave', () => {
+  it('separates embedded signatures from the save', async () => {
+    const data = withProgress();
+    const integrity = await signSaveData(data);
+
+    const split = splitSignedSave(JSON.parse(JSON.stringify({ ...data, integrity })));
+    expect(split.signatures).toEqual(integrity);
+    expect(split.data).toEqual(JSON.parse(JSON.stringify(data)));
+  });
+
+  it('ignores malformed signature blocks', () => {
+    expect(splitSignedSave({ version: '2.0.0', integrity: 'nope' }).signatures).toBeNull();
+    expect(splitSignedSave({ version: '2.0.0' }).signatures).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+import { saveStorage } from './saveStorage';
+import type { GlobalSaveData } from '../types/save';
+
+// ============================================================================
+// SAVE INTEGRITY
+// Stored and exported saves carry an HMAC per game (plus one for global stats)
+// signed with a key generated on this device. Edited data no longer verifies,
+// so the scores it touches are marked as modified rather than rejected. This
+// is tamper-evident, not tamper-proof: the key lives beside the save.
+// ============================================================================
+
+export const INTEGRITY_ALGORITHM = 'HMAC-SHA256';
+const KEY_BYTES = 32;
+
+export interface SaveSignatures {
+  algorithm: typeof INTEGRITY_ALGORITHM;
+  signedAt: number;
+  games: Record<string, string>;
+  global: string;
+}
+
+export type SaveIntegrityStatus = 'verified' | 'modified' | 'unsigned';
+
+export interface SaveIntegrityReport {
+  status: SaveIntegrityStatus;
+  modifiedGames: string[];
+  globalModified: boolean;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (encoded: string) => Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+
+// JSON with sorted object keys, so the same data always signs the same way
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// The active profile's signing key, created the first time it is needed
+const loadSigningKey = async () => {
+  let secret = saveStorage.get('integrityKey');
+  if (!secret) {
+    secret = toBase64(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+    saveStorage.set('integrityKey', secret);
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    fromBase64(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+};
+
+const hmac = async (key: CryptoKey, value: unknown) => {
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(canonicalJson(value)));
+  return toBase64(new Uint8Array(signature));
+};
+
+export const signSaveData = async (data: GlobalSaveData, now = Date.now()): Promise<SaveSignatures> => {
+  const key = await loadSigningKey();
+  const games: Record<string, string> = {};
+
+  for (const [gameKey, game] of Object.entries(data.games)) {
+    games[gameKey] = await hmac(key, game);
+  }
+
+  return {
+    algorithm: INTEGRITY_ALGORITHM,
+    signedAt: now,
+    games,
+    global: await hmac(key, data.globalStats)
+  };
+};
+
+const hasProgress = (game: GlobalSaveData['games'][keyof GlobalSaveData['games']]) =>
+  game.highScore > 0 || game.achievements.length > 0 || (game.stats.gamesPlayed || 0) > 0;
+
+export const isSaveSignatures = (value: unknown): value is SaveSignatures =>
+  typeof value === 'object' && value !== null &&
+  (value as SaveSignatures).algorithm === INTEGRITY_ALGORITHM &&
+  typeof (value as SaveSignatures).global === 'string' &&
+  typeof (value as SaveSignatures).games === 'object' && (value as SaveSignatures).games !== null;
+
+/**
+ * Checks each game and the global stats against their signatures. Without
+ * signatures nothing can be vouched for, so anything with progress counts
+ * as modified.
+ */
+export const verifySaveData = async (
+  data: GlobalSaveData,
+  signatures: SaveSignatures | null
+): Promise<SaveIntegrityReport> => {
+  if (!signatures) {
+    const modifiedGames = Object.entries(data.games)
+      .filter(([, game]) => hasProgress(game))
+      .map(([gameKey]) => gameKey);
+    const globalModified = data.globalStats.globalAchievements.length > 0;
+
+    return { status: 'unsigned', modifiedGames, globalModified };
+  }
+
+  const expected = await signSaveData(data, signatures.signedAt);
+  const modifiedGames = Object.keys(data.games).filter(
+    gameKey => signatures.games[gameKey] !== expected.games[gameKey]
+  );
+  const globalModified = signatures.global !== expected.global;
+
+  return {
+    status: modifiedGames.length > 0 || globalModified ? 'modified' : 'verified',
+    modifiedGames,
+    globalModified
+  };
+};
+
+/**
+ * Marks the games (and global stats) named in the report as modified.
+ * The flag is sticky: re-signing a flagged save keeps it flagged.
+ * Returns `data` itself when everything named is already flagged.
+ */
+export const markModified = (data: GlobalSaveData, report: SaveIntegrityReport): GlobalSaveData => {
+  const gameKeys = report.modifiedGames.filter(
+    gameKey => gameKey in data.games && !data.games[gameKey as keyof GlobalSaveData['games']].modified
+  ) as (keyof GlobalSaveData['games'])[];
+  const flagGlobal = report.globalModified && !data.globalStats.modified;
+  if (gameKeys.length === 0 && !flagGlobal) return data;
+
+  const games = { ...data.games };
+  gameKeys.forEach(gameKey => {
+    games[gameKey] = { ...games[gameKey], modified: true };
+  });
+
+  return {
+    ...data,
+    games,
+    globalStats: flagGlobal ? { ...data.globalStats, modified: true } : data.globalStats
+  };
+};
+
+// Separates an export file's embedded signatures from the save it carries
+export const splitSignedSave = (raw: unknown): { data: unknown; signatures: SaveSignatures | null } => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw) || !('integrity' in raw)) {
+    return { data: raw, signatures: null };
+  }
+
+  const { integrity, ...data } = raw as Record<string, unknown>;
+  return { data, signatures: isSaveSignatures(integrity) ? integrity : null };
+};
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SAVE_VERSION,
+  SAVE_MIGRATIONS,
+  LEGACY_SAVE_VERSION,
+  migrateSaveData,
+  createDefaultGlobalSave
+} from './saveSchema';
+import { GAME_SAVE_KEYS } from '../data/gameRegistry';
+
+// v1.0.0 shape: six games, no Terminal Quest slot
+const createV1Save = () => ({
+  version: '1.0.0',
+  games: {
+    snakeClassic: {
+      highScore: 420,
+      level: 4,
+      achievements: ['snake_first_apple'],
+      stats: { gamesPlayed: 12, totalScore: 2000, longestSurvival: 95, bestLength: 31 },
+      lastPlayed: 1700000000000,
+      preferences: {}
+    },
+    vortexPong: {
+      highScore: 10,
+      level: 1,
+      achievements: [],
+      stats: { gamesPlayed: 3, totalScore: 21, wins: 1 },
+      lastPlayed: 1700000000000
+    },
+    matrixCloud: { highScore: 0, level: 1, achievements: [], stats: { gamesPlayed: 0, totalScore: 0 }, lastPlayed: 1 },
+    ctrlSWorld: { highScore: 0, level: 1, achievements: [], stats: { gamesPlayed: 0, totalScore: 0 }, lastPlayed: 1 },
+    matrixInvaders: { highScore: 0, level: 1, achievements: [], stats: { gamesPlayed: 0, totalScore: 0 }, lastPlayed: 1 },
+    metris: {
+      highScore: 15000,
+      level: 11,
+      achievements: ['first_line', 'level_10'],
+      stats: { gamesPlayed: 7, totalScore: 50000, bestCombo: 6 },
+      lastPlayed: 1700000000000
+    }
+  },
+  globalStats: {
+    totalPlayTime: 3600,
+    favoriteGame: 'metris',
+    globalAchievements: ['global_first_game'],
+    firstPlayDate: 1690000000000
+  },
+  settings: { autoSave: false, lastBackupDate: 1700000000000 }
+});
+
+describe('saveSchema', () => {
+  describe('migration chain', () => {
+    it('links every step in order up to the current version', () => {
+      expect(SAVE_MIGRATIONS[0].from).toBe(LEGACY_SAVE_VERSION);
+      SAVE_MIGRATIONS.slice(1).forEach((migration, i) => {
+        expect(migration.from).toBe(SAVE_MIGRATIONS[i].to);
+      });
+      expect(SAVE_MIGRATIONS[SAVE_MIGRATIONS.length - 1].to).toBe(SAVE_VERSION);
+    });
+
+    it('creates new saves at the current version', () => {
+      expect(createDefaultGlobalSave().version).toBe(SAVE_VERSION);
+    });
+  });
+
+  describe('unversioned legacy saves', () => {
+    it('moves flat per-game counters into stats', () => {
+      const { data, fromVersion, migrated } = migrateSaveData({
+        games: {
+          metris: { highScore: 900, totalScore: 4000, gamesPlayed: 9, achievements: ['first_line'], lastPlayed: 5 }
+        }
+      });
+
+      expect(fromVersion).toBe(LEGACY_SAVE_VERSION);
+      expect(migrated).toBe(true);
+      expect(data.version).toBe(SAVE_VERSION);
+      expect(data.games.metris.highScore).toBe(900);
+      expect(data.games.metris.stats.gamesPlayed).toBe(9);
+      expect(data.games.metris.stats.totalScore).toBe(4000);
+      expect(data.games.metris.stats.bestCombo).toBe(0);
+      expect(data.games.metris).not.toHaveProperty('totalScore');
+      expect(data.games.metris.achievements).toEqual(['first_line']);
+    });
+
+    it('fills missing globalStats and settings', () => {
+      const { data } = migrateSaveData({ games: {} });
+
+      expect(data.globalStats.globalAchievements).toEqual([]);
+      expect(data.settings.autoSave).toBe(true);
+      GAME_SAVE_KEYS.forEach(key => {
+        expect(data.games[key].stats.gamesPlayed).toBe(0);
+      });
+    });
+
+    it('treats non-object input as an empty save', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      [null, 42, 'save', []].forEach(raw => {
+        const { data } = migrateSaveData(raw);
+        expect(data.version).toBe(SAVE_VERSION);
+        expect(Object.keys(data.games).sort()).toEqual([...GAME_SAVE_KEYS].sort());
+      });
+    });
+  });
+
+  describe('v1.0.0 saves', () => {
+    it('adds the Terminal Quest slot', () => {
+      const { data, migrated } = migrateSaveData(createV1Save());
+
+      expect(migrated).toBe(true);
+      expect(data.games.terminalQuest.highScore).toBe(0);
+      expect(data.games.terminalQuest.stats.gamesPlayed).toBe(0);
+    });
+
+    it('preserves existing progress', () => {
+      const original = createV1Save();
+      const { data } = migrateSaveData(original);
+
+      expect(data.games.metris.highScore).toBe(15000);
+      expect(data.games.metris.achievements).toEqual(['first_line', 'level_10']);
+      expect(data.games.snakeClassic.lastPlayed).toBe(1700000000000);
+      expect(data.globalStats).toEqual(original.globalStats);
+      expect(data.settings).toEqual(original.settings);
+    });
+
+    it('deep merges nested stats, keeping game-specific counters', () => {
+      const { data } = migrateSaveData(createV1Save());
+
+      expect(data.games.snakeClassic.stats).toEqual({
+        gamesPlayed: 12,
+        totalScore: 2000,
+        bestCombo: 0,
+        longestSurvival: 95,
+        bossesDefeated: 0,
+        bestLength: 31
+      });
+      expect(data.games.vortexPong.stats.wins).toBe(1);
+      expect(data.games.vortexPong.preferences).toEqual({});
+      expect(data.games.metris.stats.bestCombo).toBe(6);
+    });
+
+    it('does not mutate the input', () => {
+      const original = createV1Save();
+      const snapshot = JSON.parse(JSON.stringify(original));
+      migrateSaveData(original);
+      expect(original).toEqual(snapshot);
+    });
+  });
+
+  describe('v1.1.0 saves', () => {
+    it('starts each high score table with the old single high score', () => {
+      const { data } = migrateSaveData(createV1Save());
+
+      expect(data.games.metris.highScores).toEqual({
+        standard: [{ initials: '---', score: 15000, level: 11, durationSeconds: 0, date: 1700000000000 }]
+      });
+      expect(data.games.matrixCloud.highScores).toBeUndefined();
+    });
+  });
+
+  describe('v1.2.0 saves', () => {
+    it('moves Terminal Quest endings out of the numeric stats', () => {
+      const save = createDefaultGlobalSave();
+      const { data } = migrateSaveData({
+        ...save,
+        version: '1.2.0',
+        games: {
+          ...save.games,
+          terminalQuest: {
+            ...save.games.terminalQuest,
+            stats: { gamesPlayed: 2, totalScore: 300, endingsSeen: ['ending_escape'] }
+          }
+        }
+      });
+
+      expect(data.games.terminalQuest.endingsSeen).toEqual(['ending_escape']);
+      expect(data.games.terminalQuest.stats).toMatchObject({ gamesPlayed: 2, totalScore: 300 });
+      expect(data.games.terminalQuest.stats).not.toHaveProperty('endingsSeen');
+    });
+  });
+
+  describe('current and future versions', () => {
+    it('leaves current saves unmigrated', () => {
+      const current = createDefaultGlobalSave();
+      current.games.metris.highScore = 123;
+      const { data, migrated } = migrateSaveData(JSON.parse(JSON.stringify(current)));
+
+      expect(migrated).toBe(false);
+      expect(data).toEqual(current);
+    });
+
+    it('keeps saves from an unknown newer version without migrating', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { data, migrated } = migrateSaveData({
+        ...createV1Save(),
+        version: '99.0.0',
+        games: { ...createV1Save().games, futureGame: { highScore: 5 } }
+      });
+
+      expect(migrated).toBe(false);
+      expect(data.version).toBe('99.0.0');
+      expect((data.games as Record<string, unknown>).futureGame).toEqual({ highScore: 5 });
+      expect(data.games.terminalQuest).toBeDefined();
+      expect(warn).toHaveBeenCalled();
+    });
+  });
+});
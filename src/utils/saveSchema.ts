@@ -0,0 +1,229 @@
+import { GAME_SAVE_KEYS } from '../data/gameRegistry';
+import { DEFAULT_MODE, UNKNOWN_INITIALS } from './highScores';
+import type { GameSaveData, GlobalSaveData } from '../types/save';
+
+// ============================================================================
+// SAVE SCHEMA
+// Defaults and the versioned migration pipeline for GlobalSaveData. Whenever
+// the shape of the save changes, bump SAVE_VERSION and append a migration.
+// ============================================================================
+
+export const SAVE_VERSION = '1.3.0';
+
+// Saves written before versioning was introduced have no version field
+export const LEGACY_SAVE_VERSION = '0.0.0';
+
+export type RawSave = Record<string, unknown>;
+
+export interface SaveMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: RawSave) => RawSave;
+}
+
+export const createDefaultGameSave = (): GameSaveData => ({
+  highScore: 0,
+  level: 1,
+  achievements: [],
+  stats: {
+    gamesPlayed: 0,
+    totalScore: 0,
+    bestCombo: 0,
+    longestSurvival: 0,
+    bossesDefeated: 0
+  },
+  lastPlayed: Date.now(),
+  preferences: {}
+});
+
+// One save slot per registered game
+export const createDefaultGameSaves = (): GlobalSaveData['games'] =>
+  Object.fromEntries(
+    GAME_SAVE_KEYS.map(key => [key, createDefaultGameSave()])
+  ) as GlobalSaveData['games'];
+
+export const createDefaultGlobalSave = (): GlobalSaveData => ({
+  version: SAVE_VERSION,
+  games: createDefaultGameSaves(),
+  globalStats: {
+    totalPlayTime: 0,
+    favoriteGame: '',
+    globalAchievements: [],
+    firstPlayDate: Date.now()
+  },
+  settings: {
+    autoSave: true
+  }
+});
+
+export const isRecord = (value: unknown): value is RawSave =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapGames = (data: RawSave, fn: (game: RawSave) => RawSave): RawSave => {
+  const games = isRecord(data.games) ? data.games : {};
+  return {
+    ...data,
+    games: Object.fromEntries(
+      Object.entries(games).map(([key, game]) => [key, fn(isRecord(game) ? game : {})])
+    )
+  };
+};
+
+// Ordered list of migrations; each one upgrades exactly one version step
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    from: LEGACY_SAVE_VERSION,
+    to: '1.0.0',
+    description: 'Move flat per-game counters into stats',
+    migrate: data => mapGames(data, game => {
+      const { gamesPlayed, totalScore, ...rest } = game;
+      const stats = isRecord(rest.stats) ? rest.stats : {};
+      return {
+        ...rest,
+        stats: {
+          ...stats,
+          gamesPlayed: stats.gamesPlayed ?? gamesPlayed ?? 0,
+          totalScore: stats.totalScore ?? totalScore ?? 0
+        }
+      };
+    })
+  },
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Add the Terminal Quest save slot',
+    migrate: data => {
+      const games = isRecord(data.games) ? data.games : {};
+      return {
+        ...data,
+        games: {
+          ...games,
+          terminalQuest: games.terminalQuest ?? createDefaultGameSave()
+        }
+      };
+    }
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Start each high score table with the old single high score',
+    migrate: data => mapGames(data, game => {
+      if (isRecord(game.highScores) || typeof game.highScore !== 'number' || game.highScore <= 0) return game;
+      return {
+        ...game,
+        highScores: {
+          [DEFAULT_MODE]: [{
+            initials: UNKNOWN_INITIALS,
+            score: game.highScore,
+            level: typeof game.level === 'number' ? game.level : undefined,
+            durationSeconds: 0,
+            date: typeof game.lastPlayed === 'number' ? game.lastPlayed : 0
+          }]
+        }
+      };
+    })
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Move story endings out of the numeric stats',
+    migrate: data => mapGames(data, game => {
+      const stats = isRecord(game.stats) ? game.stats : {};
+      const { endingsSeen, ...numericStats } = stats;
+      if (!Array.isArray(endingsSeen)) return game;
+      return { ...game, stats: numericStats, endingsSeen };
+    })
+  }
+];
+
+// Fill every missing field from defaults, merging nested objects field by field
+const mergeGameSave = (game: unknown): GameSaveData => {
+  const defaults = createDefaultGameSave();
+  if (!isRecord(game)) return defaults;
+
+  return {
+    ...defaults,
+    ...game,
+    achievements: Array.isArray(game.achievements) ? game.achievements : defaults.achievements,
+    stats: {
+      ...defaults.stats,
+      ...(isRecord(game.stats) ? game.stats : {})
+    },
+    preferences: {
+      ...defaults.preferences,
+      ...(isRecord(game.preferences) ? game.preferences : {})
+    }
+  } as GameSaveData;
+};
+
+export const mergeWithDefaults = (data: RawSave): GlobalSaveData => {
+  const defaults = createDefaultGlobalSave();
+  const games = isRecord(data.games) ? data.games : {};
+
+  // Unknown slots are kept so data from newer builds is not thrown away
+  const mergedGames = { ...games } as RawSave;
+  GAME_SAVE_KEYS.forEach(key => {
+    mergedGames[key] = mergeGameSave(games[key]);
+  });
+
+  const globalStats = isRecord(data.globalStats) ? data.globalStats : {};
+
+  return {
+    ...defaults,
+    ...data,
+    version: typeof data.version === 'string' ? data.version : defaults.version,
+    games: mergedGames as GlobalSaveData['games'],
+    globalStats: {
+      ...defaults.globalStats,
+      ...globalStats,
+      globalAchievements: Array.isArray(globalStats.globalAchievements)
+        ? globalStats.globalAchievements
+        : defaults.globalStats.globalAchievements
+    },
+    settings: {
+      ...defaults.settings,
+      ...(isRecord(data.settings) ? data.settings : {})
+    }
+  } as GlobalSaveData;
+};
+
+export interface MigrationResult<T = GlobalSaveData> {
+  data: T;
+  fromVersion: string;
+  migrated: boolean;
+}
+
+// Run every migration between the stored version and SAVE_VERSION without filling defaults
+export const runMigrations = (raw: unknown): MigrationResult<RawSave> => {
+  let data: RawSave = isRecord(raw) ? raw : {};
+  const fromVersion = typeof data.version === 'string' ? data.version : LEGACY_SAVE_VERSION;
+  let version = fromVersion;
+
+  while (version !== SAVE_VERSION) {
+    const step = SAVE_MIGRATIONS.find(migration => migration.from === version);
+    if (!step) {
+      // Unknown (e.g. newer) version - keep the data as-is rather than guess
+      console.warn('No save migration from version', version, 'to', SAVE_VERSION);
+      break;
+    }
+    data = { ...step.migrate(data), version: step.to };
+    version = step.to;
+  }
+
+  return {
+    data: { ...data, version },
+    fromVersion,
+    migrated: version !== fromVersion
+  };
+};
+
+// Migrate, then fill any missing fields from defaults
+export const migrateSaveData = (raw: unknown): MigrationResult => {
+  const { data, fromVersion, migrated } = runMigrations(raw);
+  return {
+    data: mergeWithDefaults(data),
+    fromVersion,
+    migrated
+  };
+};
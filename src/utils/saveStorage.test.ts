@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { saveStorage, STORAGE_KEYS, foldLegacyHighScores } from './saveStorage';
+import { createDefaultGlobalSave } from './saveSchema';
+import { PROFILES_KEY, profileStorageKey, saveProfileRegistry } from './profileStorage';
+
+describe('saveStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('round-trips JSON values under the original key names', () => {
+    saveStorage.set('audioConfig', { masterVolume: 0.5 });
+
+    expect(saveStorage.get('audioConfig')).toEqual({ masterVolume: 0.5 });
+    expect(localStorage.getItem('matrix-arcade-audio-config')).toBe('{"masterVolume":0.5}');
+  });
+
+  it('returns null for missing or corrupted values', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem(STORAGE_KEYS.ctrlsSave, '{broken');
+
+    expect(saveStorage.get('saveData')).toBeNull();
+    expect(saveStorage.get('ctrlsSave')).toBeNull();
+  });
+
+  it('scopes keys to the active profile', () => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify({
+      activeProfileId: 'p2',
+      profiles: [{ id: 'default', name: 'One', createdAt: 1 }, { id: 'p2', name: 'Two', createdAt: 2 }]
+    }));
+
+    saveStorage.set('saveData', { version: 'x' });
+
+    expect(localStorage.getItem(STORAGE_KEYS.saveData)).toBeNull();
+    expect(localStorage.getItem(profileStorageKey(STORAGE_KEYS.saveData, 'p2'))).toBe('{"version":"x"}');
+  });
+
+  it('reads the profile registry once until it changes', () => {
+    saveProfileRegistry({ activeProfileId: 'p2', profiles: [{ id: 'p2', name: 'Two', createdAt: 2 }] });
+    const parse = vi.spyOn(JSON, 'parse');
+
+    expect(profileStorageKey(STORAGE_KEYS.saveData)).toBe(`${STORAGE_KEYS.saveData}@p2`);
+    expect(profileStorageKey(STORAGE_KEYS.saveData)).toBe(`${STORAGE_KEYS.saveData}@p2`);
+    expect(parse).not.toHaveBeenCalled();
+
+    localStorage.removeItem(PROFILES_KEY);
+    expect(profileStorageKey(STORAGE_KEYS.saveData)).toBe(STORAGE_KEYS.saveData);
+    parse.mockRestore();
+  });
+
+  it('clears every key, including legacy ones, and notifies listeners', () => {
+    const listener = vi.fn();
+    const unsubscribe = saveStorage.onClear(listener);
+    Object.values(STORAGE_KEYS).forEach(key => localStorage.setItem(key, '{}'));
+    localStorage.setItem('metris_highScore', '100');
+
+    saveStorage.clear();
+    unsubscribe();
+
+    expect(localStorage.length).toBe(0);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('only clears the keys of another profile, without notifying listeners', () => {
+    const listener = vi.fn();
+    const unsubscribe = saveStorage.onClear(listener);
+    localStorage.setItem(profileStorageKey(STORAGE_KEYS.saveData, 'other'), '{}');
+    localStorage.setItem(STORAGE_KEYS.saveData, '{}');
+    localStorage.setItem('metris_highScore', '100');
+
+    saveStorage.clear('other');
+    unsubscribe();
+
+    expect(localStorage.getItem(profileStorageKey(STORAGE_KEYS.saveData, 'other'))).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEYS.saveData)).toBe('{}');
+    expect(localStorage.getItem('metris_highScore')).toBe('100');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('foldLegacyHighScores', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns null when there are no legacy keys', () => {
+    expect(foldLegacyHighScores(createDefaultGlobalSave())).toBeNull();
+  });
+
+  it('keeps the best score and removes the legacy keys', () => {
+    const data = createDefaultGlobalSave();
+    data.games.metris.highScore = 5000;
+    localStorage.setItem('metris_highScore', '1200');
+    localStorage.setItem('matrixInvaders_highScore', '8800');
+    localStorage.setItem('simpleSnakeHighScore', '42');
+
+    const folded = foldLegacyHighScores(data)!;
+
+    expect(folded.games.metris.highScore).toBe(5000);
+    expect(folded.games.matrixInvaders.highScore).toBe(8800);
+    expect(folded.games.snakeClassic.highScore).toBe(42);
+    expect(localStorage.length).toBe(0);
+  });
+});
@@ -0,0 +1,201 @@
+import { profileStorageKey } from './profileStorage';
+import type { GameSaveKey } from '../data/gameRegistry';
+import type { GlobalSaveData } from '../types/save';
+import type { SaveSnapshot } from './saveHistory';
+import type { SaveSignatures } from './saveIntegrity';
+import type { SyncState } from './saveSync';
+import type { QueuedSubmission } from './leaderboardClient';
+import type { GameState as CtrlSGameState } from '../contexts/GameStateContext';
+import type { StoredLifelineState } from '../hooks/useLifelineManager';
+import type { SoundConfig } from '../hooks/useSoundSystem';
+import type { AdvancedVoiceConfig } from '../hooks/useAdvancedVoice';
+import type { ShatnerVoiceConfig } from '../hooks/useShatnerVoice';
+
+// ============================================================================
+// SAVE STORAGE
+// The single persistence layer for the arcade. Every save, context and
+// settings hook goes through this adapter instead of touching browser storage,
+// so keys are profile-scoped, the backend is swappable and one reset clears
+// everything.
+// ============================================================================
+
+// Value stored under each logical key
+export interface StorageSchema {
+  saveData: unknown;                // Raw GlobalSaveData, migrated on load
+  saveBackup: unknown;              // Single-slot backup from before save history
+  saveHistory: SaveSnapshot[];
+  saveIntegrity: SaveSignatures;    // Signatures for the stored saveData
+  integrityKey: string;             // Base64 HMAC secret for this profile
+  syncState: SyncState;
+  leaderboardQueue: QueuedSubmission[];   // Scores waiting for the leaderboard service
+  ctrlsSave: CtrlSGameState;
+  ctrlsLifelines: StoredLifelineState;
+  terminalQuestSave: { gameState: unknown; timestamp: number };
+  audioConfig: Partial<SoundConfig>;
+  advancedVoice: Partial<AdvancedVoiceConfig>;
+  shatnerVoice: Partial<ShatnerVoiceConfig>;
+}
+
+export type StorageKey = keyof StorageSchema;
+
+// Physical key for each logical key (before profile scoping)
+export const STORAGE_KEYS: Record<StorageKey, string> = {
+  saveData: 'matrix-arcade-save-data',
+  saveBackup: 'matrix-arcade-backup',
+  saveHistory: 'matrix-arcade-save-history',
+  saveIntegrity: 'matrix-arcade-save-integrity',
+  integrityKey: 'matrix-arcade-integrity-key',
+  syncState: 'matrix-arcade-sync-state',
+  leaderboardQueue: 'matrix-arcade-leaderboard-queue',
+  ctrlsSave: 'matrix-arcade-ctrls-save',
+  ctrlsLifelines: 'ctrlsworld_lifelines',
+  terminalQuestSave: 'terminalQuestSave',
+  audioConfig: 'matrix-arcade-audio-config',
+  advancedVoice: 'matrix-arcade-advanced-voice',
+  shatnerVoice: 'matrix-arcade-shatner-voice'
+};
+
+// Per-game high score keys written before scores moved into GlobalSaveData
+export const LEGACY_HIGH_SCORE_KEYS: Record<string, GameSaveKey> = {
+  metris_highScore: 'metris',
+  matrixInvaders_highScore: 'matrixInvaders',
+  simpleSnakeHighScore: 'snakeClassic'
+};
+
+// Where values physically live. Reads are synchronous (backends keep what they
+// need in memory); writes may be persisted later, and flush() waits for them.
+export interface StorageBackend {
+  readonly name: string;
+  getItem(key: string): unknown | null;
+  setItem(key: string, value: unknown): void;
+  removeItem(key: string): void;
+  keys(): string[];
+  flush(): Promise<void>;
+}
+
+// Original behaviour: JSON in localStorage, written immediately
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localStorage',
+
+  getItem(key) {
+    const stored = localStorage.getItem(key);
+    if (stored === null) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error(`Failed to parse stored ${key}:`, error);
+      return null;
+    }
+  },
+
+  setItem(key, value) {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+
+  removeItem(key) {
+    localStorage.removeItem(key);
+  },
+
+  keys() {
+    return Object.keys(localStorage);
+  },
+
+  flush() {
+    return Promise.resolve();
+  }
+});
+
+export interface SaveStorage {
+  readonly backendName: string;
+  get<K extends StorageKey>(key: K): StorageSchema[K] | null;
+  set<K extends StorageKey>(key: K, value: StorageSchema[K]): void;
+  remove(key: StorageKey): void;
+  clear(profileId?: string): void;
+  onClear(listener: () => void): () => void;
+  flush(): Promise<void>;
+  setBackend(backend: StorageBackend): void;
+}
+
+export const createSaveStorage = (initialBackend: StorageBackend = createLocalStorageBackend()): SaveStorage => {
+  let backend = initialBackend;
+  const clearListeners = new Set<() => void>();
+
+  return {
+    get backendName() {
+      return backend.name;
+    },
+
+    get(key) {
+      return backend.getItem(profileStorageKey(STORAGE_KEYS[key])) as StorageSchema[typeof key] | null;
+    },
+
+    set(key, value) {
+      backend.setItem(profileStorageKey(STORAGE_KEYS[key]), value);
+    },
+
+    remove(key) {
+      backend.removeItem(profileStorageKey(STORAGE_KEYS[key]));
+    },
+
+    // Removes every key owned by a profile (default: the active one)
+    clear(profileId) {
+      Object.values(STORAGE_KEYS).forEach(baseKey => {
+        backend.removeItem(profileStorageKey(baseKey, profileId));
+      });
+
+      // Legacy keys aren't scoped to any profile; only a reset of the active
+      // profile drops them, so they can't be folded back into its fresh save
+      if (profileId === undefined) {
+        Object.keys(LEGACY_HIGH_SCORE_KEYS).forEach(legacyKey => localStorage.removeItem(legacyKey));
+        clearListeners.forEach(listener => listener());
+      }
+    },
+
+    // In-memory state subscribes here so a reset is not undone by the next auto-save
+    onClear(listener) {
+      clearListeners.add(listener);
+      return () => {
+        clearListeners.delete(listener);
+      };
+    },
+
+    flush() {
+      return backend.flush();
+    },
+
+    setBackend(next) {
+      backend = next;
+    }
+  };
+};
+
+export const saveStorage = createSaveStorage();
+
+// True for any physical key the arcade owns, in any profile
+export const isArcadeStorageKey = (key: string) =>
+  Object.values(STORAGE_KEYS).some(baseKey => key === baseKey || key.startsWith(`${baseKey}@`));
+
+/**
+ * Folds the legacy per-game high score keys into the unified save and removes them.
+ * Returns null when there was nothing to migrate.
+ */
+export const foldLegacyHighScores = (data: GlobalSaveData): GlobalSaveData | null => {
+  let games = data.games;
+  let found = false;
+
+  Object.entries(LEGACY_HIGH_SCORE_KEYS).forEach(([legacyKey, saveKey]) => {
+    const stored = localStorage.getItem(legacyKey);
+    if (stored === null) return;
+
+    found = true;
+    localStorage.removeItem(legacyKey);
+
+    const legacyScore = parseInt(stored, 10);
+    if (Number.isFinite(legacyScore) && legacyScore > games[saveKey].highScore) {
+      games = { ...games, [saveKey]: { ...games[saveKey], highScore: legacyScore } };
+    }
+  });
+
+  return found ? { ...data, games } : null;
+};
@@ -0,0 +1,52 @@
+import type { GlobalSaveData } from '../types/save';
+import type { SaveSnapshot } from './saveHistory';
+import type { SaveIntegrityReport } from './saveIntegrity';
+
+// ============================================================================
+// SAVE STORE
+// The one in-memory copy of the active profile's save. Every useSaveSystem
+// consumer reads from and writes to it, so a write from one game is seen by
+// the arcade and every other game straight away.
+// ============================================================================
+
+export interface SaveState {
+  saveData: GlobalSaveData;
+  isLoading: boolean;
+  error: string | null;
+  history: SaveSnapshot[];
+  integrity: SaveIntegrityReport | null;
+}
+
+export interface SaveStore {
+  getState(): SaveState;
+  setState(update: Partial<SaveState> | ((state: SaveState) => Partial<SaveState>)): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export const createSaveStore = (initialState: SaveState): SaveStore => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState() {
+      return state;
+    },
+
+    // Listeners only hear about updates that replace at least one field
+    setState(update) {
+      const changes = typeof update === 'function' ? update(state) : update;
+      const changed = (Object.keys(changes) as (keyof SaveState)[]).some(key => changes[key] !== state[key]);
+      if (!changed) return;
+
+      state = { ...state, ...changes };
+      listeners.forEach(listener => listener());
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mergeSaves, syncSaveData, createSyncState, MAX_SYNC_ATTEMPTS, type SyncAdapter, type SyncEnvelope } from './saveSync';
+import { createDefaultGlobalSave, SAVE_VERSION } from './saveSchema';
+import type { GlobalSaveData } from '../types/save';
+
+const save = (edit: (data: GlobalSaveData) => void) => {
+  const data = createDefaultGlobalSave();
+  edit(data);
+  return data;
+};
+
+describe('mergeSaves', () => {
+  it('keeps the best score and level per game and unions achievements', () => {
+    const local = save(d => {
+      d.games.metris = { ...d.games.metris, highScore: 5000, level: 3, achievements: ['a', 'b'] };
+    });
+    const remote = save(d => {
+      d.games.metris = { ...d.games.metris, highScore: 8000, level: 2, achievements: ['b', 'c'] };
+      d.globalStats.globalAchievements = ['arcade_master'];
+    });
+
+    const merged = mergeSaves(local, remote);
+    expect(merged.games.metris.highScore).toBe(8000);
+    expect(merged.games.metris.level).toBe(3);
+    expect(merged.games.metris.achievements).toEqual(['a', 'b', 'c']);
+    expect(merged.globalStats.globalAchievements).toEqual(['arcade_master']);
+    expect(merged.version).toBe(SAVE_VERSION);
+  });
+
+  it('adds up play time and counters played since the common base', () => {
+    const base = save(d => {
+      d.globalStats.totalPlayTime = 100;
+      d.games.snakeClassic.stats = { gamesPlayed: 10, totalScore: 1000, bestLength: 20 };
+    });
+    const local = save(d => {
+      d.globalStats.totalPlayTime = 130;
+      d.games.snakeClassic.stats = { gamesPlayed: 12, totalScore: 1200, bestLength: 25 };
+    });
+    const remote = save(d => {
+      d.globalStats.totalPlayTime = 150;
+      d.games.snakeClassic.stats = { gamesPlayed: 15, totalScore: 1500, bestLength: 22 };
+    });
+
+    const merged = mergeSaves(local, remote, base);
+    expect(merged.globalStats.totalPlayTime).toBe(180);
+    expect(merged.games.snakeClassic.stats).toEqual({ gamesPlayed: 17, totalScore: 1700, bestLength: 25 });
+  });
+
+  it('sums play time outright when the devices never synced before', () => {
+    const local = save(d => { d.globalStats.totalPlayTime = 40; });
+    const remote = save(d => { d.globalStats.totalPlayTime = 60; });
+
+    expect(mergeSaves(local, remote).globalStats.totalPlayTime).toBe(100);
+  });
+
+  it('keeps modified flags from either side', () => {
+    const local = save(() => {});
+    const remote = save(d => {
+      d.games.metris.modified = true;
+    });
+
+    expect(mergeSaves(local, remote).games.metris.modified).toBe(true);
+    expect(mergeSaves(local, remote).games.snakeClassic.modified).toBeUndefined();
+  });
+
+  it('adds up achievement tallies but keeps the best of recorded bests', () => {
+    const base = save(d => {
+      d.games.metris.counters = { 'line_cleared|lines|sum|': 10, 'combo|multiplier|max|': 3 };
+    });
+    const local = save(d => {
+      d.games.metris.counters = { 'line_cleared|lines|sum|': 14, 'combo|multiplier|max|': 4 };
+    });
+    const remote = save(d => {
+      d.games.metris.counters = { 'line_cleared|lines|sum|': 20, 'combo|multiplier|max|': 6 };
+    });
+
+    expect(mergeSaves(local, remote, base).games.metris.counters).toEqual({
+      'line_cleared|lines|sum|': 24,
+      'combo|multiplier|max|': 6
+    });
+    expect(mergeSaves(local, remote, base).games.snakeClassic.counters).toBeUndefined();
+  });
+
+  it('keeps the earliest record of each unlock', () => {
+    const early = { unlockedAt: 100, sessionId: 'visit-a' };
+    const late = { unlockedAt: 200, sessionId: 'visit-b' };
+    const local = save(d => {
+      d.games.metris.unlocks = { first_line: late };
+      d.globalStats.unlocks = { global_first_game: early };
+    });
+    const remote = save(d => {
+      d.games.metris.unlocks = { first_line: early, tetris: late };
+    });
+
+    const merged = mergeSaves(local, remote);
+    expect(merged.games.metris.unlocks).toEqual({ first_line: early, tetris: late });
+    expect(merged.globalStats.unlocks).toEqual({ global_first_game: early });
+  });
+});
+
+// In-memory adapter that lets a test slip in pushes from "another device"
+const createMemoryAdapter = (initial: SyncEnvelope | null = null) => {
+  let stored = initial;
+  const beforePush = vi.fn();
+
+  const adapter: SyncAdapter = {
+    name: 'memory',
+    async pull() {
+      return stored;
+    },
+    async push(request) {
+      beforePush();
+      if ((stored?.revision ?? 0) !== request.baseRevision) {
+        return { ok: false, conflict: stored! };
+      }
+      stored = { data: request.data, revision: request.baseRevision + 1, updatedAt: request.updatedAt, deviceId: request.deviceId };
+      return { ok: true, envelope: stored };
+    }
+  };
+
+  return {
+    adapter,
+    beforePush,
+    get stored() {
+      return stored;
+    },
+    set stored(next) {
+      stored = next;
+    }
+  };
+};
+
+describe('syncSaveData', () => {
+  it('uploads the local save when the service has nothing yet', async () => {
+    const memory = createMemoryAdapter();
+    const local = save(d => { d.games.metris.highScore = 100; });
+
+    const result = await syncSaveData(memory.adapter, local, createSyncState(), 1000);
+
+    expect(result.data).toBe(local);
+    expect(result.state).toMatchObject({ revision: 1, lastSyncedAt: 1000, base: local });
+    expect(memory.stored?.revision).toBe(1);
+  });
+
+  it('re-merges against the winning push after a conflict', async () => {
+    const remote = save(d => { d.games.metris.highScore = 300; });
+    const memory = createMemoryAdapter({ data: remote, revision: 1, updatedAt: 1, deviceId: 'other' });
+
+    // Another device pushes between our pull and our push
+    memory.beforePush.mockImplementationOnce(() => {
+      const raced = save(d => { d.games.metris.highScore = 900; d.games.vortexPong.highScore = 50; });
+      memory.stored = { data: raced, revision: 2, updatedAt: 2, deviceId: 'other' };
+    });
+
+    const local = save(d => { d.games.snakeClassic.highScore = 70; });
+    const result = await syncSaveData(memory.adapter, local, createSyncState());
+
+    expect(memory.beforePush).toHaveBeenCalledTimes(2);
+    expect(result.state.revision).toBe(3);
+    expect(result.data.games.metris.highScore).toBe(900);
+    expect(result.data.games.vortexPong.highScore).toBe(50);
+    expect(result.data.games.snakeClassic.highScore).toBe(70);
+  });
+
+  it('repairs a bad remote save before merging and flags only what needed repair', async () => {
+    const remote = save(d => {
+      d.games.metris.highScore = 400;
+      d.games.vortexPong.highScore = -50;
+    });
+    const memory = createMemoryAdapter({ data: remote, revision: 1, updatedAt: 1, deviceId: 'other' });
+
+    const result = await syncSaveData(memory.adapter, save(() => {}), createSyncState());
+
+    expect(result.data.games.metris).toMatchObject({ highScore: 400 });
+    expect(result.data.games.metris.modified).toBeUndefined();
+    expect(result.data.games.vortexPong).toMatchObject({ highScore: 0, modified: true });
+    expect(result.data.globalStats.modified).toBeUndefined();
+  });
+
+  it('rejects a remote save beyond repair without pushing', async () => {
+    const memory = createMemoryAdapter({ data: 'not a save', revision: 1, updatedAt: 1, deviceId: 'other' });
+
+    await expect(syncSaveData(memory.adapter, save(() => {}), createSyncState())).rejects.toThrow('Remote save rejected');
+    expect(memory.beforePush).not.toHaveBeenCalled();
+  });
+
+  it('gives up after repeated conflicts', async () => {
+    const memory = createMemoryAdapter({ data: save(() => {}), revision: 1, updatedAt: 1, deviceId: 'other' });
+    memory.beforePush.mockImplementation(() => {
+      memory.stored = { ...memory.stored!, revision: memory.stored!.revision + 1 };
+    });
+
+    await expect(syncSaveData(memory.adapter, save(() => {}), createSyncState())).rejects.toThrow('conflicted');
+    expect(memory.beforePush).toHaveBeenCalledTimes(MAX_SYNC_ATTEMPTS);
+  });
+});
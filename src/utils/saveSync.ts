@@ -0,0 +1,314 @@
+import { migrateSaveData, SAVE_VERSION } from './saveSchema';
+import { isMaxCounterKey, type CounterSet } from './achievementEngine';
+import { mergeHighScoreTables } from './highScores';
+import { RECENT_RUNS_SIZE, favoriteGameTitle } from './playerStats';
+import { repairSaveData } from './saveValidation';
+import { markModified } from './saveIntegrity';
+import type { AchievementUnlock, ChallengeCompletion, GameSaveData, GameStats, GlobalSaveData, RunRecord } from '../types/save';
+
+// ============================================================================
+// SAVE SYNC
+// Keeps one save in step across devices through a pluggable adapter. Both
+// sides are merged rather than one overwriting the other: best scores keep
+// the maximum, achievements are unioned and counters such as play time add
+// up what each device played since the last sync.
+// ============================================================================
+
+export const MAX_SYNC_ATTEMPTS = 3;
+
+// A save as held by the sync service
+export interface SyncEnvelope {
+  data: unknown;              // Raw GlobalSaveData, migrated before merging
+  revision: number;           // Bumped by the service on every accepted push
+  updatedAt: number;
+  deviceId: string;
+}
+
+export interface SyncPushRequest {
+  data: GlobalSaveData;
+  baseRevision: number;       // Revision this push was merged against (0 = none)
+  deviceId: string;
+  updatedAt: number;
+}
+
+// A push is rejected when another device pushed since our pull
+export type SyncPushResult =
+  | { ok: true; envelope: SyncEnvelope }
+  | { ok: false; conflict: SyncEnvelope };
+
+export interface SyncAdapter {
+  readonly name: string;
+  pull(): Promise<SyncEnvelope | null>;
+  push(request: SyncPushRequest): Promise<SyncPushResult>;
+  // Overrides mergeSaves for services with their own conflict rules
+  merge?(local: GlobalSaveData, remote: GlobalSaveData, base: GlobalSaveData | null): GlobalSaveData;
+}
+
+// What this device remembers about the last successful sync
+export interface SyncState {
+  saveId: string;
+  deviceId: string;
+  revision: number;
+  lastSyncedAt: number | null;
+  base: GlobalSaveData | null;    // The merged save as of the last sync
+}
+
+export const createSyncId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSyncState = (): SyncState => ({
+  saveId: createSyncId('save'),
+  deviceId: createSyncId('device'),
+  revision: 0,
+  lastSyncedAt: null,
+  base: null
+});
+
+// Stats that record a personal best rather than a running total
+const isBestStat = (stat: string) => /^(best|longest|max|highest)/.test(stat);
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+// Each side's growth since the base is kept, so nothing is counted twice
+const addCounters = (local: number, remote: number, base: number) =>
+  Math.max(local + remote - base, local, remote);
+
+const mergeStats = (local: GameStats, remote: GameStats, base: GameStats | undefined): GameStats => {
+  const merged: GameStats = { ...remote, ...local };
+
+  Object.keys(merged).forEach(stat => {
+    const a = local[stat];
+    const b = remote[stat];
+
+    if (typeof a === 'number' && typeof b === 'number') {
+      const baseValue = base?.[stat];
+      merged[stat] = isBestStat(stat)
+        ? Math.max(a, b)
+        : addCounters(a, b, typeof baseValue === 'number' ? baseValue : 0);
+    }
+  });
+
+  return merged;
+};
+
+// Achievement counters follow the same rules: bests keep the maximum, tallies add up
+const mergeCounters = (
+  local: CounterSet | undefined,
+  remote: CounterSet | undefined,
+  base: CounterSet | undefined
+): { counters?: CounterSet } => {
+  if (!local && !remote) return {};
+
+  const merged: CounterSet = { ...remote, ...local };
+  Object.keys(merged).forEach(key => {
+    const a = local?.[key] ?? 0;
+    const b = remote?.[key] ?? 0;
+    merged[key] = isMaxCounterKey(key) ? Math.max(a, b) : addCounters(a, b, base?.[key] ?? 0);
+  });
+
+  return { counters: merged };
+};
+
+// Progress is a best-so-far per achievement
+const mergeProgress = (
+  local: Record<string, number> | undefined,
+  remote: Record<string, number> | undefined
+): { achievementProgress?: Record<string, number> } => {
+  if (!local && !remote) return {};
+
+  const merged = { ...remote, ...local };
+  Object.keys(merged).forEach(id => {
+    merged[id] = Math.max(local?.[id] ?? 0, remote?.[id] ?? 0);
+  });
+
+  return { achievementProgress: merged };
+};
+
+// An achievement was first earned on whichever device got it earliest
+const mergeUnlocks = (
+  local: Record<string, AchievementUnlock> | undefined,
+  remote: Record<string, AchievementUnlock> | undefined
+): { unlocks?: Record<string, AchievementUnlock> } => {
+  if (!local && !remote) return {};
+
+  const merged = { ...remote, ...local };
+  Object.keys(merged).forEach(id => {
+    const a = local?.[id];
+    const b = remote?.[id];
+    if (a && b) merged[id] = b.unlockedAt < a.unlockedAt ? b : a;
+  });
+
+  return { unlocks: merged };
+};
+
+// Challenges completed on either device count; the earliest completion is kept
+const mergeChallenges = (
+  local: GlobalSaveData['challenges'],
+  remote: GlobalSaveData['challenges']
+): Pick<GlobalSaveData, 'challenges'> => {
+  if (!local && !remote) return {};
+
+  const completed: Record<string, ChallengeCompletion> = { ...remote?.completed, ...local?.completed };
+  Object.keys(completed).forEach(key => {
+    const a = local?.completed[key];
+    const b = remote?.completed[key];
+    if (a && b) completed[key] = b.completedAt < a.completedAt ? b : a;
+  });
+
+  return { challenges: { completed } };
+};
+
+// Runs from both devices, oldest first; a run already on both sides is kept once
+const mergeRecentRuns = (local: RunRecord[] | undefined, remote: RunRecord[] | undefined): Pick<GameSaveData, 'recentRuns'> => {
+  if (!local && !remote) return {};
+
+  const runs = new Map([...(remote ?? []), ...(local ?? [])].map(run => [`${run.date}:${run.score}`, run]));
+  return { recentRuns: [...runs.values()].sort((a, b) => a.date - b.date).slice(-RECENT_RUNS_SIZE) };
+};
+
+// Each day's play time per game adds up like any other counter
+const mergeDailyPlayTime = (
+  local: GlobalSaveData['globalStats']['dailyPlayTime'],
+  remote: GlobalSaveData['globalStats']['dailyPlayTime'],
+  base: GlobalSaveData['globalStats']['dailyPlayTime']
+): Pick<GlobalSaveData['globalStats'], 'dailyPlayTime'> => {
+  if (!local && !remote) return {};
+
+  const days = Object.keys({ ...remote, ...local });
+  return {
+    dailyPlayTime: Object.fromEntries(days.map(day => {
+      const games = { ...remote?.[day], ...local?.[day] };
+      (Object.keys(games) as (keyof typeof games)[]).forEach(gameId => {
+        games[gameId] = addCounters(local?.[day]?.[gameId] ?? 0, remote?.[day]?.[gameId] ?? 0, base?.[day]?.[gameId] ?? 0);
+      });
+      return [day, games];
+    }))
+  };
+};
+
+const mergeGame = (local: GameSaveData, remote: GameSaveData, base: GameSaveData | undefined): GameSaveData => {
+  const localIsNewer = local.lastPlayed >= remote.lastPlayed;
+
+  return {
+    ...(localIsNewer ? remote : local),
+    ...(localIsNewer ? local : remote),
+    highScore: Math.max(local.highScore, remote.highScore),
+    level: Math.max(local.level, remote.level),
+    achievements: union(local.achievements, remote.achievements),
+    stats: mergeStats(local.stats, remote.stats, base?.stats),
+    lastPlayed: Math.max(local.lastPlayed, remote.lastPlayed),
+    ...mergeCounters(local.counters, remote.counters, base?.counters),
+    ...mergeProgress(local.achievementProgress, remote.achievementProgress),
+    ...mergeUnlocks(local.unlocks, remote.unlocks),
+    ...(local.highScores || remote.highScores ? { highScores: mergeHighScoreTables(local.highScores, remote.highScores) } : {}),
+    ...mergeRecentRuns(local.recentRuns, remote.recentRuns),
+    ...(local.endingsSeen || remote.endingsSeen ? { endingsSeen: union(local.endingsSeen ?? [], remote.endingsSeen ?? []) } : {}),
+    ...(local.modified || remote.modified ? { modified: true } : {})
+  };
+};
+
+/**
+ * Default conflict resolution. `base` is the save both sides last agreed on;
+ * without one, each side's counters are assumed to be separate play.
+ */
+export const mergeSaves = (
+  local: GlobalSaveData,
+  remote: GlobalSaveData,
+  base: GlobalSaveData | null = null
+): GlobalSaveData => {
+  const games = { ...remote.games, ...local.games };
+  (Object.keys(games) as (keyof GlobalSaveData['games'])[]).forEach(key => {
+    if (local.games[key] && remote.games[key]) {
+      games[key] = mergeGame(local.games[key], remote.games[key], base?.games[key]);
+    }
+  });
+
+  const firstPlayDates = [local.globalStats.firstPlayDate, remote.globalStats.firstPlayDate].filter(date => date > 0);
+  const modified = local.globalStats.modified || remote.globalStats.modified;
+
+  return {
+    ...local,
+    version: SAVE_VERSION,
+    games,
+    ...mergeChallenges(local.challenges, remote.challenges),
+    globalStats: {
+      ...local.globalStats,
+      totalPlayTime: addCounters(
+        local.globalStats.totalPlayTime,
+        remote.globalStats.totalPlayTime,
+        base?.globalStats.totalPlayTime ?? 0
+      ),
+      // Play time from both devices may change which game is played most
+      favoriteGame: favoriteGameTitle({ games }) || local.globalStats.favoriteGame || remote.globalStats.favoriteGame,
+      globalAchievements: union(local.globalStats.globalAchievements, remote.globalStats.globalAchievements),
+      firstPlayDate: firstPlayDates.length > 0 ? Math.min(...firstPlayDates) : local.globalStats.firstPlayDate,
+      ...mergeCounters(local.globalStats.counters, remote.globalStats.counters, base?.globalStats.counters),
+      ...mergeProgress(local.globalStats.achievementProgress, remote.globalStats.achievementProgress),
+      ...mergeUnlocks(local.globalStats.unlocks, remote.globalStats.unlocks),
+      ...mergeDailyPlayTime(local.globalStats.dailyPlayTime, remote.globalStats.dailyPlayTime, base?.globalStats.dailyPlayTime),
+      ...(modified ? { modified: true } : {})
+    }
+  };
+};
+
+// Whatever the service returns is checked and repaired like an imported file. Only
+// the games (and global stats) that needed repair are marked as modified; play from
+// another device that validates is taken as it is. A save beyond repair fails the sync.
+const repairRemote = (raw: unknown): GlobalSaveData => {
+  const { data, report } = repairSaveData(raw);
+  if (report.fatal) {
+    throw new Error(`Remote save rejected: ${report.fatal}`);
+  }
+
+  // Filling in a missing game is a default, not a sign of tampering
+  const repaired = report.issues.filter(issue => issue.repair !== 'fill').map(issue => issue.path);
+  const modifiedGames = [...new Set(repaired.flatMap(path => /^games\.(\w+)/.exec(path)?.[1] ?? []))];
+  const globalModified = repaired.some(path => path.startsWith('globalStats'));
+
+  return markModified(data, {
+    status: modifiedGames.length > 0 || globalModified ? 'modified' : 'verified',
+    modifiedGames,
+    globalModified
+  });
+};
+
+export interface SyncResult {
+  data: GlobalSaveData;
+  state: SyncState;
+}
+
+/**
+ * Pulls the remote save, merges it with `local` and pushes the result.
+ * A push that loses a race is re-merged against the winner and retried.
+ * Network failures reject; the local save is never touched here.
+ */
+export const syncSaveData = async (
+  adapter: SyncAdapter,
+  local: GlobalSaveData,
+  state: SyncState,
+  now = Date.now()
+): Promise<SyncResult> => {
+  const merge = adapter.merge ?? mergeSaves;
+  const base = state.base ? migrateSaveData(state.base).data : null;
+  let remote = await adapter.pull();
+
+  for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+    const data = remote ? merge(local, repairRemote(remote.data), base) : local;
+    const result = await adapter.push({
+      data,
+      baseRevision: remote?.revision ?? 0,
+      deviceId: state.deviceId,
+      updatedAt: now
+    });
+
+    if (result.ok) {
+      return {
+        data,
+        state: { ...state, revision: result.envelope.revision, lastSyncedAt: now, base: data }
+      };
+    }
+    remote = result.conflict;
+  }
+
+  throw new Error(`Save sync conflicted ${MAX_SYNC_ATTEMPTS} times in a row`);
+};
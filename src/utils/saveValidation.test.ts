@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_SCORE, repairSaveData, validateSaveData, diffSaveData } from './saveValidation';
+import { SAVE_VERSION, LEGACY_SAVE_VERSION, createDefaultGlobalSave } from './saveSchema';
+import { GAME_SAVE_KEYS } from '../data/gameRegistry';
+
+const NOW = 1_800_000_000_000;
+
+// A save as it might arrive in a file, so tests can write malformed values into it
+interface RawSaveFixture {
+  [field: string]: unknown;
+  games: Record<string, Record<string, unknown>>;
+  globalStats: Record<string, unknown>;
+}
+
+const createValidSave = () => {
+  const save = createDefaultGlobalSave() as unknown as RawSaveFixture;
+  save.globalStats.firstPlayDate = NOW - 1000;
+  GAME_SAVE_KEYS.forEach(key => {
+    save.games[key].lastPlayed = NOW - 1000;
+  });
+  return save;
+};
+
+describe('repairSaveData', () => {
+  it('accepts a well-formed save without issues', () => {
+    const { report, data } = repairSaveData(createValidSave(), NOW);
+
+    expect(report.valid).toBe(true);
+    expect(report.fatal).toBeNull();
+    expect(report.issues).toEqual([]);
+    expect(data.version).toBe(SAVE_VERSION);
+  });
+
+  it('rejects files that are not save objects', () => {
+    expect(validateSaveData('not a save', NOW).fatal).toBeTruthy();
+    expect(validateSaveData(null, NOW).fatal).toBeTruthy();
+    expect(validateSaveData({ version: SAVE_VERSION }, NOW).fatal).toBe('File has no game data');
+  });
+
+  it('clamps out-of-range scores and levels', () => {
+    const save = createValidSave();
+    save.games.snakeClassic.highScore = -50;
+    save.games.metris.highScore = MAX_SCORE * 10;
+    save.games.metris.level = 2.5;
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(issue => issue.path)).toEqual(
+      expect.arrayContaining(['games.snakeClassic.highScore', 'games.metris.highScore', 'games.metris.level'])
+    );
+    expect(data.games.snakeClassic.highScore).toBe(0);
+    expect(data.games.metris.highScore).toBe(MAX_SCORE);
+    expect(data.games.metris.level).toBe(2);
+  });
+
+  it('resets values of the wrong type', () => {
+    const save = createValidSave();
+    save.games.vortexPong.highScore = 'lots';
+    save.games.vortexPong.stats = 'broken';
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.issues.filter(issue => issue.repair === 'reset')).toHaveLength(2);
+    expect(data.games.vortexPong.highScore).toBe(0);
+    expect(data.games.vortexPong.stats.gamesPlayed).toBe(0);
+  });
+
+  it('drops unknown and duplicate achievement ids', () => {
+    const save = createValidSave();
+    save.games.metris.achievements = ['first_line', 'made_up', 'first_line'];
+    save.globalStats.globalAchievements = ['global_first_game', 'global_hacker'];
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.issues.every(issue => issue.repair === 'drop')).toBe(true);
+    expect(report.issues).toHaveLength(3);
+    expect(data.games.metris.achievements).toEqual(['first_line']);
+    expect(data.globalStats.globalAchievements).toEqual(['global_first_game']);
+  });
+
+  it('drops high score rows that could not have been recorded', () => {
+    const save = createValidSave();
+    save.games.metris.highScores = {
+      standard: [
+        { initials: 'NEO', score: 100, durationSeconds: 10, date: 1 },
+        { initials: 'HACKER', score: 999, durationSeconds: 10, date: 1 },
+        { initials: 'TRN', score: 500, durationSeconds: 10, date: NOW + 1 }
+      ]
+    };
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.issues.map(issue => issue.path)).toEqual([
+      'games.metris.highScores.standard[1]',
+      'games.metris.highScores.standard[2]'
+    ]);
+    expect(data.games.metris.highScores?.standard).toEqual([{ initials: 'NEO', score: 100, durationSeconds: 10, date: 1 }]);
+  });
+
+  it('fills missing games and drops unknown ones', () => {
+    const save = createValidSave();
+    delete save.games.terminalQuest;
+    save.games.pacman = { highScore: 1 };
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ path: 'games.terminalQuest', repair: 'fill' }),
+      expect.objectContaining({ path: 'games.pacman', repair: 'drop' })
+    ]);
+    expect(data.games.terminalQuest.highScore).toBe(0);
+    expect(data.games).not.toHaveProperty('pacman');
+  });
+
+  it('migrates older saves before validating them', () => {
+    const save = createValidSave();
+    delete save.version;
+    delete save.games.terminalQuest;
+    GAME_SAVE_KEYS.filter(key => key !== 'terminalQuest').forEach(key => {
+      const { stats, ...game } = save.games[key];
+      const { gamesPlayed, totalScore } = stats as Record<string, unknown>;
+      save.games[key] = { ...game, gamesPlayed, totalScore };
+    });
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.fromVersion).toBe(LEGACY_SAVE_VERSION);
+    expect(report.valid).toBe(true);
+    expect(data.version).toBe(SAVE_VERSION);
+  });
+
+  it('drops achievement counters and progress that are not non-negative numbers', () => {
+    const save = createValidSave();
+    save.games.metris.counters = { linesCleared: 40, piecesPlaced: -3, runs: 'many' };
+    save.games.metris.achievementProgress = { first_line: 1, made_up: 5 };
+    save.globalStats.counters = 'lots';
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.issues.map(issue => issue.path)).toEqual([
+      'games.metris.counters.piecesPlaced',
+      'games.metris.counters.runs',
+      'games.metris.achievementProgress.made_up',
+      'globalStats.counters'
+    ]);
+    expect(data.games.metris.counters).toEqual({ linesCleared: 40 });
+    expect(data.games.metris.achievementProgress).toEqual({ first_line: 1 });
+    expect(data.globalStats.counters).toBeUndefined();
+  });
+
+  it('drops unlock records for unknown achievements or with impossible values', () => {
+    const save = createValidSave();
+    save.games.metris.unlocks = {
+      first_line: { unlockedAt: NOW - 10, sessionId: 'session-1', gameId: 'metris', score: 100 },
+      made_up: { unlockedAt: NOW - 10, sessionId: 'session-1' },
+      tetris: { unlockedAt: NOW + 1, sessionId: 'session-1' }
+    };
+    save.globalStats.unlocks = { global_first_game: { unlockedAt: NOW - 10, sessionId: 7 } };
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.issues.map(issue => issue.path)).toEqual([
+      'games.metris.unlocks.made_up',
+      'games.metris.unlocks.tetris',
+      'globalStats.unlocks.global_first_game'
+    ]);
+    expect(Object.keys(data.games.metris.unlocks ?? {})).toEqual(['first_line']);
+    expect(data.globalStats.unlocks).toEqual({});
+  });
+
+  it('drops completed challenges that are not valid records', () => {
+    const save = createValidSave();
+    save.challenges = {
+      completed: {
+        'daily-2027-01-15:metris': { completedAt: NOW - 10, gameId: 'metris', period: 'daily', periodKey: '2027-01-15' },
+        'daily-2027-01-15:pacman': { completedAt: NOW - 10, gameId: 'pacman', period: 'daily', periodKey: '2027-01-15' },
+        'yearly-2027:metris': { completedAt: NOW - 10, gameId: 'metris', period: 'yearly', periodKey: '2027' }
+      }
+    };
+
+    const { report, data } = repairSaveData(save, NOW);
+
+    expect(report.issues.map(issue => issue.path)).toEqual([
+      'challenges.completed.daily-2027-01-15:pacman',
+      'challenges.completed.yearly-2027:metris'
+    ]);
+    expect(Object.keys(data.challenges?.completed ?? {})).toEqual(['daily-2027-01-15:metris']);
+  });
+
+  it('drops challenge data that is not a record of completions', () => {
+    const save = createValidSave();
+    save.challenges = ['daily-2027-01-15:metris'];
+
+    const { report } = repairSaveData(save, NOW);
+
+    expect(report.issues).toEqual([expect.objectContaining({ path: 'challenges', repair: 'drop' })]);
+  });
+
+  it('does not modify the input', () => {
+    const save = createValidSave();
+    save.games.snakeClassic.highScore = -1;
+    const snapshot = JSON.stringify(save);
+
+    repairSaveData(save, NOW);
+
+    expect(JSON.stringify(save)).toBe(snapshot);
+  });
+});
+
+describe('diffSaveData', () => {
+  it('lists only the fields that change', () => {
+    const current = createDefaultGlobalSave();
+    const incoming = createDefaultGlobalSave();
+    incoming.games.metris.highScore = 9000;
+    incoming.games.metris.achievements = ['first_line'];
+
+    expect(diffSaveData(current, incoming)).toEqual([
+      { path: 'games.metris.highScore', label: 'Metris high score', before: 0, after: 9000 },
+      { path: 'games.metris.achievements', label: 'Metris achievements', before: 0, after: 1 }
+    ]);
+  });
+
+  it('returns nothing for identical saves', () => {
+    const save = createDefaultGlobalSave();
+    expect(diffSaveData(save, save)).toEqual([]);
+  });
+});
@@ -0,0 +1,470 @@
+import { GAME_ACHIEVEMENTS, GAME_SAVE_KEYS, getGameBySaveKey, isGameSaveKey } from '../data/gameRegistry';
+import { GLOBAL_ACHIEVEMENTS } from '../data/achievements';
+import { INPUT_ACTIONS, MAX_KEYS_PER_ACTION } from '../data/inputBindings';
+import { createDefaultGameSave, isRecord, mergeWithDefaults, runMigrations, type RawSave } from './saveSchema';
+import { HIGH_SCORE_TABLE_SIZE, normaliseInitials, sortHighScores } from './highScores';
+import { RECENT_RUNS_SIZE } from './playerStats';
+import type { AchievementUnlock, ChallengeCompletion, GlobalSaveData, HighScoreEntry, RunRecord } from '../types/save';
+import type { InputAction } from '../types/input';
+
+// ============================================================================
+// SAVE VALIDATION
+// Structural checks for save files coming from outside the app (imports),
+// with an optional repair pass that fixes what can be fixed safely.
+// ============================================================================
+
+export const MAX_SCORE = 100_000_000;
+export const MAX_LEVEL = 999;
+
+export type SaveRepairAction = 'clamp' | 'drop' | 'fill' | 'reset';
+
+export interface SaveValidationIssue {
+  path: string;
+  message: string;
+  repair: SaveRepairAction;
+}
+
+export interface SaveValidationReport {
+  valid: boolean;
+  fatal: string | null;      // Set when the file cannot be repaired at all
+  issues: SaveValidationIssue[];
+  fromVersion: string;
+}
+
+export interface SaveRepairResult {
+  data: GlobalSaveData;
+  report: SaveValidationReport;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Validates (and, when repair is set, fixes in place) a number field
+const checkNumber = (
+  target: RawSave,
+  key: string,
+  path: string,
+  issues: SaveValidationIssue[],
+  { min, max, fallback, integer = false }: { min: number; max: number; fallback: number; integer?: boolean }
+) => {
+  const value = target[key];
+  if (!isFiniteNumber(value)) {
+    issues.push({ path, message: `expected a number, got ${JSON.stringify(value) ?? 'undefined'}`, repair: 'reset' });
+    target[key] = fallback;
+    return;
+  }
+  if (integer && !Number.isInteger(value)) {
+    issues.push({ path, message: `expected a whole number, got ${value}`, repair: 'clamp' });
+    target[key] = Math.floor(value);
+  }
+  const current = target[key] as number;
+  if (current < min || current > max) {
+    issues.push({ path, message: `${current} is outside ${min}–${max}`, repair: 'clamp' });
+    target[key] = clamp(current, min, max);
+  }
+};
+
+// Validates an achievement id list against the known ids
+const checkAchievementList = (
+  target: RawSave,
+  key: string,
+  path: string,
+  knownIds: Set<string>,
+  issues: SaveValidationIssue[]
+) => {
+  const value = target[key];
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'expected a list of achievement ids', repair: 'reset' });
+    target[key] = [];
+    return;
+  }
+
+  const seen = new Set<string>();
+  target[key] = value.filter((id, index) => {
+    if (typeof id !== 'string' || !knownIds.has(id)) {
+      issues.push({ path: `${path}[${index}]`, message: `unknown achievement ${JSON.stringify(id)}`, repair: 'drop' });
+      return false;
+    }
+    if (seen.has(id)) {
+      issues.push({ path: `${path}[${index}]`, message: `duplicate achievement "${id}"`, repair: 'drop' });
+      return false;
+    }
+    seen.add(id);
+    return true;
+  });
+};
+
+// Achievement counters and progress are non-negative numbers; progress is keyed by known achievement ids
+const checkNumberMap = (
+  target: RawSave,
+  key: string,
+  path: string,
+  issues: SaveValidationIssue[],
+  knownIds?: Set<string>
+) => {
+  const value = target[key];
+  if (value === undefined) return;
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'expected numbers by name', repair: 'drop' });
+    delete target[key];
+    return;
+  }
+
+  target[key] = Object.fromEntries(Object.entries(value).filter(([name, count]) => {
+    const valid = isFiniteNumber(count) && count >= 0 && count <= Number.MAX_SAFE_INTEGER &&
+      (!knownIds || knownIds.has(name));
+    if (!valid) {
+      issues.push({ path: `${path}.${name}`, message: `not a valid count for ${JSON.stringify(name)}`, repair: 'drop' });
+    }
+    return valid;
+  }));
+};
+
+// Unlock records must be for known achievements and earned in the past
+const checkUnlocks = (target: RawSave, path: string, knownIds: Set<string>, issues: SaveValidationIssue[], now: number) => {
+  const unlocks = target.unlocks;
+  if (unlocks === undefined) return;
+  if (!isRecord(unlocks)) {
+    issues.push({ path, message: 'expected unlock records by achievement', repair: 'drop' });
+    delete target.unlocks;
+    return;
+  }
+
+  target.unlocks = Object.fromEntries(Object.entries(unlocks).filter((entry): entry is [string, AchievementUnlock] => {
+    const [id, unlock] = entry;
+    const valid = knownIds.has(id) && isRecord(unlock) &&
+      isFiniteNumber(unlock.unlockedAt) && unlock.unlockedAt >= 0 && unlock.unlockedAt <= now &&
+      typeof unlock.sessionId === 'string' &&
+      (unlock.gameId === undefined || (typeof unlock.gameId === 'string' && isGameSaveKey(unlock.gameId))) &&
+      (unlock.runId === undefined || typeof unlock.runId === 'string') &&
+      (unlock.runStartedAt === undefined || (isFiniteNumber(unlock.runStartedAt) && unlock.runStartedAt >= 0)) &&
+      (unlock.score === undefined || (isFiniteNumber(unlock.score) && unlock.score >= 0 && unlock.score <= MAX_SCORE));
+    if (!valid) {
+      issues.push({ path: `${path}.${id}`, message: 'not a valid unlock record', repair: 'drop' });
+    }
+    return valid;
+  }));
+};
+
+// Completed challenges must name a known game, a period and when they were beaten
+const checkChallenges = (data: RawSave, issues: SaveValidationIssue[], now: number) => {
+  const challenges = data.challenges;
+  if (challenges === undefined) return;
+  if (!isRecord(challenges) || !isRecord(challenges.completed)) {
+    issues.push({ path: 'challenges', message: 'expected completed challenges by key', repair: 'drop' });
+    delete data.challenges;
+    return;
+  }
+
+  const completed = Object.entries(challenges.completed).filter((entry): entry is [string, ChallengeCompletion] => {
+    const [key, completion] = entry;
+    const valid = isRecord(completion) &&
+      isFiniteNumber(completion.completedAt) && completion.completedAt >= 0 && completion.completedAt <= now &&
+      typeof completion.gameId === 'string' && isGameSaveKey(completion.gameId) &&
+      (completion.period === 'daily' || completion.period === 'weekly') &&
+      typeof completion.periodKey === 'string';
+    if (!valid) {
+      issues.push({ path: `challenges.completed.${key}`, message: 'not a valid challenge completion', repair: 'drop' });
+    }
+    return valid;
+  });
+  data.challenges = { ...challenges, completed: Object.fromEntries(completed) };
+};
+
+// Drops table rows that aren't runs the arcade could have recorded; keeps the best ten in order
+const checkHighScores = (game: RawSave, path: string, issues: SaveValidationIssue[], now: number) => {
+  const tables = game.highScores;
+  if (tables === undefined) return;
+  if (!isRecord(tables)) {
+    issues.push({ path, message: 'expected high score tables by mode', repair: 'drop' });
+    delete game.highScores;
+    return;
+  }
+
+  game.highScores = Object.fromEntries(Object.entries(tables).map(([mode, table]) => {
+    const tablePath = `${path}.${mode}`;
+    if (!Array.isArray(table)) {
+      issues.push({ path: tablePath, message: 'expected a list of high scores', repair: 'reset' });
+      return [mode, []];
+    }
+
+    const entries = table.filter((entry, index): entry is HighScoreEntry => {
+      const valid = isRecord(entry) &&
+        typeof entry.initials === 'string' && normaliseInitials(entry.initials) === entry.initials &&
+        isFiniteNumber(entry.score) && entry.score >= 0 && entry.score <= MAX_SCORE &&
+        isFiniteNumber(entry.durationSeconds) && entry.durationSeconds >= 0 &&
+        isFiniteNumber(entry.date) && entry.date >= 0 && entry.date <= now;
+      if (!valid) {
+        issues.push({ path: `${tablePath}[${index}]`, message: 'not a valid high score entry', repair: 'drop' });
+      }
+      return valid;
+    });
+    if (entries.length > HIGH_SCORE_TABLE_SIZE) {
+      issues.push({ path: tablePath, message: `more than ${HIGH_SCORE_TABLE_SIZE} entries`, repair: 'drop' });
+    }
+    return [mode, sortHighScores(entries)];
+  }));
+};
+
+// Drops runs with impossible numbers and keeps the most recent ones
+const checkRecentRuns = (game: RawSave, path: string, issues: SaveValidationIssue[], now: number) => {
+  const runs = game.recentRuns;
+  if (runs === undefined) return;
+  if (!Array.isArray(runs)) {
+    issues.push({ path, message: 'expected a list of runs', repair: 'drop' });
+    delete game.recentRuns;
+    return;
+  }
+
+  game.recentRuns = runs.filter((run, index): run is RunRecord => {
+    const valid = isRecord(run) &&
+      isFiniteNumber(run.score) && run.score >= 0 && run.score <= MAX_SCORE &&
+      isFiniteNumber(run.durationSeconds) && run.durationSeconds >= 0 &&
+      isFiniteNumber(run.date) && run.date >= 0 && run.date <= now;
+    if (!valid) {
+      issues.push({ path: `${path}[${index}]`, message: 'not a valid run', repair: 'drop' });
+    }
+    return valid;
+  }).slice(-RECENT_RUNS_SIZE);
+};
+
+// Play time per day must be a non-negative number of milliseconds for a known game
+const checkDailyPlayTime = (globalStats: RawSave, issues: SaveValidationIssue[]) => {
+  const days = globalStats.dailyPlayTime;
+  if (days === undefined) return;
+  if (!isRecord(days)) {
+    issues.push({ path: 'globalStats.dailyPlayTime', message: 'expected play time by day', repair: 'drop' });
+    delete globalStats.dailyPlayTime;
+    return;
+  }
+
+  globalStats.dailyPlayTime = Object.fromEntries(Object.entries(days).flatMap(([day, games]) => {
+    const dayPath = `globalStats.dailyPlayTime.${day}`;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || !isRecord(games)) {
+      issues.push({ path: dayPath, message: 'expected play time by game for a YYYY-MM-DD day', repair: 'drop' });
+      return [];
+    }
+    const times = Object.entries(games).filter(([gameId, time]) => {
+      const valid = isGameSaveKey(gameId) && isFiniteNumber(time) && time >= 0;
+      if (!valid) {
+        issues.push({ path: `${dayPath}.${gameId}`, message: 'not a valid play time', repair: 'drop' });
+      }
+      return valid;
+    });
+    return [[day, Object.fromEntries(times)]];
+  }));
+};
+
+// Remapped keys must be lists of key codes for actions the game actually has
+const checkKeyBindings = (settings: RawSave, issues: SaveValidationIssue[]) => {
+  const bindings = settings.keyBindings;
+  if (bindings === undefined) return;
+  if (!isRecord(bindings)) {
+    issues.push({ path: 'settings.keyBindings', message: 'expected key bindings by game', repair: 'drop' });
+    delete settings.keyBindings;
+    return;
+  }
+
+  settings.keyBindings = Object.fromEntries(Object.entries(bindings).flatMap(([gameId, actions]) => {
+    const gamePath = `settings.keyBindings.${gameId}`;
+    if (!isGameSaveKey(gameId) || !isRecord(actions)) {
+      issues.push({ path: gamePath, message: 'expected key bindings for a known game', repair: 'drop' });
+      return [];
+    }
+    const known = new Set(INPUT_ACTIONS[gameId].map(definition => definition.action));
+    const valid = Object.entries(actions).filter(([action, codes]) => {
+      const ok = known.has(action as InputAction) &&
+        Array.isArray(codes) && codes.length <= MAX_KEYS_PER_ACTION && codes.every(code => typeof code === 'string');
+      if (!ok) {
+        issues.push({ path: `${gamePath}.${action}`, message: 'not a valid key binding', repair: 'drop' });
+      }
+      return ok;
+    });
+    return [[gameId, Object.fromEntries(valid)]];
+  }));
+};
+
+// Story endings are a list of ending ids
+const checkEndings = (game: RawSave, path: string, issues: SaveValidationIssue[]) => {
+  const endings = game.endingsSeen;
+  if (endings === undefined) return;
+  if (!Array.isArray(endings)) {
+    issues.push({ path, message: 'expected a list of endings', repair: 'drop' });
+    delete game.endingsSeen;
+    return;
+  }
+  if (!endings.every(ending => typeof ending === 'string')) {
+    issues.push({ path, message: 'expected a list of strings', repair: 'drop' });
+    game.endingsSeen = endings.filter(ending => typeof ending === 'string');
+  }
+};
+
+const checkGameSave = (game: RawSave, saveKey: string, issues: SaveValidationIssue[], now: number) => {
+  const path = `games.${saveKey}`;
+  const knownIds = new Set((GAME_ACHIEVEMENTS[saveKey as keyof typeof GAME_ACHIEVEMENTS] || []).map(a => a.id));
+
+  checkNumber(game, 'highScore', `${path}.highScore`, issues, { min: 0, max: MAX_SCORE, fallback: 0 });
+  checkNumber(game, 'level', `${path}.level`, issues, { min: 1, max: MAX_LEVEL, fallback: 1, integer: true });
+  checkAchievementList(game, 'achievements', `${path}.achievements`, knownIds, issues);
+  checkNumber(game, 'lastPlayed', `${path}.lastPlayed`, issues, { min: 0, max: now, fallback: now });
+  checkHighScores(game, `${path}.highScores`, issues, now);
+  checkRecentRuns(game, `${path}.recentRuns`, issues, now);
+  checkNumberMap(game, 'counters', `${path}.counters`, issues);
+  checkNumberMap(game, 'achievementProgress', `${path}.achievementProgress`, issues, knownIds);
+  checkUnlocks(game, `${path}.unlocks`, knownIds, issues, now);
+  checkEndings(game, `${path}.endingsSeen`, issues);
+
+  if (!isRecord(game.stats)) {
+    issues.push({ path: `${path}.stats`, message: 'expected a stats object', repair: 'reset' });
+    game.stats = createDefaultGameSave().stats;
+    return;
+  }
+
+  const stats = { ...game.stats };
+  game.stats = stats;
+  checkNumber(stats, 'gamesPlayed', `${path}.stats.gamesPlayed`, issues, { min: 0, max: MAX_SCORE, fallback: 0, integer: true });
+  checkNumber(stats, 'totalScore', `${path}.stats.totalScore`, issues, { min: 0, max: Number.MAX_SAFE_INTEGER, fallback: 0 });
+
+  Object.entries(stats).forEach(([key, value]) => {
+    if (key === 'gamesPlayed' || key === 'totalScore') return;
+    if (value !== undefined) {
+      checkNumber(stats, key, `${path}.stats.${key}`, issues, { min: 0, max: Number.MAX_SAFE_INTEGER, fallback: 0 });
+    }
+  });
+};
+
+const collectIssues = (data: RawSave, now: number): SaveValidationIssue[] => {
+  const issues: SaveValidationIssue[] = [];
+  const games = data.games as RawSave;
+
+  GAME_SAVE_KEYS.forEach(saveKey => {
+    const game = games[saveKey];
+    if (game === undefined) {
+      issues.push({ path: `games.${saveKey}`, message: `missing save for ${getGameBySaveKey(saveKey)?.title ?? saveKey}`, repair: 'fill' });
+      games[saveKey] = createDefaultGameSave();
+      return;
+    }
+    if (!isRecord(game)) {
+      issues.push({ path: `games.${saveKey}`, message: 'expected a game save object', repair: 'reset' });
+      games[saveKey] = createDefaultGameSave();
+      return;
+    }
+    const copy = { ...game };
+    games[saveKey] = copy;
+    checkGameSave(copy, saveKey, issues, now);
+  });
+
+  Object.keys(games).forEach(key => {
+    if (!isGameSaveKey(key)) {
+      issues.push({ path: `games.${key}`, message: `unknown game "${key}"`, repair: 'drop' });
+      delete games[key];
+    }
+  });
+
+  if (!isRecord(data.globalStats)) {
+    issues.push({ path: 'globalStats', message: 'expected a global stats object', repair: 'reset' });
+    delete data.globalStats;
+  } else {
+    const globalStats = { ...data.globalStats };
+    data.globalStats = globalStats;
+    const globalIds = new Set(GLOBAL_ACHIEVEMENTS.map(a => a.id));
+    checkNumber(globalStats, 'totalPlayTime', 'globalStats.totalPlayTime', issues, { min: 0, max: Number.MAX_SAFE_INTEGER, fallback: 0 });
+    checkNumber(globalStats, 'firstPlayDate', 'globalStats.firstPlayDate', issues, { min: 0, max: now, fallback: now });
+    checkAchievementList(globalStats, 'globalAchievements', 'globalStats.globalAchievements', globalIds, issues);
+    if (typeof globalStats.favoriteGame !== 'string') {
+      issues.push({ path: 'globalStats.favoriteGame', message: 'expected a game name', repair: 'reset' });
+      globalStats.favoriteGame = '';
+    }
+    checkDailyPlayTime(globalStats, issues);
+    checkNumberMap(globalStats, 'counters', 'globalStats.counters', issues);
+    checkNumberMap(globalStats, 'achievementProgress', 'globalStats.achievementProgress', issues, globalIds);
+    checkUnlocks(globalStats, 'globalStats.unlocks', globalIds, issues, now);
+  }
+
+  if (!isRecord(data.settings)) {
+    issues.push({ path: 'settings', message: 'expected a settings object', repair: 'reset' });
+    delete data.settings;
+  } else {
+    if (typeof data.settings.autoSave !== 'boolean') {
+      issues.push({ path: 'settings.autoSave', message: 'expected true or false', repair: 'reset' });
+      data.settings = { ...data.settings, autoSave: true };
+    }
+    checkKeyBindings(data.settings as RawSave, issues);
+  }
+
+  checkChallenges(data, issues, now);
+
+  return issues;
+};
+
+/**
+ * Checks an untrusted save (e.g. an imported file) and produces a repaired copy.
+ * Older versions are migrated first so only real problems are reported.
+ */
+export const repairSaveData = (raw: unknown, now = Date.now()): SaveRepairResult => {
+  if (!isRecord(raw)) {
+    return {
+      data: mergeWithDefaults({}),
+      report: { valid: false, fatal: 'File does not contain a save object', issues: [], fromVersion: '' }
+    };
+  }
+  if (!isRecord(raw.games)) {
+    return {
+      data: mergeWithDefaults({}),
+      report: { valid: false, fatal: 'File has no game data', issues: [], fromVersion: String(raw.version ?? '') }
+    };
+  }
+
+  const { data: migrated, fromVersion } = runMigrations(raw);
+  const working: RawSave = { ...migrated, games: { ...(migrated.games as RawSave) } };
+  const issues = collectIssues(working, now);
+
+  return {
+    data: mergeWithDefaults(working),
+    report: { valid: issues.length === 0, fatal: null, issues, fromVersion }
+  };
+};
+
+export const validateSaveData = (raw: unknown, now = Date.now()): SaveValidationReport =>
+  repairSaveData(raw, now).report;
+
+export interface SaveDiffEntry {
+  path: string;
+  label: string;
+  before: string | number;
+  after: string | number;
+}
+
+/**
+ * Summarises what would change if `incoming` replaced `current`.
+ */
+export const diffSaveData = (current: GlobalSaveData, incoming: GlobalSaveData): SaveDiffEntry[] => {
+  const entries: SaveDiffEntry[] = [];
+  const push = (path: string, label: string, before: string | number, after: string | number) => {
+    if (before !== after) entries.push({ path, label, before, after });
+  };
+
+  GAME_SAVE_KEYS.forEach(saveKey => {
+    const title = getGameBySaveKey(saveKey)?.title ?? saveKey;
+    const before = current.games[saveKey];
+    const after = incoming.games[saveKey];
+    if (!before || !after) return;
+
+    push(`games.${saveKey}.highScore`, `${title} high score`, before.highScore, after.highScore);
+    push(`games.${saveKey}.level`, `${title} level`, before.level, after.level);
+    push(`games.${saveKey}.achievements`, `${title} achievements`, before.achievements.length, after.achievements.length);
+    push(`games.${saveKey}.stats.gamesPlayed`, `${title} games played`, before.stats.gamesPlayed, after.stats.gamesPlayed);
+  });
+
+  push(
+    'globalStats.globalAchievements',
+    'Global achievements',
+    current.globalStats.globalAchievements.length,
+    incoming.globalStats.globalAchievements.length
+  );
+  push('globalStats.totalPlayTime', 'Total play time', current.globalStats.totalPlayTime, incoming.globalStats.totalPlayTime);
+
+  return entries;
+};
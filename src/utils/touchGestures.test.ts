@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { classifyGesture, dragSteps, stickDirections } from './touchGestures';
+
+describe('touchGestures', () => {
+  it('tells taps from swipes', () => {
+    expect(classifyGesture(3, -4, 120)).toBe('tap');
+    expect(classifyGesture(3, -4, 600)).toBeNull();
+    expect(classifyGesture(10, 90, 150)).toBe('swipeDown');
+    expect(classifyGesture(-80, 20, 150)).toBe('swipeLeft');
+    expect(classifyGesture(0, -70, 150)).toBe('swipeUp');
+  });
+
+  it('ignores drags that are too short or too slow to be a swipe', () => {
+    expect(classifyGesture(30, 0, 100)).toBeNull();
+    expect(classifyGesture(0, 120, 900)).toBeNull();
+  });
+
+  it('counts whole drag steps not yet acted on', () => {
+    expect(dragSteps(70, 0)).toBe(2);
+    expect(dragSteps(70, 2)).toBe(0);
+    expect(dragSteps(-40, 0)).toBe(-1);
+  });
+
+  it('holds the stick\'s directions once pushed past the threshold', () => {
+    expect(stickDirections(5, -5, 56)).toEqual([]);
+    expect(stickDirections(-40, 0, 56)).toEqual(['left']);
+    expect(stickDirections(30, 30, 56)).toEqual(['right', 'down']);
+  });
+});
@@ -0,0 +1,56 @@
+import type { InputAction } from '../types/input';
+
+// ============================================================================
+// TOUCH GESTURES
+// Turns finger movement into the same actions keys press: drags step a piece
+// a cell at a time, short touches are taps and quick flicks are swipes.
+// ============================================================================
+
+// Finger travel for one step of a drag
+export const DRAG_STEP = 32; // px
+
+// A touch that moved less than this and lifted quickly is a tap
+export const TAP_MAX_DISTANCE = 12; // px
+export const TAP_MAX_DURATION = 250; // ms
+
+// A flick has to cover this much ground, mostly in one direction, quickly
+export const SWIPE_MIN_DISTANCE = 48; // px
+export const SWIPE_MAX_DURATION = 300; // ms
+
+// Share of the stick's radius to push before a direction counts
+export const STICK_THRESHOLD = 0.35;
+
+export type Gesture = 'tap' | 'swipeUp' | 'swipeDown' | 'swipeLeft' | 'swipeRight';
+
+/**
+ * What a finger that travelled (dx, dy) over `duration` ms did once lifted,
+ * or null if it was neither a tap nor a clear swipe.
+ */
+export const classifyGesture = (dx: number, dy: number, duration: number): Gesture | null => {
+  const distance = Math.hypot(dx, dy);
+  if (distance < TAP_MAX_DISTANCE) return duration <= TAP_MAX_DURATION ? 'tap' : null;
+  if (distance < SWIPE_MIN_DISTANCE || duration > SWIPE_MAX_DURATION) return null;
+
+  if (Math.abs(dy) > Math.abs(dx)) return dy > 0 ? 'swipeDown' : 'swipeUp';
+  return dx > 0 ? 'swipeRight' : 'swipeLeft';
+};
+
+/**
+ * How many whole drag steps the finger has moved sideways since `consumed`
+ * steps were last acted on. Negative is left.
+ */
+export const dragSteps = (dx: number, consumed: number) => Math.trunc(dx / DRAG_STEP) - consumed;
+
+/**
+ * Directions a thumb-stick pushed (dx, dy) from its centre is held in.
+ * Diagonals hold two directions.
+ */
+export const stickDirections = (dx: number, dy: number, radius: number): InputAction[] => {
+  const threshold = radius * STICK_THRESHOLD;
+  const directions: InputAction[] = [];
+  if (dx <= -threshold) directions.push('left');
+  if (dx >= threshold) directions.push('right');
+  if (dy <= -threshold) directions.push('up');
+  if (dy >= threshold) directions.push('down');
+  return directions;
+};
@@ -1,2 +1,7 @@
 /// <reference types="vite/client" />
 /// <reference types="vite-plugin-pwa/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SYNC_URL?: string;   // Base URL of the save sync service; sync is off when unset
+  readonly VITE_LEADERBOARD_URL?: string;   // Base URL of the shared leaderboard; scores stay local when unset
+}